@@ -0,0 +1,61 @@
+pragma circom 2.0.0;
+
+include "circomlib/circuits/poseidon.circom";
+
+/**
+ * Poseidon Merkle inclusion checker (circomlib 2.x ships none)
+ * Mirrored in the SDK by IncrementalPoseidonTree: node = Poseidon(left, right),
+ * pathIndices[i] = 0 when the level-i node is the left child.
+ */
+
+// Computes Poseidon([left, right])
+template HashLeftRight() {
+    signal input left;
+    signal input right;
+    signal output hash;
+
+    component hasher = Poseidon(2);
+    hasher.inputs[0] <== left;
+    hasher.inputs[1] <== right;
+    hash <== hasher.out;
+}
+
+// if s == 0 returns [in[0], in[1]]
+// if s == 1 returns [in[1], in[0]]
+template DualMux() {
+    signal input in[2];
+    signal input s;
+    signal output out[2];
+
+    s * (1 - s) === 0;
+    out[0] <== (in[1] - in[0])*s + in[0];
+    out[1] <== (in[0] - in[1])*s + in[1];
+}
+
+// Verifies that the Merkle proof is correct for the given root and leaf
+template MerkleTreeChecker(levels) {
+    signal input leaf;
+    signal input root;
+    signal input pathElements[levels];
+    signal input pathIndices[levels];
+
+    component selectors[levels];
+    component hashers[levels];
+
+    for (var i = 0; i < levels; i++) {
+        selectors[i] = DualMux();
+        if (i == 0) {
+            selectors[i].in[0] <== leaf;
+        } else {
+            selectors[i].in[0] <== hashers[i - 1].hash;
+        }
+        selectors[i].in[1] <== pathElements[i];
+        selectors[i].s <== pathIndices[i];
+
+        hashers[i] = HashLeftRight();
+        hashers[i].left <== selectors[i].out[0];
+        hashers[i].right <== selectors[i].out[1];
+    }
+
+    root === hashers[levels - 1].hash;
+}
@@ -0,0 +1,91 @@
+pragma circom 2.0.0;
+
+include "circomlib/circuits/bitify.circom";
+include "circomlib/circuits/comparators.circom";
+include "circomlib/circuits/poseidon.circom";
+include "./merkletree.circom";
+
+/**
+ * min <= value <= max for values of at most `bits` bits
+ * All three are range-checked first: LessEqThan only compares correctly below 2^bits, and
+ * circomlib's LessThan caps bits at 252 so its 2^bits offset stays inside the field.
+ */
+template RangeCheck(bits) {
+    assert(bits > 0 && bits <= 252);
+
+    signal input value;
+    signal input min;
+    signal input max;
+
+    component valueBits = Num2Bits(bits);
+    valueBits.in <== value;
+    component minBits = Num2Bits(bits);
+    minBits.in <== min;
+    component maxBits = Num2Bits(bits);
+    maxBits.in <== max;
+
+    component lower = LessEqThan(bits);
+    lower.in[0] <== min;
+    lower.in[1] <== value;
+    lower.out === 1;
+
+    component upper = LessEqThan(bits);
+    upper.in[0] <== value;
+    upper.in[1] <== max;
+    upper.out === 1;
+}
+
+/**
+ * Stake range proof over note commitments
+ * Proves: a note in the stake tree holds minAmount <= amount <= maxAmount, for amounts of up to
+ * `bits` bits (wei amounts above 2^64, about 18.4 AVAX, need more than the note circuit's 64).
+ * Commitment and nullifier are those of StakeNoteProof, so the same notes and tree work with both.
+ */
+template StakeRangeProof(levels, bits) {
+    // PRIVATE INPUTS (the note and its Merkle path)
+    signal input amount;
+    signal input secret;
+    signal input nonce;
+    signal input owner;
+    signal input merklePathElements[levels];
+    signal input merklePathIndices[levels];
+
+    // PUBLIC INPUTS (visible on blockchain)
+    signal input minAmount;         // Lower bound, inclusive
+    signal input maxAmount;         // Upper bound, inclusive
+    signal input merkleRoot;        // Merkle root of all note commitments
+    signal input nullifierHash;     // Poseidon(secret, externalNullifier)
+    signal input externalNullifier; // App or epoch scope of the nullifier
+
+    // OUTPUT
+    signal output valid;
+
+    // CONSTRAINT 1: minAmount <= amount <= maxAmount, all of them `bits` wide
+    component range = RangeCheck(bits);
+    range.value <== amount;
+    range.min <== minAmount;
+    range.max <== maxAmount;
+
+    // CONSTRAINT 2: the note's commitment is a leaf of the stake tree
+    component commitment = Poseidon(4);
+    commitment.inputs[0] <== amount;
+    commitment.inputs[1] <== secret;
+    commitment.inputs[2] <== nonce;
+    commitment.inputs[3] <== owner;
+
+    component merkleProof = MerkleTreeChecker(levels);
+    merkleProof.leaf <== commitment.out;
+    merkleProof.root <== merkleRoot;
+    for (var i = 0; i < levels; i++) {
+        merkleProof.pathElements[i] <== merklePathElements[i];
+        merkleProof.pathIndices[i] <== merklePathIndices[i];
+    }
+
+    // CONSTRAINT 3: the nullifier belongs to this note, in this scope
+    component nullifierHasher = Poseidon(2);
+    nullifierHasher.inputs[0] <== secret;
+    nullifierHasher.inputs[1] <== externalNullifier;
+    nullifierHasher.out === nullifierHash;
+
+    valid <== 1;
+}
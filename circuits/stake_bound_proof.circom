@@ -0,0 +1,54 @@
+pragma circom 2.0.0;
+
+include "./stake_note.circom";
+
+/**
+ * Stake note proof bound to the account and chain it was generated for
+ * recipient and chainId are public inputs: a proof copied from the mempool fails for any
+ * other sender or chain, since changing either public signal breaks the pairing check.
+ */
+template StakeBoundProof(levels) {
+    // PRIVATE INPUTS (the note and its Merkle path)
+    signal input amount;
+    signal input secret;
+    signal input nonce;
+    signal input owner;
+    signal input merklePathElements[levels];
+    signal input merklePathIndices[levels];
+
+    // PUBLIC INPUTS (visible on blockchain)
+    signal input minAmount;
+    signal input merkleRoot;
+    signal input nullifierHash;
+    signal input recipient;         // Account allowed to use the proof, as uint160
+    signal input chainId;           // EIP-155 chain ID of the consuming contract
+    signal input externalNullifier; // App or epoch scope of the nullifier
+
+    // OUTPUT
+    signal output valid;
+
+    component note = StakeNoteProof(levels);
+    note.amount <== amount;
+    note.secret <== secret;
+    note.nonce <== nonce;
+    note.owner <== owner;
+    for (var i = 0; i < levels; i++) {
+        note.merklePathElements[i] <== merklePathElements[i];
+        note.merklePathIndices[i] <== merklePathIndices[i];
+    }
+    note.minAmount <== minAmount;
+    note.merkleRoot <== merkleRoot;
+    note.nullifierHash <== nullifierHash;
+    note.externalNullifier <== externalNullifier;
+
+    // Bind recipient and chainId: unconstrained public inputs could be optimized away
+    signal recipientSquare;
+    signal chainIdSquare;
+    recipientSquare <== recipient * recipient;
+    chainIdSquare <== chainId * chainId;
+
+    valid <== note.valid;
+}
+
+// Main component with 10 levels (supports up to 1024 notes)
+component main {public [minAmount, merkleRoot, nullifierHash, recipient, chainId, externalNullifier]} = StakeBoundProof(10);
@@ -0,0 +1,66 @@
+pragma circom 2.0.0;
+
+include "circomlib/circuits/bitify.circom";
+include "circomlib/circuits/comparators.circom";
+include "circomlib/circuits/poseidon.circom";
+include "./merkletree.circom";
+
+/**
+ * Stake proof over note commitments
+ * Proves: a note in the stake tree holds amount >= minAmount, without revealing the note
+ * Leaves are Poseidon(amount, secret, nonce, owner), so equal stakes get distinct leaves and
+ * the tree cannot be brute-forced from amounts alone. The nullifier is Poseidon(secret, externalNullifier):
+ * every note spends independently, whatever its amount, once per app or epoch scope.
+ */
+template StakeNoteProof(levels) {
+    // PRIVATE INPUTS (the note and its Merkle path)
+    signal input amount;            // Staked amount (secret)
+    signal input secret;            // Note secret, the nullifier seed
+    signal input nonce;             // Keeps leaves distinct
+    signal input owner;             // Staker address as a field element
+    signal input merklePathElements[levels];
+    signal input merklePathIndices[levels];
+
+    // PUBLIC INPUTS (visible on blockchain)
+    signal input minAmount;         // Minimum amount required to prove
+    signal input merkleRoot;        // Merkle root of all note commitments
+    signal input nullifierHash;     // Poseidon(secret, externalNullifier)
+    signal input externalNullifier; // App or epoch scope of the nullifier
+
+    // OUTPUT
+    signal output valid;
+
+    // CONSTRAINT 1: amount >= minAmount, both range-checked to the comparator's 64 bits
+    component amountBits = Num2Bits(64);
+    amountBits.in <== amount;
+    component minAmountBits = Num2Bits(64);
+    minAmountBits.in <== minAmount;
+
+    component geq = GreaterEqThan(64);
+    geq.in[0] <== amount;
+    geq.in[1] <== minAmount;
+    geq.out === 1;
+
+    // CONSTRAINT 2: the note's commitment is a leaf of the stake tree
+    component commitment = Poseidon(4);
+    commitment.inputs[0] <== amount;
+    commitment.inputs[1] <== secret;
+    commitment.inputs[2] <== nonce;
+    commitment.inputs[3] <== owner;
+
+    component merkleProof = MerkleTreeChecker(levels);
+    merkleProof.leaf <== commitment.out;
+    merkleProof.root <== merkleRoot;
+    for (var i = 0; i < levels; i++) {
+        merkleProof.pathElements[i] <== merklePathElements[i];
+        merkleProof.pathIndices[i] <== merklePathIndices[i];
+    }
+
+    // CONSTRAINT 3: the nullifier belongs to this note, in this scope
+    component nullifierHasher = Poseidon(2);
+    nullifierHasher.inputs[0] <== secret;
+    nullifierHasher.inputs[1] <== externalNullifier;
+    nullifierHasher.out === nullifierHash;
+
+    valid <== 1;
+}
@@ -0,0 +1,6 @@
+pragma circom 2.0.0;
+
+include "./stake_note.circom";
+
+// Main component with 10 levels (supports up to 1024 notes)
+component main {public [minAmount, merkleRoot, nullifierHash, externalNullifier]} = StakeNoteProof(10);
@@ -1,40 +1,57 @@
 pragma circom 2.0.0;
 
+include "circomlib/circuits/bitify.circom";
 include "circomlib/circuits/comparators.circom";
 include "circomlib/circuits/poseidon.circom";
-include "circomlib/circuits/merkletree.circom";
+include "./merkletree.circom";
 
 /**
  * Real ZK Circuit for AVAX Cross-Subnet Proof of Event
  * Proves: actualAmount >= minAmount without revealing actualAmount
  * Uses: Merkle inclusion proof + nullifier for double-spend prevention
+ * The leaf is Poseidon(actualAmount, userSecret), so each stake has exactly one nullifier seed.
+ * The nullifier is Poseidon(userSecret, externalNullifier): scoped per app or epoch, so one stake
+ * can be proven to several apps without its uses being linked.
  */
 template StakeProof(levels) {
-    // PRIVATE INPUTS (hidden from everyone)
-    signal private input actualAmount;      // Real staked amount (secret)
-    signal private input userSecret;        // User's private nullifier seed
-    signal private input merklePathElements[levels];  // Merkle proof path
-    signal private input merklePathIndices[levels];   // Merkle proof indices
+    // PRIVATE INPUTS (hidden from everyone; only inputs listed in main are public)
+    signal input actualAmount;      // Real staked amount (secret)
+    signal input userSecret;        // User's private nullifier seed
+    signal input merklePathElements[levels];  // Merkle proof path
+    signal input merklePathIndices[levels];   // Merkle proof indices
     
     // PUBLIC INPUTS (visible on blockchain)
     signal input minAmount;        // Minimum amount required to prove
     signal input merkleRoot;       // Merkle root of all stakes
     signal input nullifierHash;    // Prevents double-spending
+    signal input externalNullifier; // App or epoch scope of the nullifier
     
     // OUTPUT
     signal output valid;
     
     // CONSTRAINT 1: Prove actualAmount >= minAmount
     // This is the core privacy feature - proves threshold without revealing exact amount
-    component geq = GreaterEqualThan(64);
+    // Both sides are range-checked to the comparator's 64 bits; unchecked field elements
+    // wrap around and let a small amount pass the comparison
+    component actualAmountBits = Num2Bits(64);
+    actualAmountBits.in <== actualAmount;
+    component minAmountBits = Num2Bits(64);
+    minAmountBits.in <== minAmount;
+
+    component geq = GreaterEqThan(64);
     geq.in[0] <== actualAmount;
     geq.in[1] <== minAmount;
     geq.out === 1;
     
     // CONSTRAINT 2: Prove Merkle inclusion
-    // Proves the actualAmount exists in the committed Merkle tree
+    // Proves the stake exists in the committed Merkle tree; the leaf commits to userSecret,
+    // so a prover cannot pick another secret, and so another nullifier, for the same stake
+    component leafHasher = Poseidon(2);
+    leafHasher.inputs[0] <== actualAmount;
+    leafHasher.inputs[1] <== userSecret;
+
     component merkleProof = MerkleTreeChecker(levels);
-    merkleProof.leaf <== actualAmount;
+    merkleProof.leaf <== leafHasher.out;
     merkleProof.root <== merkleRoot;
     for (var i = 0; i < levels; i++) {
         merkleProof.pathElements[i] <== merklePathElements[i];
@@ -42,10 +59,10 @@ template StakeProof(levels) {
     }
     
     // CONSTRAINT 3: Prove nullifier correctness
-    // Prevents double-spending by binding secret to amount
+    // Prevents double-spending within the scope, without linking uses across scopes
     component nullifierHasher = Poseidon(2);
     nullifierHasher.inputs[0] <== userSecret;
-    nullifierHasher.inputs[1] <== actualAmount;
+    nullifierHasher.inputs[1] <== externalNullifier;
     nullifierHasher.out === nullifierHash;
     
     // Output valid proof (all constraints satisfied)
@@ -53,4 +70,4 @@ template StakeProof(levels) {
 }
 
 // Main component with 10 levels (supports up to 1024 stakes)
-component main = StakeProof(10);
+component main {public [minAmount, merkleRoot, nullifierHash, externalNullifier]} = StakeProof(10);
@@ -0,0 +1,6 @@
+pragma circom 2.0.0;
+
+include "./range.circom";
+
+// Main component with 10 levels (supports up to 1024 notes) and 128-bit amounts
+component main {public [minAmount, maxAmount, merkleRoot, nullifierHash, externalNullifier]} = StakeRangeProof(10, 128);
@@ -0,0 +1,167 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "./StakeBoundProofVerifier.sol";
+
+/**
+ * @title Real ZK CrossLend Protocol
+ * @dev Enhanced with REAL ZK verification. Proofs come from the `stake_bound_proof` circuit,
+ * which binds each proof to a recipient and chain ID, so a proof copied from the mempool
+ * cannot be resubmitted by another account or on another chain. Its nullifier is scoped to
+ * EXTERNAL_NULLIFIER, so spending a stake here leaves it unspent and unlinkable elsewhere.
+ */
+contract RealZKCrossLendProtocol is StakeBoundProofVerifier {
+
+    event ZKProofVerified(
+        address indexed user,
+        bool success,
+        uint256 minAmountProven,
+        bytes32 nullifierHash
+    );
+    
+    // Enhanced events with real ZK data
+    event RealZKBorrowEvent(
+        address indexed user,
+        uint256 borrowAmount,
+        uint256 minCollateralProven, 
+        bytes32 nullifierHash,
+        bool zkProofValid,
+        uint256 gasUsedForVerification
+    );
+    
+    // State for real ZK functionality
+    mapping(bytes32 => bool) public usedNullifiers;
+    mapping(address => uint256) public userMinStakeProven;
+    mapping(address => uint256) public userStakes;
+    mapping(address => uint256) public userBorrows;
+    
+    // Nullifier scope of this market; the SDK derives the same value with appScope(APP_ID)
+    string public constant APP_ID = "avax-cpoe/crosslend";
+    uint256 public constant EXTERNAL_NULLIFIER = uint256(keccak256(bytes(APP_ID))) >> 8;
+
+    uint256 public constant ZK_LTV_BONUS = 75; // 75% LTV for ZK users
+    uint256 public constant STANDARD_LTV = 70; // 70% LTV for public users
+    
+    /**
+     * @dev Groth16 verification that records the outcome on-chain
+     * @param input Public signals [valid, minAmount, merkleRoot, nullifierHash, recipient, chainId, externalNullifier]
+     * @return r True if proof is valid
+     */
+    function verifyTx(
+        uint[2] memory _pA,
+        uint[2][2] memory _pB,
+        uint[2] memory _pC,
+        uint[7] memory input
+    ) public returns (bool r) {
+        bool success = verifyProof(_pA, _pB, _pC, input);
+
+        emit ZKProofVerified(
+            msg.sender,
+            success,
+            input[1], // minAmount
+            bytes32(input[3]) // nullifierHash
+        );
+
+        return success;
+    }
+
+    /**
+     * @dev Borrow using REAL ZK proof verification
+     * The borrower is msg.sender, which must be the recipient the proof was generated for
+     */
+    function borrowWithRealZKProof(
+        uint[2] memory _pA,
+        uint[2][2] memory _pB, 
+        uint[2] memory _pC,
+        uint[7] memory publicInputs // [valid, minAmount, merkleRoot, nullifierHash, recipient, chainId, externalNullifier]
+    ) external {
+        uint256 gasStart = gasleft();
+        address user = msg.sender;
+        
+        // Extract public inputs
+        uint256 minAmount = publicInputs[1];
+        uint256 merkleRoot = publicInputs[2]; 
+        bytes32 nullifierHash = bytes32(publicInputs[3]);
+        
+        // The proof is only usable by its recipient, on this chain
+        require(publicInputs[4] == uint256(uint160(user)), "Proof bound to another recipient");
+        require(publicInputs[5] == block.chainid, "Proof bound to another chain");
+        require(publicInputs[6] == EXTERNAL_NULLIFIER, "Proof scoped to another app");
+        
+        // Prevent double-spending
+        require(!usedNullifiers[nullifierHash], "Nullifier already used");
+        
+        // REAL ZK PROOF VERIFICATION
+        bool zkProofValid = verifyTx(_pA, _pB, _pC, publicInputs);
+        require(zkProofValid, "ZK proof verification failed");
+        
+        // Mark nullifier as used
+        usedNullifiers[nullifierHash] = true;
+        
+        // Calculate borrowable amount with ZK bonus
+        uint256 borrowAmount = (minAmount * ZK_LTV_BONUS) / 100;
+        
+        // Update user state
+        userBorrows[user] += borrowAmount;
+        userMinStakeProven[user] = minAmount;
+        
+        uint256 gasUsed = gasStart - gasleft();
+        
+        emit RealZKBorrowEvent(
+            user,
+            borrowAmount,
+            minAmount,
+            nullifierHash,
+            zkProofValid,
+            gasUsed
+        );
+        
+        // In production: mint/transfer actual USDC
+    }
+    
+    /**
+     * @dev Traditional staking (for generating ZK proofs)
+     */
+    function stakeAVAX() external payable {
+        require(msg.value > 0, "Must stake positive amount");
+        
+        userStakes[msg.sender] += msg.value;
+        
+        // Emit event that can be used for ZK proof generation
+        emit StakeEvent(
+            msg.sender,
+            msg.value,
+            block.timestamp,
+            keccak256(abi.encodePacked(msg.sender, msg.value, block.number)),
+            "avalanche-fuji"
+        );
+    }
+    
+    event StakeEvent(
+        address indexed user,
+        uint256 amount,
+        uint256 timestamp,
+        bytes32 indexed eventId,
+        string subnet
+    );
+    
+    /**
+     * @dev Get ZK verification statistics
+     */
+    function getZKStats() external view returns (
+        uint256 totalZKBorrows,
+        uint256 avgMinAmount,
+        uint256 zkBonusRate,
+        uint256 totalNullifiers
+    ) {
+        // Implementation for stats
+        return (0, 0, ZK_LTV_BONUS - STANDARD_LTV, 0);
+    }
+    
+    /**
+     * @dev Check if a nullifier has been used
+     */
+    function isNullifierUsed(bytes32 nullifierHash) external view returns (bool) {
+        return usedNullifiers[nullifierHash];
+    }
+}
\ No newline at end of file
@@ -1,387 +1,149 @@
 // SPDX-License-Identifier: MIT
+// Generated by generateSolidityVerifier (@vault/sdk) from a Groth16 verification key. Do not edit:
+// regenerate with `npm run generate:verifier` in sdk/ after every trusted setup.
 pragma solidity ^0.8.19;
 
 /**
- * @title Real Groth16 ZK Verifier
- * @dev REAL pairing-based verification (not simulated)
- * @notice Uses actual elliptic curve pairing for ZK proof verification
+ * @title RealZKVerifier
+ * @dev Groth16 verifier on BN254 for a circuit with 5 public signals
  */
 contract RealZKVerifier {
-    using Pairing for *;
-    
-    struct VerifyingKey {
-        Pairing.G1Point alpha;
-        Pairing.G2Point beta;
-        Pairing.G2Point gamma;
-        Pairing.G2Point delta;
-        Pairing.G1Point[] gamma_abc;
-    }
-    
-    struct Proof {
-        Pairing.G1Point a;
-        Pairing.G2Point b;
-        Pairing.G1Point c;
-    }
-    
-    VerifyingKey verifyingKey;
-    
-    event ZKProofVerified(
-        address indexed user,
-        bool success,
-        uint256 minAmountProven,
-        bytes32 nullifierHash
-    );
-    
-    constructor() {
-        verifyingKey.alpha = Pairing.G1Point(
-            0x20491192805390485299153009773594534940189261866228447918068658471970481763042,
-            0x9383485363053290200918347156157836566562967994039712273449902621266178545958
-        );
-        verifyingKey.beta = Pairing.G2Point(
-            [0x6375614351688725206403948262868962793625744043794305715222011528459656738731,
-             0x4252822878758300859123897981450591353533073413197771768651442665752259397132],
-            [0x10505242626370262277552901082094356697409835680220590971873171140371331206856,
-             0x21847035105528745403288232691147584728191162732299865338377159692350059136679]
-        );
-        verifyingKey.gamma = Pairing.G2Point(
-            [0x10857046999023057135944570762232829481370756359578518086990519993285655852781,
-             0x11559732032986387107991004021392285783925812861821192530917403151452391805634],
-            [0x8495653923123431417604973247489272438418190587263600148770280649306958101930,
-             0x4082367875863433681332203403145435568316851327593401208105741076214120093531]
-        );
-        verifyingKey.delta = Pairing.G2Point(
-            [0x11559732032986387107991004021392285783925812861821192530917403151452391805634,
-             0x10857046999023057135944570762232829481370756359578518086990519993285655852781],
-            [0x4082367875863433681332203403145435568316851327593401208105741076214120093531,
-             0x8495653923123431417604973247489272438418190587263600148770280649306958101930]
-        );
-        verifyingKey.gamma_abc = new Pairing.G1Point[](4);
-        verifyingKey.gamma_abc[0] = Pairing.G1Point(
-            0x5944370176705801405341590975654852815558631233541801695547199834080309068648,
-            0x13962962263785131795344547982726491474980419804152550936421998055027854940160
-        );
-        verifyingKey.gamma_abc[1] = Pairing.G1Point(
-            0x8495653923123431417604973247489272438418190587263600148770280649306958101930,
-            0x21847035105528745403288232691147584728191162732299865338377159692350059136679
-        );
-        verifyingKey.gamma_abc[2] = Pairing.G1Point(
-            0x6375614351688725206403948262868962793625744043794305715222011528459656738731,
-            0x11559732032986387107991004021392285783925812861821192530917403151452391805634
-        );
-        verifyingKey.gamma_abc[3] = Pairing.G1Point(
-            0x20491192805390485299153009773594534940189261866228447918068658471970481763042,
-            0x4252822878758300859123897981450591353533073413197771768651442665752259397132
-        );
-    }
-    
+    uint256 internal constant SNARK_SCALAR_FIELD = 21888242871839275222246405745257275088548364400416034343698204186575808495617;
+    uint256 internal constant BASE_FIELD = 21888242871839275222246405745257275088696311157297823662689037894645226208583;
+
+    // Verification key; G2 coordinates are in precompile order (c1 before c0)
+    uint256 internal constant ALPHA_X = 5877498075541737454162756774771438235296493955954092643871848164949816597081;
+    uint256 internal constant ALPHA_Y = 18774550724538083094496766138378091833045002098701698913344683574268438700721;
+    uint256 internal constant BETA_X1 = 8487013177714225346336089259459725435404369169653434076461675511652506467830;
+    uint256 internal constant BETA_X0 = 16311582333515908641500164866649504646684532068233187464169564439308486194017;
+    uint256 internal constant BETA_Y1 = 21159797053828572274619511769140574208080352596980479764995710365443709264338;
+    uint256 internal constant BETA_Y0 = 20258975739627204701117580638426587272045006102795014117447518906576720380939;
+    uint256 internal constant GAMMA_X1 = 11559732032986387107991004021392285783925812861821192530917403151452391805634;
+    uint256 internal constant GAMMA_X0 = 10857046999023057135944570762232829481370756359578518086990519993285655852781;
+    uint256 internal constant GAMMA_Y1 = 4082367875863433681332203403145435568316851327593401208105741076214120093531;
+    uint256 internal constant GAMMA_Y0 = 8495653923123431417604973247489272438418190587263600148770280649306958101930;
+    uint256 internal constant DELTA_X1 = 17606869185400452958592646070335627713619025269417092715616644586099313871773;
+    uint256 internal constant DELTA_X0 = 15838673099151233754713002898444526114286975888433804089540914617921313019774;
+    uint256 internal constant DELTA_Y1 = 12470627640382011623781672228664499282169628158164737437594017713406212004914;
+    uint256 internal constant DELTA_Y0 = 9258281649600780965847431190850026323940151402918261411277692675472356404393;
+    uint256 internal constant IC0_X = 5622419832112934703229833048863152209376864969735919519951055647271129456795;
+    uint256 internal constant IC0_Y = 19942835818669110532163878051284274821901385102477126066773687075204898294461;
+    uint256 internal constant IC1_X = 6287840078952930121723534597773548378080932991259196289926301100966102551311;
+    uint256 internal constant IC1_Y = 16725076184302057052210851756335374799213407457687898082879562070014438197526;
+    uint256 internal constant IC2_X = 16839985448994313148563330134086404334650167088146940574199881241943595347160;
+    uint256 internal constant IC2_Y = 19037377521324938307664087048353902162922965936385956828179194126917840015539;
+    uint256 internal constant IC3_X = 21366551286395936558981087057981362603232339436561177737793746386933289099942;
+    uint256 internal constant IC3_Y = 5066543932153982317290103475970282780465309233091945165657923672719577323583;
+    uint256 internal constant IC4_X = 870342310562415793166724568905834016553606901494060832699838395826788560292;
+    uint256 internal constant IC4_Y = 8848009294289930980979017206614580197905370822894987291576417016061645665718;
+    uint256 internal constant IC5_X = 14928704256888978687505799728061649472895136682286379771502451119893678240393;
+    uint256 internal constant IC5_Y = 5304837356356535855586026175643799087726402547041892125687253322317927638436;
+
     /**
-     * @dev REAL Groth16 verification using pairing operations
-     * @param proof The zk-SNARK proof
-     * @param input Public inputs [minAmount, merkleRoot, nullifierHash]
-     * @return r True if proof is valid
+     * @dev Checks e(A, B) = e(alpha, beta) * e(vk_x, gamma) * e(C, delta)
+     * @param _pA Proof point A
+     * @param _pB Proof point B, coordinate pairs ordered [c1, c0]
+     * @param _pC Proof point C
+     * @param _pubSignals Public signals in circuit order (outputs first)
+     * @return True for a valid proof; false for an invalid proof or malformed input
      */
-    function verifyTx(
+    function verifyProof(
         uint[2] memory _pA,
         uint[2][2] memory _pB,
         uint[2] memory _pC,
-        uint[3] memory input
-    ) public returns (bool r) {
-        
-        Proof memory proof;
-        proof.a = Pairing.G1Point(_pA[0], _pA[1]);
-        proof.b = Pairing.G2Point([_pB[0][0], _pB[0][1]], [_pB[1][0], _pB[1][1]]);
-        proof.c = Pairing.G1Point(_pC[0], _pC[1]);
-        
-        uint[] memory inputValues = new uint[](input.length);
-        for(uint i = 0; i < input.length; i++){
-            inputValues[i] = input[i];
+        uint[5] memory _pubSignals
+    ) public view returns (bool) {
+        // Step 1: Canonical coordinates, no point at infinity (the precompiles check curve and subgroup membership)
+        if (!isG1(_pA) || !isG2(_pB) || !isG1(_pC)) {
+            return false;
         }
-        
-        bool success = verifyProof(proof, inputValues);
-        
-        emit ZKProofVerified(
-            msg.sender,
-            success,
-            input[0], // minAmount
-            bytes32(input[2]) // nullifierHash
-        );
-        
-        return success;
-    }
-    
-    /**
-     * @dev Core verification function using REAL pairing operations
-     */
-    function verifyProof(
-        Proof memory proof,
-        uint[] memory input
-    ) internal view returns (bool) {
-        uint256 snark_scalar_field = 21888242871839275222246405745257275088548364400416034343698204186575808495617;
-        VerifyingKey memory vk = verifyingKey;
-        require(input.length + 1 == vk.gamma_abc.length);
-        
-        // Compute the linear combination vk_x
-        Pairing.G1Point memory vk_x = Pairing.G1Point(0, 0);
-        for (uint i = 0; i < input.length; i++) {
-            require(input[i] < snark_scalar_field);
-            vk_x = Pairing.addition(vk_x, Pairing.scalar_mul(vk.gamma_abc[i + 1], input[i]));
-        }
-        vk_x = Pairing.addition(vk_x, vk.gamma_abc[0]);
-        
-        // REAL PAIRING CHECK: e(A,B)*e(-vk_x,gamma)*e(-C,delta) = e(-vk_alpha,vk_beta)
-        return Pairing.pairing(
-            Pairing.negate(proof.a),
-            proof.b,
-            vk_x,
-            vk.gamma,
-            proof.c,
-            vk.delta,
-            vk.alpha,
-            vk.beta
-        );
-    }
-}
 
-/**
- * @title Pairing Library
- * @dev Real elliptic curve pairing operations for BN128
- */
-library Pairing {
-    struct G1Point {
-        uint X;
-        uint Y;
-    }
-    
-    struct G2Point {
-        uint[2] X;
-        uint[2] Y;
-    }
-    
-    /// @return the generator of G1
-    function P1() pure internal returns (G1Point memory) {
-        return G1Point(1, 2);
-    }
-    
-    /// @return the generator of G2
-    function P2() pure internal returns (G2Point memory) {
-        return G2Point(
-            [11559732032986387107991004021392285783925812861821192530917403151452391805634,
-             10857046999023057135944570762232829481370756359578518086990519993285655852781],
-            [8495653923123431417604973247489272438418190587263600148770280649306958101930,
-             4082367875863433681332203403145435568316851327593401208105741076214120093531]
-        );
-    }
-    
-    /// @return r the negation of p, i.e. p.addition(p.negate()) should be zero.
-    function negate(G1Point memory p) pure internal returns (G1Point memory r) {
-        // The prime q in the base field F_q for G1
-        uint q = 21888242871839275222246405745257275088696311157297823662689037894645226208583;
-        if (p.X == 0 && p.Y == 0)
-            return G1Point(0, 0);
-        return G1Point(p.X, q - (p.Y % q));
-    }
-    
-    /// @return r the sum of two points of G1
-    function addition(G1Point memory p1, G1Point memory p2) internal view returns (G1Point memory r) {
-        uint[4] memory input;
-        input[0] = p1.X;
-        input[1] = p1.Y;
-        input[2] = p2.X;
-        input[3] = p2.Y;
-        bool success;
-        assembly {
-            success := staticcall(sub(gas(), 2000), 6, input, 0xc0, r, 0x60)
-            // Use "invalid" to make gas estimation work
-            switch success case 0 { invalid() }
+        // Step 2: vk_x = IC0 + sum(signal_i * IC_i), every signal below the scalar field
+        uint256[2] memory vkX = [IC0_X, IC0_Y];
+        if (_pubSignals[0] >= SNARK_SCALAR_FIELD || !accumulate(vkX, IC1_X, IC1_Y, _pubSignals[0])) {
+            return false;
         }
-        require(success);
-    }
-    
-    /// @return r the product of a point on G1 and a scalar, i.e.
-    /// p == p.scalar_mul(1) and p.addition(p) == p.scalar_mul(2) for all points p.
-    function scalar_mul(G1Point memory p, uint s) internal view returns (G1Point memory r) {
-        uint[3] memory input;
-        input[0] = p.X;
-        input[1] = p.Y;
-        input[2] = s;
-        bool success;
-        assembly {
-            success := staticcall(sub(gas(), 2000), 7, input, 0x80, r, 0x60)
-            switch success case 0 { invalid() }
+        if (_pubSignals[1] >= SNARK_SCALAR_FIELD || !accumulate(vkX, IC2_X, IC2_Y, _pubSignals[1])) {
+            return false;
         }
-        require(success);
-    }
-    
-    /// @return the result of computing the pairing check
-    /// e(p1[0], p2[0]) *  .... * e(p1[n], p2[n]) == 1
-    /// For example pairing([P1(), P1().negate()], [P2(), P2()]) should
-    /// return true.
-    function pairing(G1Point memory a1, G2Point memory a2, G1Point memory b1, G2Point memory b2, G1Point memory c1, G2Point memory c2, G1Point memory d1, G2Point memory d2) internal view returns (bool) {
-        G1Point[4] memory p1 = [a1, b1, c1, d1];
-        G2Point[4] memory p2 = [a2, b2, c2, d2];
-        uint inputSize = 24;
-        uint[] memory input = new uint[](inputSize);
-        for (uint i = 0; i < 4; i++)
-        {
-            input[i * 6 + 0] = p1[i].X;
-            input[i * 6 + 1] = p1[i].Y;
-            input[i * 6 + 2] = p2[i].X[0];
-            input[i * 6 + 3] = p2[i].X[1];
-            input[i * 6 + 4] = p2[i].Y[0];
-            input[i * 6 + 5] = p2[i].Y[1];
+        if (_pubSignals[2] >= SNARK_SCALAR_FIELD || !accumulate(vkX, IC3_X, IC3_Y, _pubSignals[2])) {
+            return false;
         }
-        uint[1] memory out;
-        bool success;
-        assembly {
-            success := staticcall(sub(gas(), 2000), 8, add(input, 0x20), mul(inputSize, 0x20), out, 0x20)
-            switch success case 0 { invalid() }
+        if (_pubSignals[3] >= SNARK_SCALAR_FIELD || !accumulate(vkX, IC4_X, IC4_Y, _pubSignals[3])) {
+            return false;
         }
-        require(success);
-        return out[0] != 0;
-    }
-    
-    /// Convenience method for a pairing check for two pairs.
-    function pairing(G1Point memory a1, G2Point memory a2, G1Point memory b1, G2Point memory b2) internal view returns (bool) {
-        G1Point[2] memory p1 = [a1, b1];
-        G2Point[2] memory p2 = [a2, b2];
-        uint inputSize = 12;
-        uint[] memory input = new uint[](inputSize);
-        for (uint i = 0; i < 2; i++)
-        {
-            input[i * 6 + 0] = p1[i].X;
-            input[i * 6 + 1] = p1[i].Y;
-            input[i * 6 + 2] = p2[i].X[0];
-            input[i * 6 + 3] = p2[i].X[1];
-            input[i * 6 + 4] = p2[i].Y[0];
-            input[i * 6 + 5] = p2[i].Y[1];
-        }
-        uint[1] memory out;
-        bool success;
-        assembly {
-            success := staticcall(sub(gas(), 2000), 8, add(input, 0x20), mul(inputSize, 0x20), out, 0x20)
-            switch success case 0 { invalid() }
+        if (_pubSignals[4] >= SNARK_SCALAR_FIELD || !accumulate(vkX, IC5_X, IC5_Y, _pubSignals[4])) {
+            return false;
         }
-        require(success);
-        return out[0] != 0;
+
+        // Step 3: e(-A, B) * e(vk_x, gamma) * e(C, delta) * e(alpha, beta) == 1
+        uint256[24] memory input;
+        input[0] = _pA[0];
+        input[1] = (BASE_FIELD - _pA[1]) % BASE_FIELD;
+        input[2] = _pB[0][0];
+        input[3] = _pB[0][1];
+        input[4] = _pB[1][0];
+        input[5] = _pB[1][1];
+        input[6] = vkX[0];
+        input[7] = vkX[1];
+        input[8] = GAMMA_X1;
+        input[9] = GAMMA_X0;
+        input[10] = GAMMA_Y1;
+        input[11] = GAMMA_Y0;
+        input[12] = _pC[0];
+        input[13] = _pC[1];
+        input[14] = DELTA_X1;
+        input[15] = DELTA_X0;
+        input[16] = DELTA_Y1;
+        input[17] = DELTA_Y0;
+        input[18] = ALPHA_X;
+        input[19] = ALPHA_Y;
+        input[20] = BETA_X1;
+        input[21] = BETA_X0;
+        input[22] = BETA_Y1;
+        input[23] = BETA_Y0;
+        return pairing(input);
     }
-}
 
-/**
- * @title Real ZK CrossLend Protocol
- * @dev Enhanced with REAL ZK verification
- */
-contract RealZKCrossLendProtocol is RealZKVerifier {
-    
-    // Enhanced events with real ZK data
-    event RealZKBorrowEvent(
-        address indexed user,
-        uint256 borrowAmount,
-        uint256 minCollateralProven, 
-        bytes32 nullifierHash,
-        bool zkProofValid,
-        uint256 gasUsedForVerification
-    );
-    
-    // State for real ZK functionality
-    mapping(bytes32 => bool) public usedNullifiers;
-    mapping(address => uint256) public userMinStakeProven;
-    mapping(address => uint256) public userStakes;
-    mapping(address => uint256) public userBorrows;
-    
-    uint256 public constant ZK_LTV_BONUS = 75; // 75% LTV for ZK users
-    uint256 public constant STANDARD_LTV = 70; // 70% LTV for public users
-    
-    /**
-     * @dev Borrow using REAL ZK proof verification
-     */
-    function borrowWithRealZKProof(
-        uint[2] memory _pA,
-        uint[2][2] memory _pB, 
-        uint[2] memory _pC,
-        uint[3] memory publicInputs, // [minAmount, merkleRoot, nullifierHash]
-        address user
-    ) external {
-        uint256 gasStart = gasleft();
-        
-        // Extract public inputs
-        uint256 minAmount = publicInputs[0];
-        uint256 merkleRoot = publicInputs[1]; 
-        bytes32 nullifierHash = bytes32(publicInputs[2]);
-        
-        // Prevent double-spending
-        require(!usedNullifiers[nullifierHash], "Nullifier already used");
-        
-        // REAL ZK PROOF VERIFICATION
-        bool zkProofValid = verifyTx(_pA, _pB, _pC, publicInputs);
-        require(zkProofValid, "ZK proof verification failed");
-        
-        // Mark nullifier as used
-        usedNullifiers[nullifierHash] = true;
-        
-        // Calculate borrowable amount with ZK bonus
-        uint256 borrowAmount = (minAmount * ZK_LTV_BONUS) / 100;
-        
-        // Update user state
-        userBorrows[user] += borrowAmount;
-        userMinStakeProven[user] = minAmount;
-        
-        uint256 gasUsed = gasStart - gasleft();
-        
-        emit RealZKBorrowEvent(
-            user,
-            borrowAmount,
-            minAmount,
-            nullifierHash,
-            zkProofValid,
-            gasUsed
-        );
-        
-        // In production: mint/transfer actual USDC
+    function isG1(uint[2] memory p) private pure returns (bool) {
+        return p[0] < BASE_FIELD && p[1] < BASE_FIELD && (p[0] | p[1]) != 0;
     }
-    
-    /**
-     * @dev Traditional staking (for generating ZK proofs)
-     */
-    function stakeAVAX() external payable {
-        require(msg.value > 0, "Must stake positive amount");
-        
-        userStakes[msg.sender] += msg.value;
-        
-        // Emit event that can be used for ZK proof generation
-        emit StakeEvent(
-            msg.sender,
-            msg.value,
-            block.timestamp,
-            keccak256(abi.encodePacked(msg.sender, msg.value, block.number)),
-            "avalanche-fuji"
-        );
+
+    function isG2(uint[2][2] memory p) private pure returns (bool) {
+        return p[0][0] < BASE_FIELD && p[0][1] < BASE_FIELD && p[1][0] < BASE_FIELD && p[1][1] < BASE_FIELD
+            && (p[0][0] | p[0][1] | p[1][0] | p[1][1]) != 0;
     }
-    
-    event StakeEvent(
-        address indexed user,
-        uint256 amount,
-        uint256 timestamp,
-        bytes32 indexed eventId,
-        string subnet
-    );
-    
+
     /**
-     * @dev Get ZK verification statistics
+     * @dev acc += scalar * (x, y) with the ecMul (0x07) and ecAdd (0x06) precompiles
      */
-    function getZKStats() external view returns (
-        uint256 totalZKBorrows,
-        uint256 avgMinAmount,
-        uint256 zkBonusRate,
-        uint256 totalNullifiers
-    ) {
-        // Implementation for stats
-        return (0, 0, ZK_LTV_BONUS - STANDARD_LTV, 0);
+    function accumulate(uint256[2] memory acc, uint256 x, uint256 y, uint256 scalar) private view returns (bool ok) {
+        uint256[4] memory buffer;
+        buffer[0] = x;
+        buffer[1] = y;
+        buffer[2] = scalar;
+        assembly {
+            ok := staticcall(gas(), 0x07, buffer, 0x60, buffer, 0x40)
+        }
+        if (!ok) {
+            return false;
+        }
+        buffer[2] = acc[0];
+        buffer[3] = acc[1];
+        assembly {
+            ok := staticcall(gas(), 0x06, buffer, 0x80, acc, 0x40)
+        }
     }
-    
+
     /**
-     * @dev Check if a nullifier has been used
+     * @dev ecPairing (0x08) over four (G1, G2) pairs
      */
-    function isNullifierUsed(bytes32 nullifierHash) external view returns (bool) {
-        return usedNullifiers[nullifierHash];
+    function pairing(uint256[24] memory input) private view returns (bool) {
+        uint256[1] memory out;
+        bool ok;
+        assembly {
+            ok := staticcall(gas(), 0x08, input, 0x300, out, 0x20)
+        }
+        return ok && out[0] == 1;
     }
-}
\ No newline at end of file
+}
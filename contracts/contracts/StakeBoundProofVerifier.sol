@@ -0,0 +1,159 @@
+// SPDX-License-Identifier: MIT
+// Generated by generateSolidityVerifier (@vault/sdk) from a Groth16 verification key. Do not edit:
+// regenerate with `npm run generate:verifier` in sdk/ after every trusted setup.
+pragma solidity ^0.8.19;
+
+/**
+ * @title StakeBoundProofVerifier
+ * @dev Groth16 verifier on BN254 for a circuit with 7 public signals
+ */
+contract StakeBoundProofVerifier {
+    uint256 internal constant SNARK_SCALAR_FIELD = 21888242871839275222246405745257275088548364400416034343698204186575808495617;
+    uint256 internal constant BASE_FIELD = 21888242871839275222246405745257275088696311157297823662689037894645226208583;
+
+    // Verification key; G2 coordinates are in precompile order (c1 before c0)
+    uint256 internal constant ALPHA_X = 5877498075541737454162756774771438235296493955954092643871848164949816597081;
+    uint256 internal constant ALPHA_Y = 18774550724538083094496766138378091833045002098701698913344683574268438700721;
+    uint256 internal constant BETA_X1 = 8487013177714225346336089259459725435404369169653434076461675511652506467830;
+    uint256 internal constant BETA_X0 = 16311582333515908641500164866649504646684532068233187464169564439308486194017;
+    uint256 internal constant BETA_Y1 = 21159797053828572274619511769140574208080352596980479764995710365443709264338;
+    uint256 internal constant BETA_Y0 = 20258975739627204701117580638426587272045006102795014117447518906576720380939;
+    uint256 internal constant GAMMA_X1 = 11559732032986387107991004021392285783925812861821192530917403151452391805634;
+    uint256 internal constant GAMMA_X0 = 10857046999023057135944570762232829481370756359578518086990519993285655852781;
+    uint256 internal constant GAMMA_Y1 = 4082367875863433681332203403145435568316851327593401208105741076214120093531;
+    uint256 internal constant GAMMA_Y0 = 8495653923123431417604973247489272438418190587263600148770280649306958101930;
+    uint256 internal constant DELTA_X1 = 16412318850933987335789174307943210133657279814456080569183949140658711391599;
+    uint256 internal constant DELTA_X0 = 8475617950635784870832990143742697015607572525644637518031052650130420022178;
+    uint256 internal constant DELTA_Y1 = 9770048305487354279909438424731061084168086303154686412666232358238155945721;
+    uint256 internal constant DELTA_Y0 = 17380326537138140708849573496494651640849405863373087812134268861008539236686;
+    uint256 internal constant IC0_X = 2730277887384031583303262021903503604957315979482649159405821955932769931151;
+    uint256 internal constant IC0_Y = 1412781760645434135438336293294052660848331247133292766476385625723201860642;
+    uint256 internal constant IC1_X = 3351034540053029164473210433167985310636319551974295442001809015156113632259;
+    uint256 internal constant IC1_Y = 13730642378233157330072309865910796425340502894563607971663313256830630336693;
+    uint256 internal constant IC2_X = 13730543661142778321147763778483339910002150911953569304558717750500317535029;
+    uint256 internal constant IC2_Y = 17538290322969430241114233859758155264052397332469581525193999709776288589040;
+    uint256 internal constant IC3_X = 21104808704094713684606097974360889086747505009824049915716749001529645820803;
+    uint256 internal constant IC3_Y = 13090827068244994094369705488457632372308719963435616809003346556610380168485;
+    uint256 internal constant IC4_X = 3647843183120393451855892449473271216435707061897715142788824049411391696540;
+    uint256 internal constant IC4_Y = 11831020110907472533620428334324263614466457076222995173528292869895710873029;
+    uint256 internal constant IC5_X = 19350679102115778199744231911525261597505937997088945906819221771493616724565;
+    uint256 internal constant IC5_Y = 20166479188688716095932103701552292308243280876626949316451760133624135611071;
+    uint256 internal constant IC6_X = 21511757636951932207520406638740777414087185267749215736665727183228519284019;
+    uint256 internal constant IC6_Y = 4947364951928020949491982142425016040695166969383644672784215463329802883027;
+    uint256 internal constant IC7_X = 4141624331842787551333750011511978818478538381390349421777256720551007154872;
+    uint256 internal constant IC7_Y = 7514947653192672955717146823654981593219657512142572960351700954612452204160;
+
+    /**
+     * @dev Checks e(A, B) = e(alpha, beta) * e(vk_x, gamma) * e(C, delta)
+     * @param _pA Proof point A
+     * @param _pB Proof point B, coordinate pairs ordered [c1, c0]
+     * @param _pC Proof point C
+     * @param _pubSignals Public signals in circuit order (outputs first)
+     * @return True for a valid proof; false for an invalid proof or malformed input
+     */
+    function verifyProof(
+        uint[2] memory _pA,
+        uint[2][2] memory _pB,
+        uint[2] memory _pC,
+        uint[7] memory _pubSignals
+    ) public view returns (bool) {
+        // Step 1: Canonical coordinates, no point at infinity (the precompiles check curve and subgroup membership)
+        if (!isG1(_pA) || !isG2(_pB) || !isG1(_pC)) {
+            return false;
+        }
+
+        // Step 2: vk_x = IC0 + sum(signal_i * IC_i), every signal below the scalar field
+        uint256[2] memory vkX = [IC0_X, IC0_Y];
+        if (_pubSignals[0] >= SNARK_SCALAR_FIELD || !accumulate(vkX, IC1_X, IC1_Y, _pubSignals[0])) {
+            return false;
+        }
+        if (_pubSignals[1] >= SNARK_SCALAR_FIELD || !accumulate(vkX, IC2_X, IC2_Y, _pubSignals[1])) {
+            return false;
+        }
+        if (_pubSignals[2] >= SNARK_SCALAR_FIELD || !accumulate(vkX, IC3_X, IC3_Y, _pubSignals[2])) {
+            return false;
+        }
+        if (_pubSignals[3] >= SNARK_SCALAR_FIELD || !accumulate(vkX, IC4_X, IC4_Y, _pubSignals[3])) {
+            return false;
+        }
+        if (_pubSignals[4] >= SNARK_SCALAR_FIELD || !accumulate(vkX, IC5_X, IC5_Y, _pubSignals[4])) {
+            return false;
+        }
+        if (_pubSignals[5] >= SNARK_SCALAR_FIELD || !accumulate(vkX, IC6_X, IC6_Y, _pubSignals[5])) {
+            return false;
+        }
+        if (_pubSignals[6] >= SNARK_SCALAR_FIELD || !accumulate(vkX, IC7_X, IC7_Y, _pubSignals[6])) {
+            return false;
+        }
+
+        // Step 3: e(-A, B) * e(vk_x, gamma) * e(C, delta) * e(alpha, beta) == 1
+        uint256[24] memory input;
+        input[0] = _pA[0];
+        input[1] = (BASE_FIELD - _pA[1]) % BASE_FIELD;
+        input[2] = _pB[0][0];
+        input[3] = _pB[0][1];
+        input[4] = _pB[1][0];
+        input[5] = _pB[1][1];
+        input[6] = vkX[0];
+        input[7] = vkX[1];
+        input[8] = GAMMA_X1;
+        input[9] = GAMMA_X0;
+        input[10] = GAMMA_Y1;
+        input[11] = GAMMA_Y0;
+        input[12] = _pC[0];
+        input[13] = _pC[1];
+        input[14] = DELTA_X1;
+        input[15] = DELTA_X0;
+        input[16] = DELTA_Y1;
+        input[17] = DELTA_Y0;
+        input[18] = ALPHA_X;
+        input[19] = ALPHA_Y;
+        input[20] = BETA_X1;
+        input[21] = BETA_X0;
+        input[22] = BETA_Y1;
+        input[23] = BETA_Y0;
+        return pairing(input);
+    }
+
+    function isG1(uint[2] memory p) private pure returns (bool) {
+        return p[0] < BASE_FIELD && p[1] < BASE_FIELD && (p[0] | p[1]) != 0;
+    }
+
+    function isG2(uint[2][2] memory p) private pure returns (bool) {
+        return p[0][0] < BASE_FIELD && p[0][1] < BASE_FIELD && p[1][0] < BASE_FIELD && p[1][1] < BASE_FIELD
+            && (p[0][0] | p[0][1] | p[1][0] | p[1][1]) != 0;
+    }
+
+    /**
+     * @dev acc += scalar * (x, y) with the ecMul (0x07) and ecAdd (0x06) precompiles
+     */
+    function accumulate(uint256[2] memory acc, uint256 x, uint256 y, uint256 scalar) private view returns (bool ok) {
+        uint256[4] memory buffer;
+        buffer[0] = x;
+        buffer[1] = y;
+        buffer[2] = scalar;
+        assembly {
+            ok := staticcall(gas(), 0x07, buffer, 0x60, buffer, 0x40)
+        }
+        if (!ok) {
+            return false;
+        }
+        buffer[2] = acc[0];
+        buffer[3] = acc[1];
+        assembly {
+            ok := staticcall(gas(), 0x06, buffer, 0x80, acc, 0x40)
+        }
+    }
+
+    /**
+     * @dev ecPairing (0x08) over four (G1, G2) pairs
+     */
+    function pairing(uint256[24] memory input) private view returns (bool) {
+        uint256[1] memory out;
+        bool ok;
+        assembly {
+            ok := staticcall(gas(), 0x08, input, 0x300, out, 0x20)
+        }
+        return ok && out[0] == 1;
+    }
+}
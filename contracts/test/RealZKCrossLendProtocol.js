@@ -0,0 +1,115 @@
+const fs = require("fs");
+const path = require("path");
+const { loadFixture } = require("@nomicfoundation/hardhat-toolbox/network-helpers");
+const { expect } = require("chai");
+const {
+  CircuitArtifacts,
+  IncrementalPoseidonTree,
+  ProductionZKProofGenerator,
+  STAKE_BOUND_PROOF_CIRCUIT,
+  appScope,
+  createCommitment,
+  createStakeNote,
+  generateSolidityVerifier,
+} = require("@vault/sdk");
+
+// Committed setup of stake_bound_proof (`npm run build:circuits -- --circuit ../circuits/stake_bound_proof.circom --new-setup` in sdk/)
+const MANIFEST = path.resolve(__dirname, "../../circuits/manifest.json");
+const CONTRACT = path.resolve(__dirname, "../contracts/StakeBoundProofVerifier.sol");
+
+describe("RealZKCrossLendProtocol", function () {
+  this.timeout(120000);
+
+  let circuit;
+  let proof;
+
+  async function deployProtocolFixture() {
+    const [borrower, frontRunner] = await ethers.getSigners();
+    const RealZKCrossLendProtocol = await ethers.getContractFactory("RealZKCrossLendProtocol");
+    const protocol = await RealZKCrossLendProtocol.deploy();
+    return { protocol, borrower, frontRunner };
+  }
+
+  before(async function () {
+    if (!fs.existsSync(MANIFEST) || !JSON.parse(fs.readFileSync(MANIFEST, "utf8")).circuits[STAKE_BOUND_PROOF_CIRCUIT]) {
+      this.skip();
+    }
+    circuit = await (await CircuitArtifacts.fromManifest(MANIFEST)).load(STAKE_BOUND_PROOF_CIRCUIT);
+
+    const [borrower] = await ethers.getSigners();
+    const { chainId } = await ethers.provider.getNetwork();
+    const note = createStakeNote({ amount: 5000, owner: borrower.address });
+    const RealZKCrossLendProtocol = await ethers.getContractFactory("RealZKCrossLendProtocol");
+    const appId = await (await RealZKCrossLendProtocol.deploy()).APP_ID();
+    const tree = await IncrementalPoseidonTree.create();
+    const index = tree.insert(await createCommitment(note));
+    const zkGenerator = new ProductionZKProofGenerator({ artifacts: MANIFEST });
+    proof = (await zkGenerator.generateNoteProof(note, tree.path(index), {
+      minAmount: 4000,
+      eventId: "0xevent",
+      externalNullifier: appScope(appId),
+      recipient: borrower.address,
+      chainId,
+    })).proof;
+  });
+
+  it("Should be generated from the built verification key", function () {
+    const expected = generateSolidityVerifier(circuit.verificationKey, { contractName: "StakeBoundProofVerifier" });
+    expect(fs.readFileSync(CONTRACT, "utf8")).to.equal(
+      expected,
+      "StakeBoundProofVerifier.sol is stale: run `npm run generate:verifier` in sdk/ for the stake_bound_proof key"
+    );
+  });
+
+  it("Should let the recipient borrow once", async function () {
+    const { protocol, borrower } = await loadFixture(deployProtocolFixture);
+    const { a, b, c, publicSignals } = proof;
+
+    await expect(protocol.connect(borrower).borrowWithRealZKProof(a, b, c, publicSignals))
+      .to.emit(protocol, "RealZKBorrowEvent");
+    expect(await protocol.userBorrows(borrower.address)).to.equal(3000n);
+
+    await expect(protocol.connect(borrower).borrowWithRealZKProof(a, b, c, publicSignals))
+      .to.be.revertedWith("Nullifier already used");
+  });
+
+  it("Should reject the same proof from another account", async function () {
+    const { protocol, frontRunner } = await loadFixture(deployProtocolFixture);
+    const { a, b, c, publicSignals } = proof;
+
+    await expect(protocol.connect(frontRunner).borrowWithRealZKProof(a, b, c, publicSignals))
+      .to.be.revertedWith("Proof bound to another recipient");
+
+    // Rebinding the public signals to the front-runner breaks the pairing check
+    const rebound = [...publicSignals];
+    rebound[4] = BigInt(frontRunner.address).toString();
+    await expect(protocol.connect(frontRunner).borrowWithRealZKProof(a, b, c, rebound))
+      .to.be.revertedWith("ZK proof verification failed");
+  });
+
+  it("Should reject a proof generated for another chain", async function () {
+    const { protocol, borrower } = await loadFixture(deployProtocolFixture);
+    const { a, b, c, publicSignals } = proof;
+
+    const otherChain = [...publicSignals];
+    otherChain[5] = "43113";
+    await expect(protocol.connect(borrower).borrowWithRealZKProof(a, b, c, otherChain))
+      .to.be.revertedWith("Proof bound to another chain");
+  });
+
+  it("Should match the SDK scope of its app ID", async function () {
+    const { protocol } = await loadFixture(deployProtocolFixture);
+
+    expect(await protocol.EXTERNAL_NULLIFIER()).to.equal(appScope(await protocol.APP_ID()));
+  });
+
+  it("Should reject a proof scoped to another app", async function () {
+    const { protocol, borrower } = await loadFixture(deployProtocolFixture);
+    const { a, b, c, publicSignals } = proof;
+
+    const otherApp = [...publicSignals];
+    otherApp[6] = appScope("another-app").toString();
+    await expect(protocol.connect(borrower).borrowWithRealZKProof(a, b, c, otherApp))
+      .to.be.revertedWith("Proof scoped to another app");
+  });
+});
@@ -0,0 +1,108 @@
+const fs = require("fs");
+const path = require("path");
+const { loadFixture } = require("@nomicfoundation/hardhat-toolbox/network-helpers");
+const { expect } = require("chai");
+const {
+  CircuitArtifacts,
+  IncrementalPoseidonTree,
+  ProductionZKProofGenerator,
+  SNARK_SCALAR_FIELD,
+  STAKE_PROOF_CIRCUIT,
+  appScope,
+  computeStakeLeaf,
+  generateSolidityVerifier,
+} = require("@vault/sdk");
+
+// Committed setup of stake_proof (`npm run build:circuits -- --new-setup` in sdk/)
+const MANIFEST = path.resolve(__dirname, "../../circuits/manifest.json");
+const CONTRACT = path.resolve(__dirname, "../contracts/RealZKVerifier.sol");
+
+describe("RealZKVerifier", function () {
+  // Proving runs the circuit's witness wasm and snarkjs
+  this.timeout(120000);
+
+  let circuit;
+  let proof;
+
+  before(async function () {
+    if (!fs.existsSync(MANIFEST)) {
+      this.skip();
+    }
+    circuit = await (await CircuitArtifacts.fromManifest(MANIFEST)).load(STAKE_PROOF_CIRCUIT);
+
+    const tree = await IncrementalPoseidonTree.create();
+    tree.insert(await computeStakeLeaf(1000, 777));
+    const merklePath = tree.path(tree.insert(await computeStakeLeaf(5000, 12345)));
+    const zkGenerator = new ProductionZKProofGenerator({ artifacts: MANIFEST });
+    proof = (await zkGenerator.generateProductionProof(
+      {
+        actualAmount: "5000",
+        userSecret: "12345",
+        merkleProof: merklePath.pathElements.map(String),
+        merkleIndices: merklePath.pathIndices,
+      },
+      { minAmount: "4000", merkleRoot: merklePath.root.toString(), eventId: "0xevent", externalNullifier: appScope("test") }
+    )).proof;
+  });
+
+  async function deployVerifierFixture() {
+    const RealZKVerifier = await ethers.getContractFactory("RealZKVerifier");
+    const verifier = await RealZKVerifier.deploy();
+    return { verifier };
+  }
+
+  // Verdicts of the TS verifier and the deployed contract for the same calldata
+  async function verdicts(verifier, { a, b, c }, publicSignals) {
+    return {
+      sdk: circuit.verifier.verify({ a, b, c }, publicSignals).isValid,
+      contract: await verifier.verifyProof(a, b, c, publicSignals),
+    };
+  }
+
+  it("Should be generated from the built verification key", function () {
+    const expected = generateSolidityVerifier(circuit.verificationKey, { contractName: "RealZKVerifier" });
+    expect(fs.readFileSync(CONTRACT, "utf8")).to.equal(
+      expected,
+      "RealZKVerifier.sol is stale: run `npm run generate:verifier` in sdk/"
+    );
+  });
+
+  it("Should accept a proof the TS verifier accepts", async function () {
+    const { verifier } = await loadFixture(deployVerifierFixture);
+
+    expect(await verdicts(verifier, proof, proof.publicSignals)).to.deep.equal({ sdk: true, contract: true });
+  });
+
+  it("Should reject changed public signals like the TS verifier", async function () {
+    const { verifier } = await loadFixture(deployVerifierFixture);
+
+    for (let i = 0; i < proof.publicSignals.length; i++) {
+      const signals = [...proof.publicSignals];
+      signals[i] = (BigInt(signals[i]) + 1n).toString();
+      expect(await verdicts(verifier, proof, signals)).to.deep.equal({ sdk: false, contract: false });
+    }
+  });
+
+  it("Should reject public signals outside the scalar field like the TS verifier", async function () {
+    const { verifier } = await loadFixture(deployVerifierFixture);
+
+    // Same value mod r: only the range check stops it
+    const signals = [...proof.publicSignals];
+    signals[1] = (BigInt(signals[1]) + SNARK_SCALAR_FIELD).toString();
+    expect(await verdicts(verifier, proof, signals)).to.deep.equal({ sdk: false, contract: false });
+  });
+
+  it("Should reject malformed proof points like the TS verifier", async function () {
+    const { verifier } = await loadFixture(deployVerifierFixture);
+    const { a, b, c, publicSignals } = proof;
+
+    const unswapped = { a, b: [[b[0][1], b[0][0]], [b[1][1], b[1][0]]], c };
+    expect(await verdicts(verifier, unswapped, publicSignals)).to.deep.equal({ sdk: false, contract: false });
+
+    const atInfinity = { a: ["0", "0"], b, c };
+    expect(await verdicts(verifier, atInfinity, publicSignals)).to.deep.equal({ sdk: false, contract: false });
+
+    const swappedAC = { a: c, b, c: a };
+    expect(await verdicts(verifier, swappedAC, publicSignals)).to.deep.equal({ sdk: false, contract: false });
+  });
+});
@@ -0,0 +1,22 @@
+// frontend/scripts/copy-circuits.js
+// Copy the committed circuit artifacts listed in circuits/manifest.json into public/circuits,
+// where the ZK proof generator fetches them (CIRCUIT_MANIFEST_URL). Runs before `start` and `build`.
+const fs = require("fs");
+const path = require("path");
+
+const SOURCE = path.resolve(__dirname, "../../circuits");
+const TARGET = path.resolve(__dirname, "../public/circuits");
+
+const manifest = JSON.parse(fs.readFileSync(path.join(SOURCE, "manifest.json"), "utf8"));
+fs.rmSync(TARGET, { recursive: true, force: true });
+
+for (const entry of Object.values(manifest.circuits)) {
+  for (const file of [entry.wasm, entry.zkey, entry.vkey]) {
+    const target = path.join(TARGET, file.path);
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    fs.copyFileSync(path.join(SOURCE, file.path), target);
+  }
+}
+fs.copyFileSync(path.join(SOURCE, "manifest.json"), path.join(TARGET, "manifest.json"));
+
+console.log(`Copied ${Object.keys(manifest.circuits).length} circuits to ${path.relative(process.cwd(), TARGET)}`);
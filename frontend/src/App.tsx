@@ -1,6 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { ethers } from 'ethers';
+import { SecretManager } from '@vault/sdk/dist/zk/SecretManager';
 import { useProductionZK } from './hooks/useProductionZK';
+import { recordStakeNote, restoreStakeNote } from './zk/StakeNoteStore';
 import SDKDocs from './components/SDKDocs';
 import './App.css';
 
@@ -13,6 +15,7 @@ const FUJI_CHAIN_ID = 43113;
 const CONTRACT_ABI = [
   "function stakeAVAX() external payable",
   "function borrowWithProof(bytes32 proofHash, uint256 stakeAmount, address user) external",
+  "function borrowWithRealZKProof(uint256[2] _pA, uint256[2][2] _pB, uint256[2] _pC, uint256[7] publicInputs) external",
   "function getUserStake(address user) external view returns (uint256)",
   "function getUserBorrow(address user) external view returns (uint256)",
   "function getMaxBorrowAmount(uint256 stakeAmount) external pure returns (uint256)",
@@ -121,6 +124,7 @@ function App() {
   const [stakeAmount, setStakeAmount] = useState('0.5');
   const [stakeTxHash, setStakeTxHash] = useState('');
   const [isStaking, setIsStaking] = useState(false);
+  const [secrets, setSecrets] = useState<SecretManager | null>(null);
 
   // Proof states
   const [generatedProof, setGeneratedProof] = useState<any>(null);
@@ -239,6 +243,17 @@ function App() {
     }
   };
 
+  // Stake secrets, derived from a wallet signature once per account:
+  // the same account gets the same notes, and nullifiers, on any device
+  const getSecrets = async (): Promise<SecretManager> => {
+    if (secrets && secrets.account.toLowerCase() === account.toLowerCase()) {
+      return secrets;
+    }
+    const derived = await SecretManager.fromSigner(signer);
+    setSecrets(derived);
+    return derived;
+  };
+
   // Stake AVAX
   const stakeAVAX = async () => {
     if (!contract || !signer) return;
@@ -247,14 +262,22 @@ function App() {
     try {
       console.log('🏦 Staking', stakeAmount, 'AVAX...');
 
+      // Before sending, so a stake is never left without its note
+      const stakeSecrets = await getSecrets();
+      const amount = ethers.utils.parseEther(stakeAmount);
+
       const tx = await contract.stakeAVAX({
-        value: ethers.utils.parseEther(stakeAmount),
+        value: amount,
         gasLimit: 300000
       });
 
       console.log('📤 Transaction sent:', tx.hash);
       setStakeTxHash(tx.hash);
 
+      // Each stake gets the account's next note index, so its own nullifier
+      const record = await recordStakeNote(stakeSecrets, amount.toString(), tx.hash);
+      console.log('📒 Stake note recorded:', record.index);
+
       const receipt = await tx.wait();
       console.log('✅ Stake successful! Block:', receipt.blockNumber);
 
@@ -296,27 +319,28 @@ function App() {
 
   // Generate REAL ZK proof using Production ZK
   const generateRealZKProofForStake = async () => {
-    if (!stakeTxHash || !account) return;
+    if (!stakeTxHash || !account || !signer) return;
 
     try {
       console.log('🔐 Generating REAL ZK proof with production cryptography...');
 
-      // Generate user secret (in production, this would be stored securely)
-      const userSecret = ethers.utils.keccak256(
-        ethers.utils.defaultAbiCoder.encode(['address', 'uint256'], [account, Date.now()])
-      );
-
-      const actualAmount = ethers.utils.parseEther(stakeAmount).toString();
       const minAmount = ethers.utils.parseEther('0.1').toString(); // Minimum required
       const eventId = stakeTxHash;
 
+      // The note recorded for this stake, rederived from the account's secrets
+      const note = await restoreStakeNote(await getSecrets(), stakeTxHash);
+      const actualAmount = note.amount.toString();
+
+      // The contract only accepts the proof from this account, on the chain it is generated for
+      const binding = { recipient: account, chainId: await signer.getChainId() };
+
       console.log('⚙️ Inputs prepared for REAL ZK proof generation');
       console.log('🔒 actualAmount (hidden):', actualAmount);
       console.log('👁️ minAmount (public):', minAmount);
 
       const result = await generateRealZKProof(
-        actualAmount,
-        userSecret,
+        note,
+        binding,
         minAmount,
         eventId
       );
@@ -325,7 +349,7 @@ function App() {
         setGeneratedProof(result.proof);
         console.log('🎉 REAL ZK proof generated successfully!');
         console.log('📊 Stats:', result.stats);
-        alert(`🎉 REAL ZK proof generated!\n⏱️ Time: ${result.stats?.generationTime || 'N/A'}ms\n🔒 Privacy: Perfect Zero-Knowledge\n✅ Proof: Production cryptography`);
+        alert(`🎉 REAL ZK proof generated!\n⏱️ Time: ${result.stats?.generationTime || 'N/A'}ms\n🔒 Privacy: Perfect Zero-Knowledge\n🌳 Stake tree: demo (root not checked on-chain)`);
       } else {
         throw new Error(result.message);
       }
@@ -361,14 +385,13 @@ function App() {
         // Format proof for smart contract
         const formattedProof = formatProofForContract(generatedProof);
         
-        // Use REAL ZK borrowing function (if contract supports it)
+        // Use REAL ZK borrowing function (if contract supports it); the borrower is msg.sender
         try {
           const tx = await contract.borrowWithRealZKProof(
             formattedProof.pA,
             formattedProof.pB,
             formattedProof.pC,
             formattedProof.publicInputs,
-            account,
             { gasLimit: 600000 } // Higher gas for ZK verification
           );
 
@@ -746,7 +769,7 @@ function App() {
                 </div>
 
                 <div style={{ fontSize: '0.8rem', color: '#666', marginBottom: '15px', textAlign: 'center' }}>
-                  <strong>🔐 REAL ZK:</strong> Production cryptography with perfect privacy |{' '}
+                  <strong>🔐 REAL ZK:</strong> snarkjs Groth16 proof against a demo stake tree |{' '}
                   <strong>🏭 Legacy:</strong> Demo proof for testing
                 </div>
 
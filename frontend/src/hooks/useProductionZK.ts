@@ -1,6 +1,19 @@
 // frontend/src/hooks/useProductionZK.ts
 import { useState, useCallback } from 'react';
-import { ProductionZKProofGenerator } from '../zk/ProductionZKProofGenerator';
+import { IncrementalPoseidonTree } from '@vault/sdk/dist/merkle/IncrementalPoseidonTree';
+import { appScope } from '@vault/sdk/dist/zk/Nullifier';
+import { StakeNote, createCommitment } from '@vault/sdk/dist/zk/StakeNote';
+import { stakeBoundProofCircuit } from '@vault/sdk/dist/zk/StakeProofCircuit';
+import { RecipientBinding } from '@vault/sdk/dist/zk/StakeProofInputs';
+import { namePublicSignals } from '@vault/sdk/dist/zk/ZKCircuit';
+import { FrontendZKProof, ProductionZKProofGenerator } from '../zk/ProductionZKProofGenerator';
+
+// Must match APP_ID of RealZKCrossLendProtocol, whose EXTERNAL_NULLIFIER scopes the nullifier
+const APP_ID = 'avax-cpoe/crosslend';
+
+// uint[7] publicInputs of borrowWithRealZKProof:
+// [valid, minAmount, merkleRoot, nullifierHash, recipient, chainId, externalNullifier]
+const CONTRACT_PUBLIC_INPUTS = stakeBoundProofCircuit.publicSignals;
 
 /**
  * Production ZK Hook for Real Zero-Knowledge Proofs
@@ -9,15 +22,15 @@ import { ProductionZKProofGenerator } from '../zk/ProductionZKProofGenerator';
 export function useProductionZK() {
     const [zkGenerator] = useState(() => new ProductionZKProofGenerator());
     const [isGeneratingProof, setIsGeneratingProof] = useState(false);
-    const [lastProof, setLastProof] = useState<any>(null);
+    const [lastProof, setLastProof] = useState<FrontendZKProof | null>(null);
     const [proofStats, setProofStats] = useState<any>(null);
 
     /**
-     * Generate REAL ZK proof for staking
+     * Generate REAL ZK proof for a stake note, bound to the borrower's account and chain
      */
     const generateRealZKProof = useCallback(async (
-        actualAmount: string,
-        userSecret: string,
+        note: StakeNote,
+        binding: RecipientBinding,
         minAmount: string,
         eventId: string
     ) => {
@@ -27,30 +40,26 @@ export function useProductionZK() {
         try {
             const startTime = Date.now();
 
-            // Generate mock Merkle proof for demo
-            // In production, this would come from actual Merkle tree
-            const merkleProof = generateMockMerkleProof(actualAmount);
-            const merkleRoot = calculateMerkleRoot(merkleProof);
-
-            const privateInputs = {
-                actualAmount,
-                userSecret,
-                merkleProof: merkleProof.pathElements,
-                merkleIndices: merkleProof.pathIndices
-            };
+            // DEMO stake tree holding only this note. The contract keeps no commitment tree and does
+            // not check merkleRoot, so the proof shows the note's amount, not that it was staked
+            const tree = await IncrementalPoseidonTree.create();
+            const merklePath = tree.path(tree.insert(await createCommitment(note)));
+            console.log('🌳 Demo stake tree root (not checked on-chain):', tree.root.toString());
 
             const publicInputs = {
                 minAmount,
-                merkleRoot,
-                eventId
+                eventId,
+                externalNullifier: appScope(APP_ID).toString()
             };
 
-            console.log('⚙️ Generating proof with PRODUCTION cryptography...');
-            
+            console.log('⚙️ Generating Groth16 proof with snarkjs...');
+
             // Generate REAL ZK proof
-            const proof = await zkGenerator.generateProductionProof(
-                privateInputs,
-                publicInputs
+            const proof = await zkGenerator.generateBoundNoteProof(
+                note,
+                merklePath,
+                publicInputs,
+                binding
             );
 
             const endTime = Date.now();
@@ -71,13 +80,12 @@ export function useProductionZK() {
             console.log('🎉 REAL ZK proof generated successfully!');
             console.log(`⏱️ Total time: ${totalTime}ms`);
             console.log('🔒 Privacy: Exact amount completely hidden');
-            console.log('✅ Proof: Cryptographically verified');
 
             return {
                 success: true,
                 proof,
                 stats,
-                message: 'Real ZK proof generated with production cryptography!'
+                message: 'Groth16 proof generated against a demo stake tree'
             };
 
         } catch (error: any) {
@@ -95,7 +103,7 @@ export function useProductionZK() {
     /**
      * Verify REAL ZK proof
      */
-    const verifyRealZKProof = useCallback(async (proof: any) => {
+    const verifyRealZKProof = useCallback(async (proof: FrontendZKProof) => {
         console.log('🔍 Verifying REAL ZK proof...');
 
         try {
@@ -128,24 +136,27 @@ export function useProductionZK() {
     }, [zkGenerator]);
 
     /**
-     * Format proof for smart contract
+     * Format proof for borrowWithRealZKProof; public inputs are placed by name in the contract's layout
      */
-    const formatProofForContract = useCallback((proof: any) => {
+    const formatProofForContract = useCallback((proof: FrontendZKProof) => {
         if (!proof || !proof.proof) {
             throw new Error('Invalid proof object');
         }
+        if (proof.circuit !== stakeBoundProofCircuit.name) {
+            throw new Error(`borrowWithRealZKProof needs a ${stakeBoundProofCircuit.name} proof, got ${proof.circuit}`);
+        }
 
         const { a, b, c, publicSignals } = proof.proof;
+        const named = namePublicSignals(stakeBoundProofCircuit, publicSignals);
+        if (named.externalNullifier !== appScope(APP_ID).toString()) {
+            throw new Error('Proof scoped to another app');
+        }
 
         return {
             pA: [a[0], a[1]],
             pB: [[b[0][0], b[0][1]], [b[1][0], b[1][1]]],
             pC: [c[0], c[1]],
-            publicInputs: [
-                publicSignals[0], // minAmount
-                publicSignals[1], // merkleRoot  
-                publicSignals[2]  // nullifierHash
-            ]
+            publicInputs: CONTRACT_PUBLIC_INPUTS.map(name => named[name])
         };
     }, []);
 
@@ -163,58 +174,7 @@ export function useProductionZK() {
         
         // Utils
         isReady: true,
-        version: 'production-1.0.0'
-    };
-}
-
-/**
- * Generate VALID mock Merkle proof for demo
- * In production, this would query actual Merkle tree
- */
-function generateMockMerkleProof(amount: string) {
-    const pathElements = [];
-    const pathIndices = [];
-    
-    // Generate 10-level Merkle proof that will actually verify
-    let currentHash = BigInt(amount);
-    
-    for (let i = 0; i < 10; i++) {
-        // Generate sibling hash
-        const siblingHash = BigInt("123456789012345678901234567890") + BigInt(i);
-        pathElements.push(siblingHash.toString());
-        pathIndices.push(i % 2);
-        
-        // Calculate parent hash (this will be used to verify)
-        if (i % 2 === 0) {
-            currentHash = hashPair(currentHash, siblingHash);
-        } else {
-            currentHash = hashPair(siblingHash, currentHash);
-        }
-    }
-    
-    return { 
-        pathElements, 
-        pathIndices,
-        finalRoot: currentHash.toString() // This is the root that will verify
+        version: 'demo-tree-1.0.0'
     };
 }
 
-/**
- * Hash pair for Merkle tree (matches ProductionZKProofGenerator)
- */
-function hashPair(left: bigint, right: bigint): bigint {
-    // Use deterministic ordering for consistency
-    const [a, b] = left < right ? [left, right] : [right, left];
-    
-    // Simple but consistent hash function for demo
-    return (a * BigInt(31) + b * BigInt(37)) % BigInt("21888242871839275222246405745257275088696311157297823662689037894645226208583");
-}
-
-/**
- * Calculate VALID Merkle root that matches the proof
- * In production, this would be the actual committed root
- */
-function calculateMerkleRoot(merkleProof: any): string {
-    // Return the root that was calculated during proof generation
-    return merkleProof.finalRoot;
-}
@@ -1,104 +1,68 @@
 // frontend/src/zk/ProductionZKProofGenerator.ts
-import { ethers } from 'ethers';
+// Browser-safe entry points: the package index also pulls in Node-only modules. The artifact loaders'
+// Node fallbacks (fs/promises, path, url) are stubbed by the SDK's `browser` field.
+import { IncrementalPoseidonTree } from '@vault/sdk/dist/merkle/IncrementalPoseidonTree';
+import { CircuitProof, CircuitProver } from '@vault/sdk/dist/zk/CircuitProver';
+import { computeNullifier, computeStakeLeaf } from '@vault/sdk/dist/zk/Nullifier';
+import { StakeNote } from '@vault/sdk/dist/zk/StakeNote';
+import { stakeBoundProofCircuit, stakeProofCircuit } from '@vault/sdk/dist/zk/StakeProofCircuit';
+import { NoteMerklePath, RecipientBinding } from '@vault/sdk/dist/zk/StakeProofInputs';
+import { ZKCircuit, namePublicSignals } from '@vault/sdk/dist/zk/ZKCircuit';
+import type { SolidityGroth16Proof } from '@vault/sdk/dist/types';
 
 /**
- * PRODUCTION Zero-Knowledge Proof Generator
- * Uses real snarkjs for Groth16 proof generation
+ * Proof returned by the generator; `proof.publicSignals` follow the layout of `circuit`
  */
-export class ProductionZKProofGenerator {
-    private circuitWasm: string;
-    private circuitZkey: string;
-    private verificationKey: any;
-    private initialized: boolean = false;
-
-    constructor() {
-        // In production, these would be real compiled circuit files
-        this.circuitWasm = "./circuits/stake_proof_js/stake_proof.wasm";
-        this.circuitZkey = "./circuits/stake_proof_final.zkey";
-        this.initializeCircuit();
+export interface FrontendZKProof {
+    version: string;
+    type: 'zk-snark-groth16';
+    protocol: 'groth16';
+    curve: 'bn128';
+    circuit: string;                   // SDK circuit name, e.g. `stake_proof`
+    constraints: number;
+    eventId: string;
+    nullifierHash: string;
+    generationTimeMs: number;
+    proof: SolidityGroth16Proof & { publicSignals: string[] };
+    metadata: {
+        privacy: string;
+        soundness: string;
+        completeness: string;
+        proofSize: number;
+        verificationGas: number;
+    };
+}
+
+/**
+ * Manifest of the committed circuit artifacts, copied into public/circuits before `start` and `build`
+ */
+export const CIRCUIT_MANIFEST_URL = `${process.env.PUBLIC_URL}/circuits/manifest.json`;
+
+const PROOF_CIRCUITS: Record<string, ZKCircuit> = {
+    [stakeProofCircuit.name]: stakeProofCircuit,
+    [stakeBoundProofCircuit.name]: stakeBoundProofCircuit
+};
+
+/**
+ * Circuit whose public signal layout a proof follows
+ */
+export function proofCircuit(proof: FrontendZKProof): ZKCircuit {
+    const circuit = PROOF_CIRCUITS[proof.circuit];
+    if (!circuit) {
+        throw new Error(`Unknown proof circuit: ${proof.circuit}`);
     }
+    return circuit;
+}
 
-    /**
-     * Initialize with real verification key
-     */
-    private async initializeCircuit() {
-        try {
-            console.log('🔧 Initializing PRODUCTION ZK circuit...');
-            
-            // Real verification key (from trusted setup ceremony)
-            this.verificationKey = {
-                protocol: "groth16",
-                curve: "bn128",
-                nPublic: 3,
-                vk_alpha_1: [
-                    "20491192805390485299153009773594534940189261866228447918068658471970481763042",
-                    "9383485363053290200918347156157836566562967994039712273449902621266178545958",
-                    "1"
-                ],
-                vk_beta_2: [
-                    [
-                        "6375614351688725206403948262868962793625744043794305715222011528459656738731",
-                        "4252822878758300859123897981450591353533073413197771768651442665752259397132"
-                    ],
-                    [
-                        "10505242626370262277552901082094356697409835680220590971873171140371331206856",
-                        "21847035105528745403288232691147584728191162732299865338377159692350059136679"
-                    ],
-                    ["1", "0"]
-                ],
-                vk_gamma_2: [
-                    [
-                        "10857046999023057135944570762232829481370756359578518086990519993285655852781",
-                        "11559732032986387107991004021392285783925812861821192530917403151452391805634"
-                    ],
-                    [
-                        "8495653923123431417604973247489272438418190587263600148770280649306958101930",
-                        "4082367875863433681332203403145435568316851327593401208105741076214120093531"
-                    ],
-                    ["1", "0"]
-                ],
-                vk_delta_2: [
-                    [
-                        "11559732032986387107991004021392285783925812861821192530917403151452391805634",
-                        "10857046999023057135944570762232829481370756359578518086990519993285655852781"
-                    ],
-                    [
-                        "4082367875863433681332203403145435568316851327593401208105741076214120093531",
-                        "8495653923123431417604973247489272438418190587263600148770280649306958101930"
-                    ],
-                    ["1", "0"]
-                ],
-                IC: [
-                    [
-                        "5944370176705801405341590975654852815558631233541801695547199834080309068648",
-                        "13962962263785131795344547982726491474980419804152550936421998055027854940160",
-                        "1"
-                    ],
-                    [
-                        "8495653923123431417604973247489272438418190587263600148770280649306958101930",
-                        "21847035105528745403288232691147584728191162732299865338377159692350059136679",
-                        "1"
-                    ],
-                    [
-                        "6375614351688725206403948262868962793625744043794305715222011528459656738731",
-                        "11559732032986387107991004021392285783925812861821192530917403151452391805634",
-                        "1"
-                    ],
-                    [
-                        "20491192805390485299153009773594534940189261866228447918068658471970481763042",
-                        "4252822878758300859123897981450591353533073413197771768651442665752259397132",
-                        "1"
-                    ]
-                ]
-            };
+/**
+ * PRODUCTION Zero-Knowledge Proof Generator
+ * Proves with snarkjs through the SDK's CircuitProver, from the integrity-checked manifest artifacts
+ */
+export class ProductionZKProofGenerator {
+    private prover: CircuitProver;
 
-            this.initialized = true;
-            console.log('✅ PRODUCTION ZK circuit initialized successfully');
-            
-        } catch (error) {
-            console.error('❌ Failed to initialize ZK circuit:', error);
-            throw new Error('ZK circuit initialization failed');
-        }
+    constructor(manifest: string = CIRCUIT_MANIFEST_URL) {
+        this.prover = new CircuitProver({ artifacts: manifest });
     }
 
     /**
@@ -115,22 +79,19 @@ export class ProductionZKProofGenerator {
             minAmount: string;
             merkleRoot: string;
             eventId: string;
+            externalNullifier: string;  // Nullifier scope, e.g. appScope(APP_ID) of the contract
         }
-    ): Promise<any> {
+    ): Promise<FrontendZKProof> {
         console.log('🔐 Generating PRODUCTION ZK proof...');
         console.log('⚙️ Using real Groth16 protocol with BN128 curve');
 
-        if (!this.initialized) {
-            throw new Error('ZK circuit not initialized');
-        }
-
         try {
             const startTime = Date.now();
 
             // Step 1: Generate real nullifier using cryptographic hash
             const nullifierHash = await this.computeRealNullifier(
                 privateInputs.userSecret,
-                privateInputs.actualAmount
+                publicInputs.externalNullifier
             );
 
             // Step 2: Prepare circuit inputs (production format)
@@ -144,64 +105,23 @@ export class ProductionZKProofGenerator {
                 // Public inputs (visible)
                 minAmount: publicInputs.minAmount,
                 merkleRoot: publicInputs.merkleRoot,
-                nullifierHash: nullifierHash
+                nullifierHash: nullifierHash,
+                externalNullifier: publicInputs.externalNullifier
             };
 
             console.log('🧮 Circuit inputs prepared for production proof');
             console.log('🔒 Private: actualAmount, userSecret, merkleProof');
-            console.log('👁️ Public: minAmount, merkleRoot, nullifierHash');
+            console.log('👁️ Public: minAmount, merkleRoot, nullifierHash, externalNullifier');
 
-            // Step 3: Generate witness using real constraint system
-            const witness = await this.generateProductionWitness(circuitInputs);
-            console.log('✅ Production witness generated');
+            // Step 3: Check the circuit's constraints before proving
+            await this.checkProductionConstraints(circuitInputs);
 
-            // Step 4: Generate proof using real Groth16 implementation
-            const proof = await this.generateGroth16Proof(witness, circuitInputs);
+            // Step 4: Witness and Groth16 proof from the compiled stake_proof circuit
+            const proof = await this.prover.prove(stakeProofCircuit.name, circuitInputs);
             console.log('✅ Groth16 proof generated');
 
-            // Step 5: Format proof for Solidity verification
-            const formattedProof = {
-                a: [proof.pi_a[0], proof.pi_a[1]],
-                b: [
-                    [proof.pi_b[0][1], proof.pi_b[0][0]], // Note: swapped for Solidity
-                    [proof.pi_b[1][1], proof.pi_b[1][0]]
-                ],
-                c: [proof.pi_c[0], proof.pi_c[1]],
-                publicSignals: [
-                    publicInputs.minAmount,
-                    publicInputs.merkleRoot,
-                    nullifierHash
-                ]
-            };
-
-            const endTime = Date.now();
-            const generationTime = endTime - startTime;
-
-            console.log('🎉 PRODUCTION ZK proof generated successfully!');
-            console.log(`⏱️ Generation time: ${generationTime}ms`);
-            console.log('🔒 Privacy: Exact amount completely hidden');
-            console.log('✅ Proof: Mathematically verified actualAmount >= minAmount');
-            console.log('📏 Size: 288 bytes (3 G1 + 1 G2 elliptic curve points)');
-
-            return {
-                version: "1.0.0-production",
-                type: "zk-snark-groth16",
-                protocol: "groth16",
-                curve: "bn128",
-                constraints: 1500000,
-                eventId: publicInputs.eventId,
-                nullifierHash: nullifierHash,
-                generationTimeMs: generationTime,
-                proof: formattedProof,
-                verificationKey: this.verificationKey,
-                metadata: {
-                    privacy: "perfect-zero-knowledge",
-                    soundness: "computational-ecdlp",
-                    completeness: "100%",
-                    proofSize: 288,
-                    verificationGas: 500000
-                }
-            };
+            // Step 5: Format proof for Solidity verification, signals in the order of stake_proof's public signals
+            return this.packageProof(proof, publicInputs.eventId, Date.now() - startTime);
 
         } catch (error: any) {
             console.error('❌ Production ZK proof generation failed:', error);
@@ -210,30 +130,88 @@ export class ProductionZKProofGenerator {
     }
 
     /**
-     * Compute real nullifier using cryptographic hash
+     * Generate a stake_bound_proof for a stake note: the proof is only usable by `binding.recipient`
+     * on `binding.chainId`, as RealZKCrossLendProtocol.borrowWithRealZKProof requires
      */
-    private async computeRealNullifier(userSecret: string, actualAmount: string): Promise<string> {
-        // Use real Poseidon hash (ZK-friendly)
-        // For production, this would use circomlib's Poseidon
-        // For now, using keccak256 as a cryptographically secure alternative
-        
-        const combined = ethers.utils.defaultAbiCoder.encode(
-            ['uint256', 'uint256'],
-            [userSecret, actualAmount]
-        );
-        
-        const hash = ethers.utils.keccak256(combined);
-        const nullifier = BigInt(hash).toString();
-        
-        console.log('🔐 Real nullifier computed using cryptographic hash');
+    async generateBoundNoteProof(
+        note: StakeNote,
+        merklePath: NoteMerklePath,
+        publicInputs: {
+            minAmount: string;
+            eventId: string;
+            externalNullifier: string;  // Nullifier scope, e.g. appScope(APP_ID) of the contract
+        },
+        binding: RecipientBinding
+    ): Promise<FrontendZKProof> {
+        console.log('🔐 Generating bound PRODUCTION ZK proof...');
+
+        try {
+            const startTime = Date.now();
+
+            // Step 1: Prove with snarkjs; the circuit's constraints (amount, commitment, Merkle inclusion,
+            // nullifier) are checked first
+            console.log('👁️ Public:', stakeBoundProofCircuit.publicSignals.join(', '));
+            const proof = await this.prover.proveNote(note, merklePath, {
+                minAmount: publicInputs.minAmount,
+                externalNullifier: publicInputs.externalNullifier,
+                ...binding
+            });
+            console.log('✅ Groth16 proof generated');
+
+            // Step 2: Format proof for Solidity verification; `valid` is the circuit's output
+            return this.packageProof(proof, publicInputs.eventId, Date.now() - startTime);
+
+        } catch (error: any) {
+            console.error('❌ Bound ZK proof generation failed:', error);
+            throw new Error(`Bound ZK proof generation failed: ${error.message}`);
+        }
+    }
+
+    /**
+     * Proof object for a circuit: Solidity point layout, public signals in the circuit's order
+     */
+    private packageProof(proof: CircuitProof, eventId: string, generationTime: number): FrontendZKProof {
+        console.log('🎉 PRODUCTION ZK proof generated successfully!');
+        console.log(`⏱️ Generation time: ${generationTime}ms`);
+        console.log('🔒 Privacy: Exact amount completely hidden');
+        console.log('📏 Size: 288 bytes (3 G1 + 1 G2 elliptic curve points)');
+
+        return {
+            version: "1.0.0-production",
+            type: "zk-snark-groth16",
+            protocol: "groth16",
+            curve: "bn128",
+            circuit: proof.circuit,
+            constraints: 1500000,
+            eventId,
+            nullifierHash: proof.signals.nullifierHash,
+            generationTimeMs: generationTime,
+            proof: proof.proof,
+            metadata: {
+                privacy: "perfect-zero-knowledge",
+                soundness: "computational-ecdlp",
+                completeness: "100%",
+                proofSize: 288,
+                verificationGas: 500000
+            }
+        };
+    }
+
+    /**
+     * Compute the nullifier exactly as the circuit does: Poseidon(userSecret, externalNullifier)
+     */
+    private async computeRealNullifier(userSecret: string, externalNullifier: string): Promise<string> {
+        const nullifier = (await computeNullifier(userSecret, externalNullifier)).toString();
+
+        console.log('🔐 Nullifier computed with Poseidon');
         return nullifier;
     }
 
     /**
-     * Generate production witness with real constraint checking
+     * Check the stake_proof constraints, step by step, before proving
      */
-    private async generateProductionWitness(inputs: any): Promise<any> {
-        console.log('🧮 Computing production witness with real constraints...');
+    private async checkProductionConstraints(inputs: any): Promise<void> {
+        console.log('🧮 Checking production circuit constraints...');
 
         // CONSTRAINT 1: Verify actualAmount >= minAmount
         const actualAmount = BigInt(inputs.actualAmount);
@@ -244,9 +222,10 @@ export class ProductionZKProofGenerator {
         }
         console.log('✅ Constraint 1 satisfied: actualAmount >= minAmount');
 
-        // CONSTRAINT 2: Verify Merkle proof
+        // CONSTRAINT 2: Verify Merkle proof of the leaf Poseidon(actualAmount, userSecret)
         const merkleValid = await this.verifyProductionMerkleProof(
             inputs.actualAmount,
+            inputs.userSecret,
             inputs.merklePathElements,
             inputs.merklePathIndices,
             inputs.merkleRoot
@@ -260,123 +239,42 @@ export class ProductionZKProofGenerator {
         // CONSTRAINT 3: Verify nullifier computation
         const expectedNullifier = await this.computeRealNullifier(
             inputs.userSecret,
-            inputs.actualAmount
+            inputs.externalNullifier
         );
 
         if (expectedNullifier !== inputs.nullifierHash) {
             throw new Error('CONSTRAINT VIOLATION: Invalid nullifier hash');
         }
         console.log('✅ Constraint 3 satisfied: Valid nullifier');
-
-        // Return production witness
-        return {
-            constraintCount: 1500000,
-            privateSignals: ['actualAmount', 'userSecret', 'merklePathElements', 'merklePathIndices'],
-            publicSignals: ['minAmount', 'merkleRoot', 'nullifierHash'],
-            allConstraintsSatisfied: true,
-            witnessGenerated: true
-        };
     }
 
     /**
-     * Generate real Groth16 proof using production cryptography
-     */
-    private async generateGroth16Proof(witness: any, inputs: any): Promise<any> {
-        console.log('🔐 Generating real Groth16 proof...');
-        console.log('⚙️ Using BN128 elliptic curve pairing');
-
-        // In full production, this would use snarkjs.groth16.prove()
-        // For hackathon demo, we generate cryptographically valid proof points
-        
-        // Generate proof points on BN128 curve
-        const proof = {
-            pi_a: [
-                this.generateValidCurvePoint("a", inputs.actualAmount),
-                this.generateValidCurvePoint("a", inputs.userSecret),
-                "1"
-            ],
-            pi_b: [
-                [
-                    this.generateValidCurvePoint("b1", inputs.minAmount),
-                    this.generateValidCurvePoint("b1", inputs.merkleRoot)
-                ],
-                [
-                    this.generateValidCurvePoint("b2", inputs.nullifierHash),
-                    this.generateValidCurvePoint("b2", inputs.actualAmount)
-                ],
-                ["1", "0"]
-            ],
-            pi_c: [
-                this.generateValidCurvePoint("c", inputs.actualAmount + inputs.minAmount),
-                this.generateValidCurvePoint("c", inputs.userSecret + inputs.nullifierHash),
-                "1"
-            ]
-        };
-
-        console.log('✅ Groth16 proof points generated on BN128 curve');
-        return proof;
-    }
-
-    /**
-     * Generate valid elliptic curve points for BN128
-     */
-    private generateValidCurvePoint(type: string, seed: string): string {
-        const hash = ethers.utils.keccak256(
-            ethers.utils.defaultAbiCoder.encode(['string', 'string'], [type, seed])
-        );
-        
-        // Ensure point is in valid field (mod p)
-        const p = BigInt("21888242871839275222246405745257275088696311157297823662689037894645226208583");
-        const point = BigInt(hash) % p;
-        
-        return point.toString();
-    }
-
-    /**
-     * Verify production Merkle proof
+     * Verify a stake tree path with the SDK's Poseidon tree, hashed like the circuit's MerkleTreeChecker
      */
     private async verifyProductionMerkleProof(
-        leaf: string,
+        actualAmount: string,
+        userSecret: string,
         pathElements: string[],
         pathIndices: number[],
         root: string
     ): Promise<boolean> {
         console.log('🌳 Verifying production Merkle proof...');
 
-        let computedHash = BigInt(leaf);
-
-        for (let i = 0; i < pathElements.length && i < 10; i++) {
-            const pathElement = BigInt(pathElements[i] || "0");
-            const isLeft = pathIndices[i] === 0;
-
-            if (isLeft) {
-                computedHash = this.hashPair(computedHash, pathElement);
-            } else {
-                computedHash = this.hashPair(pathElement, computedHash);
-            }
-        }
-
-        const isValid = computedHash.toString() === root;
+        const isValid = await IncrementalPoseidonTree.verifyPath({
+            leaf: await computeStakeLeaf(actualAmount, userSecret),
+            pathElements: pathElements.map(element => BigInt(element)),
+            pathIndices,
+            root: BigInt(root)
+        });
         console.log('🌳 Production Merkle verification:', isValid ? 'VALID' : 'INVALID');
 
         return isValid;
     }
 
     /**
-     * Hash pair for Merkle tree (production implementation)
+     * Verify production ZK proof with the SDK's Groth16 verifier and the verification key of its circuit
      */
-    private hashPair(left: bigint, right: bigint): bigint {
-        // Use deterministic ordering for consistency
-        const [a, b] = left < right ? [left, right] : [right, left];
-        
-        // Simple but consistent hash function for demo (matches frontend)
-        return (a * BigInt(31) + b * BigInt(37)) % BigInt("21888242871839275222246405745257275088696311157297823662689037894645226208583");
-    }
-
-    /**
-     * Verify production ZK proof
-     */
-    async verifyProductionProof(proof: any): Promise<boolean> {
+    async verifyProductionProof(proof: FrontendZKProof): Promise<boolean> {
         console.log('🔍 Verifying PRODUCTION ZK proof...');
 
         try {
@@ -384,43 +282,19 @@ export class ProductionZKProofGenerator {
             if (!proof.proof || !proof.proof.publicSignals) {
                 throw new Error('Invalid proof structure');
             }
-
-            const { a, b, c, publicSignals } = proof.proof;
-
-            // Step 2: Validate proof format
-            if (!a || a.length !== 2) throw new Error('Invalid proof point A');
-            if (!b || b.length !== 2 || b[0].length !== 2) throw new Error('Invalid proof point B');
-            if (!c || c.length !== 2) throw new Error('Invalid proof point C');
-            if (!publicSignals || publicSignals.length !== 3) throw new Error('Invalid public signals');
-
-            console.log('✅ Proof structure validation passed');
-
-            // Step 3: Verify elliptic curve points are valid
-            const pointsValid = this.validateCurvePoints(a, b, c);
-            if (!pointsValid) {
-                throw new Error('Invalid elliptic curve points');
+            // Throws unless the signals match the layout of the proof's circuit
+            const circuit = proofCircuit(proof);
+            const { valid } = namePublicSignals(circuit, proof.proof.publicSignals);
+            if (valid !== '1') {
+                throw new Error('Circuit output valid is not 1');
             }
 
-            console.log('✅ Elliptic curve points validation passed');
-
-            // Step 4: Verify public inputs are reasonable
-            const [minAmount, merkleRoot] = publicSignals;
-
-            if (BigInt(minAmount) <= 0) {
-                throw new Error('Invalid minimum amount');
-            }
-
-            if (BigInt(merkleRoot) === BigInt(0)) {
-                throw new Error('Invalid Merkle root');
-            }
-
-            console.log('✅ Public inputs validation passed');
+            console.log('✅ Proof structure validation passed');
 
-            // Step 5: Simulate pairing verification (in production, use real pairing)
-            const pairingValid = await this.simulatePairingVerification(a, b, c, publicSignals);
-            
-            if (!pairingValid) {
-                throw new Error('Pairing verification failed');
+            // Step 2: Pairing check against the manifest's verification key; curve and field checks included
+            const verdict = await this.prover.verify(circuit.name, proof);
+            if (!verdict.isValid) {
+                throw new Error(`Pairing verification failed: ${verdict.error?.message}`);
             }
 
             console.log('✅ Pairing verification passed');
@@ -434,43 +308,6 @@ export class ProductionZKProofGenerator {
         }
     }
 
-    /**
-     * Validate elliptic curve points
-     */
-    private validateCurvePoints(a: string[], b: string[][], c: string[]): boolean {
-        const p = BigInt("21888242871839275222246405745257275088696311157297823662689037894645226208583");
-        
-        // Check all points are in valid field
-        const aValid = BigInt(a[0]) < p && BigInt(a[1]) < p;
-        const bValid = BigInt(b[0][0]) < p && BigInt(b[0][1]) < p && BigInt(b[1][0]) < p && BigInt(b[1][1]) < p;
-        const cValid = BigInt(c[0]) < p && BigInt(c[1]) < p;
-        
-        return aValid && bValid && cValid;
-    }
-
-    /**
-     * Simulate pairing verification (production would use real pairing)
-     */
-    private async simulatePairingVerification(a: string[], b: string[][], c: string[], publicSignals: string[]): Promise<boolean> {
-        console.log('🔗 Simulating pairing verification...');
-        
-        // In production: e(A,B) = e(alpha, beta) * e(L_ic, gamma) * e(C, delta)
-        // For demo/hackathon: Accept valid proof structure as verification
-        
-        // Since we successfully generated the proof with all constraints satisfied,
-        // and this is a demo system, we consider the pairing valid
-        // Real production would use actual BN128 pairing operations
-        
-        console.log('🔗 Demo pairing verification: Accepting valid proof structure');
-        console.log('🔗 In production: Would use real BN128 elliptic curve pairing');
-        
-        // For demo: If we got here, the proof structure is valid and constraints passed
-        const pairingValid = true; // Demo mode accepts structurally valid proofs
-        
-        console.log('🔗 Pairing verification result:', pairingValid);
-        return pairingValid;
-    }
-
     /**
      * Get production circuit information
      */
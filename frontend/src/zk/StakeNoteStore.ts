@@ -0,0 +1,54 @@
+// frontend/src/zk/StakeNoteStore.ts
+import { SecretManager } from '@vault/sdk/dist/zk/SecretManager';
+import { StakeNote, createCommitment } from '@vault/sdk/dist/zk/StakeNote';
+
+/**
+ * What the browser keeps of a stake: its note index, amount and commitment, never the secrets
+ * The secrets are rederived from the wallet signature with `SecretManager.createNote(index, amount)`.
+ */
+export interface StakeNoteRecord {
+    index: number;
+    amount: string;                    // wei
+    commitment: string;
+    txHash: string;
+}
+
+const storageKey = (account: string) => `avax-cpoe/stake-notes/${account.toLowerCase()}`;
+
+/**
+ * Stake notes recorded for an account in this browser, oldest first
+ */
+export function loadStakeNotes(account: string): StakeNoteRecord[] {
+    const stored = localStorage.getItem(storageKey(account));
+    return stored ? JSON.parse(stored) : [];
+}
+
+/**
+ * Give a new stake the account's next note index and record its commitment
+ * Every stake gets its own note secret, so its own nullifier.
+ */
+export async function recordStakeNote(secrets: SecretManager, amount: string, txHash: string): Promise<StakeNoteRecord> {
+    const records = loadStakeNotes(secrets.account);
+    const index = records.reduce((next, record) => Math.max(next, record.index + 1), 0);
+    const note = secrets.createNote(index, amount);
+
+    const record = { index, amount: note.amount.toString(), commitment: (await createCommitment(note)).toString(), txHash };
+    localStorage.setItem(storageKey(secrets.account), JSON.stringify([...records, record]));
+    return record;
+}
+
+/**
+ * Recreate the note of a recorded stake; it must still hash to the commitment recorded when staking
+ */
+export async function restoreStakeNote(secrets: SecretManager, txHash: string): Promise<StakeNote> {
+    const record = loadStakeNotes(secrets.account).find(stake => stake.txHash.toLowerCase() === txHash.toLowerCase());
+    if (!record) {
+        throw new Error(`No stake note recorded for ${txHash} in this browser`);
+    }
+
+    const note = secrets.createNote(record.index, record.amount);
+    if ((await createCommitment(note)).toString() !== record.commitment) {
+        throw new Error(`Stake note ${record.index} does not match its recorded commitment`);
+    }
+    return note;
+}
@@ -0,0 +1,262 @@
+// sdk/scripts/build-circuits.ts
+// Compile a circom circuit and run a local Groth16 trusted setup, fully offline:
+//
+//   npm run build:circuits -- [--circuit ../circuits/stake_proof.circom] [--out ../circuits]
+//                             [--contributions 3] [--power N] [--fresh-ptau] [--new-setup]
+//
+// Writes <out>/<name>_js/<name>.wasm, <out>/<name>_final.zkey, <out>/<name>_verification_key.json,
+// <out>/<Name>Verifier.sol and <out>/<name>_transcript.json, and records the files in <out>/manifest.json.
+// Intermediate files (r1cs, ptau, partial zkeys) go to <out>/build; the prepared phase 1 ptau is
+// reused by later builds of any circuit that fits it.
+//
+// The final artifacts are committed and the contract verifiers are generated from them. Every setup
+// is random, so a circuit that is already in the manifest is only rebuilt with --new-setup.
+import { randomBytes } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+// @ts-ignore - circom2 types not available
+import { CircomRunner, bindings } from 'circom2';
+import * as snarkjs from 'snarkjs';
+import { CircuitArtifacts, CircuitManifest, CIRCUIT_MANIFEST_VERSION } from '../src/zk/CircuitArtifacts';
+import { generateSolidityVerifier } from '../src/zk/SolidityVerifier';
+import { ConsoleLogger } from '../src/logging/ConsoleLogger';
+import { errorFields } from '../src/logging/Logger';
+
+interface BuildOptions {
+    circuit: string;
+    out: string;
+    contributions: number;
+    power?: number;
+    freshPtau: boolean;
+    newSetup: boolean;
+}
+
+interface TranscriptEntry {
+    phase: 1 | 2;
+    name: string;
+    hash: string;
+}
+
+const logger = new ConsoleLogger({ prefix: '[build-circuits]' });
+
+function parseArgs(argv: string[]): BuildOptions {
+    const options: BuildOptions = {
+        circuit: path.resolve(__dirname, '../../circuits/stake_proof.circom'),
+        out: path.resolve(__dirname, '../../circuits'),
+        contributions: 3,
+        freshPtau: false,
+        newSetup: false
+    };
+    for (let i = 0; i < argv.length; i++) {
+        const value = () => {
+            if (i + 1 >= argv.length) {
+                throw new Error(`${argv[i]} needs a value`);
+            }
+            return argv[++i];
+        };
+        switch (argv[i]) {
+            case '--circuit': options.circuit = path.resolve(value()); break;
+            case '--out': options.out = path.resolve(value()); break;
+            case '--contributions': options.contributions = Number(value()); break;
+            case '--power': options.power = Number(value()); break;
+            case '--fresh-ptau': options.freshPtau = true; break;
+            case '--new-setup': options.newSetup = true; break;
+            default: throw new Error(`Unknown option ${argv[i]}`);
+        }
+    }
+    if (!Number.isInteger(options.contributions) || options.contributions < 1) {
+        throw new Error('--contributions must be a positive integer');
+    }
+    return options;
+}
+
+/**
+ * circom 2 compiled to WebAssembly, so no native compiler is needed
+ */
+async function compile(circuit: string, buildDir: string) {
+    const library = path.resolve(path.dirname(require.resolve('circomlib/package.json')), '..');
+    const runner = new CircomRunner({
+        args: [circuit, '--r1cs', '--wasm', '-l', library, '-o', buildDir],
+        env: process.env,
+        preopens: { '/': '/' },
+        bindings: { ...bindings, fs }
+    });
+    try {
+        await runner.execute(fs.readFileSync(require.resolve('circom2/circom.wasm')));
+    } catch (error) {
+        throw new Error(`circom failed to compile ${circuit} (exit code ${(error as any)?.code})`);
+    }
+}
+
+/**
+ * Smallest power of two domain snarkjs accepts for the circuit
+ */
+function requiredPower(r1cs: { nConstraints: number; nPubInputs: number; nOutputs: number }): number {
+    const rows = r1cs.nConstraints + r1cs.nPubInputs + r1cs.nOutputs + 1;
+    let power = 1;
+    while (2 ** power < rows) {
+        power++;
+    }
+    return power;
+}
+
+const hex = (hash: Uint8Array) => Buffer.from(hash).toString('hex');
+const entropy = () => randomBytes(32).toString('hex');
+
+/**
+ * Phase 1 (universal): new accumulator, one contribution, a random beacon, then prepared for phase 2
+ */
+async function powersOfTau(curve: any, power: number, buildDir: string, fresh: boolean, transcript: TranscriptEntry[]): Promise<string> {
+    const final = path.join(buildDir, `pot${power}_final.ptau`);
+    if (!fresh && fs.existsSync(final)) {
+        logger.info('Reusing phase 1 ptau', { file: final });
+        if (!await snarkjs.powersOfTau.verify(final, logger)) {
+            throw new Error(`${final} failed verification; rerun with --fresh-ptau`);
+        }
+        return final;
+    }
+
+    const file = (step: string) => path.join(buildDir, `pot${power}_${step}.ptau`);
+    logger.info('Phase 1: new Powers of Tau accumulator', { power });
+    await snarkjs.powersOfTau.newAccumulator(curve, power, file('0000'), logger);
+
+    const hash = await snarkjs.powersOfTau.contribute(file('0000'), file('0001'), 'Local contribution 1', entropy(), logger);
+    transcript.push({ phase: 1, name: 'Local contribution 1', hash: hex(hash) });
+
+    const beaconHash = await snarkjs.powersOfTau.beacon(file('0001'), file('beacon'), 'Final beacon', entropy(), 10, logger);
+    transcript.push({ phase: 1, name: 'Final beacon', hash: hex(beaconHash) });
+
+    logger.info('Phase 1: preparing for phase 2');
+    await snarkjs.powersOfTau.preparePhase2(file('beacon'), final, logger);
+    if (!await snarkjs.powersOfTau.verify(final, logger)) {
+        throw new Error('Phase 1 transcript failed verification');
+    }
+    for (const step of ['0000', '0001', 'beacon']) {
+        fs.rmSync(file(step));
+    }
+    return final;
+}
+
+/**
+ * Phase 2 (circuit-specific): several contributions and a beacon, then the whole chain is checked
+ * against the r1cs and ptau before anything is exported
+ */
+async function groth16Setup(name: string, r1cs: string, ptau: string, buildDir: string, contributions: number, transcript: TranscriptEntry[]): Promise<string> {
+    const file = (step: number | string) => path.join(buildDir, `${name}_${step}.zkey`);
+    logger.info('Phase 2: new zkey', { circuit: name });
+    await snarkjs.zKey.newZKey(r1cs, ptau, file(0), logger);
+
+    for (let i = 1; i <= contributions; i++) {
+        const contributor = `Local contribution ${i}`;
+        const hash = await snarkjs.zKey.contribute(file(i - 1), file(i), contributor, entropy(), logger);
+        transcript.push({ phase: 2, name: contributor, hash: hex(hash) });
+        fs.rmSync(file(i - 1));
+    }
+
+    const final = file('final');
+    const beaconHash = await snarkjs.zKey.beacon(file(contributions), final, 'Final beacon', entropy(), 10, logger);
+    transcript.push({ phase: 2, name: 'Final beacon', hash: hex(beaconHash) });
+    fs.rmSync(file(contributions));
+
+    if (!await snarkjs.zKey.verifyFromR1cs(r1cs, ptau, final, logger)) {
+        throw new Error('Phase 2 transcript failed verification');
+    }
+    return final;
+}
+
+/**
+ * Refuse to replace a committed setup by accident: the verifier contracts only accept its proofs
+ */
+function checkExistingSetup(out: string, name: string, newSetup: boolean) {
+    const manifestPath = path.join(out, 'manifest.json');
+    if (newSetup || !fs.existsSync(manifestPath)) {
+        return;
+    }
+    const manifest: CircuitManifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+    if (manifest.circuits[name]) {
+        throw new Error(
+            `${name} already has a setup in ${manifestPath}; rerun with --new-setup to replace it, ` +
+            'then regenerate its verifier contract and commit both'
+        );
+    }
+}
+
+function updateManifest(out: string, name: string, files: Record<'wasm' | 'zkey' | 'vkey', string>) {
+    const manifestPath = path.join(out, 'manifest.json');
+    const manifest: CircuitManifest = fs.existsSync(manifestPath)
+        ? JSON.parse(fs.readFileSync(manifestPath, 'utf8'))
+        : { version: CIRCUIT_MANIFEST_VERSION, circuits: {} };
+
+    const entry = (file: string) => CircuitArtifacts.fileEntry(path.relative(out, file).split(path.sep).join('/'), fs.readFileSync(file));
+    manifest.circuits[name] = { wasm: entry(files.wasm), zkey: entry(files.zkey), vkey: entry(files.vkey) };
+    fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 4) + '\n');
+    return manifestPath;
+}
+
+async function main() {
+    const options = parseArgs(process.argv.slice(2));
+    const name = path.basename(options.circuit, '.circom');
+    checkExistingSetup(options.out, name, options.newSetup);
+    const buildDir = path.join(options.out, 'build');
+    fs.mkdirSync(buildDir, { recursive: true });
+    const transcript: TranscriptEntry[] = [];
+    const startTime = Date.now();
+
+    // Step 1: Compile the circuit to r1cs and witness wasm
+    logger.info('Compiling circuit', { circuit: options.circuit });
+    await compile(options.circuit, buildDir);
+    const r1cs = path.join(buildDir, `${name}.r1cs`);
+    const info = await snarkjs.r1cs.info(r1cs);
+    const power = options.power ?? requiredPower(info);
+    if (power < requiredPower(info)) {
+        throw new Error(`--power ${power} is too small for ${info.nConstraints} constraints (needs ${requiredPower(info)})`);
+    }
+
+    const curve = await snarkjs.curves.getCurveFromName('bn128');
+    try {
+        // Step 2: Phase 1, shared by every circuit of this size
+        const ptau = await powersOfTau(curve, power, buildDir, options.freshPtau, transcript);
+
+        // Step 3: Phase 2 for this circuit
+        const zkey = await groth16Setup(name, r1cs, ptau, buildDir, options.contributions, transcript);
+
+        // Step 4: Export the artifacts next to the manifest
+        const wasm = path.join(options.out, `${name}_js`, `${name}.wasm`);
+        fs.mkdirSync(path.dirname(wasm), { recursive: true });
+        fs.copyFileSync(path.join(buildDir, `${name}_js`, `${name}.wasm`), wasm);
+
+        const finalZkey = path.join(options.out, `${name}_final.zkey`);
+        fs.renameSync(zkey, finalZkey);
+
+        const vkey = path.join(options.out, `${name}_verification_key.json`);
+        const verificationKey = await snarkjs.zKey.exportVerificationKey(finalZkey, logger);
+        fs.writeFileSync(vkey, JSON.stringify(verificationKey, null, 4) + '\n');
+
+        const contractName = name.split('_').map(part => part.charAt(0).toUpperCase() + part.slice(1)).join('') + 'Verifier';
+        fs.writeFileSync(path.join(options.out, `${contractName}.sol`), generateSolidityVerifier(verificationKey, { contractName }));
+
+        fs.writeFileSync(
+            path.join(options.out, `${name}_transcript.json`),
+            JSON.stringify({
+                circuit: name,
+                power,
+                constraints: info.nConstraints,
+                ptauSha256: CircuitArtifacts.sha256(fs.readFileSync(ptau)),
+                contributions: transcript
+            }, null, 4) + '\n'
+        );
+
+        // Step 5: Record checksums, then load them back exactly as the SDK will
+        const manifestPath = updateManifest(options.out, name, { wasm, zkey: finalZkey, vkey });
+        await (await CircuitArtifacts.fromManifest(manifestPath)).load(name);
+
+        logger.info('Circuit built', { circuit: name, constraints: info.nConstraints, power, manifest: manifestPath, durationMs: Date.now() - startTime });
+    } finally {
+        await curve.terminate();
+    }
+}
+
+main().catch(error => {
+    logger.error('Circuit build failed', errorFields(error));
+    process.exit(1);
+});
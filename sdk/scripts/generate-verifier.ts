@@ -0,0 +1,59 @@
+// sdk/scripts/generate-verifier.ts
+// Write a Groth16 verifier contract for a snarkjs verification key:
+//
+//   npm run generate:verifier -- [--vkey ../circuits/stake_proof_verification_key.json]
+//                                [--out ../contracts/contracts/RealZKVerifier.sol] [--contract RealZKVerifier]
+//
+// The contract name defaults to the output file name. Rerun after every trusted setup
+// (`npm run build:circuits`): a verifier only accepts proofs from the zkey its vkey came from.
+import fs from 'fs';
+import path from 'path';
+import { generateSolidityVerifier } from '../src/zk/SolidityVerifier';
+import { ConsoleLogger } from '../src/logging/ConsoleLogger';
+import { errorFields } from '../src/logging/Logger';
+
+interface GenerateOptions {
+    vkey: string;
+    out: string;
+    contract?: string;
+}
+
+const logger = new ConsoleLogger({ prefix: '[generate-verifier]' });
+
+function parseArgs(argv: string[]): GenerateOptions {
+    const options: GenerateOptions = {
+        vkey: path.resolve(__dirname, '../../circuits/stake_proof_verification_key.json'),
+        out: path.resolve(__dirname, '../../contracts/contracts/RealZKVerifier.sol')
+    };
+    for (let i = 0; i < argv.length; i++) {
+        const value = () => {
+            if (i + 1 >= argv.length) {
+                throw new Error(`${argv[i]} needs a value`);
+            }
+            return argv[++i];
+        };
+        switch (argv[i]) {
+            case '--vkey': options.vkey = path.resolve(value()); break;
+            case '--out': options.out = path.resolve(value()); break;
+            case '--contract': options.contract = value(); break;
+            default: throw new Error(`Unknown option ${argv[i]}`);
+        }
+    }
+    return options;
+}
+
+function main() {
+    const options = parseArgs(process.argv.slice(2));
+    const verificationKey = JSON.parse(fs.readFileSync(options.vkey, 'utf8'));
+    const contractName = options.contract ?? path.basename(options.out, '.sol');
+
+    fs.writeFileSync(options.out, generateSolidityVerifier(verificationKey, { contractName }));
+    logger.info('Verifier contract written', { contract: contractName, nPublic: verificationKey.nPublic, vkey: options.vkey, out: options.out });
+}
+
+try {
+    main();
+} catch (error) {
+    logger.error('Verifier generation failed', errorFields(error));
+    process.exit(1);
+}
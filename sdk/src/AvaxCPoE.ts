@@ -1,14 +1,56 @@
 import { ethers } from 'ethers';
-import { Proof, ProofGenerationOptions, VerificationResult } from './types';
+import {
+    AvaxCPoEConfig,
+    BatchBlockProof,
+    BatchProof,
+    BatchProofEvent,
+    BatchProofTarget,
+    BatchVerificationResult,
+    BlockHeaderProof,
+    DecodedEvent,
+    EventFilter,
+    Proof,
+    ProofGenerationOptions,
+    UnsignedWarpMessage,
+    VerificationOptions,
+    VerificationResult
+} from './types';
 import { CryptoUtils } from './utils';
+import { ReceiptTrie } from './trie/ReceiptTrie';
+import { TransactionTrie } from './trie/TransactionTrie';
+import { MerkleTree } from './merkle/MerkleTree';
+import { BlockHeader, DecodedBlockHeader } from './header/BlockHeader';
+import { WarpMessage, WarpPayloadType } from './warp/WarpMessage';
+import { DEFAULT_WARP_QUORUM, WarpVerifier } from './warp/WarpVerifier';
+import { PRIMARY_NETWORK_ID, ValidatorSetProvider } from './validators/ValidatorSetProvider';
+import { PChainValidatorSetProvider } from './validators/PChainValidatorSetProvider';
+import { EventMatcher } from './events/EventMatcher';
+import { CURRENT_PROOF_VERSION, parseBatchProof, parseProof } from './schema/ProofSchema';
+import { ProofCodec } from './codec/ProofCodec';
+import { ProofGenerationError, ProofVerificationError, RpcError, VaultSDKError } from './errors';
+import { Logger, errorFields, silentLogger } from './logging/Logger';
+
+/**
+ * Warp network and C-Chain blockchain ID of the built-in source subnets
+ */
+const KNOWN_SOURCE_CHAINS: Record<string, { networkId: number; blockchainId: string }> = {
+    'avalanche-mainnet': { networkId: 1, blockchainId: '2q9e4r6Mu3U68nU1fYjgbR6JvwrRx36CohpAX5UQxse55x1Q5' },
+    'avalanche-fuji': { networkId: 5, blockchainId: 'yH8D7ThNJkxmtkuv2jgBa4P1Rn3Qpr4pPr7QYNfcdoS6k6HWp' }
+};
 
 export class AvaxCPoE {
-    private provider: ethers.providers.Provider;
+    private provider: ethers.providers.JsonRpcProvider;
     private sourceSubnet: string;
+    private config: AvaxCPoEConfig;
+    private validatorSetProvider: ValidatorSetProvider | null;
+    private logger: Logger;
 
-    constructor(rpcUrl: string, sourceSubnet: string = 'avalanche-fuji') {
+    constructor(rpcUrl: string, sourceSubnet: string = 'avalanche-fuji', config: AvaxCPoEConfig = {}) {
         this.provider = new ethers.providers.JsonRpcProvider(rpcUrl);
         this.sourceSubnet = sourceSubnet;
+        this.config = config;
+        this.validatorSetProvider = config.validatorSetProvider || PChainValidatorSetProvider.fromChainRpcUrl(rpcUrl);
+        this.logger = config.logger || silentLogger;
     }
 
     /**
@@ -19,50 +61,108 @@ export class AvaxCPoE {
         transactionHash: string,
         options: ProofGenerationOptions = {}
     ): Promise<Proof> {
-        console.log('🏭 Vault SDK: Generating proof for transaction:', transactionHash);
+        return this.buildProof(transactionHash, options, logs => {
+            const logIndex = options.logIndex || 0;
+            if (logIndex >= logs.length) {
+                throw new ProofGenerationError(
+                    'LOG_INDEX_OUT_OF_BOUNDS',
+                    `Log index ${logIndex} out of bounds. Transaction has ${logs.length} logs`
+                );
+            }
+            return { logIndex };
+        });
+    }
+
+    /**
+     * Generate a proof for the one log matching an emitter, event and argument filter
+     * Fails when no log or several logs match; the decoded arguments are attached to the proof.
+     */
+    async generateProofForEvent(
+        transactionHash: string,
+        filter: EventFilter,
+        options: Omit<ProofGenerationOptions, 'logIndex'> = {}
+    ): Promise<Proof> {
+        const matcher = new EventMatcher(filter);
+        return this.buildProof(transactionHash, options, logs => matcher.select(logs));
+    }
+
+    private async buildProof(
+        transactionHash: string,
+        options: ProofGenerationOptions,
+        selectLog: (logs: ethers.providers.Log[]) => { logIndex: number; decodedEvent?: DecodedEvent }
+    ): Promise<Proof> {
+        const startTime = Date.now();
+        this.logger.info('Generating proof', { txHash: transactionHash });
 
         try {
             // Step 1: Get transaction receipt from blockchain
             const receipt = await this.provider.getTransactionReceipt(transactionHash);
             if (!receipt) {
-                throw new Error(`Transaction ${transactionHash} not found`);
+                throw new RpcError('TRANSACTION_NOT_FOUND', `Transaction ${transactionHash} not found`);
             }
 
-            console.log('✅ Transaction receipt found, block:', receipt.blockNumber);
+            this.logger.debug('Transaction receipt found', { txHash: transactionHash, blockHeight: receipt.blockNumber });
 
             // Step 2: Get full block data
             const block = await this.provider.getBlock(receipt.blockHash);
             if (!block) {
-                throw new Error(`Block ${receipt.blockHash} not found`);
+                throw new RpcError('BLOCK_NOT_FOUND', `Block ${receipt.blockHash} not found`);
             }
 
-            // Step 3: Extract target event (log)
-            const logIndex = options.logIndex || 0;
-            if (logIndex >= receipt.logs.length) {
-                throw new Error(`Log index ${logIndex} out of bounds. Transaction has ${receipt.logs.length} logs`);
-            }
+            // Step 2b: Enforce confirmation depth and acceptance before proving
+            const finality = await this.awaitFinality(block, options);
+            this.logger.debug('Block finality checked', { txHash: transactionHash, blockHeight: block.number, ...finality });
 
+            // Step 3: Extract target event (log)
+            const { logIndex, decodedEvent } = selectLog(receipt.logs);
             const targetLog = receipt.logs[logIndex];
-            console.log('✅ Target event extracted:', targetLog.address);
+            this.logger.debug('Target event extracted', { txHash: transactionHash, logIndex, address: targetLog.address });
+
+            // Step 3b: Rebuild the RLP header and check it hashes to the block hash
+            const { blockHeader, header } = await this.getVerifiedHeader(block);
+            this.logger.debug('Block header reconstructed', { blockHeight: block.number, format: blockHeader.format });
+
+            // Step 4: Generate inclusion proof for the event
+            const mode = options.mode || 'merkle';
+            let merkleProof: Proof['merkleProof'];
+            let receiptProof: Proof['receiptProof'];
+
+            if (mode === 'receipt-trie') {
+                const receipts = await this.getBlockReceipts(block);
+                receiptProof = ReceiptTrie.generateProof(receipts, receipt.transactionIndex, logIndex);
+
+                if (header.receiptsRoot !== receiptProof.receiptsRoot) {
+                    throw new ProofGenerationError(
+                        'BLOCK_HEADER_MISMATCH',
+                        `Rebuilt receipts root ${receiptProof.receiptsRoot} does not match block header`
+                    );
+                }
 
-            // Step 4: Generate Merkle proof for event inclusion
-            const merkleProof = CryptoUtils.generateMerkleProof(receipt.logs, logIndex);
-            console.log('✅ Merkle proof generated, root:', merkleProof.root.substring(0, 10) + '...');
+                // Step 4b: Prove the transaction at the same index, binding the receipt to its hash
+                const transactions = await this.getBlockTransactions(block, header.transactionsRoot);
+                receiptProof.transaction = transactions[receipt.transactionIndex];
+                receiptProof.transactionProofNodes = TransactionTrie.generateProof(transactions, [receipt.transactionIndex]);
+                this.logger.debug('Receipt trie proof generated', { txHash: transactionHash, receiptsRoot: receiptProof.receiptsRoot });
+            } else {
+                merkleProof = CryptoUtils.generateMerkleProof(receipt.logs, logIndex);
+                this.logger.debug('Merkle proof generated', { txHash: transactionHash, root: merkleProof.root });
+            }
 
-            // Step 5: Create validator signatures (simplified for demo)
-            const validatorSetHash = CryptoUtils.generateValidatorSetHash(block.number);
-            const blockSignature = CryptoUtils.createBlockSignature(block.hash, validatorSetHash);
-            console.log('✅ Block signature created');
+            // Step 5: Fetch the validators' aggregate Warp signature over the block hash
+            const signatures = await this.signBlock(block, await this.getValidatorSetHash(options));
 
             // Step 6: Package into standardized proof format
             const proof: Proof = {
-                version: '1.0.0',
-                type: 'merkle',
+                version: CURRENT_PROOF_VERSION,
+                type: mode,
                 eventId: transactionHash,
                 sourceSubnet: this.sourceSubnet,
                 blockHeight: block.number,
                 blockHash: block.hash,
+                blockHeader,
+                finality,
                 merkleProof,
+                receiptProof,
                 eventData: {
                     address: targetLog.address,
                     topics: targetLog.topics,
@@ -70,30 +170,39 @@ export class AvaxCPoE {
                     transactionHash: targetLog.transactionHash,
                     logIndex: targetLog.logIndex
                 },
-                signatures: {
-                    blockSignature,
-                    validatorSetHash
-                },
+                decodedEvent,
+                signatures,
                 timestamp: Date.now()
             };
 
-            console.log(' PROOF GENERATED SUCCESSFULLY!');
-            console.log(' Proof size:', JSON.stringify(proof).length, 'bytes');
+            this.logger.info('Proof generated', {
+                txHash: transactionHash,
+                blockHeight: block.number,
+                durationMs: Date.now() - startTime,
+                proofBytes: ProofCodec.sizes(proof)
+            });
 
             return proof;
 
         } catch (error) {
-            console.error(' Proof generation failed:', error);
-            throw new Error(`Proof generation failed: ${error instanceof Error ? error.message : String(error)}`);
+            this.logger.error('Proof generation failed', {
+                txHash: transactionHash,
+                durationMs: Date.now() - startTime,
+                ...errorFields(error)
+            });
+            throw VaultSDKError.from(error, 'PROOF_GENERATION_FAILED', 'Proof generation failed');
         }
     }
 
     /**
      * Verify cryptographic proof validity
      * This runs the complete verification algorithm!
+     * Proofs stored in an older format are validated and upgraded first (see `parseProof`).
      */
-    async verifyProof(proof: Proof): Promise<VerificationResult> {
-        console.log(' Vault SDK: Verifying proof for event:', proof.eventId);
+    async verifyProof(storedProof: Proof, options: VerificationOptions = {}): Promise<VerificationResult> {
+        const startTime = Date.now();
+        const logFields = { txHash: storedProof?.eventId, blockHeight: storedProof?.blockHeight };
+        this.logger.info('Verifying proof', logFields);
 
         const result: VerificationResult = {
             isValid: false,
@@ -107,90 +216,635 @@ export class AvaxCPoE {
         };
 
         try {
-            // Step 1: Verify proof format and version
-            if (proof.version !== '1.0.0') {
-                result.errors?.push('Unsupported proof version');
+            // Step 1: Validate proof format, upgrading older versions
+            const parsed = parseProof(storedProof);
+            if (!parsed.ok) {
+                result.errors?.push(parsed.error);
                 return result;
             }
+            const proof = parsed.proof;
+
+            this.logger.debug('Proof format valid', { ...logFields, format: parsed.format, upgraded: parsed.upgraded });
 
-            console.log(' Proof format valid');
+            if (proof.type === 'receipt-trie'
+                ? !proof.receiptProof?.transaction || !proof.receiptProof.transactionProofNodes
+                : !proof.merkleProof) {
+                result.errors?.push(new ProofVerificationError(
+                    'INVALID_PROOF_STRUCTURE',
+                    `Missing inclusion proof for proof type ${proof.type}`
+                ));
+                return result;
+            }
 
-            // Step 2: Verify block exists on blockchain
+            // Step 2: Verify the block header (locally when the proof carries it, otherwise via RPC)
+            let header: Pick<DecodedBlockHeader, 'number' | 'transactionsRoot' | 'receiptsRoot'> | null;
             try {
-                const block = await this.provider.getBlock(proof.blockHash);
-                if (!block || block.number !== proof.blockHeight) {
-                    result.errors?.push('Block validation failed');
+                header = proof.blockHeader
+                    ? BlockHeader.verify(proof.blockHeader, proof.blockHash)
+                    : await this.fetchHeader(proof.blockHash);
+                if (!header || header.number !== proof.blockHeight) {
+                    result.errors?.push(new ProofVerificationError('BLOCK_VALIDATION_FAILED', 'Block validation failed'));
                     return result;
                 }
                 result.details.blockValid = true;
-                console.log(' Block validation passed');
+                this.logger.debug('Block validation passed', logFields);
+
+                // Verifier-side depth policy, measured against the verifier's own view of the chain
+                if (options.minConfirmations) {
+                    result.confirmations = await this.getConfirmations(proof.blockHeight, proof.blockHash);
+                    if (result.confirmations < options.minConfirmations) {
+                        result.errors?.push(new ProofVerificationError(
+                            'INSUFFICIENT_CONFIRMATIONS',
+                            `Insufficient confirmations: ${result.confirmations} < ${options.minConfirmations}`
+                        ));
+                        return result;
+                    }
+                }
             } catch (error) {
-                result.errors?.push(`Block verification error: ${error instanceof Error ? error.message : String(error)}`);
+                result.errors?.push(VaultSDKError.from(error, 'BLOCK_VALIDATION_FAILED', 'Block verification error'));
                 return result;
             }
 
-            // Step 3: Verify Merkle proof
-            const merkleValid = CryptoUtils.verifyMerkleProof(
-                proof.merkleProof.leaf,
-                proof.merkleProof.proof,
-                proof.merkleProof.root,
-                proof.merkleProof.index
-            );
+            // Step 3: Verify inclusion proof (receipt and transaction trie paths against the header's roots)
+            const merkleValid = proof.type === 'receipt-trie'
+                ? ReceiptTrie.verifyProof(proof.receiptProof!, header.receiptsRoot) && TransactionTrie.verifyProof(
+                    header.transactionsRoot,
+                    proof.receiptProof!.transactionIndex,
+                    proof.receiptProof!.transaction!,
+                    proof.receiptProof!.transactionProofNodes!
+                )
+                : MerkleTree.verifyProof(proof.merkleProof!);
 
             if (!merkleValid) {
-                result.errors?.push('Merkle proof verification failed');
+                result.errors?.push(new ProofVerificationError('INVALID_MERKLE_PROOF', 'Merkle proof verification failed'));
                 return result;
             }
             result.details.merkleValid = true;
-            console.log(' Merkle proof verification passed');
+            this.logger.debug('Inclusion proof verified', logFields);
 
-            // Step 4: Verify block signature
-            const signatureValid = CryptoUtils.verifyBlockSignature(
-                proof.blockHash,
-                proof.signatures.validatorSetHash,
-                proof.signatures.blockSignature
-            );
+            // Step 4: Verify the Warp BLS signature over the block hash
+            const signatureError = await this.verifyBlockSignature(proof.blockHash, proof.signatures);
 
-            if (!signatureValid) {
-                result.errors?.push('Block signature verification failed');
+            if (signatureError) {
+                result.errors?.push(signatureError);
                 return result;
             }
             result.details.signatureValid = true;
-            console.log(' Signature verification passed');
+            this.logger.debug('Warp signature verified', logFields);
 
             // Step 5: Verify event data integrity
-            const reconstructedLeaf = ethers.utils.keccak256(
-                ethers.utils.defaultAbiCoder.encode(
-                    ['address', 'bytes32[]', 'bytes', 'uint256'],
-                    [
-                        proof.eventData.address,
-                        proof.eventData.topics,
-                        proof.eventData.data,
-                        proof.eventData.logIndex
-                    ]
-                )
-            );
-
-            if (reconstructedLeaf !== proof.merkleProof.leaf) {
-                result.errors?.push('Event data integrity check failed');
+            if (!this.verifyEventData(proof)) {
+                result.errors?.push(new ProofVerificationError('EVENT_DATA_MISMATCH', 'Event data integrity check failed'));
                 return result;
             }
             result.details.eventValid = true;
-            console.log(' Event data integrity verified');
+            this.logger.debug('Event data integrity verified', logFields);
 
             // All checks passed!
             result.isValid = true;
-            console.log(' PROOF VERIFICATION SUCCESSFUL!');
+            this.logger.info('Proof verified', { ...logFields, durationMs: Date.now() - startTime });
+
+            return result;
+
+        } catch (error) {
+            this.logger.error('Proof verification failed', { ...logFields, durationMs: Date.now() - startTime, ...errorFields(error) });
+            result.errors?.push(VaultSDKError.from(error, 'VERIFICATION_FAILED', 'Verification error'));
+            return result;
+        }
+    }
+
+    /**
+     * Prove several logs at once
+     * Each receipt and block is fetched once, each block is signed once, and logs from
+     * the same block share one receipts-trie multiproof. `logIndex` is the log's
+     * position within its transaction receipt, as in `generateProof`.
+     */
+    async generateBatchProof(
+        targets: BatchProofTarget[],
+        options: Omit<ProofGenerationOptions, 'logIndex' | 'mode'> = {}
+    ): Promise<BatchProof> {
+        const startTime = Date.now();
+        this.logger.info('Generating batch proof', { targets: targets.length });
+
+        try {
+            if (targets.length === 0) {
+                throw new ProofGenerationError('PROOF_GENERATION_FAILED', 'Batch proof needs at least one target');
+            }
+
+            // Step 1: Get each distinct transaction receipt once
+            const txHashes = Array.from(new Set(targets.map(target => target.txHash.toLowerCase())));
+            const receipts = new Map<string, ethers.providers.TransactionReceipt>();
+            await Promise.all(txHashes.map(async txHash => {
+                const receipt = await this.provider.getTransactionReceipt(txHash);
+                if (!receipt) {
+                    throw new RpcError('TRANSACTION_NOT_FOUND', `Transaction ${txHash} not found`);
+                }
+                receipts.set(txHash, receipt);
+            }));
+
+            // Step 2: Extract target events, grouped by block
+            const blockHashes: string[] = [];
+            const events: BatchProofEvent[] = targets.map(target => {
+                const receipt = receipts.get(target.txHash.toLowerCase())!;
+                const log = receipt.logs[target.logIndex];
+                if (!log) {
+                    throw new ProofGenerationError(
+                        'LOG_INDEX_OUT_OF_BOUNDS',
+                        `Log index ${target.logIndex} out of bounds. Transaction ${target.txHash} has ${receipt.logs.length} logs`
+                    );
+                }
+                if (!blockHashes.includes(receipt.blockHash)) {
+                    blockHashes.push(receipt.blockHash);
+                }
+                return {
+                    block: blockHashes.indexOf(receipt.blockHash),
+                    transactionIndex: receipt.transactionIndex,
+                    logPosition: target.logIndex,
+                    eventData: {
+                        address: log.address,
+                        topics: log.topics,
+                        data: log.data,
+                        transactionHash: log.transactionHash,
+                        logIndex: log.logIndex
+                    }
+                };
+            });
+
+            // Step 3: Prove and sign each block once
+            const validatorSet = await this.getValidatorSetHash(options);
+            const blocks: BatchBlockProof[] = [];
+
+            for (const [blockIndex, blockHash] of blockHashes.entries()) {
+                const block = await this.provider.getBlock(blockHash);
+                if (!block) {
+                    throw new RpcError('BLOCK_NOT_FOUND', `Block ${blockHash} not found`);
+                }
+
+                const finality = await this.awaitFinality(block, options);
+                const { blockHeader, header } = await this.getVerifiedHeader(block);
+
+                const transactionIndices = events
+                    .filter(event => event.block === blockIndex)
+                    .map(event => event.transactionIndex);
+                const receiptProof = ReceiptTrie.generateMultiProof(await this.getBlockReceipts(block), transactionIndices);
+                if (header.receiptsRoot !== receiptProof.receiptsRoot) {
+                    throw new ProofGenerationError(
+                        'BLOCK_HEADER_MISMATCH',
+                        `Rebuilt receipts root ${receiptProof.receiptsRoot} does not match block header`
+                    );
+                }
+
+                const transactions = await this.getBlockTransactions(block, header.transactionsRoot);
+                for (const entry of receiptProof.receipts) {
+                    entry.transaction = transactions[entry.transactionIndex];
+                }
+                receiptProof.transactionProofNodes = TransactionTrie.generateProof(
+                    transactions,
+                    receiptProof.receipts.map(entry => entry.transactionIndex)
+                );
+
+                blocks.push({
+                    blockHeight: block.number,
+                    blockHash: block.hash,
+                    blockHeader,
+                    finality,
+                    receiptProof,
+                    signatures: await this.signBlock(block, validatorSet)
+                });
+                this.logger.debug('Batch block proven', {
+                    blockHeight: block.number,
+                    receipts: receiptProof.receipts.length,
+                    proofNodes: receiptProof.proofNodes.length
+                });
+            }
+
+            // Step 4: Package into the batch proof format
+            const proof: BatchProof = {
+                version: CURRENT_PROOF_VERSION,
+                type: 'receipt-trie-batch',
+                sourceSubnet: this.sourceSubnet,
+                blocks,
+                events,
+                timestamp: Date.now()
+            };
+
+            this.logger.info('Batch proof generated', {
+                targets: targets.length,
+                blocks: blocks.length,
+                durationMs: Date.now() - startTime,
+                proofBytes: JSON.stringify(proof).length
+            });
+
+            return proof;
+
+        } catch (error) {
+            this.logger.error('Batch proof generation failed', {
+                targets: targets.length,
+                durationMs: Date.now() - startTime,
+                ...errorFields(error)
+            });
+            throw VaultSDKError.from(error, 'PROOF_GENERATION_FAILED', 'Batch proof generation failed');
+        }
+    }
+
+    /**
+     * Verify a batch proof: every block header, receipts multiproof and Warp signature,
+     * then every event against its proven receipt. `events[i]` reports event i.
+     */
+    async verifyBatchProof(storedProof: BatchProof, options: VerificationOptions = {}): Promise<BatchVerificationResult> {
+        const startTime = Date.now();
+        this.logger.info('Verifying batch proof', { blocks: storedProof?.blocks?.length, events: storedProof?.events?.length });
+
+        const errors: VaultSDKError[] = [];
+        const result: BatchVerificationResult = {
+            isValid: false,
+            errors,
+            events: (storedProof?.events || []).map(() => false)
+        };
+
+        try {
+            // Step 1: Validate proof format, upgrading older versions
+            const parsed = parseBatchProof(storedProof);
+            if (!parsed.ok) {
+                errors.push(parsed.error);
+                return result;
+            }
+            const proof = parsed.proof;
+
+            if (!proof.blocks.length || !proof.events.length) {
+                errors.push(new ProofVerificationError('INVALID_PROOF_STRUCTURE', 'Batch proof has no blocks or no events'));
+                return result;
+            }
+
+            // Step 2: Verify each block once (header, depth, multiproof, signature)
+            const blocksValid: boolean[] = [];
+            for (const block of proof.blocks) {
+                blocksValid.push(await this.verifyBatchBlock(block, options, errors));
+            }
+
+            // Step 3: Verify each event against its proven receipt
+            proof.events.forEach((event, i) => {
+                const block = proof.blocks[event.block];
+                if (!block) {
+                    errors.push(new ProofVerificationError('INVALID_PROOF_STRUCTURE', `Event ${i} references missing block ${event.block}`));
+                    return;
+                }
+                if (!blocksValid[event.block]) {
+                    return;
+                }
 
+                const entry = block.receiptProof.receipts.find(r => r.transactionIndex === event.transactionIndex);
+                const log = entry && ReceiptTrie.decodeReceipt(entry.receipt).logs[event.logPosition];
+                if (!AvaxCPoE.logMatches(log, event.eventData) || !AvaxCPoE.transactionMatches(entry!.transaction!, event.eventData)) {
+                    errors.push(new ProofVerificationError('EVENT_DATA_MISMATCH', `Event ${i} does not match its proven receipt log or transaction`));
+                    return;
+                }
+                result.events[i] = true;
+            });
+
+            result.isValid = errors.length === 0 && result.events.every(Boolean);
+            this.logger.info(result.isValid ? 'Batch proof verified' : 'Batch proof rejected', {
+                durationMs: Date.now() - startTime,
+                validEvents: result.events.filter(Boolean).length,
+                errorCodes: errors.map(error => error.code)
+            });
             return result;
 
         } catch (error) {
-            console.error(' Proof verification failed:', error);
-            result.errors?.push(`Verification error: ${error instanceof Error ? error.message : String(error)}`);
+            this.logger.error('Batch proof verification failed', { durationMs: Date.now() - startTime, ...errorFields(error) });
+            errors.push(VaultSDKError.from(error, 'VERIFICATION_FAILED', 'Verification error'));
             return result;
         }
     }
 
+    /**
+     * Verify one block of a batch proof, recording failures in `errors`
+     */
+    private async verifyBatchBlock(
+        block: BatchBlockProof,
+        options: VerificationOptions,
+        errors: VaultSDKError[]
+    ): Promise<boolean> {
+        const header = BlockHeader.verify(block.blockHeader, block.blockHash);
+        if (!header || header.number !== block.blockHeight) {
+            errors.push(new ProofVerificationError('BLOCK_VALIDATION_FAILED', `Block ${block.blockHeight} validation failed`));
+            return false;
+        }
+
+        if (options.minConfirmations) {
+            const confirmations = await this.getConfirmations(block.blockHeight, block.blockHash);
+            if (confirmations < options.minConfirmations) {
+                errors.push(new ProofVerificationError(
+                    'INSUFFICIENT_CONFIRMATIONS',
+                    `Insufficient confirmations for block ${block.blockHeight}: ${confirmations} < ${options.minConfirmations}`
+                ));
+                return false;
+            }
+        }
+
+        if (!ReceiptTrie.verifyMultiProof(block.receiptProof, header.receiptsRoot)) {
+            errors.push(new ProofVerificationError('INVALID_MERKLE_PROOF', `Receipts multiproof for block ${block.blockHeight} failed`));
+            return false;
+        }
+
+        const { receipts, transactionProofNodes } = block.receiptProof;
+        const transactionsValid = !!transactionProofNodes && receipts.every(({ transactionIndex, transaction }) =>
+            !!transaction && TransactionTrie.verifyProof(header.transactionsRoot, transactionIndex, transaction, transactionProofNodes)
+        );
+        if (!transactionsValid) {
+            errors.push(new ProofVerificationError('INVALID_MERKLE_PROOF', `Transactions multiproof for block ${block.blockHeight} failed`));
+            return false;
+        }
+
+        const signatureError = await this.verifyBlockSignature(block.blockHash, block.signatures);
+        if (signatureError) {
+            errors.push(signatureError);
+            return false;
+        }
+        return true;
+    }
+
+    /**
+     * Check the Warp message attests to this block and carries a quorum of validator signatures
+     * Returns the verification error, or null when the signature is valid.
+     */
+    private async verifyBlockSignature(blockHash: string, signatures: Proof['signatures']): Promise<VaultSDKError | null> {
+        // Proofs upgraded from formats without validator attestation
+        if (ethers.utils.hexDataLength(signatures.warpMessage) === 0) {
+            return new ProofVerificationError('INVALID_SIGNATURE', 'Proof carries no Warp signature');
+        }
+
+        const validatorSet = await this.requireValidatorSetProvider()
+            .getValidatorSet(this.subnetId(), signatures.pChainHeight);
+
+        if (CryptoUtils.hashValidatorSet(validatorSet) !== signatures.validatorSetHash) {
+            return new ProofVerificationError(
+                'VALIDATOR_SET_MISMATCH',
+                `Validator set at P-Chain height ${signatures.pChainHeight} does not match proof`
+            );
+        }
+
+        let payloadHash: string;
+        let unsignedMessage: UnsignedWarpMessage;
+        try {
+            unsignedMessage = WarpMessage.decodeSigned(signatures.warpMessage).unsignedMessage;
+            const payload = WarpMessage.decodePayload(unsignedMessage.payload);
+            if (payload.type !== WarpPayloadType.Hash) {
+                return new ProofVerificationError('MALFORMED_WARP_MESSAGE', 'Warp payload is not a block hash');
+            }
+            payloadHash = payload.hash;
+        } catch (error) {
+            return VaultSDKError.from(error, 'MALFORMED_WARP_MESSAGE');
+        }
+
+        // The same block hash signed on another network or chain attests nothing about the source chain
+        const source = this.warpSource();
+        if (unsignedMessage.networkId !== source.networkId || unsignedMessage.sourceChainId.toLowerCase() !== source.sourceChainId) {
+            return new ProofVerificationError(
+                'WARP_SOURCE_MISMATCH',
+                `Warp message is from network ${unsignedMessage.networkId} chain ${WarpMessage.toCB58(unsignedMessage.sourceChainId)}, ` +
+                `expected network ${source.networkId} chain ${WarpMessage.toCB58(source.sourceChainId)}`
+            );
+        }
+
+        if (payloadHash !== blockHash.toLowerCase()) {
+            return new ProofVerificationError('INVALID_SIGNATURE', 'Warp message signs a different block');
+        }
+
+        const verification = new WarpVerifier(this.config.warpQuorum).verify(signatures.warpMessage, validatorSet);
+        return verification.isValid
+            ? null
+            : new ProofVerificationError('INVALID_SIGNATURE', `Block signature verification failed: ${verification.error}`);
+    }
+
+    /**
+     * Rebuild the RLP header from the RPC and check it hashes to the block hash
+     */
+    private async getVerifiedHeader(block: ethers.providers.Block): Promise<{ blockHeader: BlockHeaderProof; header: DecodedBlockHeader }> {
+        const rawHeader = await this.provider.send('eth_getBlockByHash', [block.hash, false]);
+        const blockHeader = BlockHeader.fromRpc(rawHeader);
+        const header = BlockHeader.verify(blockHeader, block.hash);
+        if (!header) {
+            throw new ProofGenerationError(
+                'BLOCK_HEADER_MISMATCH',
+                `Reconstructed ${blockHeader.format} header does not hash to ${block.hash}`
+            );
+        }
+        return { blockHeader, header };
+    }
+
+    /**
+     * P-Chain height to sign at and the hash of the validator set there
+     */
+    private async getValidatorSetHash(
+        options: ProofGenerationOptions
+    ): Promise<Omit<Proof['signatures'], 'warpMessage'>> {
+        const validatorSetProvider = this.requireValidatorSetProvider();
+        const pChainHeight = options.pChainHeight ?? await validatorSetProvider.getCurrentHeight();
+        const validatorSet = await validatorSetProvider.getValidatorSet(this.subnetId(), pChainHeight);
+        return { pChainHeight, validatorSetHash: CryptoUtils.hashValidatorSet(validatorSet) };
+    }
+
+    /**
+     * Fetch the validators' aggregate Warp signature over the block hash
+     */
+    private async signBlock(
+        block: ethers.providers.Block,
+        validatorSet: Omit<Proof['signatures'], 'warpMessage'>
+    ): Promise<Proof['signatures']> {
+        const quorum = this.config.warpQuorum || DEFAULT_WARP_QUORUM;
+        const warpMessage = await this.provider.send('warp_getBlockAggregateSignature', [
+            WarpMessage.toCB58(block.hash),
+            quorum.numerator,
+            this.config.subnetId || ''
+        ]);
+        this.logger.debug('Warp block signature aggregated', { blockHeight: block.number, pChainHeight: validatorSet.pChainHeight });
+        return { warpMessage, ...validatorSet };
+    }
+
+    /**
+     * Wait for (or reject) blocks that have not reached the requested depth or acceptance
+     */
+    private async awaitFinality(
+        block: ethers.providers.Block,
+        options: ProofGenerationOptions
+    ): Promise<{ confirmations: number; accepted?: boolean }> {
+        const minConfirmations = options.minConfirmations || 0;
+        const deadline = Date.now() + (options.confirmationTimeoutMs ?? 60000);
+
+        for (;;) {
+            const confirmations = await this.getConfirmations(block.number, block.hash);
+            // Acceptance costs an extra RPC round trip; only ask when the caller requires it
+            const accepted = options.requireAccepted ? await this.isAccepted(block.number, block.hash) : undefined;
+
+            if (confirmations >= minConfirmations && (accepted || !options.requireAccepted)) {
+                return { confirmations, accepted };
+            }
+
+            if (!options.waitForConfirmations || Date.now() >= deadline) {
+                throw new ProofGenerationError(
+                    'INSUFFICIENT_CONFIRMATIONS',
+                    `Insufficient confirmations for block ${block.number}: ${confirmations}/${minConfirmations}` +
+                    (options.requireAccepted && !accepted ? ', block not yet accepted' : '')
+                );
+            }
+
+            await new Promise(resolve => setTimeout(resolve, this.provider.pollingInterval));
+        }
+    }
+
+    /**
+     * Blocks on top of (and including) the given block; 0 if it is no longer canonical
+     */
+    private async getConfirmations(blockNumber: number, blockHash: string): Promise<number> {
+        const [latest, canonical] = await Promise.all([
+            this.provider.getBlockNumber(),
+            this.provider.getBlock(blockNumber)
+        ]);
+        if (!canonical || canonical.hash.toLowerCase() !== blockHash.toLowerCase()) {
+            return 0;
+        }
+        return Math.max(latest - blockNumber + 1, 0);
+    }
+
+    /**
+     * Avalanche blocks are final once accepted; the `finalized` tag tracks the last accepted block
+     */
+    private async isAccepted(blockNumber: number, blockHash: string): Promise<boolean> {
+        const lastAccepted = await this.provider.send('eth_getBlockByNumber', ['finalized', false]);
+        if (!lastAccepted || Number(lastAccepted.number) < blockNumber) {
+            return false;
+        }
+        if (Number(lastAccepted.number) === blockNumber) {
+            return String(lastAccepted.hash).toLowerCase() === blockHash.toLowerCase();
+        }
+        const canonical = await this.provider.getBlock(blockNumber);
+        return !!canonical && canonical.hash.toLowerCase() === blockHash.toLowerCase();
+    }
+
+    /**
+     * Network and source chain the Warp messages must come from: the config, else the known source subnet
+     */
+    private warpSource(): { networkId: number; sourceChainId: string } {
+        const known = KNOWN_SOURCE_CHAINS[this.sourceSubnet];
+        const networkId = this.config.networkId ?? known?.networkId;
+        const blockchainId = this.config.blockchainId ?? known?.blockchainId;
+        if (networkId === undefined || blockchainId === undefined) {
+            throw new VaultSDKError(
+                'INVALID_CONFIGURATION',
+                `Set config.networkId and config.blockchainId to verify Warp signatures from ${this.sourceSubnet}`
+            );
+        }
+        const sourceChainId = ethers.utils.isHexString(blockchainId, 32) ? blockchainId : WarpMessage.fromCB58(blockchainId);
+        return { networkId, sourceChainId: sourceChainId.toLowerCase() };
+    }
+
+    private requireValidatorSetProvider(): ValidatorSetProvider {
+        if (!this.validatorSetProvider) {
+            throw new RpcError('VALIDATOR_SET_UNAVAILABLE', 'No validator set provider configured');
+        }
+        return this.validatorSetProvider;
+    }
+
+    private subnetId(): string {
+        return this.config.subnetId || PRIMARY_NETWORK_ID;
+    }
+
+    /**
+     * Check that the proven leaf (or receipt log) is exactly the claimed event
+     */
+    private verifyEventData(proof: Proof): boolean {
+        if (proof.decodedEvent && !this.verifyDecodedEvent(proof)) {
+            return false;
+        }
+
+        if (proof.type === 'receipt-trie') {
+            const { logs } = ReceiptTrie.decodeReceipt(proof.receiptProof!.receipt);
+            return AvaxCPoE.logMatches(logs[proof.receiptProof!.logPosition], proof.eventData) &&
+                AvaxCPoE.transactionMatches(proof.receiptProof!.transaction!, proof.eventData) &&
+                proof.eventId.toLowerCase() === proof.eventData.transactionHash.toLowerCase();
+        }
+
+        const reconstructedLeaf = MerkleTree.logLeaf(proof.eventData, proof.merkleProof!.version);
+        return reconstructedLeaf === proof.merkleProof!.leaf.toLowerCase();
+    }
+
+    private static logMatches(log: { address: string; topics: string[]; data: string } | undefined, eventData: Proof['eventData']): boolean {
+        return !!log &&
+            log.address.toLowerCase() === eventData.address.toLowerCase() &&
+            log.topics.length === eventData.topics.length &&
+            log.topics.every((topic, i) => topic.toLowerCase() === eventData.topics[i].toLowerCase()) &&
+            log.data.toLowerCase() === eventData.data.toLowerCase();
+    }
+
+    /**
+     * Check that the proven transaction is the one the event claims to come from
+     */
+    private static transactionMatches(transaction: string, eventData: Proof['eventData']): boolean {
+        return TransactionTrie.hash(transaction) === eventData.transactionHash.toLowerCase();
+    }
+
+    /**
+     * Check that the attached decoded arguments are what the proven log decodes to
+     */
+    private verifyDecodedEvent(proof: Proof): boolean {
+        try {
+            const fragment = EventMatcher.toFragment(proof.decodedEvent!.fragment);
+            const decoded = EventMatcher.decode(fragment, proof.eventData);
+            return !!decoded && JSON.stringify(decoded) === JSON.stringify(proof.decodedEvent);
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * Header fields from the RPC, for legacy proofs that do not embed the header
+     */
+    private async fetchHeader(blockHash: string): Promise<Pick<DecodedBlockHeader, 'number' | 'transactionsRoot' | 'receiptsRoot'> | null> {
+        const rawHeader = await this.provider.send('eth_getBlockByHash', [blockHash, false]);
+        if (!rawHeader) {
+            return null;
+        }
+        return {
+            number: ethers.BigNumber.from(rawHeader.number).toNumber(),
+            transactionsRoot: rawHeader.transactionsRoot.toLowerCase(),
+            receiptsRoot: rawHeader.receiptsRoot.toLowerCase()
+        };
+    }
+
+    /**
+     * Fetch every receipt of a block, ordered by transaction index
+     */
+    private async getBlockReceipts(block: ethers.providers.Block): Promise<ethers.providers.TransactionReceipt[]> {
+        try {
+            const receipts = await this.provider.send('eth_getBlockReceipts', [block.hash]);
+            if (Array.isArray(receipts) && receipts.length === block.transactions.length) {
+                return receipts
+                    .map(raw => this.provider.formatter.receipt(raw))
+                    .sort((a, b) => a.transactionIndex - b.transactionIndex);
+            }
+        } catch {
+            // Endpoint does not support eth_getBlockReceipts, fall back to one call per transaction
+        }
+
+        const receipts = await Promise.all(block.transactions.map(hash => this.provider.getTransactionReceipt(hash)));
+        return receipts.sort((a, b) => a.transactionIndex - b.transactionIndex);
+    }
+
+    /**
+     * Fetch and encode every transaction of a block, checked against the header's transactionsRoot
+     */
+    private async getBlockTransactions(block: ethers.providers.Block, transactionsRoot: string): Promise<string[]> {
+        const { transactions } = await this.provider.getBlockWithTransactions(block.hash);
+        const encoded = transactions.map(tx => TransactionTrie.encodeTransaction(tx));
+
+        const root = TransactionTrie.build(encoded).root;
+        if (root !== transactionsRoot) {
+            throw new ProofGenerationError('BLOCK_HEADER_MISMATCH', `Rebuilt transactions root ${root} does not match block header`);
+        }
+        return encoded;
+    }
+
     /**
      * Extract specific data from proof (helper method)
      */
@@ -203,7 +857,7 @@ export class AvaxCPoE {
             });
             return decoded.args;
         } catch (error) {
-            throw new Error(`Failed to decode event data: ${error instanceof Error ? error.message : String(error)}`);
+            throw VaultSDKError.from(error, 'EVENT_DECODING_FAILED', 'Failed to decode event data');
         }
     }
 
@@ -217,8 +871,8 @@ export class AvaxCPoE {
 📋 Event ID: ${proof.eventId}
 🏔️ Source: ${proof.sourceSubnet}
 📦 Block: ${proof.blockHeight}
-🌳 Merkle Root: ${proof.merkleProof.root.substring(0, 20)}...
-✍️ Signature: ${proof.signatures.blockSignature.substring(0, 20)}...
+🌳 Merkle Root: ${(proof.receiptProof?.receiptsRoot ?? proof.merkleProof!.root).substring(0, 20)}...
+✍️ Signature: ${proof.signatures.warpMessage.substring(0, 20)}...
 ━━━━━━━━━━━━━━━━━━━━━━━━━━━━
     `.trim();
   }
@@ -0,0 +1,524 @@
+import { ethers } from 'ethers';
+import { HeaderFormat, Proof, ReceiptTrieProof } from '../types';
+import { ProofVerificationError } from '../errors';
+import { parseProof } from '../schema/ProofSchema';
+import { MERKLE_PROOF_VERSION } from '../merkle/MerkleTree';
+
+export type ProofEncoding = 'binary' | 'abi';
+
+export interface ProofSizeReport {
+    json: number;
+    binary: number;
+    abi: number;
+}
+
+// "CP" followed by the binary codec version
+// v2 adds the Merkle proof version and leaf count, v3 the receipt's transaction proof;
+// older encodings still decode
+const BINARY_MAGIC = [0x43, 0x50];
+const BINARY_CODEC_VERSION = 3;
+
+const HEADER_FORMATS: HeaderFormat[] = ['c-chain', 'subnet-evm'];
+
+// Presence flags shared by both encodings
+const HAS_HEADER = 1 << 0;
+const HAS_MERKLE_PROOF = 1 << 1;
+const HAS_RECEIPT_PROOF = 1 << 2;
+const HAS_DECODED_EVENT = 1 << 3;
+const HAS_FINALITY = 1 << 4;
+const HAS_LEGACY = 1 << 5;
+const IS_RECEIPT_TRIE = 1 << 6;
+const IS_ACCEPTED = 1 << 7;
+
+/**
+ * Solidity tuple taken by contracts; optional sections are zero-valued and flagged absent.
+ * `extra` carries the JSON of `decodedEvent` and `legacy`, which have no fixed ABI shape.
+ */
+export const PROOF_ABI_TUPLE =
+    'tuple(' +
+    'string version,uint8 flags,bytes32 eventId,string sourceSubnet,uint64 blockHeight,bytes32 blockHash,' +
+    'tuple(uint8 format,bytes rlp) blockHeader,' +
+    'tuple(uint8 version,bytes32 leaf,bytes32[] proof,bytes32 root,uint256 index,uint256 leafCount) merkleProof,' +
+    'tuple(uint256 transactionIndex,uint256 logPosition,bytes receipt,bytes[] proofNodes,bytes32 receiptsRoot,bytes transaction,bytes[] transactionProofNodes) receiptProof,' +
+    'tuple(address emitter,bytes32[] topics,bytes data,bytes32 transactionHash,uint256 logIndex) eventData,' +
+    'uint64 confirmations,' +
+    'tuple(bytes warpMessage,bytes32 validatorSetHash,uint64 pChainHeight) signatures,' +
+    'uint64 timestamp,' +
+    'bytes extra' +
+    ')';
+
+/**
+ * Proof serialization: a compact binary format (QR codes, storage) and a Solidity
+ * ABI-encoded tuple (calldata).
+ *
+ * Round trip: `decodeProof(encodeProof(proof, e), e)` deep-equals `proof` for current-version
+ * proofs with lowercase hex and checksummed addresses (as produced by `generateProof`);
+ * `encodeProof(decodeProof(bytes, e), e)` returns the same bytes.
+ */
+export class ProofCodec {
+    static encode(proof: Proof, encoding: ProofEncoding = 'binary'): string {
+        const parsed = parseProof(proof);
+        if (!parsed.ok) {
+            throw parsed.error;
+        }
+        return encoding === 'abi' ? ProofCodec.encodeAbi(parsed.proof) : ProofCodec.encodeBinary(parsed.proof);
+    }
+
+    static decode(encoded: string | Uint8Array, encoding: ProofEncoding = 'binary'): Proof {
+        let proof: Proof;
+        try {
+            proof = encoding === 'abi' ? ProofCodec.decodeAbi(encoded) : ProofCodec.decodeBinary(encoded);
+        } catch (error) {
+            throw new ProofVerificationError(
+                'INVALID_PROOF_STRUCTURE',
+                `Malformed ${encoding} proof encoding: ${error instanceof Error ? error.message : String(error)}`,
+                error
+            );
+        }
+
+        const parsed = parseProof(proof);
+        if (!parsed.ok || parsed.upgraded) {
+            throw parsed.ok
+                ? new ProofVerificationError('INVALID_PROOF_STRUCTURE', `Encoded proof has outdated version ${proof.version}`)
+                : parsed.error;
+        }
+        return parsed.proof;
+    }
+
+    /**
+     * Encoded size in bytes for each format
+     */
+    static sizes(proof: Proof): ProofSizeReport {
+        return {
+            json: ethers.utils.toUtf8Bytes(JSON.stringify(proof)).length,
+            binary: ethers.utils.hexDataLength(ProofCodec.encode(proof, 'binary')),
+            abi: ethers.utils.hexDataLength(ProofCodec.encode(proof, 'abi'))
+        };
+    }
+
+    private static flags(proof: Proof): number {
+        return (proof.blockHeader ? HAS_HEADER : 0) |
+            (proof.merkleProof ? HAS_MERKLE_PROOF : 0) |
+            (proof.receiptProof ? HAS_RECEIPT_PROOF : 0) |
+            (proof.decodedEvent ? HAS_DECODED_EVENT : 0) |
+            (proof.finality ? HAS_FINALITY : 0) |
+            (proof.legacy ? HAS_LEGACY : 0) |
+            (proof.type === 'receipt-trie' ? IS_RECEIPT_TRIE : 0) |
+            (proof.finality?.accepted ? IS_ACCEPTED : 0);
+    }
+
+    // Acceptance is only recorded when it was checked, so an unset flag means unknown
+    private static finality(confirmations: number, flags: number): Proof['finality'] {
+        return flags & IS_ACCEPTED ? { confirmations, accepted: true } : { confirmations };
+    }
+
+    private static attachTransaction(receiptProof: ReceiptTrieProof, transaction: string, transactionProofNodes: string[]): void {
+        if (transaction !== '0x') {
+            receiptProof.transaction = transaction;
+            receiptProof.transactionProofNodes = transactionProofNodes;
+        }
+    }
+
+    private static encodeBinary(proof: Proof): string {
+        const writer = new BinaryWriter();
+        const flags = ProofCodec.flags(proof);
+
+        writer.raw(BINARY_MAGIC);
+        writer.raw([BINARY_CODEC_VERSION, flags]);
+        writer.string(proof.version);
+        writer.fixed(proof.eventId, 32);
+        writer.string(proof.sourceSubnet);
+        writer.varint(proof.blockHeight);
+        writer.fixed(proof.blockHash, 32);
+
+        if (proof.blockHeader) {
+            writer.raw([HEADER_FORMATS.indexOf(proof.blockHeader.format)]);
+            writer.bytes(proof.blockHeader.rlp);
+        }
+        if (proof.merkleProof) {
+            writer.fixed(proof.merkleProof.leaf, 32);
+            writer.list(proof.merkleProof.proof, node => writer.fixed(node, 32));
+            writer.fixed(proof.merkleProof.root, 32);
+            writer.varint(proof.merkleProof.index);
+            // 0 marks an unversioned (legacy) proof
+            writer.varint(proof.merkleProof.version ?? 0);
+            if (proof.merkleProof.version === MERKLE_PROOF_VERSION) {
+                writer.varint(proof.merkleProof.leafCount!);
+            }
+        }
+        if (proof.receiptProof) {
+            writer.varint(proof.receiptProof.transactionIndex);
+            writer.varint(proof.receiptProof.logPosition);
+            writer.bytes(proof.receiptProof.receipt);
+            writer.list(proof.receiptProof.proofNodes, node => writer.bytes(node));
+            writer.fixed(proof.receiptProof.receiptsRoot, 32);
+            // Empty bytes mark a receipt proof without its transaction
+            writer.bytes(proof.receiptProof.transaction ?? '0x');
+            writer.list(proof.receiptProof.transactionProofNodes ?? [], node => writer.bytes(node));
+        }
+
+        writer.fixed(proof.eventData.address, 20);
+        writer.list(proof.eventData.topics, topic => writer.fixed(topic, 32));
+        writer.bytes(proof.eventData.data);
+        writer.fixed(proof.eventData.transactionHash, 32);
+        writer.varint(proof.eventData.logIndex);
+
+        if (proof.decodedEvent) {
+            writer.string(JSON.stringify(proof.decodedEvent));
+        }
+        if (proof.finality) {
+            writer.varint(proof.finality.confirmations);
+        }
+
+        writer.bytes(proof.signatures.warpMessage);
+        writer.fixed(proof.signatures.validatorSetHash, 32);
+        writer.varint(proof.signatures.pChainHeight);
+
+        if (proof.legacy) {
+            writer.string(JSON.stringify(proof.legacy));
+        }
+        writer.varint(proof.timestamp);
+
+        return writer.hex();
+    }
+
+    private static decodeBinary(encoded: string | Uint8Array): Proof {
+        const reader = new BinaryReader(encoded);
+
+        const [magic0, magic1, codecVersion, flags] = reader.raw(4);
+        if (magic0 !== BINARY_MAGIC[0] || magic1 !== BINARY_MAGIC[1]) {
+            throw new Error('missing proof magic bytes');
+        }
+        if (codecVersion < 1 || codecVersion > BINARY_CODEC_VERSION) {
+            throw new Error(`unsupported binary codec version ${codecVersion}`);
+        }
+
+        const proof: any = {
+            version: reader.string(),
+            type: flags & IS_RECEIPT_TRIE ? 'receipt-trie' : 'merkle',
+            eventId: reader.fixed(32),
+            sourceSubnet: reader.string(),
+            blockHeight: reader.varint(),
+            blockHash: reader.fixed(32)
+        };
+
+        if (flags & HAS_HEADER) {
+            const format = HEADER_FORMATS[reader.raw(1)[0]];
+            if (!format) {
+                throw new Error('unknown block header format');
+            }
+            proof.blockHeader = { format, rlp: reader.bytes() };
+        }
+        if (flags & HAS_MERKLE_PROOF) {
+            proof.merkleProof = {
+                leaf: reader.fixed(32),
+                proof: reader.list(() => reader.fixed(32)),
+                root: reader.fixed(32),
+                index: reader.varint()
+            };
+            const version = codecVersion >= 2 ? reader.varint() : 0;
+            if (version !== 0) {
+                proof.merkleProof = { version, ...proof.merkleProof };
+            }
+            if (version === MERKLE_PROOF_VERSION) {
+                proof.merkleProof.leafCount = reader.varint();
+            }
+        }
+        if (flags & HAS_RECEIPT_PROOF) {
+            proof.receiptProof = {
+                transactionIndex: reader.varint(),
+                logPosition: reader.varint(),
+                receipt: reader.bytes(),
+                proofNodes: reader.list(() => reader.bytes()),
+                receiptsRoot: reader.fixed(32)
+            };
+            if (codecVersion >= 3) {
+                ProofCodec.attachTransaction(proof.receiptProof, reader.bytes(), reader.list(() => reader.bytes()));
+            }
+        }
+
+        proof.eventData = {
+            address: ethers.utils.getAddress(reader.fixed(20)),
+            topics: reader.list(() => reader.fixed(32)),
+            data: reader.bytes(),
+            transactionHash: reader.fixed(32),
+            logIndex: reader.varint()
+        };
+
+        if (flags & HAS_DECODED_EVENT) {
+            proof.decodedEvent = JSON.parse(reader.string());
+        }
+        if (flags & HAS_FINALITY) {
+            proof.finality = ProofCodec.finality(reader.varint(), flags);
+        }
+
+        proof.signatures = {
+            warpMessage: reader.bytes(),
+            validatorSetHash: reader.fixed(32),
+            pChainHeight: reader.varint()
+        };
+
+        if (flags & HAS_LEGACY) {
+            proof.legacy = JSON.parse(reader.string());
+        }
+        proof.timestamp = reader.varint();
+
+        reader.expectEnd();
+        return ProofCodec.ordered(proof);
+    }
+
+    private static encodeAbi(proof: Proof): string {
+        const extra = proof.decodedEvent || proof.legacy
+            ? ethers.utils.toUtf8Bytes(JSON.stringify({ decodedEvent: proof.decodedEvent, legacy: proof.legacy }))
+            : '0x';
+
+        return ethers.utils.defaultAbiCoder.encode([PROOF_ABI_TUPLE], [{
+            version: proof.version,
+            flags: ProofCodec.flags(proof),
+            eventId: proof.eventId,
+            sourceSubnet: proof.sourceSubnet,
+            blockHeight: proof.blockHeight,
+            blockHash: proof.blockHash,
+            blockHeader: proof.blockHeader
+                ? { format: HEADER_FORMATS.indexOf(proof.blockHeader.format), rlp: proof.blockHeader.rlp }
+                : { format: 0, rlp: '0x' },
+            merkleProof: proof.merkleProof
+                ? { ...proof.merkleProof, version: proof.merkleProof.version ?? 0, leafCount: proof.merkleProof.leafCount ?? 0 }
+                : { version: 0, leaf: ethers.constants.HashZero, proof: [], root: ethers.constants.HashZero, index: 0, leafCount: 0 },
+            receiptProof: proof.receiptProof
+                ? {
+                    ...proof.receiptProof,
+                    transaction: proof.receiptProof.transaction ?? '0x',
+                    transactionProofNodes: proof.receiptProof.transactionProofNodes ?? []
+                }
+                : {
+                    transactionIndex: 0,
+                    logPosition: 0,
+                    receipt: '0x',
+                    proofNodes: [],
+                    receiptsRoot: ethers.constants.HashZero,
+                    transaction: '0x',
+                    transactionProofNodes: []
+                },
+            eventData: {
+                emitter: proof.eventData.address,
+                topics: proof.eventData.topics,
+                data: proof.eventData.data,
+                transactionHash: proof.eventData.transactionHash,
+                logIndex: proof.eventData.logIndex
+            },
+            confirmations: proof.finality?.confirmations ?? 0,
+            signatures: proof.signatures,
+            timestamp: proof.timestamp,
+            extra
+        }]);
+    }
+
+    private static decodeAbi(encoded: string | Uint8Array): Proof {
+        const [tuple] = ethers.utils.defaultAbiCoder.decode([PROOF_ABI_TUPLE], encoded);
+        const flags: number = tuple.flags;
+        const hex = (value: string) => value.toLowerCase();
+
+        const proof: any = {
+            version: tuple.version,
+            type: flags & IS_RECEIPT_TRIE ? 'receipt-trie' : 'merkle',
+            eventId: hex(tuple.eventId),
+            sourceSubnet: tuple.sourceSubnet,
+            blockHeight: tuple.blockHeight.toNumber(),
+            blockHash: hex(tuple.blockHash)
+        };
+
+        if (flags & HAS_HEADER) {
+            proof.blockHeader = { format: HEADER_FORMATS[tuple.blockHeader.format], rlp: hex(tuple.blockHeader.rlp) };
+        }
+        if (flags & HAS_MERKLE_PROOF) {
+            const version: number = tuple.merkleProof.version;
+            proof.merkleProof = {
+                ...(version !== 0 ? { version } : {}),
+                leaf: hex(tuple.merkleProof.leaf),
+                proof: tuple.merkleProof.proof.map(hex),
+                root: hex(tuple.merkleProof.root),
+                index: tuple.merkleProof.index.toNumber(),
+                ...(version === MERKLE_PROOF_VERSION ? { leafCount: tuple.merkleProof.leafCount.toNumber() } : {})
+            };
+        }
+        if (flags & HAS_RECEIPT_PROOF) {
+            proof.receiptProof = {
+                transactionIndex: tuple.receiptProof.transactionIndex.toNumber(),
+                logPosition: tuple.receiptProof.logPosition.toNumber(),
+                receipt: hex(tuple.receiptProof.receipt),
+                proofNodes: tuple.receiptProof.proofNodes.map(hex),
+                receiptsRoot: hex(tuple.receiptProof.receiptsRoot)
+            };
+            ProofCodec.attachTransaction(
+                proof.receiptProof,
+                hex(tuple.receiptProof.transaction),
+                tuple.receiptProof.transactionProofNodes.map(hex)
+            );
+        }
+
+        proof.eventData = {
+            address: tuple.eventData.emitter,
+            topics: tuple.eventData.topics.map(hex),
+            data: hex(tuple.eventData.data),
+            transactionHash: hex(tuple.eventData.transactionHash),
+            logIndex: tuple.eventData.logIndex.toNumber()
+        };
+
+        const extra = tuple.extra === '0x' ? {} : JSON.parse(ethers.utils.toUtf8String(tuple.extra));
+        if (flags & HAS_DECODED_EVENT) {
+            proof.decodedEvent = extra.decodedEvent;
+        }
+        if (flags & HAS_FINALITY) {
+            proof.finality = ProofCodec.finality(tuple.confirmations.toNumber(), flags);
+        }
+
+        proof.signatures = {
+            warpMessage: hex(tuple.signatures.warpMessage),
+            validatorSetHash: hex(tuple.signatures.validatorSetHash),
+            pChainHeight: tuple.signatures.pChainHeight.toNumber()
+        };
+        if (flags & HAS_LEGACY) {
+            proof.legacy = extra.legacy;
+        }
+        proof.timestamp = tuple.timestamp.toNumber();
+
+        return ProofCodec.ordered(proof);
+    }
+
+    /**
+     * Same key order as `generateProof`, so decoded proofs serialize to identical JSON
+     */
+    private static ordered(proof: any): Proof {
+        const keys: (keyof Proof)[] = [
+            'version', 'type', 'eventId', 'sourceSubnet', 'blockHeight', 'blockHash', 'blockHeader', 'finality',
+            'merkleProof', 'receiptProof', 'eventData', 'decodedEvent', 'signatures', 'legacy', 'timestamp'
+        ];
+        const ordered: any = {};
+        for (const key of keys) {
+            if (proof[key] !== undefined) {
+                ordered[key] = proof[key];
+            }
+        }
+        return ordered;
+    }
+}
+
+export function encodeProof(proof: Proof, encoding: ProofEncoding = 'binary'): string {
+    return ProofCodec.encode(proof, encoding);
+}
+
+export function decodeProof(encoded: string | Uint8Array, encoding: ProofEncoding = 'binary'): Proof {
+    return ProofCodec.decode(encoded, encoding);
+}
+
+/**
+ * Append-only byte buffer with LEB128 varints for integers and lengths
+ */
+class BinaryWriter {
+    private chunks: Uint8Array[] = [];
+
+    raw(bytes: ArrayLike<number>) {
+        this.chunks.push(Uint8Array.from(bytes as number[]));
+    }
+
+    fixed(hex: string, length: number) {
+        const bytes = ethers.utils.arrayify(hex);
+        if (bytes.length !== length) {
+            throw new ProofVerificationError('INVALID_PROOF_STRUCTURE', `Expected ${length} bytes, got ${bytes.length}`);
+        }
+        this.chunks.push(bytes);
+    }
+
+    varint(value: number) {
+        const bytes: number[] = [];
+        let remaining = value;
+        // Division instead of bit shifts: values (timestamps) exceed 32 bits
+        while (remaining >= 0x80) {
+            bytes.push((remaining % 0x80) | 0x80);
+            remaining = Math.floor(remaining / 0x80);
+        }
+        bytes.push(remaining);
+        this.raw(bytes);
+    }
+
+    bytes(hex: string) {
+        const bytes = ethers.utils.arrayify(hex);
+        this.varint(bytes.length);
+        this.chunks.push(bytes);
+    }
+
+    string(value: string) {
+        this.bytes(ethers.utils.hexlify(ethers.utils.toUtf8Bytes(value)));
+    }
+
+    list<T>(items: T[], write: (item: T) => void) {
+        this.varint(items.length);
+        items.forEach(write);
+    }
+
+    hex(): string {
+        return ethers.utils.hexlify(ethers.utils.concat(this.chunks));
+    }
+}
+
+class BinaryReader {
+    private data: Uint8Array;
+    private offset = 0;
+
+    constructor(encoded: string | Uint8Array) {
+        this.data = ethers.utils.arrayify(encoded);
+    }
+
+    raw(length: number): Uint8Array {
+        if (this.offset + length > this.data.length) {
+            throw new Error('proof encoding truncated');
+        }
+        const slice = this.data.slice(this.offset, this.offset + length);
+        this.offset += length;
+        return slice;
+    }
+
+    fixed(length: number): string {
+        return ethers.utils.hexlify(this.raw(length));
+    }
+
+    varint(): number {
+        let value = 0;
+        let scale = 1;
+        for (;;) {
+            const [byte] = this.raw(1);
+            value += (byte & 0x7f) * scale;
+            if (byte < 0x80) {
+                // Reject non-minimal encodings so every proof has exactly one binary form
+                if (byte === 0 && scale > 1) {
+                    throw new Error('non-minimal varint');
+                }
+                break;
+            }
+            scale *= 0x80;
+            if (scale > Number.MAX_SAFE_INTEGER) {
+                throw new Error('varint exceeds 53 bits');
+            }
+        }
+        return value;
+    }
+
+    bytes(): string {
+        return this.fixed(this.varint());
+    }
+
+    string(): string {
+        return ethers.utils.toUtf8String(this.raw(this.varint()));
+    }
+
+    list<T>(read: () => T): T[] {
+        return Array.from({ length: this.varint() }, read);
+    }
+
+    expectEnd() {
+        if (this.offset !== this.data.length) {
+            throw new Error(`unexpected ${this.data.length - this.offset} trailing bytes`);
+        }
+    }
+}
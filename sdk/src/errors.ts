@@ -0,0 +1,104 @@
+/**
+ * Stable error codes surfaced by the SDK
+ * Services can branch on these; messages are for humans and may change.
+ */
+export type VaultErrorCode =
+    // RPC / data availability
+    | 'RPC_CONNECTION_FAILED'
+    | 'TRANSACTION_NOT_FOUND'
+    | 'BLOCK_NOT_FOUND'
+    | 'VALIDATOR_SET_UNAVAILABLE'
+    // Proof generation
+    | 'LOG_INDEX_OUT_OF_BOUNDS'
+    | 'EVENT_NOT_FOUND'
+    | 'AMBIGUOUS_EVENT_MATCH'
+    | 'INSUFFICIENT_CONFIRMATIONS'
+    | 'BLOCK_HEADER_MISMATCH'
+    | 'MALFORMED_BLOCK_HEADER'
+    | 'PROOF_GENERATION_FAILED'
+    // Proof verification
+    | 'UNSUPPORTED_PROOF_VERSION'
+    | 'INVALID_PROOF_STRUCTURE'
+    | 'BLOCK_VALIDATION_FAILED'
+    | 'INVALID_MERKLE_PROOF'
+    | 'INVALID_SIGNATURE'
+    | 'MALFORMED_WARP_MESSAGE'
+    | 'VALIDATOR_SET_MISMATCH'
+    | 'WARP_SOURCE_MISMATCH'
+    | 'EVENT_DATA_MISMATCH'
+    | 'EVENT_DECODING_FAILED'
+    | 'VERIFICATION_FAILED'
+    | 'INVALID_CONFIGURATION'
+    // Zero-knowledge proofs
+    | 'CIRCUIT_NOT_INITIALIZED'
+    | 'CONSTRAINT_VIOLATION'
+    | 'INVALID_CIRCUIT_INPUT'
+    | 'INVALID_CURVE_POINT'
+    | 'INVALID_PUBLIC_INPUTS'
+    | 'NON_CANONICAL_FIELD_ELEMENT'
+    | 'PAIRING_FAILED'
+    | 'ARTIFACT_INTEGRITY_MISMATCH'
+    | 'VERIFICATION_KEY_MISMATCH'
+    // Secrets
+    | 'INVALID_KEYSTORE';
+
+// ethers v5 logger codes that mean the node could not be reached
+const RPC_FAILURE_CODES = new Set(['NETWORK_ERROR', 'SERVER_ERROR', 'TIMEOUT']);
+
+/**
+ * Base class for every error thrown or reported by the SDK
+ */
+export class VaultSDKError extends Error {
+    readonly code: VaultErrorCode;
+    readonly cause?: unknown;
+
+    constructor(code: VaultErrorCode, message: string, cause?: unknown) {
+        super(message);
+        this.name = new.target.name;
+        this.code = code;
+        this.cause = cause;
+        Object.setPrototypeOf(this, new.target.prototype);
+    }
+
+    /**
+     * Wrap an arbitrary thrown value, keeping SDK errors as they are
+     * Unreachable-node errors from ethers map to RPC_CONNECTION_FAILED.
+     */
+    static from(error: unknown, fallbackCode: VaultErrorCode, context?: string): VaultSDKError {
+        if (error instanceof VaultSDKError) {
+            return error;
+        }
+
+        const message = error instanceof Error ? error.message : String(error);
+        const prefixed = context ? `${context}: ${message}` : message;
+
+        if (RPC_FAILURE_CODES.has((error as any)?.code)) {
+            return new RpcError('RPC_CONNECTION_FAILED', prefixed, error);
+        }
+        return new VaultSDKError(fallbackCode, prefixed, error);
+    }
+
+    toJSON() {
+        return { name: this.name, code: this.code, message: this.message };
+    }
+}
+
+/**
+ * The node or P-Chain API failed, or did not have the requested data
+ */
+export class RpcError extends VaultSDKError {}
+
+/**
+ * An event proof could not be generated
+ */
+export class ProofGenerationError extends VaultSDKError {}
+
+/**
+ * An event proof failed one of the verification checks
+ */
+export class ProofVerificationError extends VaultSDKError {}
+
+/**
+ * A zero-knowledge proof could not be generated or verified
+ */
+export class ZKProofError extends VaultSDKError {}
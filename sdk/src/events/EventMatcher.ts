@@ -0,0 +1,185 @@
+import { ethers } from 'ethers';
+import { DecodedEvent, EventFilter } from '../types';
+import { ProofGenerationError, VaultSDKError } from '../errors';
+
+type LogLike = Pick<ethers.providers.Log, 'address' | 'topics' | 'data'>;
+
+/**
+ * Selects a log from a receipt by emitter, event signature and decoded arguments
+ */
+export class EventMatcher {
+    private filter: EventFilter;
+    private fragment: ethers.utils.EventFragment | null;
+    private topic0: string | null;
+
+    constructor(filter: EventFilter) {
+        if (!filter.eventSignature && !filter.abi) {
+            throw new VaultSDKError('INVALID_CONFIGURATION', 'Event filter needs an eventSignature or an ABI fragment');
+        }
+        if (filter.argFilter && !filter.abi) {
+            throw new VaultSDKError('INVALID_CONFIGURATION', 'argFilter needs an ABI fragment to decode arguments');
+        }
+
+        this.filter = filter;
+        this.fragment = filter.abi ? EventMatcher.toFragment(filter.abi) : null;
+
+        if (this.fragment) {
+            this.topic0 = this.fragment.anonymous ? null : ethers.utils.id(this.fragment.format('sighash'));
+            if (filter.eventSignature && this.topic0 !== EventMatcher.signatureTopic(filter.eventSignature)) {
+                throw new VaultSDKError('INVALID_CONFIGURATION', 'eventSignature does not match the ABI fragment');
+            }
+        } else {
+            this.topic0 = EventMatcher.signatureTopic(filter.eventSignature!);
+        }
+    }
+
+    /**
+     * Parse a human-readable ("event Transfer(...)" or "Transfer(...)") or JSON event fragment
+     */
+    static toFragment(abi: EventFilter['abi']): ethers.utils.EventFragment {
+        try {
+            return typeof abi === 'string'
+                ? ethers.utils.EventFragment.from(abi.trim().replace(/^event\s+/, ''))
+                : ethers.utils.EventFragment.from(abi as any);
+        } catch (error) {
+            throw VaultSDKError.from(error, 'INVALID_CONFIGURATION', 'Invalid event ABI fragment');
+        }
+    }
+
+    /**
+     * Decode a log with a full event fragment into JSON-safe arguments
+     * Returns null when the log does not fit the fragment.
+     */
+    static decode(fragment: ethers.utils.EventFragment, log: LogLike): DecodedEvent | null {
+        const result = EventMatcher.decodeResult(fragment, log);
+        return result ? EventMatcher.toDecodedEvent(fragment, result) : null;
+    }
+
+    private static toDecodedEvent(fragment: ethers.utils.EventFragment, result: ethers.utils.Result): DecodedEvent {
+        const args: Record<string, unknown> = {};
+        fragment.inputs.forEach((input, i) => {
+            args[input.name || String(i)] = EventMatcher.serialize(result[i]);
+        });
+
+        return {
+            name: fragment.name,
+            fragment: fragment.format('full'),
+            args
+        };
+    }
+
+    /**
+     * Position (within the receipt) and decoded arguments of the single matching log
+     */
+    select(logs: LogLike[]): { logIndex: number; decodedEvent?: DecodedEvent } {
+        const matches: { logIndex: number; decodedEvent?: DecodedEvent }[] = [];
+
+        logs.forEach((log, logIndex) => {
+            if (this.filter.address && log.address.toLowerCase() !== this.filter.address.toLowerCase()) {
+                return;
+            }
+            if (this.topic0 && (log.topics[0] || '').toLowerCase() !== this.topic0) {
+                return;
+            }
+            if (!this.fragment) {
+                matches.push({ logIndex });
+                return;
+            }
+
+            const result = EventMatcher.decodeResult(this.fragment, log);
+            if (result && this.matchesArgs(this.fragment, result)) {
+                matches.push({ logIndex, decodedEvent: EventMatcher.toDecodedEvent(this.fragment, result) });
+            }
+        });
+
+        if (matches.length === 0) {
+            throw new ProofGenerationError(
+                'EVENT_NOT_FOUND',
+                `No log matches ${this.describe()} among ${logs.length} logs`
+            );
+        }
+        if (matches.length > 1) {
+            throw new ProofGenerationError(
+                'AMBIGUOUS_EVENT_MATCH',
+                `${matches.length} logs match ${this.describe()} (positions ${matches.map(m => m.logIndex).join(', ')}); narrow the filter`
+            );
+        }
+        return matches[0];
+    }
+
+    private matchesArgs(fragment: ethers.utils.EventFragment, result: ethers.utils.Result): boolean {
+        if (!this.filter.argFilter) {
+            return true;
+        }
+
+        return Object.entries(this.filter.argFilter).every(([name, expected]) => {
+            if (!(name in result)) {
+                throw new VaultSDKError('INVALID_CONFIGURATION', `Event ${fragment.name} has no argument ${name}`);
+            }
+            return typeof expected === 'function'
+                ? !!expected(EventMatcher.serialize(result[name]))
+                : EventMatcher.equals(result[name], expected);
+        });
+    }
+
+    private describe(): string {
+        const event = this.fragment ? this.fragment.format('sighash') : this.filter.eventSignature;
+        return `${event}${this.filter.address ? ` from ${this.filter.address}` : ''}` +
+            (this.filter.argFilter ? ` with ${Object.keys(this.filter.argFilter).join(', ')}` : '');
+    }
+
+    private static decodeResult(fragment: ethers.utils.EventFragment, log: LogLike): ethers.utils.Result | null {
+        try {
+            return new ethers.utils.Interface([fragment]).decodeEventLog(fragment, log.data, log.topics);
+        } catch {
+            return null;
+        }
+    }
+
+    private static signatureTopic(eventSignature: string): string {
+        return ethers.utils.isHexString(eventSignature, 32)
+            ? eventSignature.toLowerCase()
+            : ethers.utils.id(EventMatcher.toFragment(eventSignature).format('sighash'));
+    }
+
+    /**
+     * Compare a decoded value with a filter value (numbers by value, hex case-insensitively)
+     */
+    private static equals(actual: any, expected: any): boolean {
+        if (ethers.BigNumber.isBigNumber(actual)) {
+            try {
+                return actual.eq(typeof expected === 'bigint' ? expected.toString() : expected);
+            } catch {
+                return false;
+            }
+        }
+        if (ethers.utils.Indexed.isIndexed(actual)) {
+            // Dynamic indexed arguments are only available as their keccak hash
+            const hash = actual.hash.toLowerCase();
+            return typeof expected === 'string' &&
+                (expected.toLowerCase() === hash || ethers.utils.id(expected) === hash);
+        }
+        if (Array.isArray(actual)) {
+            return Array.isArray(expected) &&
+                actual.length === expected.length &&
+                actual.every((item, i) => EventMatcher.equals(item, expected[i]));
+        }
+        if (typeof actual === 'string' && typeof expected === 'string' && ethers.utils.isHexString(actual)) {
+            return actual.toLowerCase() === expected.toLowerCase();
+        }
+        return actual === expected;
+    }
+
+    private static serialize(value: any): unknown {
+        if (ethers.BigNumber.isBigNumber(value)) {
+            return value.toString();
+        }
+        if (ethers.utils.Indexed.isIndexed(value)) {
+            return value.hash;
+        }
+        if (Array.isArray(value)) {
+            return value.map(item => EventMatcher.serialize(item));
+        }
+        return value;
+    }
+}
@@ -0,0 +1,174 @@
+import { ethers } from 'ethers';
+import { BlockHeaderProof, HeaderFormat } from '../types';
+import { ProofVerificationError } from '../errors';
+
+type FieldKind = 'data' | 'quantity';
+
+interface HeaderField {
+    name: keyof DecodedBlockHeader;
+    kind: FieldKind;
+}
+
+/**
+ * Header fields, named as returned by `eth_getBlockByHash`
+ */
+export interface DecodedBlockHeader {
+    parentHash: string;
+    sha3Uncles: string;
+    miner: string;
+    stateRoot: string;
+    transactionsRoot: string;
+    receiptsRoot: string;
+    logsBloom: string;
+    difficulty: ethers.BigNumber;
+    number: number;
+    gasLimit: ethers.BigNumber;
+    gasUsed: ethers.BigNumber;
+    timestamp: number;
+    extraData: string;
+    mixHash: string;
+    nonce: string;
+    extDataHash?: string;
+    baseFeePerGas?: ethers.BigNumber;
+    extDataGasUsed?: ethers.BigNumber;
+    blockGasCost?: ethers.BigNumber;
+    blobGasUsed?: ethers.BigNumber;
+    excessBlobGas?: ethers.BigNumber;
+    parentBeaconBlockRoot?: string;
+}
+
+// Fields shared with go-ethereum, in RLP order
+const BASE_FIELDS: HeaderField[] = [
+    { name: 'parentHash', kind: 'data' },
+    { name: 'sha3Uncles', kind: 'data' },
+    { name: 'miner', kind: 'data' },
+    { name: 'stateRoot', kind: 'data' },
+    { name: 'transactionsRoot', kind: 'data' },
+    { name: 'receiptsRoot', kind: 'data' },
+    { name: 'logsBloom', kind: 'data' },
+    { name: 'difficulty', kind: 'quantity' },
+    { name: 'number', kind: 'quantity' },
+    { name: 'gasLimit', kind: 'quantity' },
+    { name: 'gasUsed', kind: 'quantity' },
+    { name: 'timestamp', kind: 'quantity' },
+    { name: 'extraData', kind: 'data' },
+    { name: 'mixHash', kind: 'data' },
+    { name: 'nonce', kind: 'data' }
+];
+
+// Avalanche-specific layouts (coreth for the C-Chain, subnet-evm for Subnet L1s).
+// Optional fields are `rlp:"optional"`: trailing absent fields are omitted from the encoding.
+const LAYOUTS: Record<HeaderFormat, { required: HeaderField[]; optional: HeaderField[] }> = {
+    'c-chain': {
+        required: [...BASE_FIELDS, { name: 'extDataHash', kind: 'data' }],
+        optional: [
+            { name: 'baseFeePerGas', kind: 'quantity' },
+            { name: 'extDataGasUsed', kind: 'quantity' },
+            { name: 'blockGasCost', kind: 'quantity' },
+            { name: 'blobGasUsed', kind: 'quantity' },
+            { name: 'excessBlobGas', kind: 'quantity' },
+            { name: 'parentBeaconBlockRoot', kind: 'data' }
+        ]
+    },
+    'subnet-evm': {
+        required: BASE_FIELDS,
+        optional: [
+            { name: 'baseFeePerGas', kind: 'quantity' },
+            { name: 'blockGasCost', kind: 'quantity' },
+            { name: 'blobGasUsed', kind: 'quantity' },
+            { name: 'excessBlobGas', kind: 'quantity' },
+            { name: 'parentBeaconBlockRoot', kind: 'data' }
+        ]
+    }
+};
+
+/**
+ * RLP block header reconstruction for Avalanche EVM chains
+ * Lets a verifier recompute the block hash locally and read the header roots
+ * without trusting an RPC endpoint.
+ */
+export class BlockHeader {
+    /**
+     * Re-encode a raw `eth_getBlockByHash` result as the consensus RLP header
+     */
+    static fromRpc(rawBlock: any, format: HeaderFormat = BlockHeader.detectFormat(rawBlock)): BlockHeaderProof {
+        const { required, optional } = LAYOUTS[format];
+
+        // Include optional fields up to the last one the node reported
+        let optionalCount = 0;
+        optional.forEach((field, i) => {
+            if (rawBlock[field.name] != null) {
+                optionalCount = i + 1;
+            }
+        });
+
+        const values = [...required, ...optional.slice(0, optionalCount)].map(field => {
+            const value = rawBlock[field.name];
+            if (value == null) {
+                throw new ProofVerificationError('MALFORMED_BLOCK_HEADER', `Block header field ${field.name} missing for ${format} header`);
+            }
+            return field.kind === 'quantity'
+                ? ethers.utils.hexlify(ethers.utils.stripZeros(ethers.BigNumber.from(value).toHexString()))
+                : ethers.utils.hexlify(value);
+        });
+
+        return { format, rlp: ethers.utils.RLP.encode(values) };
+    }
+
+    /**
+     * C-Chain headers carry `extDataHash`, Subnet-EVM headers do not
+     */
+    static detectFormat(rawBlock: any): HeaderFormat {
+        return rawBlock.extDataHash != null ? 'c-chain' : 'subnet-evm';
+    }
+
+    /**
+     * Block hash committed to by an RLP header
+     */
+    static hash(header: BlockHeaderProof): string {
+        return ethers.utils.keccak256(header.rlp);
+    }
+
+    /**
+     * Decode an RLP header into named fields
+     */
+    static decode(header: BlockHeaderProof): DecodedBlockHeader {
+        const { required, optional } = LAYOUTS[header.format];
+        const values = ethers.utils.RLP.decode(header.rlp);
+
+        if (!Array.isArray(values) || values.length < required.length || values.length > required.length + optional.length) {
+            throw new ProofVerificationError('MALFORMED_BLOCK_HEADER', `Malformed ${header.format} block header`);
+        }
+
+        const decoded: any = {};
+        [...required, ...optional].slice(0, values.length).forEach((field, i) => {
+            if (typeof values[i] !== 'string') {
+                throw new ProofVerificationError('MALFORMED_BLOCK_HEADER', `Malformed block header field ${field.name}`);
+            }
+            if (field.kind === 'data') {
+                decoded[field.name] = values[i];
+                return;
+            }
+            const quantity = ethers.BigNumber.from(values[i] === '0x' ? 0 : values[i]);
+            decoded[field.name] = field.name === 'number' || field.name === 'timestamp' ? quantity.toNumber() : quantity;
+        });
+        decoded.miner = ethers.utils.getAddress(decoded.miner);
+
+        return decoded;
+    }
+
+    /**
+     * Decode a header after checking that it hashes to `expectedHash`
+     * Returns null when the header does not match.
+     */
+    static verify(header: BlockHeaderProof, expectedHash: string): DecodedBlockHeader | null {
+        try {
+            if (BlockHeader.hash(header) !== expectedHash.toLowerCase()) {
+                return null;
+            }
+            return BlockHeader.decode(header);
+        } catch {
+            return null;
+        }
+    }
+}
@@ -1,5 +1,118 @@
 export { AvaxCPoE } from './AvaxCPoE';
 export { CryptoUtils } from './utils';
+export { MerklePatriciaTrie } from './trie/MerklePatriciaTrie';
+export { ReceiptTrie } from './trie/ReceiptTrie';
+export { TransactionTrie } from './trie/TransactionTrie';
+export { MerkleTree, MERKLE_PROOF_VERSION, MERKLE_LEAF_PREFIX, MERKLE_NODE_PREFIX } from './merkle/MerkleTree';
+export {
+    IncrementalPoseidonTree,
+    IncrementalPoseidonTreeOptions,
+    PoseidonMerklePath,
+    STAKE_TREE_LEVELS
+} from './merkle/IncrementalPoseidonTree';
+export { getPoseidon, PoseidonHasher, SNARK_SCALAR_FIELD } from './zk/Poseidon';
+export { computeNullifier, computeStakeLeaf, appScope, epochScope, epochAt, toFieldElement, reduceToField, FieldInput } from './zk/Nullifier';
+export { ArtifactSource, resolveArtifact, loadArtifactBytes } from './zk/ArtifactSource';
+export { Groth16Verifier, BN254_BASE_FIELD } from './zk/Groth16Verifier';
+export { readZkeyVerificationKey, sameVerificationKey } from './zk/Zkey';
+export { generateSolidityVerifier, SolidityVerifierOptions } from './zk/SolidityVerifier';
+export {
+    ZKCircuit,
+    ZKCircuitArtifacts,
+    MAX_UINT_BITS,
+    CircuitSignalType,
+    CircuitInputSpec,
+    CircuitInputSchema,
+    CircuitInputs,
+    NormalizedCircuitInputs,
+    SolidityFormatter,
+    defineCircuit,
+    normalizeCircuitInputs,
+    namePublicSignals,
+    solidityCalldata
+} from './zk/ZKCircuit';
+export { CircuitRegistry } from './zk/CircuitRegistry';
+export { CircuitProver, CircuitProof, CircuitProverOptions, NoteCircuitProof } from './zk/CircuitProver';
+export {
+    stakeProofCircuit,
+    stakeNoteProofCircuit,
+    stakeBoundProofCircuit,
+    stakeRangeProofCircuit,
+    STAKE_RANGE_PROOF_BITS,
+    STAKE_PROOF_CIRCUIT,
+    STAKE_NOTE_PROOF_CIRCUIT,
+    STAKE_BOUND_PROOF_CIRCUIT,
+    STAKE_RANGE_PROOF_CIRCUIT
+} from './zk/StakeProofCircuit';
+export {
+    RecipientBinding,
+    NoteMerklePath,
+    AmountRange,
+    buildNoteProofInputs,
+    buildBoundNoteProofInputs,
+    buildRangeProofInputs,
+    recipientSignals
+} from './zk/StakeProofInputs';
+export {
+    StakeNote,
+    StakeNoteParams,
+    STAKE_AMOUNT_BITS,
+    createStakeNote,
+    createCommitment,
+    computeNoteNullifier
+} from './zk/StakeNote';
+export {
+    SecretManager,
+    SecretSigner,
+    KeystoreOptions,
+    SECRET_DOMAIN,
+    SECRET_TYPES,
+    hkdf
+} from './zk/SecretManager';
+export {
+    CircuitArtifacts,
+    CircuitArtifactsOptions,
+    CircuitArtifactFile,
+    CircuitArtifactKind,
+    CircuitManifest,
+    CircuitManifestEntry,
+    LoadedCircuit,
+    CIRCUIT_MANIFEST_VERSION,
+    DEFAULT_CIRCUIT_MANIFEST
+} from './zk/CircuitArtifacts';
+export { BlockHeader } from './header/BlockHeader';
+export { EventMatcher } from './events/EventMatcher';
+export {
+    CURRENT_PROOF_VERSION,
+    BatchProofFormat,
+    ProofFormat,
+    ProofValidationIssue,
+    ParseBatchProofResult,
+    ParseProofResult,
+    detectProofFormat,
+    validateProof,
+    parseBatchProof,
+    parseProof
+} from './schema/ProofSchema';
+export {
+    ProofCodec,
+    ProofEncoding,
+    ProofSizeReport,
+    PROOF_ABI_TUPLE,
+    encodeProof,
+    decodeProof
+} from './codec/ProofCodec';
+export { WarpMessage, WarpPayloadType, WARP_SIGNATURE_DST } from './warp/WarpMessage';
+export { WarpSigner } from './warp/WarpSigner';
+export { WarpVerifier, DEFAULT_WARP_QUORUM } from './warp/WarpVerifier';
+export { ValidatorSetProvider, PRIMARY_NETWORK_ID, validatorSetFromSnapshot } from './validators/ValidatorSetProvider';
+export { PChainValidatorSetProvider } from './validators/PChainValidatorSetProvider';
+export { StaticValidatorSetProvider } from './validators/StaticValidatorSetProvider';
+export { InMemoryValidatorSetProvider } from './validators/InMemoryValidatorSetProvider';
 export { ProductionZKProofGenerator } from './zk/ProductionZKProofGenerator';
 export { RealZKProofGenerator } from './zk/RealZKProofGenerator';
+export { VaultSDKError, VaultErrorCode, RpcError, ProofGenerationError, ProofVerificationError, ZKProofError } from './errors';
+export { Logger, LogLevel, LogFields, LOG_LEVELS, silentLogger } from './logging/Logger';
+export { JsonLinesLogger } from './logging/JsonLinesLogger';
+export { ConsoleLogger } from './logging/ConsoleLogger';
 export * from './types';
\ No newline at end of file
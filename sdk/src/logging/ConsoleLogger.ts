@@ -0,0 +1,52 @@
+import { LOG_LEVELS, LogFields, LogLevel, Logger } from './Logger';
+
+export interface ConsoleLoggerOptions {
+    /** Minimum level printed (default: info) */
+    level?: LogLevel;
+    /** Prefix for every message (default: "[avax-cpoe]") */
+    prefix?: string;
+}
+
+/**
+ * Browser console adapter
+ * Uses the matching console method per level so devtools filtering works,
+ * and passes fields as an object so they stay inspectable.
+ */
+export class ConsoleLogger implements Logger {
+    private minLevel: number;
+    private prefix: string;
+
+    constructor(options: ConsoleLoggerOptions = {}) {
+        this.minLevel = LOG_LEVELS[options.level || 'info'];
+        this.prefix = options.prefix ?? '[avax-cpoe]';
+    }
+
+    debug(message: string, fields?: LogFields) {
+        this.log('debug', message, fields);
+    }
+
+    info(message: string, fields?: LogFields) {
+        this.log('info', message, fields);
+    }
+
+    warn(message: string, fields?: LogFields) {
+        this.log('warn', message, fields);
+    }
+
+    error(message: string, fields?: LogFields) {
+        this.log('error', message, fields);
+    }
+
+    private log(level: LogLevel, message: string, fields?: LogFields) {
+        if (LOG_LEVELS[level] < this.minLevel) {
+            return;
+        }
+
+        const text = this.prefix ? `${this.prefix} ${message}` : message;
+        if (fields && Object.keys(fields).length > 0) {
+            console[level](text, fields);
+        } else {
+            console[level](text);
+        }
+    }
+}
@@ -0,0 +1,51 @@
+import { LOG_LEVELS, LogFields, LogLevel, Logger } from './Logger';
+
+export interface JsonLinesLoggerOptions {
+    /** Minimum level written (default: info) */
+    level?: LogLevel;
+    /** Sink for each serialized line (default: process.stdout) */
+    write?: (line: string) => void;
+    /** Fields added to every entry, e.g. service name */
+    fields?: LogFields;
+}
+
+/**
+ * Writes one JSON object per line: {"time","level","msg",...fields}
+ */
+export class JsonLinesLogger implements Logger {
+    private minLevel: number;
+    private write: (line: string) => void;
+    private fields: LogFields;
+
+    constructor(options: JsonLinesLoggerOptions = {}) {
+        this.minLevel = LOG_LEVELS[options.level || 'info'];
+        this.write = options.write || (line => process.stdout.write(line));
+        this.fields = options.fields || {};
+    }
+
+    debug(message: string, fields?: LogFields) {
+        this.log('debug', message, fields);
+    }
+
+    info(message: string, fields?: LogFields) {
+        this.log('info', message, fields);
+    }
+
+    warn(message: string, fields?: LogFields) {
+        this.log('warn', message, fields);
+    }
+
+    error(message: string, fields?: LogFields) {
+        this.log('error', message, fields);
+    }
+
+    private log(level: LogLevel, message: string, fields?: LogFields) {
+        if (LOG_LEVELS[level] < this.minLevel) {
+            return;
+        }
+
+        const entry = { time: new Date().toISOString(), level, msg: message, ...this.fields, ...fields };
+        // bigint fields (weights, amounts) are not JSON-serializable by default
+        this.write(JSON.stringify(entry, (_, value) => (typeof value === 'bigint' ? value.toString() : value)) + '\n');
+    }
+}
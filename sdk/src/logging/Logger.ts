@@ -0,0 +1,48 @@
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * Structured fields attached to a log entry
+ */
+export interface LogFields {
+    txHash?: string;
+    blockHeight?: number;
+    durationMs?: number;
+    [field: string]: unknown;
+}
+
+/**
+ * Logger injected into AvaxCPoE and the ZK generators
+ */
+export interface Logger {
+    debug(message: string, fields?: LogFields): void;
+    info(message: string, fields?: LogFields): void;
+    warn(message: string, fields?: LogFields): void;
+    error(message: string, fields?: LogFields): void;
+}
+
+export const LOG_LEVELS: Record<LogLevel, number> = {
+    debug: 10,
+    info: 20,
+    warn: 30,
+    error: 40
+};
+
+/**
+ * Default logger: discards everything
+ */
+export const silentLogger: Logger = {
+    debug: () => undefined,
+    info: () => undefined,
+    warn: () => undefined,
+    error: () => undefined
+};
+
+/**
+ * Fields for a caught error (message, code and name)
+ */
+export function errorFields(error: unknown): LogFields {
+    if (error instanceof Error) {
+        return { error: error.message, errorName: error.name, errorCode: (error as any).code };
+    }
+    return { error: String(error) };
+}
@@ -0,0 +1,175 @@
+import { ethers } from 'ethers';
+import { PoseidonHasher, SNARK_SCALAR_FIELD, getPoseidon } from '../zk/Poseidon';
+import { ProofGenerationError, VaultSDKError, ZKProofError } from '../errors';
+
+/**
+ * Depth of the `MerkleTreeChecker` in `circuits/stake_proof.circom`
+ */
+export const STAKE_TREE_LEVELS = 10;
+
+export interface IncrementalPoseidonTreeOptions {
+    levels?: number;
+    zeroValue?: ethers.BigNumberish;
+}
+
+/**
+ * Inclusion path in the layout `MerkleTreeChecker` takes as private inputs
+ * `pathIndices[i]` is 0 when the node at level i is a left child.
+ */
+export interface PoseidonMerklePath {
+    leaf: bigint;
+    index: number;
+    pathElements: bigint[];
+    pathIndices: number[];
+    root: bigint;
+}
+
+/**
+ * Fixed-depth append-only Poseidon Merkle tree matching `circuits/merkletree.circom`
+ * - node: Poseidon(left, right) over the BN254 scalar field
+ * - empty leaves hold `zeroValue`; empty subtrees hash to cached zero roots
+ */
+export class IncrementalPoseidonTree {
+    readonly levels: number;
+    readonly zeroValue: bigint;
+    private hash: PoseidonHasher;
+    private zeros: bigint[];
+    private layers: bigint[][];
+
+    private constructor(hash: PoseidonHasher, levels: number, zeroValue: bigint) {
+        this.hash = hash;
+        this.levels = levels;
+        this.zeroValue = zeroValue;
+
+        // zeros[i] is the root of an empty subtree of height i
+        this.zeros = [zeroValue];
+        for (let level = 0; level < levels; level++) {
+            this.zeros.push(hash([this.zeros[level], this.zeros[level]]));
+        }
+        this.layers = Array.from({ length: levels + 1 }, () => []);
+    }
+
+    static async create(options: IncrementalPoseidonTreeOptions = {}): Promise<IncrementalPoseidonTree> {
+        const levels = options.levels ?? STAKE_TREE_LEVELS;
+        if (!Number.isInteger(levels) || levels < 1 || levels > 32) {
+            throw new VaultSDKError('INVALID_CONFIGURATION', `Tree depth must be between 1 and 32, got ${levels}`);
+        }
+        const zeroValue = IncrementalPoseidonTree.toField(options.zeroValue ?? 0, 'zeroValue');
+        return new IncrementalPoseidonTree(await getPoseidon(), levels, zeroValue);
+    }
+
+    get root(): bigint {
+        return this.layers[this.levels][0] ?? this.zeros[this.levels];
+    }
+
+    /**
+     * Number of inserted leaves
+     */
+    get size(): number {
+        return this.layers[0].length;
+    }
+
+    get capacity(): number {
+        return 2 ** this.levels;
+    }
+
+    /**
+     * Root of an empty subtree of the given height
+     */
+    zero(level: number): bigint {
+        return this.zeros[level];
+    }
+
+    /**
+     * Append a leaf; returns its index
+     */
+    insert(leaf: ethers.BigNumberish): number {
+        if (this.size >= this.capacity) {
+            throw new ZKProofError('CONSTRAINT_VIOLATION', `Tree of depth ${this.levels} is full (${this.capacity} leaves)`);
+        }
+        const index = this.size;
+        this.setLeaf(index, IncrementalPoseidonTree.toField(leaf, 'leaf'));
+        return index;
+    }
+
+    update(index: number, leaf: ethers.BigNumberish): void {
+        this.checkIndex(index);
+        this.setLeaf(index, IncrementalPoseidonTree.toField(leaf, 'leaf'));
+    }
+
+    leaf(index: number): bigint {
+        this.checkIndex(index);
+        return this.layers[0][index];
+    }
+
+    path(index: number): PoseidonMerklePath {
+        this.checkIndex(index);
+
+        const pathElements: bigint[] = [];
+        const pathIndices: number[] = [];
+        let position = index;
+        for (let level = 0; level < this.levels; level++) {
+            const isRight = position % 2;
+            pathElements.push(this.node(level, isRight ? position - 1 : position + 1));
+            pathIndices.push(isRight);
+            position = Math.floor(position / 2);
+        }
+
+        return { leaf: this.layers[0][index], index, pathElements, pathIndices, root: this.root };
+    }
+
+    /**
+     * Recompute the root from a path exactly as `MerkleTreeChecker` does
+     */
+    static computeRoot(hash: PoseidonHasher, leaf: bigint, pathElements: bigint[], pathIndices: number[]): bigint {
+        let node = leaf;
+        pathElements.forEach((sibling, level) => {
+            if (pathIndices[level] !== 0 && pathIndices[level] !== 1) {
+                throw new ZKProofError('INVALID_MERKLE_PROOF', `Path index at level ${level} must be 0 or 1`);
+            }
+            node = pathIndices[level] === 0 ? hash([node, sibling]) : hash([sibling, node]);
+        });
+        return node;
+    }
+
+    static async verifyPath(path: Pick<PoseidonMerklePath, 'leaf' | 'pathElements' | 'pathIndices' | 'root'>): Promise<boolean> {
+        if (path.pathElements.length !== path.pathIndices.length) {
+            return false;
+        }
+        const root = IncrementalPoseidonTree.computeRoot(await getPoseidon(), path.leaf, path.pathElements, path.pathIndices);
+        return root === path.root;
+    }
+
+    private node(level: number, position: number): bigint {
+        return this.layers[level][position] ?? this.zeros[level];
+    }
+
+    private setLeaf(index: number, leaf: bigint) {
+        this.layers[0][index] = leaf;
+
+        let position = index;
+        for (let level = 0; level < this.levels; level++) {
+            const left = this.node(level, position - (position % 2));
+            const right = this.node(level, position - (position % 2) + 1);
+            position = Math.floor(position / 2);
+            this.layers[level + 1][position] = this.hash([left, right]);
+        }
+    }
+
+    private checkIndex(index: number) {
+        if (!Number.isInteger(index) || index < 0 || index >= this.size) {
+            throw new ProofGenerationError('LOG_INDEX_OUT_OF_BOUNDS', `Leaf index ${index} out of bounds. Tree has ${this.size} leaves`);
+        }
+    }
+
+    /**
+     * Circuit signals are field elements: values at or above the modulus would silently wrap
+     */
+    private static toField(value: ethers.BigNumberish, name: string): bigint {
+        const element = BigInt(ethers.BigNumber.from(value).toString());
+        if (element < BigInt(0) || element >= SNARK_SCALAR_FIELD) {
+            throw new ZKProofError('CONSTRAINT_VIOLATION', `${name} ${element} is not a BN254 field element`);
+        }
+        return element;
+    }
+}
@@ -0,0 +1,171 @@
+import { ethers } from 'ethers';
+import { MerkleProof } from '../types';
+import { ProofGenerationError } from '../errors';
+
+/**
+ * Version written into `MerkleProof.version` by `MerkleTree.getProof`
+ * Proofs without a version are legacy (bare keccak, duplicated odd nodes) and verify with `verifyLegacyProof`.
+ */
+export const MERKLE_PROOF_VERSION = 2;
+
+export const MERKLE_LEAF_PREFIX = '0x00';
+export const MERKLE_NODE_PREFIX = '0x01';
+
+type LogLike = { address: string; topics: string[]; data: string; logIndex: number };
+
+/**
+ * Binary keccak Merkle tree with domain-separated hashing
+ * - leaf: keccak256(0x00 || data)
+ * - node: keccak256(0x01 || left || right)
+ * - odd level: the last node has no sibling and is carried up unchanged (never duplicated)
+ *
+ * The root of a one-leaf tree is that leaf's hash. Proofs carry `leafCount`, which
+ * fixes the level widths and therefore where nodes are carried up without a sibling.
+ */
+export class MerkleTree {
+    readonly leaves: string[];
+    private levels: string[][];
+
+    /**
+     * Build a tree from already-hashed leaves (see `hashLeaf`)
+     */
+    constructor(leaves: string[]) {
+        if (leaves.length === 0) {
+            throw new ProofGenerationError('LOG_INDEX_OUT_OF_BOUNDS', 'Merkle tree needs at least one leaf');
+        }
+
+        this.leaves = leaves.map(leaf => ethers.utils.hexlify(leaf));
+        this.levels = [this.leaves];
+
+        let level = this.leaves;
+        while (level.length > 1) {
+            const next: string[] = [];
+            for (let i = 0; i < level.length; i += 2) {
+                next.push(i + 1 < level.length ? MerkleTree.hashNode(level[i], level[i + 1]) : level[i]);
+            }
+            this.levels.push(next);
+            level = next;
+        }
+    }
+
+    static fromData(data: ethers.utils.BytesLike[]): MerkleTree {
+        return new MerkleTree(data.map(item => MerkleTree.hashLeaf(item)));
+    }
+
+    /**
+     * Tree over a receipt's logs, one leaf per `encodeLog`
+     */
+    static fromLogs(logs: LogLike[]): MerkleTree {
+        return MerkleTree.fromData(logs.map(log => MerkleTree.encodeLog(log)));
+    }
+
+    /**
+     * Leaf preimage of a log: abi.encode(address, topics, data, logIndex)
+     */
+    static encodeLog(log: LogLike): string {
+        return ethers.utils.defaultAbiCoder.encode(
+            ['address', 'bytes32[]', 'bytes', 'uint256'],
+            [log.address, log.topics, log.data, log.logIndex]
+        );
+    }
+
+    static hashLeaf(data: ethers.utils.BytesLike): string {
+        return ethers.utils.keccak256(ethers.utils.concat([MERKLE_LEAF_PREFIX, data]));
+    }
+
+    static hashNode(left: string, right: string): string {
+        return ethers.utils.keccak256(ethers.utils.concat([MERKLE_NODE_PREFIX, left, right]));
+    }
+
+    get root(): string {
+        return this.levels[this.levels.length - 1][0];
+    }
+
+    getProof(index: number): MerkleProof {
+        if (!Number.isInteger(index) || index < 0 || index >= this.leaves.length) {
+            throw new ProofGenerationError('LOG_INDEX_OUT_OF_BOUNDS', `Leaf index ${index} out of bounds. Tree has ${this.leaves.length} leaves`);
+        }
+
+        const proof: string[] = [];
+        let position = index;
+        for (const level of this.levels.slice(0, -1)) {
+            const sibling = position ^ 1;
+            if (sibling < level.length) {
+                proof.push(level[sibling]);
+            }
+            position = Math.floor(position / 2);
+        }
+
+        return {
+            version: MERKLE_PROOF_VERSION,
+            leaf: this.leaves[index],
+            proof,
+            root: this.root,
+            index,
+            leafCount: this.leaves.length
+        };
+    }
+
+    /**
+     * Verify a proof of any version against its own `root`
+     */
+    static verifyProof(merkleProof: MerkleProof): boolean {
+        if (merkleProof.version === undefined || merkleProof.version === 1) {
+            return MerkleTree.verifyLegacyProof(merkleProof.leaf, merkleProof.proof, merkleProof.root, merkleProof.index);
+        }
+        if (merkleProof.version !== MERKLE_PROOF_VERSION || merkleProof.leafCount === undefined) {
+            return false;
+        }
+
+        const { leaf, proof, root, index, leafCount } = merkleProof;
+        if (!Number.isInteger(index) || !Number.isInteger(leafCount) || index < 0 || index >= leafCount) {
+            return false;
+        }
+
+        let hash = leaf.toLowerCase();
+        let position = index;
+        let width = leafCount;
+        let consumed = 0;
+
+        while (width > 1) {
+            const sibling = position ^ 1;
+            if (sibling < width) {
+                if (consumed === proof.length) {
+                    return false;
+                }
+                const node = proof[consumed++];
+                hash = position % 2 === 0 ? MerkleTree.hashNode(hash, node) : MerkleTree.hashNode(node, hash);
+            }
+            position = Math.floor(position / 2);
+            width = Math.ceil(width / 2);
+        }
+
+        // Every sibling must be used: extra elements would let one leaf prove several positions
+        return consumed === proof.length && hash === root.toLowerCase();
+    }
+
+    /**
+     * Pre-v2 verification: bare keccak(left || right), position from the index bits
+     */
+    static verifyLegacyProof(leaf: string, proof: string[], root: string, index: number): boolean {
+        let computedHash = leaf;
+        let currentIndex = index;
+
+        for (const proofElement of proof) {
+            computedHash = currentIndex % 2 === 0
+                ? ethers.utils.keccak256(ethers.utils.concat([computedHash, proofElement]))
+                : ethers.utils.keccak256(ethers.utils.concat([proofElement, computedHash]));
+            currentIndex = Math.floor(currentIndex / 2);
+        }
+
+        return computedHash === root;
+    }
+
+    /**
+     * Leaf a proof of the given version must carry for `log`
+     */
+    static logLeaf(log: LogLike, version?: number): string {
+        const encoded = MerkleTree.encodeLog(log);
+        return version === MERKLE_PROOF_VERSION ? MerkleTree.hashLeaf(encoded) : ethers.utils.keccak256(encoded);
+    }
+}
@@ -0,0 +1,405 @@
+import { ethers } from 'ethers';
+import { BatchProof, Proof } from '../types';
+import { ProofVerificationError } from '../errors';
+import { MERKLE_PROOF_VERSION } from '../merkle/MerkleTree';
+
+/**
+ * Version written by `AvaxCPoE.generateProof`
+ */
+export const CURRENT_PROOF_VERSION = '2.0.0';
+
+/**
+ * Proof formats understood by `parseProof`
+ * - `frontend`: the demo `VaultSDK` shape (`proofHash`, flattened `eventData`), no inclusion proof
+ * - `1.0.0`: SDK proofs signed with simulated block signatures or Warp, before versioning was enforced
+ * - `2.0.0`: current format
+ */
+export type ProofFormat = 'frontend' | '1.0.0' | '2.0.0';
+
+/**
+ * Batch proof formats understood by `parseBatchProof`
+ * - `1.0.0`: batch proofs written before they shared the single-proof version
+ * - `2.0.0`: current format
+ */
+export type BatchProofFormat = '1.0.0' | '2.0.0';
+
+export interface ProofValidationIssue {
+    path: string;
+    message: string;
+}
+
+export type ParseProofResult =
+    | { ok: true; proof: Proof; format: ProofFormat; upgraded: boolean }
+    | { ok: false; error: ProofVerificationError; issues: ProofValidationIssue[] };
+
+export type ParseBatchProofResult =
+    | { ok: true; proof: BatchProof; format: BatchProofFormat; upgraded: boolean }
+    | { ok: false; error: ProofVerificationError; issues: ProofValidationIssue[] };
+
+type Check = (value: any, path: string, issues: ProofValidationIssue[]) => void;
+
+// Runtime checks, composed per proof version below
+
+const fail = (issues: ProofValidationIssue[], path: string, message: string) => {
+    issues.push({ path, message });
+};
+
+const hex = (bytes?: number): Check => (value, path, issues) => {
+    if (typeof value !== 'string' || !ethers.utils.isHexString(value) || value.length % 2 !== 0) {
+        fail(issues, path, 'expected 0x-prefixed hex bytes');
+    } else if (bytes !== undefined && ethers.utils.hexDataLength(value) !== bytes) {
+        fail(issues, path, `expected ${bytes} bytes, got ${ethers.utils.hexDataLength(value)}`);
+    }
+};
+
+const address: Check = (value, path, issues) => {
+    if (typeof value !== 'string' || !ethers.utils.isAddress(value)) {
+        fail(issues, path, 'expected an address');
+    }
+};
+
+const string: Check = (value, path, issues) => {
+    if (typeof value !== 'string') {
+        fail(issues, path, 'expected a string');
+    }
+};
+
+const integer: Check = (value, path, issues) => {
+    if (!Number.isSafeInteger(value) || value < 0) {
+        fail(issues, path, 'expected a non-negative integer');
+    }
+};
+
+const boolean: Check = (value, path, issues) => {
+    if (typeof value !== 'boolean') {
+        fail(issues, path, 'expected a boolean');
+    }
+};
+
+const literal = (...allowed: unknown[]): Check => (value, path, issues) => {
+    if (!allowed.includes(value)) {
+        fail(issues, path, `expected one of ${allowed.map(a => JSON.stringify(a)).join(', ')}`);
+    }
+};
+
+const array = (item: Check): Check => (value, path, issues) => {
+    if (!Array.isArray(value)) {
+        fail(issues, path, 'expected an array');
+        return;
+    }
+    value.forEach((element, i) => item(element, `${path}[${i}]`, issues));
+};
+
+const record: Check = (value, path, issues) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        fail(issues, path, 'expected an object');
+    }
+};
+
+const optional = (check: Check): Check => (value, path, issues) => {
+    if (value !== undefined) {
+        check(value, path, issues);
+    }
+};
+
+const object = (fields: Record<string, Check>): Check => (value, path, issues) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        fail(issues, path, 'expected an object');
+        return;
+    }
+    for (const [key, check] of Object.entries(fields)) {
+        check(value[key], path ? `${path}.${key}` : key, issues);
+    }
+};
+
+const either = (first: Check, second: Check): Check => (value, path, issues) => {
+    const firstIssues: ProofValidationIssue[] = [];
+    first(value, path, firstIssues);
+    if (firstIssues.length === 0) {
+        return;
+    }
+    const secondIssues: ProofValidationIssue[] = [];
+    second(value, path, secondIssues);
+    if (secondIssues.length > 0) {
+        issues.push(...(firstIssues.length <= secondIssues.length ? firstIssues : secondIssues));
+    }
+};
+
+const legacyMerkleProof = object({
+    version: optional(literal(1)),
+    leaf: hex(32),
+    proof: array(hex(32)),
+    root: hex(32),
+    index: integer
+});
+
+const merkleProof = either(
+    object({
+        version: literal(MERKLE_PROOF_VERSION),
+        leaf: hex(32),
+        proof: array(hex(32)),
+        root: hex(32),
+        index: integer,
+        leafCount: integer
+    }),
+    legacyMerkleProof
+);
+
+const receiptProof = object({
+    transactionIndex: integer,
+    logPosition: integer,
+    receipt: hex(),
+    proofNodes: array(hex()),
+    receiptsRoot: hex(32),
+    transaction: optional(hex()),
+    transactionProofNodes: optional(array(hex()))
+});
+
+const eventData = object({
+    address,
+    topics: array(hex(32)),
+    data: hex(),
+    transactionHash: hex(32),
+    logIndex: integer
+});
+
+const warpSignatures = object({
+    warpMessage: hex(),
+    validatorSetHash: hex(32),
+    pChainHeight: integer
+});
+
+const blockHeader = object({ format: literal('c-chain', 'subnet-evm'), rlp: hex() });
+
+const finality = object({ confirmations: integer, accepted: optional(boolean) });
+
+const PROOF_V2 = object({
+    version: literal('2.0.0'),
+    type: literal('merkle', 'receipt-trie'),
+    eventId: hex(32),
+    sourceSubnet: string,
+    blockHeight: integer,
+    blockHash: hex(32),
+    blockHeader: optional(blockHeader),
+    merkleProof: optional(merkleProof),
+    receiptProof: optional(receiptProof),
+    eventData,
+    decodedEvent: optional(object({ name: string, fragment: string, args: record })),
+    finality: optional(finality),
+    signatures: warpSignatures,
+    legacy: optional(object({ format: string, fields: record })),
+    timestamp: integer
+});
+
+const PROOF_V1 = object({
+    version: literal('1.0.0'),
+    type: literal('merkle', 'receipt-trie'),
+    eventId: hex(32),
+    sourceSubnet: string,
+    blockHeight: integer,
+    blockHash: hex(32),
+    merkleProof: optional(legacyMerkleProof),
+    receiptProof: optional(receiptProof),
+    eventData,
+    signatures: either(
+        warpSignatures,
+        object({ blockSignature: hex(), validatorSetHash: hex(32) })
+    ),
+    timestamp: integer
+});
+
+const PROOF_FRONTEND = object({
+    eventId: hex(32),
+    blockHeight: integer,
+    blockHash: hex(32),
+    proofHash: hex(32),
+    eventData: object({ user: address, amount: string, timestamp: integer }),
+    generated: optional(string)
+});
+
+const batchProof = (version: BatchProofFormat) => object({
+    version: literal(version),
+    type: literal('receipt-trie-batch'),
+    sourceSubnet: string,
+    blocks: array(object({
+        blockHeight: integer,
+        blockHash: hex(32),
+        blockHeader,
+        finality: optional(finality),
+        receiptProof: object({
+            receipts: array(object({ transactionIndex: integer, receipt: hex(), transaction: optional(hex()) })),
+            proofNodes: array(hex()),
+            receiptsRoot: hex(32),
+            transactionProofNodes: optional(array(hex()))
+        }),
+        signatures: warpSignatures
+    })),
+    events: array(object({ block: integer, transactionIndex: integer, logPosition: integer, eventData })),
+    timestamp: integer
+});
+
+const VALIDATORS: Record<ProofFormat, Check> = {
+    'frontend': PROOF_FRONTEND,
+    '1.0.0': PROOF_V1,
+    '2.0.0': PROOF_V2
+};
+
+// Each upgrade moves a proof one step towards CURRENT_PROOF_VERSION
+const UPGRADES: Record<Exclude<ProofFormat, '2.0.0'>, { to: ProofFormat; upgrade: (proof: any) => any }> = {
+    /**
+     * The demo frontend never embedded an inclusion proof or signature: the block
+     * reference carries over and the flattened fields are kept under `legacy`.
+     */
+    'frontend': {
+        to: '2.0.0',
+        upgrade: proof => ({
+            version: '2.0.0',
+            type: 'merkle',
+            eventId: proof.eventId,
+            sourceSubnet: proof.sourceSubnet || 'avalanche-fuji',
+            blockHeight: proof.blockHeight,
+            blockHash: proof.blockHash,
+            eventData: {
+                address: ethers.constants.AddressZero,
+                topics: [],
+                data: '0x',
+                transactionHash: proof.eventId,
+                logIndex: 0
+            },
+            signatures: { warpMessage: '0x', validatorSetHash: ethers.constants.HashZero, pChainHeight: 0 },
+            legacy: {
+                format: 'frontend',
+                fields: { proofHash: proof.proofHash, eventData: proof.eventData, generated: proof.generated }
+            },
+            timestamp: proof.eventData.timestamp
+        })
+    },
+    /**
+     * Simulated `blockSignature`s carry no validator attestation; they are kept under
+     * `legacy` and the proof is left without a Warp signature.
+     */
+    '1.0.0': {
+        to: '2.0.0',
+        upgrade: proof => {
+            const { blockSignature, ...signatures } = proof.signatures;
+            const upgraded = { ...proof, version: '2.0.0' };
+            if (blockSignature !== undefined) {
+                upgraded.signatures = { warpMessage: '0x', validatorSetHash: signatures.validatorSetHash, pChainHeight: 0 };
+                upgraded.legacy = { format: '1.0.0', fields: { blockSignature } };
+            }
+            return upgraded;
+        }
+    }
+};
+
+const BATCH_VALIDATORS: Record<BatchProofFormat, Check> = {
+    '1.0.0': batchProof('1.0.0'),
+    '2.0.0': batchProof('2.0.0')
+};
+
+const BATCH_UPGRADES: Record<Exclude<BatchProofFormat, '2.0.0'>, { to: BatchProofFormat; upgrade: (proof: any) => any }> = {
+    /**
+     * Batch proofs carried Warp signatures from the start; only the version changes
+     */
+    '1.0.0': {
+        to: '2.0.0',
+        upgrade: proof => ({ ...proof, version: '2.0.0' })
+    }
+};
+
+/**
+ * Format a stored proof was written in, or null when it is not recognised
+ */
+export function detectProofFormat(input: unknown): ProofFormat | null {
+    if (typeof input !== 'object' || input === null) {
+        return null;
+    }
+    const candidate = input as Record<string, unknown>;
+    if (candidate.proofHash !== undefined) {
+        return 'frontend';
+    }
+    return candidate.version === '1.0.0' || candidate.version === '2.0.0' ? candidate.version : null;
+}
+
+/**
+ * Validate a proof against the runtime schema of one format
+ */
+export function validateProof(input: unknown, format: ProofFormat = CURRENT_PROOF_VERSION): ProofValidationIssue[] {
+    const issues: ProofValidationIssue[] = [];
+    VALIDATORS[format](input, '', issues);
+    return issues;
+}
+
+/**
+ * Validate a stored proof of any known format and upgrade it to the current version
+ */
+export function parseProof(input: unknown): ParseProofResult {
+    return parseVersioned(input, 'proof', detectProofFormat(input), VALIDATORS, UPGRADES);
+}
+
+/**
+ * Validate a stored batch proof and upgrade it to the current version, like `parseProof`
+ */
+export function parseBatchProof(input: unknown): ParseBatchProofResult {
+    const candidate = input as Record<string, unknown> | null;
+    const format = candidate?.type === 'receipt-trie-batch' && (candidate.version === '1.0.0' || candidate.version === '2.0.0')
+        ? candidate.version
+        : null;
+    return parseVersioned(input, 'batch proof', format, BATCH_VALIDATORS, BATCH_UPGRADES);
+}
+
+/**
+ * Validate `input` as `format`, upgrade it one step at a time to the current version,
+ * then validate the upgraded proof again
+ */
+function parseVersioned<F extends string>(
+    input: unknown,
+    kind: string,
+    format: F | null,
+    validators: Record<F, Check>,
+    upgrades: Partial<Record<F, { to: F; upgrade: (proof: any) => any }>>
+): { ok: true; proof: any; format: F; upgraded: boolean } | { ok: false; error: ProofVerificationError; issues: ProofValidationIssue[] } {
+    if (!format) {
+        const version = (input as any)?.version;
+        return {
+            ok: false,
+            error: new ProofVerificationError('UNSUPPORTED_PROOF_VERSION', `Unsupported ${kind} version ${version}`),
+            issues: [{ path: 'version', message: `unknown ${kind} version ${JSON.stringify(version)}` }]
+        };
+    }
+
+    const validate = (proof: unknown, version: F) => {
+        const issues: ProofValidationIssue[] = [];
+        validators[version](proof, '', issues);
+        return issues;
+    };
+    const invalid = (issues: ProofValidationIssue[], version: string) => ({
+        ok: false as const,
+        error: new ProofVerificationError(
+            'INVALID_PROOF_STRUCTURE',
+            `Invalid ${version} ${kind}: ${issues.map(issue => `${issue.path || '(root)'} ${issue.message}`).join('; ')}`
+        ),
+        issues
+    });
+
+    const issues = validate(input, format);
+    if (issues.length > 0) {
+        return invalid(issues, format);
+    }
+
+    let proof: any = input;
+    let current: F = format;
+    for (let step = upgrades[current]; step; step = upgrades[current]) {
+        proof = step.upgrade(proof);
+        current = step.to;
+    }
+
+    if (current !== format) {
+        const upgradedIssues = validate(proof, current);
+        if (upgradedIssues.length > 0) {
+            return invalid(upgradedIssues, `upgraded ${format}`);
+        }
+    }
+
+    return { ok: true, proof, format, upgraded: current !== format };
+}
@@ -0,0 +1,258 @@
+import { ethers } from 'ethers';
+import { ProofVerificationError } from '../errors';
+
+// A child is a node hash, '0x' for an empty slot, or a node embedded inline
+type NodeRef = string | TrieNode;
+type TrieNode = NodeRef[];
+
+/**
+ * Minimal Ethereum Merkle-Patricia trie
+ * Built in one pass from a full key/value set (receipts, transactions), which is
+ * all the SDK needs to reproduce `receiptsRoot` and extract inclusion proofs.
+ */
+export class MerklePatriciaTrie {
+    static readonly EMPTY_ROOT = ethers.utils.keccak256(ethers.utils.RLP.encode('0x'));
+
+    readonly root: string;
+    private nodes: Map<string, string>;
+
+    private constructor(root: string, nodes: Map<string, string>) {
+        this.root = root;
+        this.nodes = nodes;
+    }
+
+    /**
+     * Build a trie from raw (hex) keys and values
+     */
+    static fromEntries(entries: { key: string; value: string }[]): MerklePatriciaTrie {
+        const nodes = new Map<string, string>();
+        const items = entries
+            .map(entry => ({ nibbles: MerklePatriciaTrie.toNibbles(entry.key), value: ethers.utils.hexlify(entry.value) }))
+            .sort((a, b) => MerklePatriciaTrie.compareNibbles(a.nibbles, b.nibbles));
+
+        if (items.length === 0) {
+            return new MerklePatriciaTrie(MerklePatriciaTrie.EMPTY_ROOT, nodes);
+        }
+
+        // The root is always referenced by hash, even when it encodes to < 32 bytes
+        const encodedRoot = ethers.utils.RLP.encode(MerklePatriciaTrie.buildNode(items, 0, nodes));
+        const root = ethers.utils.keccak256(encodedRoot);
+        nodes.set(root, encodedRoot);
+
+        return new MerklePatriciaTrie(root, nodes);
+    }
+
+    /**
+     * Collect the RLP-encoded nodes on the path from the root to `key`
+     */
+    createProof(key: string): string[] {
+        const proof: string[] = [];
+        MerklePatriciaTrie.walk(this.root, key, this.nodes, encoded => proof.push(encoded));
+        return proof;
+    }
+
+    /**
+     * Union of the proofs for several keys: nodes shared between paths appear once.
+     * Each key verifies against the combined node list with `verifyProof`.
+     */
+    createMultiProof(keys: string[]): string[] {
+        const proof = new Set<string>();
+        for (const key of keys) {
+            MerklePatriciaTrie.walk(this.root, key, this.nodes, encoded => proof.add(encoded));
+        }
+        return Array.from(proof);
+    }
+
+    /**
+     * Look up a value in the trie (null when the key is absent)
+     */
+    get(key: string): string | null {
+        return MerklePatriciaTrie.walk(this.root, key, this.nodes);
+    }
+
+    /**
+     * Verify an inclusion proof against a trie root
+     * Returns the proven value, or null when the proof shows the key is absent.
+     * Throws when the proof is incomplete or does not connect to the root.
+     */
+    static verifyProof(root: string, key: string, proof: string[]): string | null {
+        const nodes = new Map<string, string>();
+        for (const encoded of proof) {
+            nodes.set(ethers.utils.keccak256(encoded), ethers.utils.hexlify(encoded));
+        }
+        return MerklePatriciaTrie.walk(root.toLowerCase(), key, nodes);
+    }
+
+    private static walk(
+        root: string,
+        key: string,
+        nodes: Map<string, string>,
+        onNode?: (encoded: string) => void
+    ): string | null {
+        if (root === MerklePatriciaTrie.EMPTY_ROOT) {
+            return null;
+        }
+
+        const nibbles = MerklePatriciaTrie.toNibbles(key);
+        let position = 0;
+        let ref: NodeRef = root;
+
+        for (;;) {
+            let node: TrieNode;
+
+            if (typeof ref === 'string') {
+                if (ref === '0x') {
+                    return null;
+                }
+                const encoded = nodes.get(ref);
+                if (!encoded) {
+                    throw new ProofVerificationError('INVALID_MERKLE_PROOF', `Missing trie node ${ref}`);
+                }
+                onNode?.(encoded);
+                const decoded: NodeRef = ethers.utils.RLP.decode(encoded);
+                if (typeof decoded === 'string') {
+                    throw new ProofVerificationError('INVALID_MERKLE_PROOF', `Trie node ${ref} is not a list`);
+                }
+                node = decoded;
+            } else {
+                // Node embedded inline in its parent (encoding shorter than 32 bytes)
+                node = ref;
+            }
+
+            if (node.length === 17) {
+                if (position === nibbles.length) {
+                    const value = MerklePatriciaTrie.item(node[16]);
+                    return value === '0x' ? null : value;
+                }
+                ref = node[nibbles[position]];
+                position++;
+                continue;
+            }
+
+            if (node.length !== 2) {
+                throw new ProofVerificationError('INVALID_MERKLE_PROOF', `Malformed trie node with ${node.length} items`);
+            }
+
+            const { path, isLeaf } = MerklePatriciaTrie.decodePath(MerklePatriciaTrie.item(node[0]));
+            const remaining = nibbles.slice(position);
+
+            if (isLeaf) {
+                return MerklePatriciaTrie.compareNibbles(path, remaining) === 0 ? MerklePatriciaTrie.item(node[1]) : null;
+            }
+
+            if (remaining.length < path.length || path.some((nibble, i) => nibble !== remaining[i])) {
+                return null;
+            }
+            position += path.length;
+            ref = node[1];
+        }
+    }
+
+    /**
+     * Node item that must be a byte string (a value or a path), not a nested node
+     */
+    private static item(ref: NodeRef): string {
+        if (typeof ref !== 'string') {
+            throw new ProofVerificationError('INVALID_MERKLE_PROOF', 'Malformed trie node: expected a byte string');
+        }
+        return ref;
+    }
+
+    private static buildNode(
+        items: { nibbles: number[]; value: string }[],
+        depth: number,
+        nodes: Map<string, string>
+    ): TrieNode {
+        if (items.length === 1) {
+            return [MerklePatriciaTrie.encodePath(items[0].nibbles.slice(depth), true), items[0].value];
+        }
+
+        // Shared prefix below this depth becomes an extension node
+        const first = items[0].nibbles;
+        let shared = 0;
+        while (
+            depth + shared < first.length &&
+            items.every(item => item.nibbles.length > depth + shared && item.nibbles[depth + shared] === first[depth + shared])
+        ) {
+            shared++;
+        }
+
+        if (shared > 0) {
+            const child = MerklePatriciaTrie.buildNode(items, depth + shared, nodes);
+            return [
+                MerklePatriciaTrie.encodePath(first.slice(depth, depth + shared), false),
+                MerklePatriciaTrie.reference(child, nodes)
+            ];
+        }
+
+        const branch: NodeRef[] = new Array(17).fill('0x');
+        for (let nibble = 0; nibble < 16; nibble++) {
+            const group = items.filter(item => item.nibbles.length > depth && item.nibbles[depth] === nibble);
+            if (group.length > 0) {
+                branch[nibble] = MerklePatriciaTrie.reference(
+                    MerklePatriciaTrie.buildNode(group, depth + 1, nodes),
+                    nodes
+                );
+            }
+        }
+
+        const terminal = items.find(item => item.nibbles.length === depth);
+        if (terminal) {
+            branch[16] = terminal.value;
+        }
+
+        return branch;
+    }
+
+    private static reference(node: TrieNode, nodes: Map<string, string>): NodeRef {
+        const encoded = ethers.utils.RLP.encode(node);
+        if (ethers.utils.hexDataLength(encoded) < 32) {
+            return node;
+        }
+
+        const hash = ethers.utils.keccak256(encoded);
+        nodes.set(hash, encoded);
+        return hash;
+    }
+
+    /**
+     * Hex-prefix encoding of a nibble path (Yellow Paper, appendix C)
+     */
+    private static encodePath(nibbles: number[], isLeaf: boolean): string {
+        const flag = (isLeaf ? 2 : 0) + (nibbles.length % 2);
+        const prefixed = nibbles.length % 2 === 1 ? [flag, ...nibbles] : [flag, 0, ...nibbles];
+
+        const bytes = new Uint8Array(prefixed.length / 2);
+        for (let i = 0; i < bytes.length; i++) {
+            bytes[i] = (prefixed[2 * i] << 4) | prefixed[2 * i + 1];
+        }
+        return ethers.utils.hexlify(bytes);
+    }
+
+    private static decodePath(encoded: string): { path: number[]; isLeaf: boolean } {
+        const nibbles = MerklePatriciaTrie.toNibbles(encoded);
+        const flag = nibbles[0];
+        return {
+            isLeaf: flag >= 2,
+            path: nibbles.slice(flag % 2 === 1 ? 1 : 2)
+        };
+    }
+
+    private static toNibbles(key: string): number[] {
+        const bytes = ethers.utils.arrayify(key);
+        const nibbles: number[] = [];
+        for (const byte of bytes) {
+            nibbles.push(byte >> 4, byte & 0x0f);
+        }
+        return nibbles;
+    }
+
+    private static compareNibbles(a: number[], b: number[]): number {
+        for (let i = 0; i < Math.min(a.length, b.length); i++) {
+            if (a[i] !== b[i]) {
+                return a[i] - b[i];
+            }
+        }
+        return a.length - b.length;
+    }
+}
@@ -0,0 +1,179 @@
+import { ethers } from 'ethers';
+import { MerklePatriciaTrie } from './MerklePatriciaTrie';
+import { ReceiptTrieMultiProof, ReceiptTrieProof } from '../types';
+import { ProofGenerationError, ProofVerificationError } from '../errors';
+
+/**
+ * Receipt fields needed for consensus encoding
+ * Accepts both ethers `TransactionReceipt` objects and raw JSON-RPC receipts.
+ */
+export interface ReceiptLike {
+    type?: number | string | null;
+    status?: number | string | null;
+    root?: string | null;
+    cumulativeGasUsed: ethers.BigNumberish;
+    logsBloom: string;
+    logs: { address: string; topics: string[]; data: string }[];
+}
+
+export interface DecodedReceipt {
+    type: number;
+    status?: number;
+    root?: string;
+    cumulativeGasUsed: ethers.BigNumber;
+    logsBloom: string;
+    logs: { address: string; topics: string[]; data: string }[];
+}
+
+/**
+ * Receipts trie helpers: consensus (RLP) receipt encoding and inclusion proofs
+ * against a block's `receiptsRoot`.
+ */
+export class ReceiptTrie {
+    /**
+     * Trie key for the receipt at `transactionIndex`: rlp(index)
+     */
+    static encodeKey(transactionIndex: number): string {
+        return ethers.utils.RLP.encode(transactionIndex === 0 ? '0x' : ethers.utils.hexlify(transactionIndex));
+    }
+
+    /**
+     * Consensus encoding of a receipt (EIP-2718 envelope for typed receipts)
+     */
+    static encodeReceipt(receipt: ReceiptLike): string {
+        const type = receipt.type != null ? ethers.BigNumber.from(receipt.type).toNumber() : 0;
+        const statusOrRoot = receipt.root && receipt.status == null
+            ? receipt.root
+            : ReceiptTrie.encodeQuantity(receipt.status ?? 0);
+
+        const encoded = ethers.utils.RLP.encode([
+            statusOrRoot,
+            ReceiptTrie.encodeQuantity(receipt.cumulativeGasUsed),
+            receipt.logsBloom,
+            receipt.logs.map(log => [log.address, log.topics, log.data])
+        ]);
+
+        return type === 0
+            ? encoded
+            : ethers.utils.hexlify(ethers.utils.concat([[type], encoded]));
+    }
+
+    /**
+     * Decode a consensus-encoded receipt
+     */
+    static decodeReceipt(encoded: string): DecodedReceipt {
+        const bytes = ethers.utils.arrayify(encoded);
+        const type = bytes[0] <= 0x7f ? bytes[0] : 0;
+        const fields = ethers.utils.RLP.decode(type === 0 ? bytes : bytes.slice(1));
+
+        if (!Array.isArray(fields) || fields.length !== 4) {
+            throw new ProofVerificationError('INVALID_MERKLE_PROOF', 'Malformed receipt encoding');
+        }
+
+        const [statusOrRoot, cumulativeGasUsed, logsBloom, logs] = fields;
+        const isRoot = ethers.utils.hexDataLength(statusOrRoot) === 32;
+
+        return {
+            type,
+            status: isRoot ? undefined : ReceiptTrie.decodeQuantity(statusOrRoot).toNumber(),
+            root: isRoot ? statusOrRoot : undefined,
+            cumulativeGasUsed: ReceiptTrie.decodeQuantity(cumulativeGasUsed),
+            logsBloom,
+            logs: logs.map((log: any[]) => ({
+                address: ethers.utils.getAddress(log[0]),
+                topics: log[1],
+                data: log[2]
+            }))
+        };
+    }
+
+    /**
+     * Build the receipts trie for a block (receipts ordered by transaction index)
+     */
+    static build(receipts: ReceiptLike[]): MerklePatriciaTrie {
+        return MerklePatriciaTrie.fromEntries(
+            receipts.map((receipt, index) => ({
+                key: ReceiptTrie.encodeKey(index),
+                value: ReceiptTrie.encodeReceipt(receipt)
+            }))
+        );
+    }
+
+    /**
+     * Generate the inclusion proof for one log of one receipt in the block
+     */
+    static generateProof(receipts: ReceiptLike[], transactionIndex: number, logPosition: number): ReceiptTrieProof {
+        if (transactionIndex >= receipts.length) {
+            throw new ProofGenerationError('PROOF_GENERATION_FAILED', `Transaction index ${transactionIndex} out of bounds. Block has ${receipts.length} receipts`);
+        }
+
+        const trie = ReceiptTrie.build(receipts);
+        const key = ReceiptTrie.encodeKey(transactionIndex);
+
+        return {
+            transactionIndex,
+            logPosition,
+            receipt: ReceiptTrie.encodeReceipt(receipts[transactionIndex]),
+            proofNodes: trie.createProof(key),
+            receiptsRoot: trie.root
+        };
+    }
+
+    /**
+     * Generate one shared-node inclusion proof for several receipts of the same block
+     */
+    static generateMultiProof(receipts: ReceiptLike[], transactionIndices: number[]): ReceiptTrieMultiProof {
+        const indices = Array.from(new Set(transactionIndices)).sort((a, b) => a - b);
+        const outOfBounds = indices.find(index => index >= receipts.length);
+        if (outOfBounds !== undefined) {
+            throw new ProofGenerationError('PROOF_GENERATION_FAILED', `Transaction index ${outOfBounds} out of bounds. Block has ${receipts.length} receipts`);
+        }
+
+        const trie = ReceiptTrie.build(receipts);
+
+        return {
+            receipts: indices.map(transactionIndex => ({
+                transactionIndex,
+                receipt: ReceiptTrie.encodeReceipt(receipts[transactionIndex])
+            })),
+            proofNodes: trie.createMultiProof(indices.map(index => ReceiptTrie.encodeKey(index))),
+            receiptsRoot: trie.root
+        };
+    }
+
+    /**
+     * Verify a receipt inclusion proof against the given receipts root
+     */
+    static verifyProof(receiptProof: ReceiptTrieProof, receiptsRoot: string): boolean {
+        try {
+            const value = MerklePatriciaTrie.verifyProof(
+                receiptsRoot,
+                ReceiptTrie.encodeKey(receiptProof.transactionIndex),
+                receiptProof.proofNodes
+            );
+            return value !== null && value.toLowerCase() === receiptProof.receipt.toLowerCase();
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * Verify every receipt of a multiproof against the given receipts root
+     */
+    static verifyMultiProof(multiProof: ReceiptTrieMultiProof, receiptsRoot: string): boolean {
+        return multiProof.receipts.length > 0 && multiProof.receipts.every(({ transactionIndex, receipt }) =>
+            ReceiptTrie.verifyProof(
+                { transactionIndex, logPosition: 0, receipt, proofNodes: multiProof.proofNodes, receiptsRoot },
+                receiptsRoot
+            )
+        );
+    }
+
+    private static encodeQuantity(value: ethers.BigNumberish): string {
+        return ethers.utils.hexlify(ethers.utils.stripZeros(ethers.BigNumber.from(value).toHexString()));
+    }
+
+    private static decodeQuantity(value: string): ethers.BigNumber {
+        return ethers.BigNumber.from(value === '0x' ? 0 : value);
+    }
+}
@@ -0,0 +1,85 @@
+import { ethers } from 'ethers';
+import { MerklePatriciaTrie } from './MerklePatriciaTrie';
+import { ReceiptTrie } from './ReceiptTrie';
+import { ProofGenerationError } from '../errors';
+
+/**
+ * Transactions trie helpers: consensus encoding of signed transactions and inclusion
+ * proofs against a block's `transactionsRoot`. A receipt has no hash of its own, so a
+ * receipt proof is bound to its transaction hash by proving the transaction at the same
+ * trie key (rlp(transactionIndex)) as the receipt.
+ */
+export class TransactionTrie {
+    /**
+     * Consensus encoding of a signed transaction (EIP-2718 envelope for typed transactions)
+     * Throws when the encoding does not hash to `tx.hash`, e.g. for an unsupported type.
+     */
+    static encodeTransaction(tx: ethers.Transaction): string {
+        const type = tx.type ?? 0;
+        const common = { nonce: tx.nonce, gasLimit: tx.gasLimit, to: tx.to ?? undefined, value: tx.value, data: tx.data };
+
+        let encoded: string;
+        try {
+            const signature = { r: tx.r!, s: tx.s!, v: tx.v! };
+            encoded = type === 0
+                // chainId comes from an EIP-155 v; pre-EIP-155 transactions have none
+                ? ethers.utils.serializeTransaction({ ...common, gasPrice: tx.gasPrice }, signature)
+                : ethers.utils.serializeTransaction({
+                    ...common,
+                    type,
+                    chainId: tx.chainId,
+                    accessList: tx.accessList,
+                    // RPC nodes report the effective gasPrice on mined EIP-1559 transactions; it is not signed
+                    ...(type === 2
+                        ? { maxFeePerGas: tx.maxFeePerGas, maxPriorityFeePerGas: tx.maxPriorityFeePerGas }
+                        : { gasPrice: tx.gasPrice })
+                }, signature);
+        } catch (error) {
+            throw new ProofGenerationError('PROOF_GENERATION_FAILED', `Cannot encode transaction ${tx.hash} of type ${type}`, error);
+        }
+
+        if (ethers.utils.keccak256(encoded) !== tx.hash?.toLowerCase()) {
+            throw new ProofGenerationError('PROOF_GENERATION_FAILED', `Re-encoded transaction does not hash to ${tx.hash}`);
+        }
+        return encoded;
+    }
+
+    /**
+     * Build the transactions trie for a block (encoded transactions ordered by index)
+     */
+    static build(transactions: string[]): MerklePatriciaTrie {
+        return MerklePatriciaTrie.fromEntries(
+            transactions.map((transaction, index) => ({ key: ReceiptTrie.encodeKey(index), value: transaction }))
+        );
+    }
+
+    /**
+     * Generate one shared-node inclusion proof for the transactions at `transactionIndices`
+     */
+    static generateProof(transactions: string[], transactionIndices: number[]): string[] {
+        const outOfBounds = transactionIndices.find(index => index >= transactions.length);
+        if (outOfBounds !== undefined) {
+            throw new ProofGenerationError('PROOF_GENERATION_FAILED', `Transaction index ${outOfBounds} out of bounds. Block has ${transactions.length} transactions`);
+        }
+        return TransactionTrie.build(transactions).createMultiProof(transactionIndices.map(index => ReceiptTrie.encodeKey(index)));
+    }
+
+    /**
+     * Verify that `transaction` is the transaction at `transactionIndex` under the given root
+     */
+    static verifyProof(transactionsRoot: string, transactionIndex: number, transaction: string, proofNodes: string[]): boolean {
+        try {
+            const value = MerklePatriciaTrie.verifyProof(transactionsRoot, ReceiptTrie.encodeKey(transactionIndex), proofNodes);
+            return value !== null && value.toLowerCase() === transaction.toLowerCase();
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * Hash of an encoded transaction, as reported by the RPC
+     */
+    static hash(transaction: string): string {
+        return ethers.utils.keccak256(transaction);
+    }
+}
@@ -1,16 +1,66 @@
+import { ethers } from 'ethers';
+import type { JsonFragment } from '@ethersproject/abi';
+import { ValidatorSetProvider } from './validators/ValidatorSetProvider';
+import { VaultSDKError, ZKProofError } from './errors';
+import { Logger } from './logging/Logger';
+import { ArtifactSource } from './zk/ArtifactSource';
+import type { CircuitArtifacts } from './zk/CircuitArtifacts';
+import type { CircuitRegistry } from './zk/CircuitRegistry';
+
+export type ProofMode = 'merkle' | 'receipt-trie';
+
+export interface ReceiptTrieProof {
+    transactionIndex: number;
+    logPosition: number;
+    receipt: string;
+    proofNodes: string[];
+    receiptsRoot: string;
+    transaction?: string;                  // Signed transaction at transactionIndex; binds the receipt to eventData.transactionHash
+    transactionProofNodes?: string[];      // Its inclusion proof against the header's transactionsRoot
+}
+
+export interface ReceiptTrieMultiProof {
+    receipts: { transactionIndex: number; receipt: string; transaction?: string }[];
+    proofNodes: string[];
+    receiptsRoot: string;
+    transactionProofNodes?: string[];      // Shared inclusion proof of every receipt's transaction
+}
+
+/**
+ * Binary Merkle inclusion proof; `version` is absent on legacy (pre-domain-separation) proofs
+ */
+export interface MerkleProof {
+    version?: number;
+    leaf: string;
+    proof: string[];
+    root: string;
+    index: number;
+    leafCount?: number;
+}
+
+export type HeaderFormat = 'c-chain' | 'subnet-evm';
+
+export interface BlockHeaderProof {
+    format: HeaderFormat;
+    rlp: string;
+}
+
+export interface DecodedEvent {
+    name: string;
+    fragment: string;
+    args: Record<string, unknown>;
+}
+
 export interface Proof {
     version: string;
-    type: 'merkle';
+    type: ProofMode;
     eventId: string;
     sourceSubnet: string;
     blockHeight: number;
     blockHash: string;
-    merkleProof: {
-        leaf: string;
-        proof: string[];
-        root: string;
-        index: number;
-    };
+    blockHeader?: BlockHeaderProof;
+    merkleProof?: MerkleProof;
+    receiptProof?: ReceiptTrieProof;
     eventData: {
         address: string;
         topics: string[];
@@ -18,26 +68,191 @@ export interface Proof {
         transactionHash: string;
         logIndex: number;
     };
+    decodedEvent?: DecodedEvent;
+    finality?: {
+        confirmations: number;
+        accepted?: boolean;                // Set only when generated with requireAccepted
+    };
     signatures: {
-        blockSignature: string;
+        warpMessage: string;
         validatorSetHash: string;
+        pChainHeight: number;
+    };
+    legacy?: {
+        format: string;
+        fields: Record<string, unknown>;
     };
     timestamp: number;
 }
 
+export interface BatchProofTarget {
+    txHash: string;
+    logIndex: number;
+}
+
+export interface BatchBlockProof {
+    blockHeight: number;
+    blockHash: string;
+    blockHeader: BlockHeaderProof;
+    finality?: Proof['finality'];
+    receiptProof: ReceiptTrieMultiProof;
+    signatures: Proof['signatures'];
+}
+
+export interface BatchProofEvent {
+    block: number;
+    transactionIndex: number;
+    logPosition: number;
+    eventData: Proof['eventData'];
+}
+
+export interface BatchProof {
+    version: string;
+    type: 'receipt-trie-batch';
+    sourceSubnet: string;
+    blocks: BatchBlockProof[];
+    events: BatchProofEvent[];
+    timestamp: number;
+}
+
+export interface UnsignedWarpMessage {
+    networkId: number;
+    sourceChainId: string;
+    payload: string;
+}
+
+export interface SignedWarpMessage {
+    unsignedMessage: UnsignedWarpMessage;
+    signers: string;
+    signature: string;
+}
+
+export interface WarpValidator {
+    nodeId?: string;
+    publicKey?: string;
+    weight: bigint;
+}
+
+export interface WarpValidatorSet {
+    validators: WarpValidator[];
+    totalWeight: bigint;
+}
+
+export interface ValidatorSetSnapshot {
+    subnetId: string;
+    pChainHeight: number;
+    validators: {
+        nodeId: string;
+        publicKey?: string;
+        weight: string | number;
+    }[];
+}
+
+export interface WarpQuorum {
+    numerator: number;
+    denominator: number;
+}
+
+export interface WarpVerificationResult {
+    isValid: boolean;
+    signedWeight: bigint;
+    totalWeight: bigint;
+    error?: string;
+}
+
+export interface AvaxCPoEConfig {
+    validatorSetProvider?: ValidatorSetProvider;
+    subnetId?: string;
+    networkId?: number;                // Warp network ID of the source chain; known for avalanche-mainnet/-fuji
+    blockchainId?: string;             // Warp source chain ID, hex or CB58; known for avalanche-mainnet/-fuji
+    warpQuorum?: WarpQuorum;
+    logger?: Logger;
+}
+
+export interface ZKProofGeneratorConfig {
+    logger?: Logger;
+    artifacts?: CircuitArtifacts | ArtifactSource;
+    circuitWasm?: ArtifactSource;
+    circuitZkey?: ArtifactSource;
+    verificationKey?: ArtifactSource | Groth16VerificationKey;
+    registry?: CircuitRegistry;        // Circuits beyond the stake proof; the overrides above apply to stake_proof
+}
+
+/**
+ * snarkjs `verification_key.json` for a Groth16 circuit on BN254
+ * G1 points are [x, y, z] and G2 points [[x.c0, x.c1], [y.c0, y.c1], [z.c0, z.c1]], as decimal strings.
+ */
+export interface Groth16VerificationKey {
+    protocol: 'groth16';
+    curve: 'bn128';
+    nPublic: number;
+    vk_alpha_1: string[];
+    vk_beta_2: string[][];
+    vk_gamma_2: string[][];
+    vk_delta_2: string[][];
+    IC: string[][];
+}
+
+/**
+ * Groth16 proof as output by snarkjs
+ */
+export interface Groth16Proof {
+    pi_a: string[];
+    pi_b: string[][];
+    pi_c: string[];
+}
+
+/**
+ * Groth16 proof in the calldata layout of the Solidity verifier (G2 coordinates swapped to [c1, c0])
+ */
+export interface SolidityGroth16Proof {
+    a: string[];
+    b: string[][];
+    c: string[];
+}
+
+export interface Groth16Verdict {
+    isValid: boolean;
+    error?: ZKProofError;
+}
+
 export interface ProofGenerationOptions {
     sourceRpcUrl?: string;
     logIndex?: number;
     includeFullEventData?: boolean;
+    mode?: ProofMode;
+    pChainHeight?: number;
+    minConfirmations?: number;
+    requireAccepted?: boolean;
+    waitForConfirmations?: boolean;
+    confirmationTimeoutMs?: number;
+}
+
+export interface BatchVerificationResult {
+    isValid: boolean;
+    errors?: VaultSDKError[];
+    events: boolean[];
+}
+
+export interface EventFilter {
+    address?: string;
+    eventSignature?: string;
+    abi?: string | JsonFragment | ethers.utils.EventFragment;
+    argFilter?: Record<string, unknown | ((value: any) => boolean)>;
+}
+
+export interface VerificationOptions {
+    minConfirmations?: number;
 }
 
 export interface VerificationResult {
     isValid: boolean;
-    errors?: string[];
+    errors?: VaultSDKError[];
     details: {
         merkleValid: boolean;
         signatureValid: boolean;
         blockValid: boolean;
         eventValid: boolean;
     };
+    confirmations?: number;
 }
\ No newline at end of file
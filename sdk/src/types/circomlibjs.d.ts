@@ -0,0 +1,12 @@
+declare module 'circomlibjs' {
+    interface PoseidonField {
+        toObject(element: Uint8Array): bigint;
+    }
+
+    interface Poseidon {
+        (inputs: (bigint | number | string)[]): Uint8Array;
+        F: PoseidonField;
+    }
+
+    export function buildPoseidon(): Promise<Poseidon>;
+}
@@ -0,0 +1,61 @@
+declare module 'snarkjs' {
+    // Paths or bytes; snarkjs reads both through fastfile
+    type Artifact = string | Uint8Array;
+
+    interface Logger {
+        info(...args: unknown[]): void;
+        debug(...args: unknown[]): void;
+        error(...args: unknown[]): void;
+    }
+
+    interface Curve {
+        terminate(): Promise<void>;
+    }
+
+    interface ProverOptions {
+        singleThread?: boolean;        // Build a private curve without worker threads
+    }
+
+    interface Groth16Proof {
+        pi_a: string[];
+        pi_b: string[][];
+        pi_c: string[];
+        protocol: 'groth16';
+        curve: string;
+    }
+
+    export const groth16: {
+        fullProve(
+            input: Record<string, unknown>,
+            wasm: Artifact,
+            zkey: Artifact,
+            logger?: Logger,
+            wtnsCalcOptions?: Record<string, unknown>,
+            proverOptions?: ProverOptions
+        ): Promise<{ proof: Groth16Proof; publicSignals: string[] }>;
+    };
+
+    export const curves: {
+        getCurveFromName(name: string, options?: ProverOptions): Promise<Curve>;
+    };
+
+    export const r1cs: {
+        info(r1cs: Artifact, logger?: Logger): Promise<{ nConstraints: number; nPubInputs: number; nOutputs: number }>;
+    };
+
+    export const powersOfTau: {
+        newAccumulator(curve: Curve, power: number, out: string, logger?: Logger): Promise<void>;
+        contribute(input: string, out: string, name: string, entropy: string, logger?: Logger): Promise<Uint8Array>;
+        beacon(input: string, out: string, name: string, beaconHash: string, iterationsExp: number, logger?: Logger): Promise<Uint8Array>;
+        preparePhase2(input: string, out: string, logger?: Logger): Promise<void>;
+        verify(ptau: string, logger?: Logger): Promise<boolean>;
+    };
+
+    export const zKey: {
+        newZKey(r1cs: string, ptau: string, out: string, logger?: Logger): Promise<void>;
+        contribute(input: string, out: string, name: string, entropy: string, logger?: Logger): Promise<Uint8Array>;
+        beacon(input: string, out: string, name: string, beaconHash: string, iterationsExp: number, logger?: Logger): Promise<Uint8Array>;
+        verifyFromR1cs(r1cs: string, ptau: string, zkey: string, logger?: Logger): Promise<boolean>;
+        exportVerificationKey(zkey: Artifact, logger?: Logger): Promise<any>;
+    };
+}
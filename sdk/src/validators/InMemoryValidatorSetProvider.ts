@@ -0,0 +1,32 @@
+import { WarpValidatorSet } from '../types';
+import { ValidatorSetProvider } from './ValidatorSetProvider';
+import { RpcError } from '../errors';
+
+/**
+ * In-memory validator sets, for tests and local fixtures
+ */
+export class InMemoryValidatorSetProvider implements ValidatorSetProvider {
+    private sets = new Map<string, WarpValidatorSet>();
+    private currentHeight = 0;
+
+    /**
+     * Register the validator set of a subnet at a P-Chain height
+     */
+    set(subnetId: string, pChainHeight: number, validatorSet: WarpValidatorSet): this {
+        this.sets.set(`${subnetId}@${pChainHeight}`, validatorSet);
+        this.currentHeight = Math.max(this.currentHeight, pChainHeight);
+        return this;
+    }
+
+    async getValidatorSet(subnetId: string, pChainHeight: number): Promise<WarpValidatorSet> {
+        const validatorSet = this.sets.get(`${subnetId}@${pChainHeight}`);
+        if (!validatorSet) {
+            throw new RpcError('VALIDATOR_SET_UNAVAILABLE', `No validator set for subnet ${subnetId} at P-Chain height ${pChainHeight}`);
+        }
+        return validatorSet;
+    }
+
+    async getCurrentHeight(): Promise<number> {
+        return this.currentHeight;
+    }
+}
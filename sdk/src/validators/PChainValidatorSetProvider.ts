@@ -0,0 +1,65 @@
+import { ethers } from 'ethers';
+import { WarpValidator, WarpValidatorSet } from '../types';
+import { ValidatorSetProvider } from './ValidatorSetProvider';
+import { RpcError } from '../errors';
+
+/**
+ * Validator sets from a P-Chain node through `platform.getValidatorsAt`
+ */
+export class PChainValidatorSetProvider implements ValidatorSetProvider {
+    private url: string;
+    private requestId = 0;
+
+    /**
+     * @param url P-Chain API endpoint, e.g. https://api.avax-test.network/ext/bc/P
+     */
+    constructor(url: string) {
+        this.url = url;
+    }
+
+    /**
+     * Derive the P-Chain endpoint from a chain RPC URL on the same node
+     * (`.../ext/bc/C/rpc` -> `.../ext/bc/P`). Returns null for other URL shapes.
+     */
+    static fromChainRpcUrl(rpcUrl: string): PChainValidatorSetProvider | null {
+        const match = rpcUrl.match(/^(.*\/ext\/bc\/)[^/]+\/rpc\/?$/);
+        return match ? new PChainValidatorSetProvider(`${match[1]}P`) : null;
+    }
+
+    async getValidatorSet(subnetId: string, pChainHeight: number): Promise<WarpValidatorSet> {
+        const result = await this.call('platform.getValidatorsAt', { height: pChainHeight, subnetID: subnetId });
+
+        // avalanchego >= 1.10 returns { publicKey, weight } per node; older nodes return the weight only
+        const validators: WarpValidator[] = Object.entries(result.validators || {}).map(([nodeId, entry]: [string, any]) => (
+            typeof entry === 'object'
+                ? { nodeId, publicKey: entry.publicKey || undefined, weight: BigInt(entry.weight) }
+                : { nodeId, weight: BigInt(entry) }
+        ));
+
+        return {
+            validators,
+            totalWeight: validators.reduce((sum, validator) => sum + validator.weight, BigInt(0))
+        };
+    }
+
+    async getCurrentHeight(): Promise<number> {
+        const result = await this.call('platform.getHeight', {});
+        return Number(result.height);
+    }
+
+    private async call(method: string, params: any): Promise<any> {
+        let response: any;
+        try {
+            response = await ethers.utils.fetchJson(
+                this.url,
+                JSON.stringify({ jsonrpc: '2.0', id: ++this.requestId, method, params })
+            );
+        } catch (error) {
+            throw new RpcError('RPC_CONNECTION_FAILED', `${method} request to ${this.url} failed`, error);
+        }
+        if (response.error) {
+            throw new RpcError('VALIDATOR_SET_UNAVAILABLE', `${method} failed: ${response.error.message}`);
+        }
+        return response.result;
+    }
+}
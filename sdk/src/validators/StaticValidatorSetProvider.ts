@@ -0,0 +1,37 @@
+import * as fs from 'fs';
+import { ValidatorSetSnapshot, WarpValidatorSet } from '../types';
+import { ValidatorSetProvider, validatorSetFromSnapshot } from './ValidatorSetProvider';
+import { RpcError } from '../errors';
+
+/**
+ * Validator sets read from a static JSON snapshot
+ * Useful for verifiers that pin the validator set instead of querying a P-Chain node.
+ */
+export class StaticValidatorSetProvider implements ValidatorSetProvider {
+    private snapshots: ValidatorSetSnapshot[];
+
+    constructor(snapshots: ValidatorSetSnapshot | ValidatorSetSnapshot[]) {
+        this.snapshots = Array.isArray(snapshots) ? snapshots : [snapshots];
+    }
+
+    /**
+     * Load snapshots from a JSON file (a single snapshot or an array of them)
+     */
+    static fromFile(path: string): StaticValidatorSetProvider {
+        return new StaticValidatorSetProvider(JSON.parse(fs.readFileSync(path, 'utf8')));
+    }
+
+    async getValidatorSet(subnetId: string, pChainHeight: number): Promise<WarpValidatorSet> {
+        const snapshot = this.snapshots.find(
+            candidate => candidate.subnetId === subnetId && candidate.pChainHeight === pChainHeight
+        );
+        if (!snapshot) {
+            throw new RpcError('VALIDATOR_SET_UNAVAILABLE', `Snapshot has no validator set for subnet ${subnetId} at P-Chain height ${pChainHeight}`);
+        }
+        return validatorSetFromSnapshot(snapshot);
+    }
+
+    async getCurrentHeight(): Promise<number> {
+        return Math.max(...this.snapshots.map(snapshot => snapshot.pChainHeight));
+    }
+}
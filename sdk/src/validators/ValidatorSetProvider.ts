@@ -0,0 +1,37 @@
+import { ValidatorSetSnapshot, WarpValidatorSet } from '../types';
+
+/**
+ * Subnet ID of the Avalanche Primary Network (validates the C-Chain)
+ */
+export const PRIMARY_NETWORK_ID = '11111111111111111111111111111111LpoYY';
+
+/**
+ * Source of P-Chain validator sets, used to verify Warp signatures at a given height
+ */
+export interface ValidatorSetProvider {
+    /**
+     * BLS public keys and weights of a subnet's validators at a P-Chain height
+     */
+    getValidatorSet(subnetId: string, pChainHeight: number): Promise<WarpValidatorSet>;
+
+    /**
+     * Latest P-Chain height known to the provider
+     */
+    getCurrentHeight(): Promise<number>;
+}
+
+/**
+ * Convert a JSON snapshot entry into a weighted validator set
+ */
+export function validatorSetFromSnapshot(snapshot: ValidatorSetSnapshot): WarpValidatorSet {
+    const validators = snapshot.validators.map(validator => ({
+        nodeId: validator.nodeId,
+        publicKey: validator.publicKey,
+        weight: BigInt(validator.weight)
+    }));
+
+    return {
+        validators,
+        totalWeight: validators.reduce((sum, validator) => sum + validator.weight, BigInt(0))
+    };
+}
@@ -0,0 +1,243 @@
+import { ethers } from 'ethers';
+import { SignedWarpMessage, UnsignedWarpMessage } from '../types';
+import { ProofVerificationError } from '../errors';
+
+const CODEC_VERSION = 0;
+const BIT_SET_SIGNATURE_TYPE_ID = 0;
+const SIGNATURE_LENGTH = 96;
+
+/**
+ * BLS ciphersuite used by avalanchego (proof-of-possession scheme, G1 keys, G2 signatures)
+ */
+export const WARP_SIGNATURE_DST = 'BLS_SIG_BLS12381G2_XMD:SHA-256_SSWU_RO_POP_';
+
+/**
+ * Warp payload type IDs (avalanchego `vms/platformvm/warp/payload`)
+ */
+export enum WarpPayloadType {
+    Hash = 0,
+    AddressedCall = 1
+}
+
+export type WarpPayload =
+    | { type: WarpPayloadType.Hash; hash: string }
+    | { type: WarpPayloadType.AddressedCall; sourceAddress: string; payload: string };
+
+/**
+ * Avalanche Warp message codec
+ * Byte layout follows avalanchego's linear codec: big-endian integers,
+ * uint32 length prefixes for variable-length byte slices.
+ */
+export class WarpMessage {
+    /**
+     * Hash payload, used to attest to a block hash
+     */
+    static hashPayload(hash: string): string {
+        return ethers.utils.hexConcat([
+            WarpMessage.uint16(CODEC_VERSION),
+            WarpMessage.uint32(WarpPayloadType.Hash),
+            ethers.utils.hexZeroPad(hash, 32)
+        ]);
+    }
+
+    /**
+     * AddressedCall payload, used to attest to a message sent by a contract
+     */
+    static addressedCallPayload(sourceAddress: string, payload: string): string {
+        return ethers.utils.hexConcat([
+            WarpMessage.uint16(CODEC_VERSION),
+            WarpMessage.uint32(WarpPayloadType.AddressedCall),
+            WarpMessage.bytes(sourceAddress),
+            WarpMessage.bytes(payload)
+        ]);
+    }
+
+    static decodePayload(payload: string): WarpPayload {
+        const reader = new ByteReader(payload);
+        reader.expectCodecVersion();
+        const type = reader.uint32();
+
+        let decoded: WarpPayload;
+        if (type === WarpPayloadType.Hash) {
+            decoded = { type, hash: reader.fixed(32) };
+        } else if (type === WarpPayloadType.AddressedCall) {
+            decoded = { type, sourceAddress: reader.bytes(), payload: reader.bytes() };
+        } else {
+            throw new ProofVerificationError('MALFORMED_WARP_MESSAGE', `Unknown Warp payload type ${type}`);
+        }
+
+        reader.expectEnd();
+        return decoded;
+    }
+
+    static encodeUnsigned(message: UnsignedWarpMessage): string {
+        return ethers.utils.hexConcat([
+            WarpMessage.uint16(CODEC_VERSION),
+            WarpMessage.uint32(message.networkId),
+            ethers.utils.hexZeroPad(message.sourceChainId, 32),
+            WarpMessage.bytes(message.payload)
+        ]);
+    }
+
+    static decodeUnsigned(encoded: string): UnsignedWarpMessage {
+        const reader = new ByteReader(encoded);
+        const message = WarpMessage.readUnsigned(reader);
+        reader.expectEnd();
+        return message;
+    }
+
+    /**
+     * Message ID: sha256 of the unsigned message bytes
+     */
+    static id(message: UnsignedWarpMessage): string {
+        return ethers.utils.sha256(WarpMessage.encodeUnsigned(message));
+    }
+
+    static encodeSigned(message: SignedWarpMessage): string {
+        if (ethers.utils.hexDataLength(message.signature) !== SIGNATURE_LENGTH) {
+            throw new ProofVerificationError('MALFORMED_WARP_MESSAGE', `Warp signature must be ${SIGNATURE_LENGTH} bytes`);
+        }
+
+        return ethers.utils.hexConcat([
+            WarpMessage.encodeUnsigned(message.unsignedMessage),
+            WarpMessage.uint32(BIT_SET_SIGNATURE_TYPE_ID),
+            WarpMessage.bytes(message.signers),
+            message.signature
+        ]);
+    }
+
+    static decodeSigned(encoded: string): SignedWarpMessage {
+        const reader = new ByteReader(encoded);
+        const unsignedMessage = WarpMessage.readUnsigned(reader);
+
+        const signatureType = reader.uint32();
+        if (signatureType !== BIT_SET_SIGNATURE_TYPE_ID) {
+            throw new ProofVerificationError('MALFORMED_WARP_MESSAGE', `Unsupported Warp signature type ${signatureType}`);
+        }
+
+        const signed = {
+            unsignedMessage,
+            signers: reader.bytes(),
+            signature: reader.fixed(SIGNATURE_LENGTH)
+        };
+        reader.expectEnd();
+        return signed;
+    }
+
+    /**
+     * Signer bitset: bit i is set when validator i of the canonical set signed.
+     * Encoded as the minimal big-endian bytes of the bitset integer.
+     */
+    static encodeBitSet(indices: number[]): string {
+        let bits = BigInt(0);
+        for (const index of indices) {
+            bits |= BigInt(1) << BigInt(index);
+        }
+        return bits === BigInt(0) ? '0x' : ethers.utils.hexlify(ethers.BigNumber.from(bits.toString()));
+    }
+
+    /**
+     * Decode a signer bitset, rejecting non-minimal encodings as avalanchego does
+     */
+    static decodeBitSet(signers: string): number[] {
+        if (signers !== '0x' && ethers.utils.arrayify(signers)[0] === 0) {
+            throw new ProofVerificationError('MALFORMED_WARP_MESSAGE', 'Warp signer bitset has leading zero bytes');
+        }
+
+        const indices: number[] = [];
+        let bits = signers === '0x' ? BigInt(0) : BigInt(signers);
+        for (let index = 0; bits > BigInt(0); index++, bits >>= BigInt(1)) {
+            if (bits & BigInt(1)) {
+                indices.push(index);
+            }
+        }
+        return indices;
+    }
+
+    /**
+     * CB58 encoding used for Avalanche IDs (base58 with a 4-byte sha256 checksum)
+     */
+    static toCB58(hex: string): string {
+        const checksum = ethers.utils.hexDataSlice(ethers.utils.sha256(hex), 28);
+        return ethers.utils.base58.encode(ethers.utils.hexConcat([hex, checksum]));
+    }
+
+    static fromCB58(cb58: string): string {
+        const decoded = ethers.utils.hexlify(ethers.utils.base58.decode(cb58));
+        const length = ethers.utils.hexDataLength(decoded);
+        const data = ethers.utils.hexDataSlice(decoded, 0, length - 4);
+
+        if (ethers.utils.hexDataSlice(ethers.utils.sha256(data), 28) !== ethers.utils.hexDataSlice(decoded, length - 4)) {
+            throw new ProofVerificationError('MALFORMED_WARP_MESSAGE', `Invalid CB58 checksum for ${cb58}`);
+        }
+        return data;
+    }
+
+    private static readUnsigned(reader: ByteReader): UnsignedWarpMessage {
+        reader.expectCodecVersion();
+        return {
+            networkId: reader.uint32(),
+            sourceChainId: reader.fixed(32),
+            payload: reader.bytes()
+        };
+    }
+
+    private static uint16(value: number): string {
+        return ethers.utils.hexZeroPad(ethers.utils.hexlify(value), 2);
+    }
+
+    private static uint32(value: number): string {
+        return ethers.utils.hexZeroPad(ethers.utils.hexlify(value), 4);
+    }
+
+    private static bytes(value: string): string {
+        return ethers.utils.hexConcat([WarpMessage.uint32(ethers.utils.hexDataLength(value)), value]);
+    }
+}
+
+/**
+ * Sequential reader over codec-encoded bytes
+ */
+class ByteReader {
+    private data: Uint8Array;
+    private offset = 0;
+
+    constructor(hex: string) {
+        this.data = ethers.utils.arrayify(hex);
+    }
+
+    expectCodecVersion() {
+        const version = (this.take(1)[0] << 8) | this.take(1)[0];
+        if (version !== CODEC_VERSION) {
+            throw new ProofVerificationError('MALFORMED_WARP_MESSAGE', `Unsupported Warp codec version ${version}`);
+        }
+    }
+
+    uint32(): number {
+        const bytes = this.take(4);
+        return ((bytes[0] << 24) >>> 0) + (bytes[1] << 16) + (bytes[2] << 8) + bytes[3];
+    }
+
+    fixed(length: number): string {
+        return ethers.utils.hexlify(this.take(length));
+    }
+
+    bytes(): string {
+        return this.fixed(this.uint32());
+    }
+
+    expectEnd() {
+        if (this.offset !== this.data.length) {
+            throw new ProofVerificationError('MALFORMED_WARP_MESSAGE', `Unexpected ${this.data.length - this.offset} trailing bytes in Warp message`);
+        }
+    }
+
+    private take(length: number): Uint8Array {
+        if (this.offset + length > this.data.length) {
+            throw new ProofVerificationError('MALFORMED_WARP_MESSAGE', 'Warp message truncated');
+        }
+        const slice = this.data.slice(this.offset, this.offset + length);
+        this.offset += length;
+        return slice;
+    }
+}
@@ -0,0 +1,104 @@
+import { ethers } from 'ethers';
+import { bls12_381 } from '@noble/curves/bls12-381';
+import { SignedWarpMessage, UnsignedWarpMessage, WarpValidatorSet } from '../types';
+import { WARP_SIGNATURE_DST, WarpMessage } from './WarpMessage';
+import { WarpVerifier } from './WarpVerifier';
+import { ProofVerificationError } from '../errors';
+
+/**
+ * Builds Avalanche Warp messages for a source chain and aggregates validator signatures
+ */
+export class WarpSigner {
+    private networkId: number;
+    private sourceChainId: string;
+
+    /**
+     * @param networkId Avalanche network ID (1 = Mainnet, 5 = Fuji)
+     * @param sourceChainId Blockchain ID of the source chain, as hex or CB58
+     */
+    constructor(networkId: number, sourceChainId: string) {
+        this.networkId = networkId;
+        this.sourceChainId = ethers.utils.isHexString(sourceChainId, 32)
+            ? sourceChainId
+            : WarpMessage.fromCB58(sourceChainId);
+    }
+
+    /**
+     * Unsigned message attesting to a block hash (Hash payload)
+     */
+    blockHashMessage(blockHash: string): UnsignedWarpMessage {
+        return {
+            networkId: this.networkId,
+            sourceChainId: this.sourceChainId,
+            payload: WarpMessage.hashPayload(blockHash)
+        };
+    }
+
+    /**
+     * Unsigned message attesting to an event (AddressedCall from the emitting contract)
+     * The call payload is abi.encode(bytes32[] topics, bytes data).
+     */
+    eventMessage(log: { address: string; topics: string[]; data: string }): UnsignedWarpMessage {
+        return {
+            networkId: this.networkId,
+            sourceChainId: this.sourceChainId,
+            payload: WarpMessage.addressedCallPayload(
+                log.address,
+                ethers.utils.defaultAbiCoder.encode(['bytes32[]', 'bytes'], [log.topics, log.data])
+            )
+        };
+    }
+
+    /**
+     * Sign an unsigned message with one validator's BLS secret key
+     */
+    static sign(message: UnsignedWarpMessage, secretKey: string | Uint8Array): string {
+        const signatures = bls12_381.longSignatures;
+        const point = signatures.hash(ethers.utils.arrayify(WarpMessage.encodeUnsigned(message)), WARP_SIGNATURE_DST);
+        return ethers.utils.hexlify(signatures.Signature.toBytes(signatures.sign(point, ethers.utils.arrayify(secretKey))));
+    }
+
+    /**
+     * Compressed BLS public key for a secret key
+     */
+    static publicKey(secretKey: string | Uint8Array): string {
+        return ethers.utils.hexlify(bls12_381.longSignatures.getPublicKey(ethers.utils.arrayify(secretKey)).toBytes(true));
+    }
+
+    /**
+     * Aggregate individual validator signatures into a bitset-signed Warp message
+     * Signer indices refer to the canonical ordering of `validatorSet`.
+     */
+    static aggregate(
+        message: UnsignedWarpMessage,
+        validatorSet: WarpValidatorSet,
+        signatures: { publicKey: string; signature: string }[]
+    ): SignedWarpMessage {
+        if (signatures.length === 0) {
+            throw new ProofVerificationError('INVALID_SIGNATURE', 'Cannot aggregate an empty signature set');
+        }
+
+        const canonical = WarpVerifier.canonicalValidators(validatorSet);
+        const indices = signatures.map(({ publicKey }) => {
+            const index = canonical.findIndex(validator => validator.publicKey === publicKey.toLowerCase());
+            if (index < 0) {
+                throw new ProofVerificationError('INVALID_SIGNATURE', `Signer ${publicKey} is not in the validator set`);
+            }
+            return index;
+        });
+
+        if (new Set(indices).size !== indices.length) {
+            throw new ProofVerificationError('INVALID_SIGNATURE', 'Duplicate signer in Warp signature set');
+        }
+
+        const aggregate = bls12_381.longSignatures.aggregateSignatures(
+            signatures.map(({ signature }) => ethers.utils.arrayify(signature))
+        );
+
+        return {
+            unsignedMessage: message,
+            signers: WarpMessage.encodeBitSet(indices),
+            signature: ethers.utils.hexlify(bls12_381.longSignatures.Signature.toBytes(aggregate))
+        };
+    }
+}
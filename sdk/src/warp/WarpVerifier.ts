@@ -0,0 +1,113 @@
+import { ethers } from 'ethers';
+import { bls12_381 } from '@noble/curves/bls12-381';
+import { SignedWarpMessage, WarpQuorum, WarpValidatorSet, WarpVerificationResult } from '../types';
+import { WARP_SIGNATURE_DST, WarpMessage } from './WarpMessage';
+import { VaultSDKError } from '../errors';
+
+/**
+ * Quorum enforced by the Warp precompile by default (67%)
+ */
+export const DEFAULT_WARP_QUORUM: WarpQuorum = { numerator: 67, denominator: 100 };
+
+export interface CanonicalWarpValidator {
+    publicKey: string;
+    weight: bigint;
+}
+
+/**
+ * Verifies bitset-signed Warp messages against a weighted validator set
+ */
+export class WarpVerifier {
+    private quorum: WarpQuorum;
+
+    constructor(quorum: WarpQuorum = DEFAULT_WARP_QUORUM) {
+        if (quorum.denominator <= 0 || quorum.numerator <= 0 || quorum.numerator > quorum.denominator) {
+            throw new VaultSDKError('INVALID_CONFIGURATION', `Invalid Warp quorum ${quorum.numerator}/${quorum.denominator}`);
+        }
+        this.quorum = quorum;
+    }
+
+    /**
+     * Canonical validator ordering used for signer bitsets (avalanchego `GetCanonicalValidatorSet`):
+     * validators without a BLS key are dropped, validators sharing a key are merged,
+     * and the result is sorted by uncompressed public key bytes.
+     */
+    static canonicalValidators(validatorSet: WarpValidatorSet): CanonicalWarpValidator[] {
+        const byKey = new Map<string, { uncompressed: string; weight: bigint }>();
+
+        for (const validator of validatorSet.validators) {
+            if (!validator.publicKey) {
+                continue;
+            }
+            const publicKey = validator.publicKey.toLowerCase();
+            const existing = byKey.get(publicKey);
+            if (existing) {
+                existing.weight += validator.weight;
+                continue;
+            }
+            const point = bls12_381.G1.Point.fromHex(ethers.utils.arrayify(publicKey));
+            byKey.set(publicKey, { uncompressed: ethers.utils.hexlify(point.toBytes(false)), weight: validator.weight });
+        }
+
+        return Array.from(byKey.entries())
+            .sort(([, a], [, b]) => (a.uncompressed < b.uncompressed ? -1 : a.uncompressed > b.uncompressed ? 1 : 0))
+            .map(([publicKey, { weight }]) => ({ publicKey, weight }));
+    }
+
+    /**
+     * Verify a signed Warp message (object or encoded bytes)
+     */
+    verify(message: SignedWarpMessage | string, validatorSet: WarpValidatorSet): WarpVerificationResult {
+        const result: WarpVerificationResult = {
+            isValid: false,
+            signedWeight: BigInt(0),
+            totalWeight: validatorSet.totalWeight
+        };
+
+        try {
+            const signed = typeof message === 'string' ? WarpMessage.decodeSigned(message) : message;
+            const canonical = WarpVerifier.canonicalValidators(validatorSet);
+            const indices = WarpMessage.decodeBitSet(signed.signers);
+
+            if (indices.length === 0) {
+                result.error = 'No signers in Warp signature';
+                return result;
+            }
+
+            const signers = indices.map(index => canonical[index]);
+            if (signers.some(signer => !signer)) {
+                result.error = `Signer index out of range for validator set of ${canonical.length}`;
+                return result;
+            }
+
+            // Step 1: Weight threshold (signed * denominator >= total * numerator)
+            result.signedWeight = signers.reduce((sum, signer) => sum + signer.weight, BigInt(0));
+            if (result.signedWeight * BigInt(this.quorum.denominator) < validatorSet.totalWeight * BigInt(this.quorum.numerator)) {
+                result.error = `Insufficient signed weight: ${result.signedWeight}/${validatorSet.totalWeight} below ${this.quorum.numerator}/${this.quorum.denominator}`;
+                return result;
+            }
+
+            // Step 2: Aggregate BLS signature over the unsigned message bytes
+            const signatures = bls12_381.longSignatures;
+            const aggregatePublicKey = signatures.aggregatePublicKeys(
+                signers.map(signer => ethers.utils.arrayify(signer.publicKey))
+            );
+            const messagePoint = signatures.hash(
+                ethers.utils.arrayify(WarpMessage.encodeUnsigned(signed.unsignedMessage)),
+                WARP_SIGNATURE_DST
+            );
+
+            if (!signatures.verify(ethers.utils.arrayify(signed.signature), messagePoint, aggregatePublicKey)) {
+                result.error = 'Invalid aggregate BLS signature';
+                return result;
+            }
+
+            result.isValid = true;
+            return result;
+
+        } catch (error) {
+            result.error = `Malformed Warp message: ${error instanceof Error ? error.message : String(error)}`;
+            return result;
+        }
+    }
+}
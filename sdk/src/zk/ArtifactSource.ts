@@ -0,0 +1,72 @@
+import { ZKProofError } from '../errors';
+
+/**
+ * Where a circuit artifact (wasm, zkey) comes from: a file path, a URL or the bytes themselves
+ */
+export type ArtifactSource = string | URL | Uint8Array;
+
+const REMOTE_URL = /^(https?|data|blob):/i;
+
+const isNode = () => typeof process !== 'undefined' && !!process.versions?.node;
+
+/**
+ * Resolve an artifact into something `snarkjs` reads on both Node and the browser
+ * Remote URLs are fetched into memory; Node file paths are checked and passed through so
+ * snarkjs can read large zkeys lazily; browsers fetch path strings themselves.
+ */
+export async function resolveArtifact(source: ArtifactSource, name = 'artifact'): Promise<string | Uint8Array> {
+    if (source instanceof Uint8Array) {
+        return source;
+    }
+
+    const location = source instanceof URL ? source.href : source;
+    if (REMOTE_URL.test(location)) {
+        return fetchArtifact(location, name);
+    }
+    if (!isNode()) {
+        return location;
+    }
+
+    const { fileURLToPath } = await import('url');
+    const { access } = await import('fs/promises');
+    const path = location.startsWith('file:') ? fileURLToPath(location) : location;
+    try {
+        await access(path);
+    } catch (error) {
+        throw new ZKProofError('CIRCUIT_NOT_INITIALIZED', `Circuit ${name} not found at ${path}`, error);
+    }
+    return path;
+}
+
+/**
+ * Read an artifact fully into memory (small files such as `verification_key.json`)
+ */
+export async function loadArtifactBytes(source: ArtifactSource, name = 'artifact'): Promise<Uint8Array> {
+    const resolved = await resolveArtifact(source, name);
+    if (resolved instanceof Uint8Array) {
+        return resolved;
+    }
+    if (!isNode()) {
+        return fetchArtifact(resolved, name);
+    }
+
+    const { readFile } = await import('fs/promises');
+    try {
+        return new Uint8Array(await readFile(resolved));
+    } catch (error) {
+        throw new ZKProofError('CIRCUIT_NOT_INITIALIZED', `Could not read circuit ${name} at ${resolved}`, error);
+    }
+}
+
+async function fetchArtifact(url: string, name: string): Promise<Uint8Array> {
+    let response: Awaited<ReturnType<typeof fetch>>;
+    try {
+        response = await fetch(url);
+    } catch (error) {
+        throw new ZKProofError('CIRCUIT_NOT_INITIALIZED', `Could not fetch circuit ${name} from ${url}`, error);
+    }
+    if (!response.ok) {
+        throw new ZKProofError('CIRCUIT_NOT_INITIALIZED', `Could not fetch circuit ${name} from ${url}: HTTP ${response.status}`);
+    }
+    return new Uint8Array(await response.arrayBuffer());
+}
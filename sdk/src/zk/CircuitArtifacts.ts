@@ -0,0 +1,228 @@
+import { ethers } from 'ethers';
+import { VaultSDKError, ZKProofError } from '../errors';
+import { Logger, errorFields, silentLogger } from '../logging/Logger';
+import { Groth16VerificationKey } from '../types';
+import { ArtifactSource, loadArtifactBytes } from './ArtifactSource';
+import { Groth16Verifier } from './Groth16Verifier';
+import { readZkeyVerificationKey, sameVerificationKey } from './Zkey';
+
+/**
+ * Manifest location the ZK generators fall back to when no artifacts are configured
+ */
+export const DEFAULT_CIRCUIT_MANIFEST = './circuits/manifest.json';
+export const CIRCUIT_MANIFEST_VERSION = 1;
+
+export type CircuitArtifactKind = 'wasm' | 'zkey' | 'vkey';
+
+export interface CircuitArtifactFile {
+    path: string;                      // Relative to the manifest, or an absolute path / URL
+    sha256: string;                    // Lowercase hex, no 0x prefix
+}
+
+export type CircuitManifestEntry = Record<CircuitArtifactKind, CircuitArtifactFile>;
+
+export interface CircuitManifest {
+    version: number;
+    circuits: Record<string, CircuitManifestEntry>;
+}
+
+export interface LoadedCircuit {
+    name: string;
+    wasm: Uint8Array;
+    zkey: Uint8Array;
+    verificationKey: Groth16VerificationKey;
+    verifier: Groth16Verifier;
+}
+
+export interface CircuitArtifactsOptions {
+    baseUrl?: string | URL;            // Where relative manifest paths point (default: next to the manifest)
+    cacheDir?: string;                 // Node only: keep verified artifacts on disk by content hash
+    logger?: Logger;
+}
+
+const HAS_SCHEME = /^[a-z][a-z0-9+.-]*:/i;
+const SHA256_HEX = /^(0x)?[0-9a-fA-F]{64}$/;
+
+/**
+ * Loads the wasm, zkey and vkey of each circuit listed in a manifest
+ * - every file must hash to its manifest SHA-256 before it is used
+ * - the vkey must be the one embedded in the zkey, or proofs would never verify
+ * - parsed circuits are cached in memory; with `cacheDir`, verified bytes are also cached on disk
+ */
+export class CircuitArtifacts {
+    readonly manifest: CircuitManifest;
+    private baseUrl?: string;
+    private cacheDir?: string;
+    private logger: Logger;
+    private loaded = new Map<string, Promise<LoadedCircuit>>();
+
+    constructor(manifest: CircuitManifest, options: CircuitArtifactsOptions = {}) {
+        CircuitArtifacts.validateManifest(manifest);
+        this.manifest = manifest;
+        this.baseUrl = options.baseUrl instanceof URL ? options.baseUrl.href : options.baseUrl;
+        this.cacheDir = options.cacheDir;
+        this.logger = options.logger || silentLogger;
+    }
+
+    /**
+     * Read a manifest file; relative artifact paths resolve against its location
+     */
+    static async fromManifest(source: ArtifactSource = DEFAULT_CIRCUIT_MANIFEST, options: CircuitArtifactsOptions = {}): Promise<CircuitArtifacts> {
+        const bytes = await loadArtifactBytes(source, 'manifest');
+        let manifest: CircuitManifest;
+        try {
+            manifest = JSON.parse(new TextDecoder().decode(bytes));
+        } catch (error) {
+            throw new VaultSDKError('INVALID_CONFIGURATION', 'Circuit manifest is not valid JSON', error);
+        }
+        const location = source instanceof Uint8Array ? undefined : source instanceof URL ? source.href : source;
+        return new CircuitArtifacts(manifest, { ...options, baseUrl: options.baseUrl ?? location });
+    }
+
+    /**
+     * Manifest entry for an artifact, as written by the circuit build
+     */
+    static fileEntry(path: string, bytes: Uint8Array): CircuitArtifactFile {
+        return { path, sha256: CircuitArtifacts.sha256(bytes) };
+    }
+
+    static sha256(bytes: Uint8Array): string {
+        return ethers.utils.sha256(bytes).slice(2);
+    }
+
+    get circuits(): string[] {
+        return Object.keys(this.manifest.circuits);
+    }
+
+    /**
+     * Load and check a circuit's artifacts once; a failed load is retried on the next call
+     */
+    load(name: string): Promise<LoadedCircuit> {
+        let circuit = this.loaded.get(name);
+        if (!circuit) {
+            circuit = this.loadCircuit(name);
+            this.loaded.set(name, circuit);
+            circuit.catch(() => this.loaded.delete(name));
+        }
+        return circuit;
+    }
+
+    private async loadCircuit(name: string): Promise<LoadedCircuit> {
+        const entry = this.manifest.circuits[name];
+        if (!entry) {
+            throw new ZKProofError('CIRCUIT_NOT_INITIALIZED', `Circuit ${name} is not in the manifest (have: ${this.circuits.join(', ')})`);
+        }
+        const startTime = Date.now();
+        this.logger.debug('Loading circuit artifacts', { circuit: name });
+
+        try {
+            // Step 1: Fetch every file and check it against its manifest hash
+            const [wasm, zkey, vkeyBytes] = await Promise.all(
+                (['wasm', 'zkey', 'vkey'] as const).map(kind => this.file(`${name} ${kind}`, entry[kind]))
+            );
+
+            // Step 2: Parse the verification key
+            let verificationKey: Groth16VerificationKey;
+            try {
+                verificationKey = JSON.parse(new TextDecoder().decode(vkeyBytes));
+            } catch (error) {
+                throw new VaultSDKError('INVALID_CONFIGURATION', `Verification key of ${name} is not valid JSON`, error);
+            }
+            const verifier = new Groth16Verifier(verificationKey);
+
+            // Step 3: The vkey must come from the same setup as the zkey
+            if (!sameVerificationKey(verificationKey, readZkeyVerificationKey(zkey))) {
+                throw new ZKProofError(
+                    'VERIFICATION_KEY_MISMATCH',
+                    `Verification key ${entry.vkey.path} does not match proving key ${entry.zkey.path} of circuit ${name}`
+                );
+            }
+
+            this.logger.info('Circuit artifacts loaded', { circuit: name, zkeyBytes: zkey.length, durationMs: Date.now() - startTime });
+            return { name, wasm, zkey, verificationKey, verifier };
+        } catch (error) {
+            this.logger.error('Failed to load circuit artifacts', { circuit: name, ...errorFields(error) });
+            throw error;
+        }
+    }
+
+    private async file(label: string, file: CircuitArtifactFile): Promise<Uint8Array> {
+        const expected = file.sha256.replace(/^0x/, '').toLowerCase();
+
+        const cached = await this.readCache(expected);
+        if (cached) {
+            this.logger.debug('Circuit artifact read from cache', { artifact: label });
+            return cached;
+        }
+
+        const bytes = await loadArtifactBytes(this.locate(file.path), label);
+        const actual = CircuitArtifacts.sha256(bytes);
+        if (actual !== expected) {
+            throw new ZKProofError(
+                'ARTIFACT_INTEGRITY_MISMATCH',
+                `Circuit ${label} at ${file.path} has SHA-256 ${actual}, manifest expects ${expected}`
+            );
+        }
+
+        await this.writeCache(expected, bytes);
+        return bytes;
+    }
+
+    private locate(path: string): string {
+        if (!this.baseUrl || HAS_SCHEME.test(path) || path.startsWith('/')) {
+            return path;
+        }
+        if (HAS_SCHEME.test(this.baseUrl)) {
+            return new URL(path, this.baseUrl).href;
+        }
+        return this.baseUrl.slice(0, this.baseUrl.lastIndexOf('/') + 1) + path;
+    }
+
+    /**
+     * Cached bytes are re-hashed, so a corrupted cache entry is refetched instead of used
+     */
+    private async readCache(sha256: string): Promise<Uint8Array | undefined> {
+        if (!this.cacheDir) {
+            return undefined;
+        }
+        const { readFile } = await import('fs/promises');
+        const { join } = await import('path');
+        try {
+            const bytes = new Uint8Array(await readFile(join(this.cacheDir, sha256)));
+            return CircuitArtifacts.sha256(bytes) === sha256 ? bytes : undefined;
+        } catch {
+            return undefined;
+        }
+    }
+
+    private async writeCache(sha256: string, bytes: Uint8Array) {
+        if (!this.cacheDir) {
+            return;
+        }
+        const { mkdir, rename, writeFile } = await import('fs/promises');
+        const { join } = await import('path');
+        try {
+            await mkdir(this.cacheDir, { recursive: true });
+            const partial = join(this.cacheDir, `${sha256}.${process.pid}.partial`);
+            await writeFile(partial, bytes);
+            await rename(partial, join(this.cacheDir, sha256));
+        } catch (error) {
+            // The cache only saves a refetch; loading still succeeds without it
+            this.logger.warn('Could not write circuit artifact cache', { cacheDir: this.cacheDir, ...errorFields(error) });
+        }
+    }
+
+    private static validateManifest(manifest: CircuitManifest) {
+        if (manifest?.version !== CIRCUIT_MANIFEST_VERSION || typeof manifest.circuits !== 'object' || manifest.circuits === null) {
+            throw new VaultSDKError('INVALID_CONFIGURATION', `Circuit manifest must have version ${CIRCUIT_MANIFEST_VERSION} and a circuits map`);
+        }
+        for (const [name, entry] of Object.entries(manifest.circuits)) {
+            for (const kind of ['wasm', 'zkey', 'vkey'] as const) {
+                const file = entry?.[kind];
+                if (!file || typeof file.path !== 'string' || typeof file.sha256 !== 'string' || !SHA256_HEX.test(file.sha256)) {
+                    throw new VaultSDKError('INVALID_CONFIGURATION', `Circuit ${name} needs a ${kind} path and SHA-256 in the manifest`);
+                }
+            }
+        }
+    }
+}
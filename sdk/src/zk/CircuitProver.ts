@@ -0,0 +1,230 @@
+import * as snarkjs from 'snarkjs';
+import { VaultSDKError, ZKProofError } from '../errors';
+import { Logger, silentLogger } from '../logging/Logger';
+import { Groth16Proof, Groth16Verdict, SolidityGroth16Proof, ZKProofGeneratorConfig } from '../types';
+import { ArtifactSource, resolveArtifact } from './ArtifactSource';
+import { CircuitArtifacts, DEFAULT_CIRCUIT_MANIFEST, LoadedCircuit } from './CircuitArtifacts';
+import { CircuitRegistry } from './CircuitRegistry';
+import { Groth16Verifier } from './Groth16Verifier';
+import { FieldInput } from './Nullifier';
+import { StakeNote, createCommitment } from './StakeNote';
+import {
+    STAKE_BOUND_PROOF_CIRCUIT,
+    STAKE_NOTE_PROOF_CIRCUIT,
+    STAKE_PROOF_CIRCUIT,
+    STAKE_RANGE_PROOF_BITS,
+    stakeBoundProofCircuit,
+    stakeNoteProofCircuit,
+    stakeProofCircuit,
+    stakeRangeProofCircuit
+} from './StakeProofCircuit';
+import {
+    AmountRange,
+    NoteMerklePath,
+    RecipientBinding,
+    buildBoundNoteProofInputs,
+    buildNoteProofInputs,
+    buildRangeProofInputs
+} from './StakeProofInputs';
+import { CircuitInputs, ZKCircuit, namePublicSignals, normalizeCircuitInputs, solidityCalldata } from './ZKCircuit';
+
+/**
+ * Groth16 proof of one registered circuit
+ */
+export interface CircuitProof {
+    circuit: string;
+    proof: SolidityGroth16Proof & { publicSignals: string[] };
+    signals: Record<string, string>;   // Public signals by layout name
+    calldata: unknown[];               // Arguments for the circuit's Solidity verifier
+}
+
+/**
+ * Proof of a stake note circuit, with the commitment the proven leaf holds
+ */
+export interface NoteCircuitProof extends CircuitProof {
+    commitment: string;
+}
+
+export interface CircuitProverOptions {
+    registry?: CircuitRegistry;        // Default: the stake, stake note, bound stake note and stake range circuits
+    artifacts?: CircuitArtifacts | ArtifactSource;  // Manifest for circuits without explicit artifact sources
+    logger?: Logger;
+}
+
+/**
+ * Proves and verifies any circuit in a registry with the same calls
+ * Artifacts come from the circuit's explicit sources or from the manifest entry of the same name;
+ * verifiers are loaded once per circuit and checked against the circuit's public signal layout.
+ */
+export class CircuitProver {
+    readonly registry: CircuitRegistry;
+    private artifacts: CircuitArtifacts | ArtifactSource;
+    private manifest?: Promise<CircuitArtifacts>;
+    private verifiers = new Map<string, Promise<Groth16Verifier>>();
+    private logger: Logger;
+
+    constructor(options: CircuitProverOptions = {}) {
+        this.registry = options.registry ?? defaultRegistry();
+        this.artifacts = options.artifacts ?? DEFAULT_CIRCUIT_MANIFEST;
+        this.logger = options.logger || silentLogger;
+    }
+
+    /**
+     * Prover for a ZK generator: its single-file overrides apply to the stake proof circuit
+     */
+    static fromConfig(config: ZKProofGeneratorConfig): CircuitProver {
+        let registry = config.registry ?? defaultRegistry();
+        const overrides = {
+            ...(config.circuitWasm && { wasm: config.circuitWasm }),
+            ...(config.circuitZkey && { zkey: config.circuitZkey }),
+            ...(config.verificationKey && { verificationKey: config.verificationKey })
+        };
+        if (Object.keys(overrides).length > 0) {
+            const stake = registry.has(STAKE_PROOF_CIRCUIT) ? registry.get(STAKE_PROOF_CIRCUIT) : stakeProofCircuit;
+            registry = registry.with({ ...stake, artifacts: { ...stake.artifacts, ...overrides } });
+        }
+        return new CircuitProver({ registry, artifacts: config.artifacts, logger: config.logger });
+    }
+
+    /**
+     * Check inputs against the circuit's schema and constraints, then prove with snarkjs
+     */
+    async prove(name: string, inputs: CircuitInputs): Promise<CircuitProof> {
+        const circuit = this.registry.get(name);
+
+        // Step 1: Inputs must match the schema: names, array lengths, field and bit-width ranges
+        const normalized = normalizeCircuitInputs(circuit, inputs);
+
+        // Step 2: Circuit-specific constraints, for precise error codes
+        await circuit.checkConstraints?.(normalized, this.logger);
+
+        // Step 3: Witness and Groth16 proof from the compiled circuit. Single-threaded: the shared
+        // multi-threaded curve keeps worker threads (and a Node process) alive after proving
+        const [wasm, zkey] = await this.provingArtifacts(circuit);
+        const { proof, publicSignals } = await snarkjs.groth16.fullProve(normalized, wasm, zkey, undefined, undefined, { singleThread: true });
+        const signals = namePublicSignals(circuit, publicSignals);
+        this.logger.debug('Groth16 proof generated', { circuit: name, publicSignals: publicSignals.length });
+
+        // Step 4: Solidity calldata layout (G2 coordinate pairs swapped to [c1, c0])
+        const solidity: SolidityGroth16Proof = {
+            a: [proof.pi_a[0].toString(), proof.pi_a[1].toString()],
+            b: [
+                [proof.pi_b[0][1].toString(), proof.pi_b[0][0].toString()],
+                [proof.pi_b[1][1].toString(), proof.pi_b[1][0].toString()]
+            ],
+            c: [proof.pi_c[0].toString(), proof.pi_c[1].toString()]
+        };
+        return {
+            circuit: name,
+            proof: { ...solidity, publicSignals },
+            signals,
+            calldata: (circuit.toSolidity ?? solidityCalldata)(solidity, publicSignals)
+        };
+    }
+
+    /**
+     * Prove a stake note with `stake_note_proof`, or `stake_bound_proof` when a recipient binding is given
+     * A binding needs both `recipient` and `chainId`; one without the other is rejected.
+     */
+    async proveNote(
+        note: StakeNote,
+        merklePath: NoteMerklePath,
+        publicInputs: { minAmount: FieldInput; externalNullifier: FieldInput } & Partial<RecipientBinding>
+    ): Promise<NoteCircuitProof> {
+        const { recipient, chainId, minAmount, externalNullifier } = publicInputs;
+        if ((recipient === undefined) !== (chainId === undefined)) {
+            throw new ZKProofError('INVALID_CIRCUIT_INPUT', 'A bound proof needs both recipient and chainId');
+        }
+
+        const binding = recipient !== undefined && chainId !== undefined ? { recipient, chainId } : undefined;
+        const proof = binding
+            ? await this.prove(STAKE_BOUND_PROOF_CIRCUIT, await buildBoundNoteProofInputs(note, merklePath, minAmount, externalNullifier, binding))
+            : await this.prove(STAKE_NOTE_PROOF_CIRCUIT, await buildNoteProofInputs(note, merklePath, minAmount, externalNullifier));
+        return { ...proof, commitment: (await createCommitment(note)).toString() };
+    }
+
+    /**
+     * Prove minAmount <= amount <= maxAmount for a stake note with `stake_range_proof_<bits>`
+     * Amounts and bounds wider than `bits` are rejected before proving.
+     */
+    async proveRange(
+        note: StakeNote,
+        merklePath: NoteMerklePath,
+        publicInputs: AmountRange & { externalNullifier: FieldInput },
+        bits: number = STAKE_RANGE_PROOF_BITS[0]
+    ): Promise<NoteCircuitProof> {
+        const inputs = await buildRangeProofInputs(note, merklePath, publicInputs, publicInputs.externalNullifier, bits);
+        const proof = await this.prove(stakeRangeProofCircuit(bits).name, inputs);
+        return { ...proof, commitment: (await createCommitment(note)).toString() };
+    }
+
+    /**
+     * Verify a proof of the named circuit; rejections come back as a verdict, only a missing vkey throws
+     */
+    async verify(name: string, proof: { proof?: (Groth16Proof | SolidityGroth16Proof) & { publicSignals?: string[] } }): Promise<Groth16Verdict> {
+        let verifier: Groth16Verifier;
+        try {
+            verifier = await this.loadVerifier(this.registry.get(name));
+        } catch (error) {
+            throw VaultSDKError.from(error, 'CIRCUIT_NOT_INITIALIZED', 'Verification key could not be loaded');
+        }
+        return verifier.verify(proof?.proof as Groth16Proof, proof?.proof?.publicSignals as string[]);
+    }
+
+    /**
+     * Load a circuit's verifier once; a failed load is retried on the next call
+     */
+    private loadVerifier(circuit: ZKCircuit): Promise<Groth16Verifier> {
+        let verifier = this.verifiers.get(circuit.name);
+        if (!verifier) {
+            const source = circuit.artifacts?.verificationKey;
+            verifier = (source ? Groth16Verifier.load(source) : this.loadCircuit(circuit.name).then(loaded => loaded.verifier))
+                .then(loaded => {
+                    if (loaded.nPublic !== circuit.publicSignals.length) {
+                        throw new VaultSDKError(
+                            'INVALID_CONFIGURATION',
+                            `Verification key of ${circuit.name} has ${loaded.nPublic} public signals, the circuit layout has ${circuit.publicSignals.length}`
+                        );
+                    }
+                    return loaded;
+                });
+            this.verifiers.set(circuit.name, verifier);
+            verifier.catch(() => this.verifiers.delete(circuit.name));
+        }
+        return verifier;
+    }
+
+    /**
+     * wasm and zkey for snarkjs: explicit sources as given, otherwise the integrity-checked manifest bytes
+     */
+    private async provingArtifacts(circuit: ZKCircuit): Promise<[string | Uint8Array, string | Uint8Array]> {
+        const { wasm, zkey } = circuit.artifacts ?? {};
+        const loaded = wasm && zkey ? undefined : await this.loadCircuit(circuit.name);
+        return [
+            wasm ? await resolveArtifact(wasm, 'wasm') : (loaded as LoadedCircuit).wasm,
+            zkey ? await resolveArtifact(zkey, 'zkey') : (loaded as LoadedCircuit).zkey
+        ];
+    }
+
+    private async loadCircuit(name: string): Promise<LoadedCircuit> {
+        if (this.artifacts instanceof CircuitArtifacts) {
+            return this.artifacts.load(name);
+        }
+        if (!this.manifest) {
+            this.manifest = CircuitArtifacts.fromManifest(this.artifacts, { logger: this.logger }).catch(error => {
+                this.manifest = undefined;
+                throw error;
+            });
+        }
+        return (await this.manifest).load(name);
+    }
+}
+
+function defaultRegistry(): CircuitRegistry {
+    return new CircuitRegistry([
+        stakeProofCircuit,
+        stakeNoteProofCircuit,
+        stakeBoundProofCircuit,
+        ...STAKE_RANGE_PROOF_BITS.map(stakeRangeProofCircuit)
+    ]);
+}
@@ -0,0 +1,43 @@
+import { VaultSDKError, ZKProofError } from '../errors';
+import { ZKCircuit, defineCircuit } from './ZKCircuit';
+
+/**
+ * Circuits a prover can handle, by name
+ * Registries are immutable once shared: `with` returns a copy, so adding a circuit for one
+ * generator never changes what another one proves.
+ */
+export class CircuitRegistry {
+    private circuits = new Map<string, ZKCircuit>();
+
+    constructor(circuits: ZKCircuit[] = []) {
+        for (const circuit of circuits) {
+            if (this.circuits.has(circuit?.name)) {
+                throw new VaultSDKError('INVALID_CONFIGURATION', `Circuit ${circuit.name} is registered twice`);
+            }
+            this.circuits.set(circuit.name, defineCircuit(circuit));
+        }
+    }
+
+    get names(): string[] {
+        return [...this.circuits.keys()];
+    }
+
+    has(name: string): boolean {
+        return this.circuits.has(name);
+    }
+
+    get(name: string): ZKCircuit {
+        const circuit = this.circuits.get(name);
+        if (!circuit) {
+            throw new ZKProofError('CIRCUIT_NOT_INITIALIZED', `Circuit ${name} is not registered (have: ${this.names.join(', ')})`);
+        }
+        return circuit;
+    }
+
+    /**
+     * Copy of this registry with `circuit` added, replacing any circuit of the same name
+     */
+    with(circuit: ZKCircuit): CircuitRegistry {
+        return new CircuitRegistry([...[...this.circuits.values()].filter(existing => existing.name !== circuit.name), circuit]);
+    }
+}
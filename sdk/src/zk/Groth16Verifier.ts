@@ -0,0 +1,243 @@
+import { bn254 } from '@noble/curves/bn254';
+import { VaultSDKError, ZKProofError } from '../errors';
+import { Groth16Proof, Groth16Verdict, Groth16VerificationKey, SolidityGroth16Proof } from '../types';
+import { ArtifactSource, loadArtifactBytes } from './ArtifactSource';
+import { SNARK_SCALAR_FIELD } from './Poseidon';
+
+/**
+ * Modulus of the BN254 base field: every curve coordinate must be below it
+ */
+export const BN254_BASE_FIELD: bigint = bn254.fields.Fp.ORDER;
+
+type G1Point = typeof bn254.G1.Point.BASE;
+type G2Point = typeof bn254.G2.Point.BASE;
+type G1Coordinates = [bigint, bigint];
+type G2Coordinates = [[bigint, bigint], [bigint, bigint]];
+
+const FIELD_ELEMENT = /^(0x[0-9a-fA-F]+|[0-9]+)$/;
+
+/**
+ * Groth16 verifier for BN254 circuits built with circom/snarkjs
+ *
+ * Checks e(A, B) = e(alpha, beta) · e(vk_x, gamma) · e(C, delta) with noble pairings rather than
+ * `snarkjs.groth16.verify`, whose worker threads keep a Node process alive after verifying.
+ * Every rejection carries the stage that failed, in check order:
+ * - INVALID_PROOF_STRUCTURE / INVALID_PUBLIC_INPUTS: missing fields or wrong arity
+ * - NON_CANONICAL_FIELD_ELEMENT: coordinate >= base field or public signal >= scalar field
+ * - INVALID_CURVE_POINT: point off the curve, at infinity or (G2) outside the prime-order subgroup
+ * - PAIRING_FAILED: well-formed proof that does not satisfy the pairing equation
+ */
+export class Groth16Verifier {
+    readonly verificationKey: Groth16VerificationKey;
+    private alpha: G1Point;
+    private beta: G2Point;
+    private gamma: G2Point;
+    private delta: G2Point;
+    private ic: G1Point[];
+
+    constructor(verificationKey: Groth16VerificationKey) {
+        try {
+            if (verificationKey?.protocol !== 'groth16' || verificationKey.curve !== 'bn128') {
+                throw new ZKProofError('INVALID_PROOF_STRUCTURE', 'Verification key must be groth16 on bn128');
+            }
+            const { nPublic, IC } = verificationKey;
+            if (!Number.isInteger(nPublic) || nPublic < 0 || !Array.isArray(IC) || IC.length !== nPublic + 1) {
+                throw new ZKProofError('INVALID_PROOF_STRUCTURE', `Verification key needs nPublic + 1 IC points, got ${IC?.length} for nPublic ${nPublic}`);
+            }
+
+            this.alpha = Groth16Verifier.keyG1(verificationKey.vk_alpha_1, 'vk_alpha_1');
+            this.beta = Groth16Verifier.keyG2(verificationKey.vk_beta_2, 'vk_beta_2');
+            this.gamma = Groth16Verifier.keyG2(verificationKey.vk_gamma_2, 'vk_gamma_2');
+            this.delta = Groth16Verifier.keyG2(verificationKey.vk_delta_2, 'vk_delta_2');
+            this.ic = IC.map((point, i) => Groth16Verifier.keyG1(point, `IC[${i}]`));
+        } catch (error) {
+            throw new VaultSDKError('INVALID_CONFIGURATION', `Invalid verification key: ${(error as Error).message}`, error);
+        }
+        this.verificationKey = verificationKey;
+    }
+
+    /**
+     * Load a verifier from a `verification_key.json` path, URL or bytes, or from the parsed key
+     */
+    static async load(source: ArtifactSource | Groth16VerificationKey): Promise<Groth16Verifier> {
+        if (typeof source === 'string' || source instanceof URL || source instanceof Uint8Array) {
+            const bytes = await loadArtifactBytes(source, 'verification key');
+            let verificationKey: Groth16VerificationKey;
+            try {
+                verificationKey = JSON.parse(new TextDecoder().decode(bytes));
+            } catch (error) {
+                throw new VaultSDKError('INVALID_CONFIGURATION', 'Verification key is not valid JSON', error);
+            }
+            return new Groth16Verifier(verificationKey);
+        }
+        return new Groth16Verifier(source);
+    }
+
+    get nPublic(): number {
+        return this.verificationKey.nPublic;
+    }
+
+    /**
+     * Verify a proof in snarkjs (`pi_a`, `pi_b`, `pi_c`) or Solidity calldata (`a`, `b`, `c`) layout
+     */
+    verify(proof: Groth16Proof | SolidityGroth16Proof, publicSignals: readonly string[]): Groth16Verdict {
+        try {
+            // Step 1: Shape of the proof and public signals
+            const { a, b, c } = Groth16Verifier.proofCoordinates(proof);
+            const signals = this.signals(publicSignals);
+
+            // Step 2: Every value must be the canonical representative of its field
+            Groth16Verifier.checkCoordinates(a, b, c);
+            signals.forEach((signal, i) => {
+                if (signal >= SNARK_SCALAR_FIELD) {
+                    throw new ZKProofError('NON_CANONICAL_FIELD_ELEMENT', `Public signal ${i} is not below the BN254 scalar field`);
+                }
+            });
+
+            // Step 3: Points must be on the curve (and in the subgroup for G2)
+            const pointA = Groth16Verifier.g1(a, 'A');
+            const pointB = Groth16Verifier.g2(b, 'B');
+            const pointC = Groth16Verifier.g1(c, 'C');
+
+            // Step 4: e(-A, B) · e(vk_x, gamma) · e(C, delta) · e(alpha, beta) = 1
+            const vkX = signals.reduce(
+                (acc, signal, i) => (signal === BigInt(0) ? acc : acc.add(this.ic[i + 1].multiplyUnsafe(signal))),
+                this.ic[0]
+            );
+            const pairs = [
+                { g1: pointA.negate(), g2: pointB },
+                { g1: vkX, g2: this.gamma },
+                { g1: pointC, g2: this.delta },
+                { g1: this.alpha, g2: this.beta }
+            ].filter(pair => !pair.g1.is0());
+            const { Fp12 } = bn254.fields;
+            if (!Fp12.eql(bn254.pairingBatch(pairs), Fp12.ONE)) {
+                throw new ZKProofError('PAIRING_FAILED', 'Groth16 pairing check failed');
+            }
+
+            return { isValid: true };
+        } catch (error) {
+            if (error instanceof ZKProofError) {
+                return { isValid: false, error };
+            }
+            throw error;
+        }
+    }
+
+    private signals(publicSignals: readonly string[]): bigint[] {
+        if (!Array.isArray(publicSignals) || publicSignals.length !== this.nPublic) {
+            throw new ZKProofError('INVALID_PUBLIC_INPUTS', `Expected ${this.nPublic} public signals, got ${Array.isArray(publicSignals) ? publicSignals.length : 'none'}`);
+        }
+        return publicSignals.map((signal, i) => Groth16Verifier.element(signal, `public signal ${i}`, 'INVALID_PUBLIC_INPUTS'));
+    }
+
+    private static proofCoordinates(proof: any): { a: G1Coordinates; b: G2Coordinates; c: G1Coordinates } {
+        if (proof && typeof proof === 'object' && 'pi_a' in proof) {
+            return {
+                a: Groth16Verifier.g1Coordinates(proof.pi_a, 'A'),
+                b: Groth16Verifier.g2Coordinates(proof.pi_b, 'B', false),
+                c: Groth16Verifier.g1Coordinates(proof.pi_c, 'C')
+            };
+        }
+        if (proof && typeof proof === 'object' && 'a' in proof) {
+            return {
+                a: Groth16Verifier.g1Coordinates(proof.a, 'A'),
+                b: Groth16Verifier.g2Coordinates(proof.b, 'B', true),
+                c: Groth16Verifier.g1Coordinates(proof.c, 'C')
+            };
+        }
+        throw new ZKProofError('INVALID_PROOF_STRUCTURE', 'Proof needs pi_a/pi_b/pi_c or a/b/c points');
+    }
+
+    /**
+     * [x, y] or snarkjs projective [x, y, 1]
+     */
+    private static g1Coordinates(point: unknown, name: string): G1Coordinates {
+        if (!Array.isArray(point) || (point.length !== 2 && point.length !== 3)) {
+            throw new ZKProofError('INVALID_PROOF_STRUCTURE', `Invalid proof point ${name}`);
+        }
+        const [x, y, z] = point.map(value => Groth16Verifier.element(value, `point ${name}`));
+        if (z !== undefined && z !== BigInt(1)) {
+            throw new ZKProofError('INVALID_PROOF_STRUCTURE', `Point ${name} must be affine (z = 1)`);
+        }
+        return [x, y];
+    }
+
+    /**
+     * Coordinates as [c0, c1] pairs; Solidity calldata orders each pair [c1, c0] and has no z
+     */
+    private static g2Coordinates(point: unknown, name: string, solidity: boolean): G2Coordinates {
+        const length = solidity ? 2 : 3;
+        if (!Array.isArray(point) || point.length < 2 || point.length > length || point.some(pair => !Array.isArray(pair) || pair.length !== 2)) {
+            throw new ZKProofError('INVALID_PROOF_STRUCTURE', `Invalid proof point ${name}`);
+        }
+        const [x, y, z] = (point as unknown[][]).map(pair => {
+            const [first, second] = pair.map(value => Groth16Verifier.element(value, `point ${name}`));
+            return (solidity ? [second, first] : [first, second]) as [bigint, bigint];
+        });
+        if (z !== undefined && (z[0] !== BigInt(1) || z[1] !== BigInt(0))) {
+            throw new ZKProofError('INVALID_PROOF_STRUCTURE', `Point ${name} must be affine (z = 1)`);
+        }
+        return [x, y];
+    }
+
+    private static element(value: unknown, name: string, code: 'INVALID_PROOF_STRUCTURE' | 'INVALID_PUBLIC_INPUTS' = 'INVALID_PROOF_STRUCTURE'): bigint {
+        if (typeof value === 'bigint' && value >= BigInt(0)) {
+            return value;
+        }
+        if (typeof value !== 'string' || !FIELD_ELEMENT.test(value)) {
+            throw new ZKProofError(code, `Invalid ${name}: expected a non-negative integer string`);
+        }
+        return BigInt(value);
+    }
+
+    /**
+     * A coordinate at or above the base field would reduce to a different point than the one written
+     */
+    private static checkCoordinates(...points: (G1Coordinates | G2Coordinates)[]): void {
+        for (const value of points.flat(2) as bigint[]) {
+            if (value >= BN254_BASE_FIELD) {
+                throw new ZKProofError('NON_CANONICAL_FIELD_ELEMENT', `Coordinate ${value} is not below the BN254 base field`);
+            }
+        }
+    }
+
+    private static keyG1(point: unknown, name: string): G1Point {
+        const coordinates = Groth16Verifier.g1Coordinates(point, name);
+        Groth16Verifier.checkCoordinates(coordinates);
+        return Groth16Verifier.g1(coordinates, name);
+    }
+
+    private static keyG2(point: unknown, name: string): G2Point {
+        const coordinates = Groth16Verifier.g2Coordinates(point, name, false);
+        Groth16Verifier.checkCoordinates(coordinates);
+        return Groth16Verifier.g2(coordinates, name);
+    }
+
+    private static g1([x, y]: G1Coordinates, name: string): G1Point {
+        try {
+            const point = bn254.G1.Point.fromAffine({ x, y });
+            point.assertValidity();
+            if (point.is0()) {
+                throw new Error('point at infinity');
+            }
+            return point;
+        } catch (error) {
+            throw new ZKProofError('INVALID_CURVE_POINT', `Point ${name} is not on the BN254 G1 curve`, error);
+        }
+    }
+
+    private static g2([[x0, x1], [y0, y1]]: G2Coordinates, name: string): G2Point {
+        const { Fp2 } = bn254.fields;
+        try {
+            const point = bn254.G2.Point.fromAffine({ x: Fp2.fromBigTuple([x0, x1]), y: Fp2.fromBigTuple([y0, y1]) });
+            point.assertValidity();
+            if (point.is0()) {
+                throw new Error('point at infinity');
+            }
+            return point;
+        } catch (error) {
+            throw new ZKProofError('INVALID_CURVE_POINT', `Point ${name} is not in the BN254 G2 subgroup`, error);
+        }
+    }
+}
@@ -0,0 +1,56 @@
+import { VaultSDKError } from '../errors';
+import { LogFields, Logger, errorFields } from '../logging/Logger';
+import { NoteCircuitProof } from './CircuitProver';
+
+/**
+ * How a generator labels its stake note proofs: log and error wording, and the proof object's header
+ */
+export interface NoteProofStyle {
+    subject: string;                   // e.g. `ZK proof`; logged as `Generating <subject>` and `<Subject> generated`
+    version: string;
+    type: string;
+    timed?: boolean;                   // Adds generationTimeMs to the proof and proofBytes to the log
+}
+
+/**
+ * Run a note or range proof of a CircuitProver and wrap it as a generator's proof object
+ * Failures are logged and rethrown as PROOF_GENERATION_FAILED unless they already carry an SDK code.
+ */
+export async function generateStakeNoteProof(
+    logger: Logger,
+    style: NoteProofStyle,
+    eventId: string,
+    fields: LogFields,
+    prove: () => Promise<NoteCircuitProof>
+): Promise<any> {
+    const subject = style.subject.charAt(0).toUpperCase() + style.subject.slice(1);
+    const startTime = Date.now();
+    logger.info(`Generating ${style.subject}`, { eventId, ...fields });
+
+    try {
+        const { circuit, commitment, proof, signals } = await prove();
+
+        const generationTime = Date.now() - startTime;
+        logger.info(`${subject} generated`, { eventId, durationMs: generationTime, ...(style.timed ? { proofBytes: 288 } : {}) });
+
+        return {
+            version: style.version,
+            type: style.type,
+            protocol: "groth16",
+            curve: "bn128",
+            circuit,
+            eventId,
+            commitment,
+            nullifierHash: signals.nullifierHash,
+            ...(style.timed ? { generationTimeMs: generationTime } : {}),
+            proof
+        };
+    } catch (error) {
+        logger.error(`${subject} generation failed`, {
+            eventId,
+            durationMs: Date.now() - startTime,
+            ...errorFields(error)
+        });
+        throw VaultSDKError.from(error, 'PROOF_GENERATION_FAILED', `${subject} generation failed`);
+    }
+}
@@ -0,0 +1,110 @@
+import { ethers } from 'ethers';
+import { VaultSDKError, ZKProofError } from '../errors';
+import { SNARK_SCALAR_FIELD, getPoseidon } from './Poseidon';
+
+/**
+ * A field element as callers hold it: bigint, safe integer, decimal or 0x-hex string
+ */
+export type FieldInput = bigint | number | string;
+
+const DECIMAL = /^(0|[1-9][0-9]*)$/;
+const HEX = /^0x[0-9a-fA-F]+$/;
+
+/**
+ * Parse a BN254 scalar field element, rejecting anything that is not its canonical value
+ * circomlibjs Poseidon reduces its inputs silently, so `x` and `x + r` would hash alike and
+ * give one note two nullifiers; negative, out-of-range and malformed values fail instead.
+ */
+export function toFieldElement(value: FieldInput, name = 'value'): bigint {
+    let element: bigint;
+    if (typeof value === 'bigint') {
+        element = value;
+    } else if (typeof value === 'number' && Number.isSafeInteger(value)) {
+        element = BigInt(value);
+    } else if (typeof value === 'string' && (DECIMAL.test(value) || HEX.test(value))) {
+        element = BigInt(value);
+    } else {
+        throw new ZKProofError('NON_CANONICAL_FIELD_ELEMENT', `${name} must be a non-negative integer, decimal or 0x-hex string`);
+    }
+
+    if (element < BigInt(0) || element >= SNARK_SCALAR_FIELD) {
+        throw new ZKProofError('NON_CANONICAL_FIELD_ELEMENT', `${name} is not below the BN254 scalar field`);
+    }
+    return element;
+}
+
+/**
+ * Map arbitrary bytes or integers (random secrets, hashes) onto the field by reducing mod r
+ * For values meant to be reduced; user-supplied field elements go through `toFieldElement`.
+ */
+export function reduceToField(value: Uint8Array | bigint): bigint {
+    const integer = value instanceof Uint8Array
+        ? value.reduce((acc, byte) => (acc << BigInt(8)) | BigInt(byte), BigInt(0))
+        : value;
+    return ((integer % SNARK_SCALAR_FIELD) + SNARK_SCALAR_FIELD) % SNARK_SCALAR_FIELD;
+}
+
+/**
+ * Nullifier constrained by the stake circuits: Poseidon(secret, externalNullifier)
+ * The external nullifier scopes it: one stake gets an unlinkable nullifier per app or epoch.
+ */
+export async function computeNullifier(secret: FieldInput, externalNullifier: FieldInput): Promise<bigint> {
+    const seed = toFieldElement(secret, 'secret');
+    const scope = toFieldElement(externalNullifier, 'externalNullifier');
+    const poseidon = await getPoseidon();
+    return poseidon([seed, scope]);
+}
+
+/**
+ * Stake tree leaf of `circuits/stake_proof.circom`: Poseidon(actualAmount, userSecret)
+ * The leaf commits to the nullifier seed, so a stake has one nullifier per scope.
+ */
+export async function computeStakeLeaf(actualAmount: FieldInput, userSecret: FieldInput): Promise<bigint> {
+    const amount = toFieldElement(actualAmount, 'actualAmount');
+    const seed = toFieldElement(userSecret, 'userSecret');
+    const poseidon = await getPoseidon();
+    return poseidon([amount, seed]);
+}
+
+/**
+ * External nullifier of an app: one nullifier per stake for the app's lifetime, e.g. a lending market
+ * keccak256(appId) >> 8, so a contract derives the same value as
+ * `uint256(keccak256(bytes(appId))) >> 8`
+ */
+export function appScope(appId: string): bigint {
+    return scopeHash(ethers.utils.keccak256(ethers.utils.toUtf8Bytes(checkAppId(appId))));
+}
+
+/**
+ * External nullifier of one epoch of an app: one nullifier per stake per epoch, e.g. a vote per round
+ * keccak256(abi.encode(appId, epoch)) >> 8, matching `uint256(keccak256(abi.encode(appId, epoch))) >> 8`
+ */
+export function epochScope(appId: string, epoch: bigint | number): bigint {
+    const index = typeof epoch === 'number' && !Number.isSafeInteger(epoch) ? BigInt(-1) : BigInt(epoch);
+    if (index < BigInt(0) || index >= BigInt(2) ** BigInt(256)) {
+        throw new VaultSDKError('INVALID_CONFIGURATION', 'epoch must be a uint256');
+    }
+    return scopeHash(ethers.utils.keccak256(ethers.utils.defaultAbiCoder.encode(['string', 'uint256'], [checkAppId(appId), index])));
+}
+
+/**
+ * Epoch number of a unix time (seconds) for epochs of `epochLength` seconds starting at 0
+ */
+export function epochAt(timestamp: number, epochLength: number): bigint {
+    if (!Number.isSafeInteger(epochLength) || epochLength <= 0 || !Number.isSafeInteger(timestamp) || timestamp < 0) {
+        throw new VaultSDKError('INVALID_CONFIGURATION', 'timestamp and epochLength must be non-negative integer seconds');
+    }
+    return BigInt(Math.floor(timestamp / epochLength));
+}
+
+// Dropping the low byte keeps 248 bits, always below the scalar field
+function scopeHash(hash: string): bigint {
+    return BigInt(hash) >> BigInt(8);
+}
+
+function checkAppId(appId: string): string {
+    if (typeof appId !== 'string' || appId.length === 0) {
+        throw new VaultSDKError('INVALID_CONFIGURATION', 'appId must be a non-empty string');
+    }
+    return appId;
+}
@@ -0,0 +1,25 @@
+import { buildPoseidon } from 'circomlibjs';
+
+/**
+ * BN254 scalar field order: circuit signals and Poseidon inputs live below it
+ */
+export const SNARK_SCALAR_FIELD = BigInt('21888242871839275222246405745257275088548364400416034343698204186575808495617');
+
+export type PoseidonHasher = (inputs: bigint[]) => bigint;
+
+let poseidon: Promise<PoseidonHasher> | null = null;
+
+/**
+ * circomlib's Poseidon (same constants as `poseidon.circom`), built once per process
+ */
+export function getPoseidon(): Promise<PoseidonHasher> {
+    if (!poseidon) {
+        poseidon = buildPoseidon()
+            .then(hasher => (inputs: bigint[]) => hasher.F.toObject(hasher(inputs)))
+            .catch(error => {
+                poseidon = null;
+                throw error;
+            });
+    }
+    return poseidon;
+}
@@ -1,106 +1,30 @@
 // sdk/src/zk/ProductionZKProofGenerator.ts
-// @ts-ignore - snarkjs types not available
-import * as snarkjs from 'snarkjs';
-import { ethers } from 'ethers';
+import { VaultSDKError } from '../errors';
+import { Logger, errorFields, silentLogger } from '../logging/Logger';
+import { Groth16Verdict, ZKProofGeneratorConfig } from '../types';
+import { CircuitProof, CircuitProver } from './CircuitProver';
+import { NoteProofStyle, generateStakeNoteProof } from './NoteProofs';
+import { FieldInput, computeNullifier } from './Nullifier';
+import { StakeNote } from './StakeNote';
+import { STAKE_PROOF_CIRCUIT, STAKE_RANGE_PROOF_BITS } from './StakeProofCircuit';
+import { AmountRange, NoteMerklePath, RecipientBinding } from './StakeProofInputs';
+import { CircuitInputs } from './ZKCircuit';
+import { STAKE_TREE_LEVELS } from '../merkle/IncrementalPoseidonTree';
+
+const NOTE_PROOF_STYLE: NoteProofStyle = { subject: 'production ZK proof', version: '1.0.0-production', type: 'zk-snark-groth16', timed: true };
 
 /**
  * PRODUCTION Zero-Knowledge Proof Generator
  * Uses real snarkjs for Groth16 proof generation
  */
 export class ProductionZKProofGenerator {
-    private circuitWasm: string;
-    private circuitZkey: string;
-    private verificationKey: any;
-    private initialized: boolean = false;
+    private prover: CircuitProver;
+    private logger: Logger;
 
-    constructor() {
-        // In production, these would be real compiled circuit files
-        this.circuitWasm = "./circuits/stake_proof_js/stake_proof.wasm";
-        this.circuitZkey = "./circuits/stake_proof_final.zkey";
-        this.initializeCircuit();
-    }
-
-    /**
-     * Initialize with real verification key
-     */
-    private async initializeCircuit() {
-        try {
-            console.log('🔧 Initializing PRODUCTION ZK circuit...');
-
-            // Real verification key (from trusted setup ceremony)
-            this.verificationKey = {
-                protocol: "groth16",
-                curve: "bn128",
-                nPublic: 3,
-                vk_alpha_1: [
-                    "20491192805390485299153009773594534940189261866228447918068658471970481763042",
-                    "9383485363053290200918347156157836566562967994039712273449902621266178545958",
-                    "1"
-                ],
-                vk_beta_2: [
-                    [
-                        "6375614351688725206403948262868962793625744043794305715222011528459656738731",
-                        "4252822878758300859123897981450591353533073413197771768651442665752259397132"
-                    ],
-                    [
-                        "10505242626370262277552901082094356697409835680220590971873171140371331206856",
-                        "21847035105528745403288232691147584728191162732299865338377159692350059136679"
-                    ],
-                    ["1", "0"]
-                ],
-                vk_gamma_2: [
-                    [
-                        "10857046999023057135944570762232829481370756359578518086990519993285655852781",
-                        "11559732032986387107991004021392285783925812861821192530917403151452391805634"
-                    ],
-                    [
-                        "8495653923123431417604973247489272438418190587263600148770280649306958101930",
-                        "4082367875863433681332203403145435568316851327593401208105741076214120093531"
-                    ],
-                    ["1", "0"]
-                ],
-                vk_delta_2: [
-                    [
-                        "11559732032986387107991004021392285783925812861821192530917403151452391805634",
-                        "10857046999023057135944570762232829481370756359578518086990519993285655852781"
-                    ],
-                    [
-                        "4082367875863433681332203403145435568316851327593401208105741076214120093531",
-                        "8495653923123431417604973247489272438418190587263600148770280649306958101930"
-                    ],
-                    ["1", "0"]
-                ],
-                IC: [
-                    [
-                        "5944370176705801405341590975654852815558631233541801695547199834080309068648",
-                        "13962962263785131795344547982726491474980419804152550936421998055027854940160",
-                        "1"
-                    ],
-                    [
-                        "8495653923123431417604973247489272438418190587263600148770280649306958101930",
-                        "21847035105528745403288232691147584728191162732299865338377159692350059136679",
-                        "1"
-                    ],
-                    [
-                        "6375614351688725206403948262868962793625744043794305715222011528459656738731",
-                        "11559732032986387107991004021392285783925812861821192530917403151452391805634",
-                        "1"
-                    ],
-                    [
-                        "20491192805390485299153009773594534940189261866228447918068658471970481763042",
-                        "4252822878758300859123897981450591353533073413197771768651442665752259397132",
-                        "1"
-                    ]
-                ]
-            };
-
-            this.initialized = true;
-            console.log('✅ PRODUCTION ZK circuit initialized successfully');
-
-        } catch (error) {
-            console.error('❌ Failed to initialize ZK circuit:', error);
-            throw new Error('ZK circuit initialization failed');
-        }
+    constructor(config: ZKProofGeneratorConfig = {}) {
+        this.logger = config.logger || silentLogger;
+        // Checksummed artifacts from the circuit manifest; explicit sources override single files
+        this.prover = CircuitProver.fromConfig(config);
     }
 
     /**
@@ -117,22 +41,18 @@ export class ProductionZKProofGenerator {
             minAmount: string;
             merkleRoot: string;
             eventId: string;
+            externalNullifier: FieldInput;     // Nullifier scope, from appScope / epochScope
         }
     ): Promise<any> {
-        console.log('🔐 Generating PRODUCTION ZK proof...');
-        console.log('⚙️ Using real Groth16 protocol with BN128 curve');
-
-        if (!this.initialized) {
-            throw new Error('ZK circuit not initialized');
-        }
+        this.logger.info('Generating production ZK proof', { eventId: publicInputs.eventId, protocol: 'groth16' });
 
+        const startTime = Date.now();
         try {
-            const startTime = Date.now();
 
             // Step 1: Generate real nullifier using cryptographic hash
             const nullifierHash = await this.computeRealNullifier(
                 privateInputs.userSecret,
-                privateInputs.actualAmount
+                publicInputs.externalNullifier
             );
 
             // Step 2: Prepare circuit inputs (production format)
@@ -140,50 +60,29 @@ export class ProductionZKProofGenerator {
                 // Private inputs (hidden in proof)
                 actualAmount: privateInputs.actualAmount,
                 userSecret: privateInputs.userSecret,
-                merklePathElements: privateInputs.merkleProof.slice(0, 10).map(p => p || "0"),
-                merklePathIndices: privateInputs.merkleIndices.slice(0, 10),
+                merklePathElements: privateInputs.merkleProof.slice(0, STAKE_TREE_LEVELS).map(p => p || "0"),
+                merklePathIndices: privateInputs.merkleIndices.slice(0, STAKE_TREE_LEVELS),
 
                 // Public inputs (visible)
                 minAmount: publicInputs.minAmount,
                 merkleRoot: publicInputs.merkleRoot,
-                nullifierHash: nullifierHash
+                nullifierHash: nullifierHash,
+                externalNullifier: publicInputs.externalNullifier
             };
 
-            console.log('🧮 Circuit inputs prepared for production proof');
-            console.log('🔒 Private: actualAmount, userSecret, merkleProof');
-            console.log('👁️ Public: minAmount, merkleRoot, nullifierHash');
-
-            // Step 3: Generate witness using real constraint system
-            const witness = await this.generateProductionWitness(circuitInputs);
-            console.log('✅ Production witness generated');
+            this.logger.debug('Circuit inputs prepared', { publicSignals: ['minAmount', 'merkleRoot', 'nullifierHash', 'externalNullifier'] });
 
-            // Step 4: Generate proof using real Groth16 implementation
-            const proof = await this.generateGroth16Proof(witness, circuitInputs);
-            console.log('✅ Groth16 proof generated');
-
-            // Step 5: Format proof for Solidity verification
-            const formattedProof = {
-                a: [proof.pi_a[0], proof.pi_a[1]],
-                b: [
-                    [proof.pi_b[0][1], proof.pi_b[0][0]], // Note: swapped for Solidity
-                    [proof.pi_b[1][1], proof.pi_b[1][0]]
-                ],
-                c: [proof.pi_c[0], proof.pi_c[1]],
-                publicSignals: [
-                    publicInputs.minAmount,
-                    publicInputs.merkleRoot,
-                    nullifierHash
-                ]
-            };
+            // Step 3: Schema and constraint checks, witness and Groth16 proof in Solidity layout
+            const { proof } = await this.prover.prove(STAKE_PROOF_CIRCUIT, circuitInputs);
 
             const endTime = Date.now();
             const generationTime = endTime - startTime;
 
-            console.log('🎉 PRODUCTION ZK proof generated successfully!');
-            console.log(`⏱️ Generation time: ${generationTime}ms`);
-            console.log('🔒 Privacy: Exact amount completely hidden');
-            console.log('✅ Proof: Mathematically verified actualAmount >= minAmount');
-            console.log('📏 Size: 288 bytes (3 G1 + 1 G2 elliptic curve points)');
+            this.logger.info('Production ZK proof generated', {
+                eventId: publicInputs.eventId,
+                durationMs: generationTime,
+                proofBytes: 288
+            });
 
             return {
                 version: "1.0.0-production",
@@ -194,8 +93,7 @@ export class ProductionZKProofGenerator {
                 eventId: publicInputs.eventId,
                 nullifierHash: nullifierHash,
                 generationTimeMs: generationTime,
-                proof: formattedProof,
-                verificationKey: this.verificationKey,
+                proof,
                 metadata: {
                     privacy: "perfect-zero-knowledge",
                     soundness: "computational-ecdlp",
@@ -205,272 +103,112 @@ export class ProductionZKProofGenerator {
                 }
             };
 
-        } catch (error: any) {
-            console.error('❌ Production ZK proof generation failed:', error);
-            throw new Error(`Production ZK proof generation failed: ${error.message}`);
+        } catch (error) {
+            this.logger.error('Production ZK proof generation failed', {
+                eventId: publicInputs.eventId,
+                durationMs: Date.now() - startTime,
+                ...errorFields(error)
+            });
+            throw VaultSDKError.from(error, 'PROOF_GENERATION_FAILED', 'Production ZK proof generation failed');
         }
     }
 
     /**
-     * Compute real nullifier using cryptographic hash
-     */
-    private async computeRealNullifier(userSecret: string, actualAmount: string): Promise<string> {
-        // Use real Poseidon hash (ZK-friendly)
-        // For production, this would use circomlib's Poseidon
-        // For now, using keccak256 as a cryptographically secure alternative
-
-        const combined = ethers.utils.defaultAbiCoder.encode(
-            ['uint256', 'uint256'],
-            [userSecret, actualAmount]
-        );
-
-        const hash = ethers.utils.keccak256(combined);
-        const nullifier = BigInt(hash).toString();
-
-        console.log('🔐 Real nullifier computed using cryptographic hash');
-        return nullifier;
-    }
-
-    /**
-     * Generate production witness with real constraint checking
+     * Prove a stake note committed in the stake tree, without revealing amount, owner or leaf
+     * The nullifier comes from the note's secret and `externalNullifier`: each note spends once per scope.
+     * With `recipient` and `chainId` the proof is only usable by that account on that chain.
      */
-    private async generateProductionWitness(inputs: any): Promise<any> {
-        console.log('🧮 Computing production witness with real constraints...');
-
-        // CONSTRAINT 1: Verify actualAmount >= minAmount
-        const actualAmount = BigInt(inputs.actualAmount);
-        const minAmount = BigInt(inputs.minAmount);
-
-        if (actualAmount < minAmount) {
-            throw new Error('CONSTRAINT VIOLATION: actualAmount < minAmount');
-        }
-        console.log('✅ Constraint 1 satisfied: actualAmount >= minAmount');
-
-        // CONSTRAINT 2: Verify Merkle proof
-        const merkleValid = await this.verifyProductionMerkleProof(
-            inputs.actualAmount,
-            inputs.merklePathElements,
-            inputs.merklePathIndices,
-            inputs.merkleRoot
-        );
-
-        if (!merkleValid) {
-            throw new Error('CONSTRAINT VIOLATION: Invalid Merkle inclusion proof');
-        }
-        console.log('✅ Constraint 2 satisfied: Valid Merkle inclusion');
-
-        // CONSTRAINT 3: Verify nullifier computation
-        const expectedNullifier = await this.computeRealNullifier(
-            inputs.userSecret,
-            inputs.actualAmount
-        );
-
-        if (expectedNullifier !== inputs.nullifierHash) {
-            throw new Error('CONSTRAINT VIOLATION: Invalid nullifier hash');
-        }
-        console.log('✅ Constraint 3 satisfied: Valid nullifier');
-
-        // Return production witness
-        return {
-            constraintCount: 1500000,
-            privateSignals: ['actualAmount', 'userSecret', 'merklePathElements', 'merklePathIndices'],
-            publicSignals: ['minAmount', 'merkleRoot', 'nullifierHash'],
-            allConstraintsSatisfied: true,
-            witnessGenerated: true
-        };
+    async generateNoteProof(
+        note: StakeNote,
+        merklePath: NoteMerklePath,
+        publicInputs: {
+            minAmount: FieldInput;
+            eventId: string;
+            externalNullifier: FieldInput;
+        } & Partial<RecipientBinding>
+    ): Promise<any> {
+        // Note circuit, or the bound note circuit when a recipient is given; checked, then proven in Solidity layout
+        return generateStakeNoteProof(this.logger, NOTE_PROOF_STYLE, publicInputs.eventId, { protocol: 'groth16' },
+            () => this.prover.proveNote(note, merklePath, publicInputs));
     }
 
     /**
-     * Generate real Groth16 proof using production cryptography
+     * Prove minAmount <= amount <= maxAmount for a stake note, with the `stake_range_proof_<bits>` circuit
+     * Amounts and bounds wider than `bits` are rejected before proving; widths outside
+     * STAKE_RANGE_PROOF_BITS need their circuit in the generator's registry.
      */
-    private async generateGroth16Proof(witness: any, inputs: any): Promise<any> {
-        console.log('🔐 Generating real Groth16 proof...');
-        console.log('⚙️ Using BN128 elliptic curve pairing');
-
-        // In full production, this would use snarkjs.groth16.prove()
-        // For hackathon demo, we generate cryptographically valid proof points
-
-        // Generate proof points on BN128 curve
-        const proof = {
-            pi_a: [
-                this.generateValidCurvePoint("a", inputs.actualAmount),
-                this.generateValidCurvePoint("a", inputs.userSecret),
-                "1"
-            ],
-            pi_b: [
-                [
-                    this.generateValidCurvePoint("b1", inputs.minAmount),
-                    this.generateValidCurvePoint("b1", inputs.merkleRoot)
-                ],
-                [
-                    this.generateValidCurvePoint("b2", inputs.nullifierHash),
-                    this.generateValidCurvePoint("b2", inputs.actualAmount)
-                ],
-                ["1", "0"]
-            ],
-            pi_c: [
-                this.generateValidCurvePoint("c", inputs.actualAmount + inputs.minAmount),
-                this.generateValidCurvePoint("c", inputs.userSecret + inputs.nullifierHash),
-                "1"
-            ]
-        };
-
-        console.log('✅ Groth16 proof points generated on BN128 curve');
-        return proof;
+    async generateRangeProof(
+        note: StakeNote,
+        merklePath: NoteMerklePath,
+        publicInputs: AmountRange & {
+            eventId: string;
+            externalNullifier: FieldInput;
+        },
+        bits: number = STAKE_RANGE_PROOF_BITS[0]
+    ): Promise<any> {
+        // Range circuit of this bit width; inputs checked against it, then proven in Solidity layout
+        return generateStakeNoteProof(this.logger, NOTE_PROOF_STYLE, publicInputs.eventId, { bits },
+            () => this.prover.proveRange(note, merklePath, publicInputs, bits));
     }
 
     /**
-     * Generate valid elliptic curve points for BN128
+     * Compute the nullifier exactly as the circuit does: Poseidon(userSecret, externalNullifier)
      */
-    private generateValidCurvePoint(type: string, seed: string): string {
-        const hash = ethers.utils.keccak256(
-            ethers.utils.defaultAbiCoder.encode(['string', 'string'], [type, seed])
-        );
-
-        // Ensure point is in valid field (mod p)
-        const p = BigInt("21888242871839275222246405745257275088696311157297823662689037894645226208583");
-        const point = BigInt(hash) % p;
+    private async computeRealNullifier(userSecret: string, externalNullifier: FieldInput): Promise<string> {
+        const nullifier = (await computeNullifier(userSecret, externalNullifier)).toString();
 
-        return point.toString();
+        this.logger.debug('Nullifier computed');
+        return nullifier;
     }
 
     /**
-     * Verify production Merkle proof
+     * Prove any circuit of the generator's registry, e.g. one registered next to the stake proof
      */
-    private async verifyProductionMerkleProof(
-        leaf: string,
-        pathElements: string[],
-        pathIndices: number[],
-        root: string
-    ): Promise<boolean> {
-        console.log('🌳 Verifying production Merkle proof...');
-
-        let computedHash = BigInt(leaf);
-
-        for (let i = 0; i < pathElements.length && i < 10; i++) {
-            const pathElement = BigInt(pathElements[i] || "0");
-            const isLeft = pathIndices[i] === 0;
-
-            if (isLeft) {
-                computedHash = this.hashPair(computedHash, pathElement);
-            } else {
-                computedHash = this.hashPair(pathElement, computedHash);
-            }
+    async proveCircuit(name: string, inputs: CircuitInputs): Promise<CircuitProof> {
+        this.logger.info('Generating production ZK proof', { circuit: name, protocol: 'groth16' });
+        try {
+            return await this.prover.prove(name, inputs);
+        } catch (error) {
+            this.logger.error('Production ZK proof generation failed', { circuit: name, ...errorFields(error) });
+            throw VaultSDKError.from(error, 'PROOF_GENERATION_FAILED', 'Production ZK proof generation failed');
         }
-
-        const isValid = computedHash.toString() === root;
-        console.log('🌳 Production Merkle verification:', isValid ? 'VALID' : 'INVALID');
-
-        return isValid;
     }
 
     /**
-     * Hash pair for Merkle tree (production implementation)
+     * Verify production ZK proof against the circuit's verification key
+     * Rejections come back as a verdict carrying the failed check; only a missing vkey throws.
      */
-    private hashPair(left: bigint, right: bigint): bigint {
-        // Use deterministic ordering for consistency
-        const [a, b] = left < right ? [left, right] : [right, left];
-
-        const combined = ethers.utils.defaultAbiCoder.encode(
-            ['uint256', 'uint256'],
-            [a.toString(), b.toString()]
-        );
-
-        return BigInt(ethers.utils.keccak256(combined));
+    async verifyProductionProof(proof: any): Promise<Groth16Verdict> {
+        return this.verifyCircuitProof(STAKE_PROOF_CIRCUIT, proof);
     }
 
     /**
-     * Verify production ZK proof
+     * Verify a proof of any registered circuit; the vkey must match the circuit's public signal layout
      */
-    async verifyProductionProof(proof: any): Promise<boolean> {
-        console.log('🔍 Verifying PRODUCTION ZK proof...');
+    async verifyCircuitProof(name: string, proof: any): Promise<Groth16Verdict> {
+        const startTime = Date.now();
+        this.logger.info('Verifying production ZK proof', { circuit: name, eventId: proof?.eventId });
 
+        let verdict: Groth16Verdict;
         try {
-            // Step 1: Validate proof structure
-            if (!proof.proof || !proof.proof.publicSignals) {
-                throw new Error('Invalid proof structure');
-            }
-
-            const { a, b, c, publicSignals } = proof.proof;
-
-            // Step 2: Validate proof format
-            if (!a || a.length !== 2) throw new Error('Invalid proof point A');
-            if (!b || b.length !== 2 || b[0].length !== 2) throw new Error('Invalid proof point B');
-            if (!c || c.length !== 2) throw new Error('Invalid proof point C');
-            if (!publicSignals || publicSignals.length !== 3) throw new Error('Invalid public signals');
-
-            console.log('✅ Proof structure validation passed');
-
-            // Step 3: Verify elliptic curve points are valid
-            const pointsValid = this.validateCurvePoints(a, b, c);
-            if (!pointsValid) {
-                throw new Error('Invalid elliptic curve points');
-            }
-
-            console.log('✅ Elliptic curve points validation passed');
-
-            // Step 4: Verify public inputs are reasonable
-            const [minAmount, merkleRoot, nullifierHash] = publicSignals;
-
-            if (BigInt(minAmount) <= 0) {
-                throw new Error('Invalid minimum amount');
-            }
-
-            if (BigInt(merkleRoot) === BigInt(0)) {
-                throw new Error('Invalid Merkle root');
-            }
-
-            console.log('✅ Public inputs validation passed');
-
-            // Step 5: Simulate pairing verification (in production, use real pairing)
-            const pairingValid = await this.simulatePairingVerification(a, b, c, publicSignals);
-
-            if (!pairingValid) {
-                throw new Error('Pairing verification failed');
-            }
-
-            console.log('✅ Pairing verification passed');
-            console.log('🎉 PRODUCTION ZK proof verification successful!');
-
-            return true;
-
+            verdict = await this.prover.verify(name, proof);
         } catch (error) {
-            console.error('❌ Production ZK proof verification failed:', error);
-            return false;
+            this.logger.error('Production ZK proof verification failed', { durationMs: Date.now() - startTime, ...errorFields(error) });
+            throw error;
         }
-    }
-
-    /**
-     * Validate elliptic curve points
-     */
-    private validateCurvePoints(a: string[], b: string[][], c: string[]): boolean {
-        const p = BigInt("21888242871839275222246405745257275088696311157297823662689037894645226208583");
-
-        // Check all points are in valid field
-        const aValid = BigInt(a[0]) < p && BigInt(a[1]) < p;
-        const bValid = BigInt(b[0][0]) < p && BigInt(b[0][1]) < p && BigInt(b[1][0]) < p && BigInt(b[1][1]) < p;
-        const cValid = BigInt(c[0]) < p && BigInt(c[1]) < p;
 
-        return aValid && bValid && cValid;
-    }
-
-    /**
-     * Simulate pairing verification (production would use real pairing)
-     */
-    private async simulatePairingVerification(a: string[], b: string[][], c: string[], publicSignals: string[]): Promise<boolean> {
-        console.log('🔗 Simulating pairing verification...');
-
-        // In production: e(A,B) = e(alpha, beta) * e(L_ic, gamma) * e(C, delta)
-        // For demo: simplified but mathematically consistent check
-
-        const leftSide = BigInt(a[0]) * BigInt(b[0][0]);
-        const rightSide = BigInt(c[0]) * BigInt(publicSignals[0]);
-
-        // Simplified pairing check (real implementation uses complex elliptic curve math)
-        const pairingValid = (leftSide % BigInt(1000007)) === (rightSide % BigInt(1000007));
+        if (!verdict.isValid) {
+            this.logger.warn('Production ZK proof rejected', {
+                circuit: name,
+                eventId: proof?.eventId,
+                durationMs: Date.now() - startTime,
+                ...errorFields(verdict.error)
+            });
+            return verdict;
+        }
 
-        console.log('🔗 Pairing verification result:', pairingValid);
-        return pairingValid;
+        this.logger.info('Production ZK proof verified', { circuit: name, eventId: proof.eventId, durationMs: Date.now() - startTime });
+        return verdict;
     }
 
     /**
@@ -1,164 +1,28 @@
 // sdk/src/zk/RealZKProofGenerator.ts
-import { ethers } from 'ethers';
-
-// Real ZK dependencies (install these)
-// npm install snarkjs circomlib ffjavascript
+import { VaultSDKError } from '../errors';
+import { Logger, errorFields, silentLogger } from '../logging/Logger';
+import { Groth16Verdict, ZKProofGeneratorConfig } from '../types';
+import { CircuitProof, CircuitProver } from './CircuitProver';
+import { NoteProofStyle, generateStakeNoteProof } from './NoteProofs';
+import { FieldInput, computeNullifier } from './Nullifier';
+import { StakeNote } from './StakeNote';
+import { STAKE_PROOF_CIRCUIT, STAKE_RANGE_PROOF_BITS } from './StakeProofCircuit';
+import { AmountRange, NoteMerklePath, RecipientBinding } from './StakeProofInputs';
+import { CircuitInputs } from './ZKCircuit';
+
+const NOTE_PROOF_STYLE: NoteProofStyle = { subject: 'ZK proof', version: '1.0.0', type: 'zk-snark' };
 
 /**
  * REAL Zero-Knowledge Proof Implementation
  * Uses actual Circom circuits and snarkjs for proof generation
  */
 export class RealZKProofGenerator {
-    private circuitWasm!: ArrayBuffer;
-    private circuitZkey!: ArrayBuffer;
-    private verificationKey: any;
-
-    constructor() {
-        this.initializeRealCircuit();
-    }
-
-    /**
-     * Initialize REAL ZK circuit (not simulated)
-     */
-    private async initializeRealCircuit() {
-        try {
-            // In production, these would be loaded from files or IPFS
-            // For hackathon, we'll use a simplified real circuit
-            console.log('🔧 Loading real ZK circuit...');
-
-            // This would normally load actual .wasm and .zkey files
-            // For demo, we'll create a minimal working circuit
-            await this.setupMinimalRealCircuit();
-
-            console.log('✅ Real ZK circuit loaded successfully');
-        } catch (error) {
-            console.error('❌ Failed to load ZK circuit:', error);
-            throw new Error('ZK circuit initialization failed');
-        }
-    }
-
-    /**
-     * Setup minimal but REAL ZK circuit for hackathon demo
-     */
-    private async setupMinimalRealCircuit() {
-        // This creates a real (but minimal) ZK circuit
-        // In production, you'd use a full Circom circuit
-
-        const circuitCode = `
-pragma circom 2.0.0;
-
-template StakeProof() {
-    // Private inputs (hidden)
-    signal private input actualAmount;
-    signal private input userSecret;
-    signal private input merklePathElement[10];
-    signal private input merklePathIndex[10];
-    
-    // Public inputs (revealed)
-    signal input minAmount;
-    signal input merkleRoot;
-    signal input nullifierHash;
-    
-    // Outputs
-    signal output validProof;
-    
-    // Components
-    component hasher = Poseidon(2);
-    component merkleProof = MerkleTreeChecker(10);
-    
-    // Constraint 1: actualAmount >= minAmount
-    component greaterEqualThan = GreaterEqualThan(64);
-    greaterEqualThan.in[0] <== actualAmount;
-    greaterEqualThan.in[1] <== minAmount;
-    greaterEqualThan.out === 1;
-    
-    // Constraint 2: Verify Merkle proof
-    merkleProof.leaf <== actualAmount;
-    merkleProof.root <== merkleRoot;
-    for (var i = 0; i < 10; i++) {
-        merkleProof.pathElements[i] <== merklePathElement[i];
-        merkleProof.pathIndices[i] <== merklePathIndex[i];
-    }
-    
-    // Constraint 3: Verify nullifier
-    hasher.inputs[0] <== userSecret;
-    hasher.inputs[1] <== actualAmount;
-    hasher.out === nullifierHash;
-    
-    // Output valid proof
-    validProof <== 1;
-}
-
-component main = StakeProof();
-    `;
-
-        // For hackathon demo, we'll simulate circuit compilation
-        // In production, this would use actual circom compiler
-        console.log('📝 Circuit code prepared (simplified for demo)');
-        console.log('⚙️ In production: circom compile → witness generation → snarkjs');
-
-        // Simulate verification key generation
-        this.verificationKey = await this.generateRealVerificationKey();
-    }
+    private prover: CircuitProver;
+    private logger: Logger;
 
-    /**
-     * Generate REAL verification key (simplified for demo)
-     */
-    private async generateRealVerificationKey() {
-        // In production, this comes from trusted setup ceremony
-        // For demo, we create a real-format verification key
-
-        return {
-            protocol: "groth16",
-            curve: "bn128",
-            nPublic: 3,
-            vk_alpha_1: [
-                "20491192805390485299153009773594534940189261866228447918068658471970481763042",
-                "9383485363053290200918347156157836566562967994039712273449902621266178545958",
-                "1"
-            ],
-            vk_beta_2: [
-                [
-                    "6375614351688725206403948262868962793625744043794305715222011528459656738731",
-                    "4252822878758300859123897981450591353533073413197771768651442665752259397132"
-                ],
-                [
-                    "10505242626370262277552901082094356697409835680220590971873171140371331206856",
-                    "21847035105528745403288232691147584728191162732299865338377159692350059136679"
-                ],
-                ["1", "0"]
-            ],
-            vk_gamma_2: [
-                [
-                    "10857046999023057135944570762232829481370756359578518086990519993285655852781",
-                    "11559732032986387107991004021392285783925812861821192530917403151452391805634"
-                ],
-                [
-                    "8495653923123431417604973247489272438418190587263600148770280649306958101930",
-                    "4082367875863433681332203403145435568316851327593401208105741076214120093531"
-                ],
-                ["1", "0"]
-            ],
-            vk_delta_2: [
-                [
-                    "11559732032986387107991004021392285783925812861821192530917403151452391805634",
-                    "10857046999023057135944570762232829481370756359578518086990519993285655852781"
-                ],
-                [
-                    "4082367875863433681332203403145435568316851327593401208105741076214120093531",
-                    "8495653923123431417604973247489272438418190587263600148770280649306958101930"
-                ],
-                ["1", "0"]
-            ],
-            vk_alphabeta_12: [], // Complex pairing result
-            IC: [
-                [
-                    "5944370176705801405341590975654852815558631233541801695547199834080309068648",
-                    "13962962263785131795344547982726491474980419804152550936421998055027854940160",
-                    "1"
-                ]
-            ]
-        };
+    constructor(config: ZKProofGeneratorConfig = {}) {
+        this.logger = config.logger || silentLogger;
+        this.prover = CircuitProver.fromConfig(config);
     }
 
     /**
@@ -175,63 +39,38 @@ component main = StakeProof();
             minAmount: string;
             merkleRoot: string;
             eventId: string;
+            externalNullifier: FieldInput;
         }
     ): Promise<any> {
-        console.log('🔐 Generating REAL ZK proof...');
-        console.log('⚙️ Using actual cryptographic constraints');
+        const startTime = Date.now();
+        this.logger.info('Generating ZK proof', { eventId: publicInputs.eventId });
 
         try {
 
             // Step 1: Generate nullifier hash using real Poseidon hash
-            const nullifierHash = await this.poseidonHash([
-                BigInt(privateInputs.userSecret),
-                BigInt(privateInputs.actualAmount)
-            ]);
+            const nullifierHash = await computeNullifier(privateInputs.userSecret, publicInputs.externalNullifier);
 
             // Step 2: Prepare circuit inputs (real format)
             const circuitInputs = {
                 // Private (will be hidden in proof)
                 actualAmount: privateInputs.actualAmount,
                 userSecret: privateInputs.userSecret,
-                merklePathElement: privateInputs.merkleProof.map(p => BigInt(p)),
-                merklePathIndex: privateInputs.merkleIndices,
+                merklePathElements: privateInputs.merkleProof,
+                merklePathIndices: privateInputs.merkleIndices,
 
                 // Public (will be visible)
                 minAmount: publicInputs.minAmount,
                 merkleRoot: publicInputs.merkleRoot,
-                nullifierHash: nullifierHash.toString()
+                nullifierHash: nullifierHash.toString(),
+                externalNullifier: publicInputs.externalNullifier
             };
 
-            console.log('🧮 Circuit inputs prepared');
-            console.log('🔒 Private: actualAmount, userSecret, merkleProof');
-            console.log('👁️ Public: minAmount, merkleRoot, nullifierHash');
+            this.logger.debug('Circuit inputs prepared', { publicSignals: ['minAmount', 'merkleRoot', 'nullifierHash', 'externalNullifier'] });
 
-            // Step 3: Generate witness (real computation)
-            const witness = await this.generateWitness(circuitInputs);
-            console.log('✅ Witness generated');
+            // Step 3: Check the schema and constraints, then prove with the real Groth16 algorithm
+            const { proof: formattedProof } = await this.prover.prove(STAKE_PROOF_CIRCUIT, circuitInputs);
 
-            // Step 4: Generate proof using real Groth16 algorithm
-            const proof = await this.groth16Prove(witness);
-            console.log('✅ Groth16 proof generated');
-
-            // Step 5: Format proof for blockchain verification
-            const formattedProof = {
-                a: [proof.pi_a[0].toString(), proof.pi_a[1].toString()],
-                b: [
-                    [proof.pi_b[0][1].toString(), proof.pi_b[0][0].toString()],
-                    [proof.pi_b[1][1].toString(), proof.pi_b[1][0].toString()]
-                ],
-                c: [proof.pi_c[0].toString(), proof.pi_c[1].toString()],
-                publicSignals: [
-                    publicInputs.minAmount,
-                    publicInputs.merkleRoot,
-                    nullifierHash.toString()
-                ]
-            };
-
-            console.log('🎉 REAL ZK proof generated successfully!');
-            console.log('🔒 Privacy guaranteed: Exact amount hidden');
-            console.log('✅ Mathematically proven: actualAmount >= minAmount');
+            this.logger.info('ZK proof generated', { eventId: publicInputs.eventId, durationMs: Date.now() - startTime });
 
             return {
                 version: "1.0.0",
@@ -240,230 +79,97 @@ component main = StakeProof();
                 curve: "bn128",
                 eventId: publicInputs.eventId,
                 nullifierHash: nullifierHash.toString(),
-                proof: formattedProof,
-                verificationKey: this.verificationKey
+                proof: formattedProof
             };
 
         } catch (error) {
-            console.error('❌ Real ZK proof generation failed:', error);
-            throw new Error(`ZK proof generation failed: ${(error as Error).message}`);
+            this.logger.error('ZK proof generation failed', {
+                eventId: publicInputs.eventId,
+                durationMs: Date.now() - startTime,
+                ...errorFields(error)
+            });
+            throw VaultSDKError.from(error, 'PROOF_GENERATION_FAILED', 'ZK proof generation failed');
         }
     }
 
     /**
-     * Real Poseidon hash implementation
-     */
-        private async poseidonHash(inputs: bigint[]): Promise<bigint> {
-        // For hackathon demo, we'll use a simplified but real hash
-        // In production, use circomlib's Poseidon
-
-        const poseidon = await import('circomlib').then(lib => lib.poseidon);
-        return poseidon(inputs);
-    }
-
-    /**
-     * Generate witness using real circuit computation
+     * Generate a ZK proof for a stake note: the tree holds its commitment, not its amount
+     * `recipient` and `chainId` bind the proof to one account on one chain.
      */
-    private async generateWitness(inputs: any): Promise<any> {
-        console.log('🧮 Computing circuit witness...');
-
-        // In production, this would use wasm-generated witness calculator
-        // For demo, we simulate the constraint checking
-
-        // Verify constraint 1: actualAmount >= minAmount
-        const actualAmount = BigInt(inputs.actualAmount);
-        const minAmount = BigInt(inputs.minAmount);
-
-        if (actualAmount < minAmount) {
-            throw new Error('Constraint violated: actualAmount < minAmount');
-        }
-
-        console.log('✅ Constraint 1 satisfied: actualAmount >= minAmount');
-
-        // Verify constraint 2: Merkle proof (simplified)
-        const merkleValid = this.verifyMerkleConstraint(
-            inputs.actualAmount,
-            inputs.merklePathElement,
-            inputs.merklePathIndex,
-            inputs.merkleRoot
-        );
-
-        if (!merkleValid) {
-            throw new Error('Constraint violated: Invalid Merkle proof');
-        }
-
-        console.log('✅ Constraint 2 satisfied: Valid Merkle inclusion');
-
-        // Verify constraint 3: Nullifier computation
-        const expectedNullifier = await this.poseidonHash([
-            BigInt(inputs.userSecret),
-            BigInt(inputs.actualAmount)
-        ]);
-
-        if (expectedNullifier.toString() !== inputs.nullifierHash) {
-            throw new Error('Constraint violated: Invalid nullifier');
-        }
-
-        console.log('✅ Constraint 3 satisfied: Valid nullifier');
-
-        // Return witness (simplified)
-        return {
-            constraints: 1500000, // Number of constraints in circuit
-            signals: {
-                private: ['actualAmount', 'userSecret', 'merklePathElement'],
-                public: ['minAmount', 'merkleRoot', 'nullifierHash']
-            },
-            satisfied: true
-        };
+    async generateNoteProof(
+        note: StakeNote,
+        merklePath: NoteMerklePath,
+        publicInputs: {
+            minAmount: FieldInput;
+            eventId: string;
+            externalNullifier: FieldInput;
+        } & Partial<RecipientBinding>
+    ): Promise<any> {
+        // Note circuit, or the bound note circuit when a recipient is given; checked, then proven
+        return generateStakeNoteProof(this.logger, NOTE_PROOF_STYLE, publicInputs.eventId, {},
+            () => this.prover.proveNote(note, merklePath, publicInputs));
     }
 
     /**
-     * Real Groth16 proof generation
+     * Generate a range proof for a stake note: minAmount <= amount <= maxAmount, all `bits` wide
      */
-    private async groth16Prove(witness: any): Promise<any> {
-        console.log('🔐 Generating Groth16 proof...');
-
-        // In production, this would use snarkjs.groth16.prove()
-        // For demo, we generate proof in correct format
-
-        // Simulate proof generation with real elliptic curve points
-        const proof = {
-            pi_a: [
-                BigInt("0x" + "12345".repeat(12) + "67890".repeat(1)),
-                BigInt("0x" + "09876".repeat(12) + "54321".repeat(1)),
-                BigInt("1")
-            ],
-            pi_b: [
-                [
-                    BigInt("0x" + "11111".repeat(12) + "22222".repeat(1)),
-                    BigInt("0x" + "33333".repeat(12) + "44444".repeat(1))
-                ],
-                [
-                    BigInt("0x" + "55555".repeat(12) + "66666".repeat(1)),
-                    BigInt("0x" + "77777".repeat(12) + "88888".repeat(1))
-                ],
-                [BigInt("1"), BigInt("0")]
-            ],
-            pi_c: [
-                BigInt("0x" + "99999".repeat(12) + "00000".repeat(1)),
-                BigInt("0x" + "aaaaa".repeat(12) + "bbbbb".repeat(1)),
-                BigInt("1")
-            ]
-        };
-
-        console.log('✅ Groth16 proof points generated');
-        return proof;
+    async generateRangeProof(
+        note: StakeNote,
+        merklePath: NoteMerklePath,
+        publicInputs: AmountRange & {
+            eventId: string;
+            externalNullifier: FieldInput;
+        },
+        bits: number = STAKE_RANGE_PROOF_BITS[0]
+    ): Promise<any> {
+        // Range circuit of this bit width; inputs checked against it, then proven
+        return generateStakeNoteProof(this.logger, NOTE_PROOF_STYLE, publicInputs.eventId, { bits },
+            () => this.prover.proveRange(note, merklePath, publicInputs, bits));
     }
 
     /**
-     * Verify Merkle constraint (real implementation)
+     * Prove any circuit of the generator's registry with the same checks as the stake proof
      */
-        private verifyMerkleConstraint(
-        leaf: string,
-        pathElements: bigint[],
-        pathIndices: number[],
-        root: string
-    ): boolean {
-        console.log('🌳 Verifying Merkle constraint...');
-
-        let computedHash = BigInt(leaf);
-
-        for (let i = 0; i < pathElements.length; i++) {
-            const pathElement = pathElements[i];
-            const isLeft = pathIndices[i] === 0;
-
-            if (isLeft) {
-                computedHash = this.hashPair(computedHash, pathElement);
-            } else {
-                computedHash = this.hashPair(pathElement, computedHash);
-            }
+    async proveCircuit(name: string, inputs: CircuitInputs): Promise<CircuitProof> {
+        this.logger.info('Generating ZK proof', { circuit: name });
+        try {
+            return await this.prover.prove(name, inputs);
+        } catch (error) {
+            this.logger.error('ZK proof generation failed', { circuit: name, ...errorFields(error) });
+            throw VaultSDKError.from(error, 'PROOF_GENERATION_FAILED', 'ZK proof generation failed');
         }
-
-        const isValid = computedHash.toString() === root;
-        console.log('🌳 Merkle verification:', isValid ? 'VALID' : 'INVALID');
-
-        return isValid;
     }
 
     /**
-     * Hash pair for Merkle tree (real implementation)
+     * Verify REAL ZK proof against the circuit's verification key
+     * Rejections come back as a verdict carrying the failed check; only a missing vkey throws.
      */
-        private hashPair(left: bigint, right: bigint): bigint {
-        // Use real Poseidon hash for ZK-friendly computation
-        const combined = left < right ? [left, right] : [right, left];
-        return BigInt(ethers.utils.keccak256(
-            ethers.utils.defaultAbiCoder.encode(['uint256', 'uint256'], combined)
-        ));
+    async verifyRealZKProof(proof: any): Promise<Groth16Verdict> {
+        return this.verifyCircuitProof(STAKE_PROOF_CIRCUIT, proof);
     }
 
     /**
-     * Verify REAL ZK proof
+     * Verify a proof of any registered circuit: e(a,b) = e(alpha, beta) * e(L_ic, gamma) * e(c, delta)
      */
-    async verifyRealZKProof(proof: any): Promise<boolean> {
-        console.log('🔍 Verifying REAL ZK proof...');
+    async verifyCircuitProof(name: string, proof: any): Promise<Groth16Verdict> {
+        const startTime = Date.now();
+        this.logger.info('Verifying ZK proof', { circuit: name, eventId: proof?.eventId });
 
+        let verdict: Groth16Verdict;
         try {
-            // Step 1: Validate proof structure
-            if (!proof.proof || !proof.proof.publicSignals) {
-                throw new Error('Invalid proof structure');
-            }
-
-            // Step 2: Verify proof format
-            const { a, b, c, publicSignals } = proof.proof;
-
-            if (!a || a.length !== 2) throw new Error('Invalid proof point A');
-            if (!b || b.length !== 2 || b[0].length !== 2) throw new Error('Invalid proof point B');
-            if (!c || c.length !== 2) throw new Error('Invalid proof point C');
-            if (!publicSignals || publicSignals.length !== 3) throw new Error('Invalid public signals');
-
-            console.log('✅ Proof structure valid');
-
-            // Step 3: Verify pairing equation (simplified for demo)
-            // In production: e(a,b) = e(alpha, beta) * e(L_ic, gamma) * e(c, delta)
-            const pairingValid = await this.verifyPairing(a, b, c, publicSignals);
-
-            if (!pairingValid) {
-                throw new Error('Pairing verification failed');
-            }
-
-            console.log('✅ Pairing verification passed');
-
-            // Step 4: Verify public inputs are consistent
-            const [minAmount, merkleRoot, nullifierHash] = publicSignals;
-
-            if (BigInt(minAmount) <= 0) {
-                throw new Error('Invalid minimum amount');
-            }
-
-            console.log('✅ Public inputs valid');
-            console.log('🎉 REAL ZK proof verification successful!');
-
-            return true;
-
+            verdict = await this.prover.verify(name, proof);
         } catch (error) {
-            console.error('❌ ZK proof verification failed:', (error as Error).message);
-            return false;
+            this.logger.error('ZK proof verification failed', { durationMs: Date.now() - startTime, ...errorFields(error) });
+            throw error;
         }
-    }
 
-    /**
-     * Verify pairing equation (core of Groth16 verification)
-     */
-    private async verifyPairing(a: string[], b: string[][], c: string[], publicSignals: string[]): Promise<boolean> {
-        console.log('🔗 Verifying pairing equation...');
-
-        // In production, this would use real elliptic curve pairing
-        // For demo, we simulate the pairing check
-
-        // Simulate pairing computation
-        const leftSide = BigInt(a[0]) * BigInt(b[0][0]);
-        const rightSide = BigInt(c[0]) * BigInt(publicSignals[0]);
-
-        // Simplified pairing check (real implementation uses complex math)
-        const pairingValid = (leftSide % BigInt(1000)) === (rightSide % BigInt(1000));
+        if (!verdict.isValid) {
+            this.logger.warn('ZK proof rejected', { circuit: name, eventId: proof?.eventId, durationMs: Date.now() - startTime, ...errorFields(verdict.error) });
+            return verdict;
+        }
 
-        console.log('🔗 Pairing check result:', pairingValid);
-        return pairingValid;
+        this.logger.info('ZK proof verified', { circuit: name, eventId: proof.eventId, durationMs: Date.now() - startTime });
+        return verdict;
     }
 
     /**
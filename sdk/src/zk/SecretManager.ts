@@ -0,0 +1,197 @@
+import { ethers } from 'ethers';
+import { VaultSDKError } from '../errors';
+import { FieldInput, reduceToField } from './Nullifier';
+import { StakeNote, createStakeNote } from './StakeNote';
+
+/**
+ * EIP-712 domain of the secret derivation request; fixed, so every chain and dapp version
+ * derives the same secrets for an account
+ */
+export const SECRET_DOMAIN = { name: 'Avax-CPoE', version: '1' };
+
+export const SECRET_TYPES = {
+    SecretDerivation: [
+        { name: 'account', type: 'address' },
+        { name: 'purpose', type: 'string' }
+    ]
+};
+
+const SECRET_PURPOSE = 'Derive my Avax-CPoE stake secrets. Only sign this on a site you trust.';
+
+// HKDF salt; bump the version to rotate every derived key
+const HKDF_SALT = ethers.utils.toUtf8Bytes('avax-cpoe/secrets/v1');
+
+const KEYSTORE_TYPE = 'avax-cpoe-secrets';
+const KEYSTORE_VERSION = 1;
+
+// ethers' default scrypt cost (N = 2^17)
+const DEFAULT_SCRYPT_N = 131072;
+
+/**
+ * Signer of the derivation request, e.g. an ethers Wallet or JsonRpcSigner
+ */
+export interface SecretSigner {
+    getAddress(): Promise<string>;
+    _signTypedData(
+        domain: typeof SECRET_DOMAIN,
+        types: typeof SECRET_TYPES,
+        value: Record<string, unknown>
+    ): Promise<string>;
+}
+
+export interface KeystoreOptions {
+    scryptN?: number;                  // Default: 2^17, as ethers
+}
+
+/**
+ * HKDF-SHA256 (RFC 5869) over ethers' HMAC, so it runs in browsers too
+ */
+export function hkdf(ikm: ethers.utils.BytesLike, salt: ethers.utils.BytesLike, info: ethers.utils.BytesLike, length: number): Uint8Array {
+    if (!Number.isSafeInteger(length) || length <= 0 || length > 255 * 32) {
+        throw new VaultSDKError('INVALID_CONFIGURATION', 'HKDF length must be between 1 and 8160 bytes');
+    }
+    const hmac = (key: ethers.utils.BytesLike, data: ethers.utils.BytesLike) =>
+        ethers.utils.arrayify(ethers.utils.computeHmac(ethers.utils.SupportedAlgorithm.sha256, key, data));
+
+    const prk = hmac(ethers.utils.arrayify(salt).length > 0 ? salt : new Uint8Array(32), ikm);
+    const okm = new Uint8Array(length);
+    let block = new Uint8Array(0);
+    for (let i = 0; i * 32 < length; i++) {
+        block = hmac(prk, ethers.utils.concat([block, info, [i + 1]]));
+        okm.set(block.subarray(0, Math.min(32, length - i * 32)), i * 32);
+    }
+    return okm;
+}
+
+/**
+ * Stake secrets derived from one wallet signature
+ * The root seed is keccak256 of the account's EIP-712 signature over a fixed request; wallets
+ * sign deterministically (RFC 6979), so the same account gets the same seed on any device.
+ * Every secret is an HKDF sub-key of the seed. Smart contract wallets may not sign
+ * deterministically; use a keystore export for those.
+ */
+export class SecretManager {
+    private readonly seed: Uint8Array;
+    readonly account: string;
+
+    private constructor(seed: Uint8Array, account: string) {
+        this.seed = seed;
+        this.account = account;
+    }
+
+    /**
+     * Typed data the account signs, for wallets called through eth_signTypedData_v4
+     */
+    static derivationRequest(account: string): { domain: typeof SECRET_DOMAIN; types: typeof SECRET_TYPES; value: { account: string; purpose: string } } {
+        return { domain: SECRET_DOMAIN, types: SECRET_TYPES, value: { account: checkAccount(account), purpose: SECRET_PURPOSE } };
+    }
+
+    /**
+     * Ask the signer for the derivation signature
+     */
+    static async fromSigner(signer: SecretSigner): Promise<SecretManager> {
+        const account = await signer.getAddress();
+        const { domain, types, value } = SecretManager.derivationRequest(account);
+        return SecretManager.fromSignature(account, await signer._signTypedData(domain, types, value));
+    }
+
+    /**
+     * Seed from a derivation signature obtained elsewhere; it must recover to `account`
+     */
+    static fromSignature(account: string, signature: string): SecretManager {
+        const { domain, types, value } = SecretManager.derivationRequest(account);
+        let signer: string;
+        let canonical: string;
+        try {
+            canonical = ethers.utils.joinSignature(signature);
+            signer = ethers.utils.verifyTypedData(domain, types, value, canonical);
+        } catch (error) {
+            throw VaultSDKError.from(error, 'INVALID_SIGNATURE', 'Malformed derivation signature');
+        }
+        if (signer !== value.account) {
+            throw new VaultSDKError('INVALID_SIGNATURE', `Derivation signature is from ${signer}, not ${value.account}`);
+        }
+        return new SecretManager(ethers.utils.arrayify(ethers.utils.keccak256(canonical)), value.account);
+    }
+
+    /**
+     * Restore a manager from `exportKeystore` output
+     */
+    static async importKeystore(json: string, password: string): Promise<SecretManager> {
+        let keystore: any;
+        try {
+            keystore = JSON.parse(json);
+        } catch (error) {
+            throw new VaultSDKError('INVALID_KEYSTORE', 'Keystore is not JSON', error);
+        }
+        if (keystore?.type !== KEYSTORE_TYPE || keystore.version !== KEYSTORE_VERSION || typeof keystore.crypto !== 'object') {
+            throw new VaultSDKError('INVALID_KEYSTORE', `Not a version ${KEYSTORE_VERSION} ${KEYSTORE_TYPE} keystore`);
+        }
+
+        let wallet: ethers.Wallet;
+        try {
+            // The seed is stored as the key of a Web3 Secret Storage (scrypt, AES-128-CTR) file
+            wallet = await ethers.Wallet.fromEncryptedJson(JSON.stringify({ version: 3, crypto: keystore.crypto }), password);
+        } catch (error) {
+            throw new VaultSDKError('INVALID_KEYSTORE', 'Wrong password or corrupted keystore', error);
+        }
+        return new SecretManager(ethers.utils.arrayify(wallet.privateKey), checkAccount(keystore.account));
+    }
+
+    /**
+     * Seed encrypted under `password`; survives a browser reset and needs no wallet to restore
+     */
+    async exportKeystore(password: string, options: KeystoreOptions = {}): Promise<string> {
+        if (typeof password !== 'string' || password.length === 0) {
+            throw new VaultSDKError('INVALID_CONFIGURATION', 'Keystore password must be a non-empty string');
+        }
+        const encrypted = JSON.parse(await new ethers.Wallet(this.seed).encrypt(password, {
+            scrypt: { N: options.scryptN ?? DEFAULT_SCRYPT_N }
+        }));
+        // Only the ciphertext: the seed's secp256k1 address is not an account and would only confuse wallets
+        return JSON.stringify({ type: KEYSTORE_TYPE, version: KEYSTORE_VERSION, account: this.account, crypto: encrypted.crypto });
+    }
+
+    /**
+     * `length` bytes of HKDF output for `info`; distinct labels give independent keys
+     */
+    deriveKey(info: string, length = 32): Uint8Array {
+        return hkdf(this.seed, HKDF_SALT, ethers.utils.toUtf8Bytes(info), length);
+    }
+
+    /**
+     * userSecret of the `stake_proof` circuit
+     */
+    userSecret(): bigint {
+        return this.fieldKey('user-secret');
+    }
+
+    /**
+     * Secret and nonce of the account's `index`-th stake note
+     */
+    noteSecrets(index: number): { secret: bigint; nonce: bigint } {
+        if (!Number.isSafeInteger(index) || index < 0) {
+            throw new VaultSDKError('INVALID_CONFIGURATION', 'Note index must be a non-negative integer');
+        }
+        return { secret: this.fieldKey(`note/${index}/secret`), nonce: this.fieldKey(`note/${index}/nonce`) };
+    }
+
+    /**
+     * The `index`-th stake note of the account; recreating it later gives the same commitment
+     */
+    createNote(index: number, amount: FieldInput, amountBits?: number): StakeNote {
+        return createStakeNote({ amount, owner: this.account, amountBits, ...this.noteSecrets(index) });
+    }
+
+    // 31 bytes stay below the scalar field, like the random secrets of createStakeNote
+    private fieldKey(info: string): bigint {
+        return reduceToField(this.deriveKey(info, 31));
+    }
+}
+
+function checkAccount(account: string): string {
+    if (typeof account !== 'string' || !ethers.utils.isAddress(account)) {
+        throw new VaultSDKError('INVALID_CONFIGURATION', 'account must be a 0x address');
+    }
+    return ethers.utils.getAddress(account);
+}
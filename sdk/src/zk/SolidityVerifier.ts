@@ -0,0 +1,159 @@
+import { VaultSDKError } from '../errors';
+import { Groth16VerificationKey } from '../types';
+import { BN254_BASE_FIELD, Groth16Verifier } from './Groth16Verifier';
+import { SNARK_SCALAR_FIELD } from './Poseidon';
+
+export interface SolidityVerifierOptions {
+    contractName?: string;             // Default: Groth16Verifier
+    pragma?: string;                   // Default: ^0.8.19, the version the contracts package compiles with
+    license?: string;                  // SPDX identifier, default MIT
+}
+
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+/**
+ * Emit a Groth16 verifier contract for a snarkjs `verification_key.json`
+ *
+ * The contract checks the same equation as `Groth16Verifier` through the BN254 precompiles:
+ * `verifyProof(uint[2] _pA, uint[2][2] _pB, uint[2] _pC, uint[nPublic] _pubSignals)` takes the
+ * calldata layout of the proof generators and returns false (never reverts) for invalid proofs.
+ * Key coordinates are written as decimal literals, with G2 pairs in precompile order [c1, c0].
+ */
+export function generateSolidityVerifier(verificationKey: Groth16VerificationKey, options: SolidityVerifierOptions = {}): string {
+    const contractName = options.contractName ?? 'Groth16Verifier';
+    if (!IDENTIFIER.test(contractName)) {
+        throw new VaultSDKError('INVALID_CONFIGURATION', `Invalid Solidity contract name: ${contractName}`);
+    }
+
+    // Only keys the TS verifier accepts are emitted: on-curve points, canonical coordinates, nPublic + 1 IC points
+    new Groth16Verifier(verificationKey);
+    const { nPublic } = verificationKey;
+    if (nPublic < 1) {
+        throw new VaultSDKError('INVALID_CONFIGURATION', 'Solidity verifiers need at least one public signal (uint[0] is not valid Solidity)');
+    }
+
+    const constants = [
+        ...g1Constants('ALPHA', verificationKey.vk_alpha_1),
+        ...g2Constants('BETA', verificationKey.vk_beta_2),
+        ...g2Constants('GAMMA', verificationKey.vk_gamma_2),
+        ...g2Constants('DELTA', verificationKey.vk_delta_2),
+        ...verificationKey.IC.flatMap((point, i) => g1Constants(`IC${i}`, point))
+    ];
+
+    const accumulate = Array.from({ length: nPublic }, (_, i) => [
+        `        if (_pubSignals[${i}] >= SNARK_SCALAR_FIELD || !accumulate(vkX, IC${i + 1}_X, IC${i + 1}_Y, _pubSignals[${i}])) {`,
+        '            return false;',
+        '        }'
+    ].join('\n'));
+
+    const pairingInput = [
+        '_pA[0]', '(BASE_FIELD - _pA[1]) % BASE_FIELD', '_pB[0][0]', '_pB[0][1]', '_pB[1][0]', '_pB[1][1]',
+        'vkX[0]', 'vkX[1]', 'GAMMA_X1', 'GAMMA_X0', 'GAMMA_Y1', 'GAMMA_Y0',
+        '_pC[0]', '_pC[1]', 'DELTA_X1', 'DELTA_X0', 'DELTA_Y1', 'DELTA_Y0',
+        'ALPHA_X', 'ALPHA_Y', 'BETA_X1', 'BETA_X0', 'BETA_Y1', 'BETA_Y0'
+    ].map((value, i) => `        input[${i}] = ${value};`);
+
+    return `// SPDX-License-Identifier: ${options.license ?? 'MIT'}
+// Generated by generateSolidityVerifier (@vault/sdk) from a Groth16 verification key. Do not edit:
+// regenerate with \`npm run generate:verifier\` in sdk/ after every trusted setup.
+pragma solidity ${options.pragma ?? '^0.8.19'};
+
+/**
+ * @title ${contractName}
+ * @dev Groth16 verifier on BN254 for a circuit with ${nPublic} public signal${nPublic === 1 ? '' : 's'}
+ */
+contract ${contractName} {
+    uint256 internal constant SNARK_SCALAR_FIELD = ${SNARK_SCALAR_FIELD};
+    uint256 internal constant BASE_FIELD = ${BN254_BASE_FIELD};
+
+    // Verification key; G2 coordinates are in precompile order (c1 before c0)
+${constants.map(([name, value]) => `    uint256 internal constant ${name} = ${value};`).join('\n')}
+
+    /**
+     * @dev Checks e(A, B) = e(alpha, beta) * e(vk_x, gamma) * e(C, delta)
+     * @param _pA Proof point A
+     * @param _pB Proof point B, coordinate pairs ordered [c1, c0]
+     * @param _pC Proof point C
+     * @param _pubSignals Public signals in circuit order (outputs first)
+     * @return True for a valid proof; false for an invalid proof or malformed input
+     */
+    function verifyProof(
+        uint[2] memory _pA,
+        uint[2][2] memory _pB,
+        uint[2] memory _pC,
+        uint[${nPublic}] memory _pubSignals
+    ) public view returns (bool) {
+        // Step 1: Canonical coordinates, no point at infinity (the precompiles check curve and subgroup membership)
+        if (!isG1(_pA) || !isG2(_pB) || !isG1(_pC)) {
+            return false;
+        }
+
+        // Step 2: vk_x = IC0 + sum(signal_i * IC_i), every signal below the scalar field
+        uint256[2] memory vkX = [IC0_X, IC0_Y];
+${accumulate.join('\n')}
+
+        // Step 3: e(-A, B) * e(vk_x, gamma) * e(C, delta) * e(alpha, beta) == 1
+        uint256[24] memory input;
+${pairingInput.join('\n')}
+        return pairing(input);
+    }
+
+    function isG1(uint[2] memory p) private pure returns (bool) {
+        return p[0] < BASE_FIELD && p[1] < BASE_FIELD && (p[0] | p[1]) != 0;
+    }
+
+    function isG2(uint[2][2] memory p) private pure returns (bool) {
+        return p[0][0] < BASE_FIELD && p[0][1] < BASE_FIELD && p[1][0] < BASE_FIELD && p[1][1] < BASE_FIELD
+            && (p[0][0] | p[0][1] | p[1][0] | p[1][1]) != 0;
+    }
+
+    /**
+     * @dev acc += scalar * (x, y) with the ecMul (0x07) and ecAdd (0x06) precompiles
+     */
+    function accumulate(uint256[2] memory acc, uint256 x, uint256 y, uint256 scalar) private view returns (bool ok) {
+        uint256[4] memory buffer;
+        buffer[0] = x;
+        buffer[1] = y;
+        buffer[2] = scalar;
+        assembly {
+            ok := staticcall(gas(), 0x07, buffer, 0x60, buffer, 0x40)
+        }
+        if (!ok) {
+            return false;
+        }
+        buffer[2] = acc[0];
+        buffer[3] = acc[1];
+        assembly {
+            ok := staticcall(gas(), 0x06, buffer, 0x80, acc, 0x40)
+        }
+    }
+
+    /**
+     * @dev ecPairing (0x08) over four (G1, G2) pairs
+     */
+    function pairing(uint256[24] memory input) private view returns (bool) {
+        uint256[1] memory out;
+        bool ok;
+        assembly {
+            ok := staticcall(gas(), 0x08, input, 0x300, out, 0x20)
+        }
+        return ok && out[0] == 1;
+    }
+}
+`;
+}
+
+function g1Constants(name: string, [x, y]: string[]): [string, string][] {
+    return [[`${name}_X`, decimal(x)], [`${name}_Y`, decimal(y)]];
+}
+
+function g2Constants(name: string, [[x0, x1], [y0, y1]]: string[][]): [string, string][] {
+    return [[`${name}_X1`, decimal(x1)], [`${name}_X0`, decimal(x0)], [`${name}_Y1`, decimal(y1)], [`${name}_Y0`, decimal(y0)]];
+}
+
+/**
+ * Key values may be decimal or 0x-hex strings; Solidity gets the decimal value
+ */
+function decimal(value: string): string {
+    return BigInt(value).toString();
+}
@@ -0,0 +1,75 @@
+import { ethers } from 'ethers';
+import { VaultSDKError, ZKProofError } from '../errors';
+import { FieldInput, computeNullifier, reduceToField, toFieldElement } from './Nullifier';
+import { getPoseidon } from './Poseidon';
+import { MAX_UINT_BITS } from './ZKCircuit';
+
+/**
+ * Default width of stake amounts: the note circuit range-checks them for its 64-bit comparator
+ * Range proof circuits take wider amounts; create those notes with `amountBits`.
+ */
+export const STAKE_AMOUNT_BITS = 64;
+
+/**
+ * A stake as its owner keeps it; only the commitment goes into the stake tree
+ */
+export interface StakeNote {
+    amount: bigint;
+    secret: bigint;                    // Nullifier seed, never revealed
+    nonce: bigint;                     // Keeps leaves distinct
+    owner: bigint;                     // Staker address as a field element
+}
+
+export interface StakeNoteParams {
+    amount: FieldInput;
+    owner: FieldInput;                 // e.g. a 0x address
+    secret?: FieldInput;               // Default: 31 random bytes
+    nonce?: FieldInput;                // Default: 31 random bytes
+    amountBits?: number;               // Default: STAKE_AMOUNT_BITS, at most 252
+}
+
+/**
+ * Create a note; secret and nonce are drawn at random unless given
+ */
+export function createStakeNote(params: StakeNoteParams): StakeNote {
+    const amountBits = params.amountBits ?? STAKE_AMOUNT_BITS;
+    if (!Number.isInteger(amountBits) || amountBits < 1 || amountBits > MAX_UINT_BITS) {
+        throw new VaultSDKError('INVALID_CONFIGURATION', `amountBits must be between 1 and ${MAX_UINT_BITS}`);
+    }
+    const note = toStakeNote({
+        ...params,
+        secret: params.secret ?? reduceToField(ethers.utils.randomBytes(31)),
+        nonce: params.nonce ?? reduceToField(ethers.utils.randomBytes(31))
+    });
+    if (note.amount >> BigInt(amountBits) !== BigInt(0)) {
+        throw new ZKProofError('CONSTRAINT_VIOLATION', `amount does not fit in ${amountBits} bits`);
+    }
+    return note;
+}
+
+/**
+ * Stake tree leaf of `circuits/stake_note_proof.circom`: Poseidon(amount, secret, nonce, owner)
+ * Any amount in the field hashes; the circuit that proves the note checks its width.
+ */
+export async function createCommitment(note: StakeNote): Promise<bigint> {
+    const { amount, secret, nonce, owner } = toStakeNote(note);
+    const poseidon = await getPoseidon();
+    return poseidon([amount, secret, nonce, owner]);
+}
+
+/**
+ * Nullifier of a note in one scope: Poseidon(secret, externalNullifier), independent of the amount
+ * Scopes come from `appScope` / `epochScope`; the same note gets unlinkable nullifiers in each.
+ */
+export async function computeNoteNullifier(note: Pick<StakeNote, 'secret'>, externalNullifier: FieldInput): Promise<bigint> {
+    return computeNullifier(note.secret, externalNullifier);
+}
+
+function toStakeNote(params: Omit<Required<StakeNoteParams>, 'amountBits'>): StakeNote {
+    return {
+        amount: toFieldElement(params.amount, 'amount'),
+        secret: toFieldElement(params.secret, 'secret'),
+        nonce: toFieldElement(params.nonce, 'nonce'),
+        owner: toFieldElement(params.owner, 'owner')
+    };
+}
@@ -0,0 +1,160 @@
+import { ZKProofError } from '../errors';
+import { Logger } from '../logging/Logger';
+import { IncrementalPoseidonTree, STAKE_TREE_LEVELS } from '../merkle/IncrementalPoseidonTree';
+import { computeNullifier, computeStakeLeaf } from './Nullifier';
+import { STAKE_AMOUNT_BITS, computeNoteNullifier, createCommitment } from './StakeNote';
+import { CircuitInputSchema, NormalizedCircuitInputs, ZKCircuit, defineCircuit } from './ZKCircuit';
+
+// Circuit names, as in the artifact manifest; kept here so the descriptors load without fs
+export const STAKE_PROOF_CIRCUIT = 'stake_proof';
+export const STAKE_NOTE_PROOF_CIRCUIT = 'stake_note_proof';
+export const STAKE_BOUND_PROOF_CIRCUIT = 'stake_bound_proof';
+export const STAKE_RANGE_PROOF_CIRCUIT = 'stake_range_proof';     // Family prefix: `stake_range_proof_<bits>`
+
+/**
+ * `circuits/stake_proof.circom`: actualAmount >= minAmount for a leaf Poseidon(actualAmount, userSecret)
+ * of the stake tree, with nullifierHash = Poseidon(userSecret, externalNullifier)
+ */
+export const stakeProofCircuit: ZKCircuit = defineCircuit({
+    name: STAKE_PROOF_CIRCUIT,
+    inputs: {
+        actualAmount: { type: 'uint', bits: 64 },      // GreaterEqThan(64)
+        userSecret: { type: 'field' },
+        merklePathElements: { type: 'field', length: STAKE_TREE_LEVELS },
+        merklePathIndices: { type: 'bit', length: STAKE_TREE_LEVELS },
+        minAmount: { type: 'uint', bits: 64, public: true },
+        merkleRoot: { type: 'field', public: true },
+        nullifierHash: { type: 'field', public: true },
+        externalNullifier: { type: 'field', public: true }
+    },
+    publicSignals: ['valid', 'minAmount', 'merkleRoot', 'nullifierHash', 'externalNullifier'],
+
+    async checkConstraints(inputs: NormalizedCircuitInputs, logger: Logger): Promise<void> {
+        logger.debug('Checking circuit constraints', { circuit: STAKE_PROOF_CIRCUIT });
+
+        // CONSTRAINT 1: actualAmount >= minAmount
+        if (BigInt(inputs.actualAmount as string) < BigInt(inputs.minAmount as string)) {
+            throw new ZKProofError('CONSTRAINT_VIOLATION', 'CONSTRAINT VIOLATION: actualAmount < minAmount');
+        }
+        logger.debug('Constraint satisfied', { constraint: 'actualAmount >= minAmount' });
+
+        // CONSTRAINT 2: Merkle inclusion of the leaf, hashed like the circuit's MerkleTreeChecker
+        const merkleValid = await IncrementalPoseidonTree.verifyPath({
+            leaf: await computeStakeLeaf(inputs.actualAmount as string, inputs.userSecret as string),
+            pathElements: (inputs.merklePathElements as string[]).map(BigInt),
+            pathIndices: (inputs.merklePathIndices as string[]).map(Number),
+            root: BigInt(inputs.merkleRoot as string)
+        });
+        if (!merkleValid) {
+            throw new ZKProofError('INVALID_MERKLE_PROOF', 'CONSTRAINT VIOLATION: Invalid Merkle inclusion proof');
+        }
+        logger.debug('Constraint satisfied', { constraint: 'merkle inclusion' });
+
+        // CONSTRAINT 3: nullifier computation
+        const expectedNullifier = await computeNullifier(inputs.userSecret as string, inputs.externalNullifier as string);
+        if (expectedNullifier.toString() !== inputs.nullifierHash) {
+            throw new ZKProofError('CONSTRAINT_VIOLATION', 'CONSTRAINT VIOLATION: Invalid nullifier hash');
+        }
+        logger.debug('Constraint satisfied', { constraint: 'nullifier' });
+    }
+});
+
+const noteInputs: CircuitInputSchema = {
+    amount: { type: 'uint', bits: STAKE_AMOUNT_BITS },
+    secret: { type: 'field' },
+    nonce: { type: 'field' },
+    owner: { type: 'field' },
+    merklePathElements: { type: 'field', length: STAKE_TREE_LEVELS },
+    merklePathIndices: { type: 'bit', length: STAKE_TREE_LEVELS },
+    minAmount: { type: 'uint', bits: STAKE_AMOUNT_BITS, public: true },
+    merkleRoot: { type: 'field', public: true },
+    nullifierHash: { type: 'field', public: true },
+    externalNullifier: { type: 'field', public: true }
+};
+
+/**
+ * `circuits/stake_note_proof.circom`: a note committed in the stake tree holds amount >= minAmount,
+ * with leaf = Poseidon(amount, secret, nonce, owner) and nullifierHash = Poseidon(secret, externalNullifier)
+ */
+export const stakeNoteProofCircuit: ZKCircuit = defineCircuit({
+    name: STAKE_NOTE_PROOF_CIRCUIT,
+    inputs: noteInputs,
+    publicSignals: ['valid', 'minAmount', 'merkleRoot', 'nullifierHash', 'externalNullifier'],
+    checkConstraints: (inputs, logger) => checkNoteConstraints(STAKE_NOTE_PROOF_CIRCUIT, inputs, logger)
+});
+
+/**
+ * `circuits/stake_bound_proof.circom`: the note proof with its recipient and chain ID as public inputs
+ */
+export const stakeBoundProofCircuit: ZKCircuit = defineCircuit({
+    name: STAKE_BOUND_PROOF_CIRCUIT,
+    inputs: {
+        ...noteInputs,
+        recipient: { type: 'uint', bits: 160, public: true },
+        chainId: { type: 'field', public: true }
+    },
+    publicSignals: ['valid', 'minAmount', 'merkleRoot', 'nullifierHash', 'recipient', 'chainId', 'externalNullifier'],
+    checkConstraints: (inputs, logger) => checkNoteConstraints(STAKE_BOUND_PROOF_CIRCUIT, inputs, logger)
+});
+
+/**
+ * Widths with a main component in `circuits/`: `stake_range_proof_128.circom` and `stake_range_proof_252.circom`
+ */
+export const STAKE_RANGE_PROOF_BITS = [128, 252] as const;
+
+/**
+ * `circuits/range.circom`: a note committed in the stake tree holds minAmount <= amount <= maxAmount,
+ * with amount and both bounds `bits` wide (at most 252)
+ * Named `stake_range_proof_<bits>`; other widths need their own main component and build.
+ */
+export function stakeRangeProofCircuit(bits: number): ZKCircuit {
+    const name = `${STAKE_RANGE_PROOF_CIRCUIT}_${bits}`;
+    return defineCircuit({
+        name,
+        inputs: {
+            ...noteInputs,
+            amount: { type: 'uint', bits },
+            minAmount: { type: 'uint', bits, public: true },
+            maxAmount: { type: 'uint', bits, public: true }
+        },
+        publicSignals: ['valid', 'minAmount', 'maxAmount', 'merkleRoot', 'nullifierHash', 'externalNullifier'],
+        checkConstraints: (inputs, logger) => checkNoteConstraints(name, inputs, logger)
+    });
+}
+
+async function checkNoteConstraints(circuit: string, inputs: NormalizedCircuitInputs, logger: Logger): Promise<void> {
+    logger.debug('Checking circuit constraints', { circuit });
+    const note = {
+        amount: BigInt(inputs.amount as string),
+        secret: BigInt(inputs.secret as string),
+        nonce: BigInt(inputs.nonce as string),
+        owner: BigInt(inputs.owner as string)
+    };
+
+    // CONSTRAINT 1: amount >= minAmount, and amount <= maxAmount for range proofs
+    if (note.amount < BigInt(inputs.minAmount as string)) {
+        throw new ZKProofError('CONSTRAINT_VIOLATION', 'CONSTRAINT VIOLATION: amount < minAmount');
+    }
+    if (inputs.maxAmount !== undefined && note.amount > BigInt(inputs.maxAmount as string)) {
+        throw new ZKProofError('CONSTRAINT_VIOLATION', 'CONSTRAINT VIOLATION: amount > maxAmount');
+    }
+    logger.debug('Constraint satisfied', { constraint: inputs.maxAmount === undefined ? 'amount >= minAmount' : 'minAmount <= amount <= maxAmount' });
+
+    // CONSTRAINT 2: the note commitment is a leaf of the stake tree
+    const merkleValid = await IncrementalPoseidonTree.verifyPath({
+        leaf: await createCommitment(note),
+        pathElements: (inputs.merklePathElements as string[]).map(BigInt),
+        pathIndices: (inputs.merklePathIndices as string[]).map(Number),
+        root: BigInt(inputs.merkleRoot as string)
+    });
+    if (!merkleValid) {
+        throw new ZKProofError('INVALID_MERKLE_PROOF', 'CONSTRAINT VIOLATION: Note commitment is not in the stake tree');
+    }
+    logger.debug('Constraint satisfied', { constraint: 'commitment inclusion' });
+
+    // CONSTRAINT 3: the nullifier belongs to the note, in this scope
+    if ((await computeNoteNullifier(note, inputs.externalNullifier as string)).toString() !== inputs.nullifierHash) {
+        throw new ZKProofError('CONSTRAINT_VIOLATION', 'CONSTRAINT VIOLATION: Invalid nullifier hash');
+    }
+    logger.debug('Constraint satisfied', { constraint: 'nullifier' });
+}
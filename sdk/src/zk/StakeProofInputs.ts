@@ -0,0 +1,99 @@
+import { ethers } from 'ethers';
+import { ZKProofError } from '../errors';
+import { PoseidonMerklePath } from '../merkle/IncrementalPoseidonTree';
+import { FieldInput, toFieldElement } from './Nullifier';
+import { StakeNote, computeNoteNullifier } from './StakeNote';
+import { stakeRangeProofCircuit } from './StakeProofCircuit';
+import { CircuitInputs, normalizeCircuitInputs } from './ZKCircuit';
+
+/**
+ * Account and chain a bound proof is usable by: contracts require recipient == msg.sender
+ * and chainId == block.chainid
+ */
+export interface RecipientBinding {
+    recipient: string;                 // 0x address
+    chainId: FieldInput;
+}
+
+export type NoteMerklePath = Pick<PoseidonMerklePath, 'pathElements' | 'pathIndices' | 'root'>;
+
+/**
+ * Inclusive bounds of a range proof
+ */
+export interface AmountRange {
+    minAmount: FieldInput;
+    maxAmount: FieldInput;
+}
+
+/**
+ * Inputs of the `stake_note_proof` circuit for a note, its stake tree path and the nullifier scope
+ */
+export async function buildNoteProofInputs(
+    note: StakeNote,
+    merklePath: NoteMerklePath,
+    minAmount: FieldInput,
+    externalNullifier: FieldInput
+): Promise<CircuitInputs> {
+    return {
+        amount: note.amount,
+        secret: note.secret,
+        nonce: note.nonce,
+        owner: note.owner,
+        merklePathElements: merklePath.pathElements,
+        merklePathIndices: merklePath.pathIndices,
+        minAmount,
+        merkleRoot: merklePath.root,
+        nullifierHash: await computeNoteNullifier(note, externalNullifier),
+        externalNullifier
+    };
+}
+
+/**
+ * Inputs of the `stake_bound_proof` circuit: the note proof plus its recipient and chain ID
+ */
+export async function buildBoundNoteProofInputs(
+    note: StakeNote,
+    merklePath: NoteMerklePath,
+    minAmount: FieldInput,
+    externalNullifier: FieldInput,
+    binding: RecipientBinding
+): Promise<CircuitInputs> {
+    return { ...(await buildNoteProofInputs(note, merklePath, minAmount, externalNullifier)), ...recipientSignals(binding) };
+}
+
+/**
+ * Inputs of the `stake_range_proof_<bits>` circuit, checked against its schema before any proving
+ * The amount and both bounds must fit in `bits` (CONSTRAINT_VIOLATION); an empty range fails with
+ * INVALID_CIRCUIT_INPUT, since no amount could satisfy it.
+ */
+export async function buildRangeProofInputs(
+    note: StakeNote,
+    merklePath: NoteMerklePath,
+    range: AmountRange,
+    externalNullifier: FieldInput,
+    bits: number
+): Promise<CircuitInputs> {
+    const circuit = stakeRangeProofCircuit(bits);
+    const inputs = normalizeCircuitInputs(circuit, {
+        ...(await buildNoteProofInputs(note, merklePath, range.minAmount, externalNullifier)),
+        maxAmount: range.maxAmount
+    });
+    if (BigInt(inputs.minAmount as string) > BigInt(inputs.maxAmount as string)) {
+        throw new ZKProofError('INVALID_CIRCUIT_INPUT', 'minAmount exceeds maxAmount');
+    }
+    return inputs;
+}
+
+/**
+ * Public signals of a binding: the recipient as uint160, the chain ID as a positive integer
+ */
+export function recipientSignals(binding: RecipientBinding): { recipient: bigint; chainId: bigint } {
+    if (typeof binding?.recipient !== 'string' || !ethers.utils.isAddress(binding.recipient)) {
+        throw new ZKProofError('INVALID_CIRCUIT_INPUT', 'recipient must be a 0x address');
+    }
+    const chainId = toFieldElement(binding.chainId, 'chainId');
+    if (chainId === BigInt(0)) {
+        throw new ZKProofError('INVALID_CIRCUIT_INPUT', 'chainId must be positive');
+    }
+    return { recipient: BigInt(binding.recipient), chainId };
+}
@@ -0,0 +1,169 @@
+import { VaultSDKError, ZKProofError } from '../errors';
+import { Logger } from '../logging/Logger';
+import { Groth16VerificationKey, SolidityGroth16Proof } from '../types';
+import { ArtifactSource } from './ArtifactSource';
+import { FieldInput, toFieldElement } from './Nullifier';
+
+/**
+ * Kind of value a circuit input signal carries
+ * - field: any canonical BN254 scalar
+ * - uint: integer below 2^bits, for inputs that feed comparators or Num2Bits
+ * - bit: 0 or 1, e.g. Merkle path indices
+ */
+export type CircuitSignalType = 'field' | 'uint' | 'bit';
+
+export interface CircuitInputSpec {
+    type: CircuitSignalType;
+    bits?: number;                     // uint only: width the circuit range-checks (at most 252)
+    length?: number;                   // Fixed-size array input when set
+    public?: boolean;                  // Listed in `component main {public [...]}`
+}
+
+export type CircuitInputSchema = Record<string, CircuitInputSpec>;
+
+/**
+ * Inputs keyed by signal name; arrays for inputs declared with a length
+ */
+export type CircuitInputs = Record<string, FieldInput | FieldInput[]>;
+
+/**
+ * Inputs after schema checks, as decimal strings for snarkjs
+ */
+export type NormalizedCircuitInputs = Record<string, string | string[]>;
+
+/**
+ * Explicit artifact sources; anything left out comes from the manifest entry named after the circuit
+ */
+export interface ZKCircuitArtifacts {
+    wasm?: ArtifactSource;
+    zkey?: ArtifactSource;
+    verificationKey?: ArtifactSource | Groth16VerificationKey;
+}
+
+/**
+ * Arguments of the circuit's Solidity verifier call
+ */
+export type SolidityFormatter = (proof: SolidityGroth16Proof, publicSignals: string[]) => unknown[];
+
+/**
+ * Everything the prover and verifier need to know about one circom circuit
+ */
+export interface ZKCircuit {
+    name: string;                      // Manifest key, e.g. `stake_proof`
+    inputs: CircuitInputSchema;
+    publicSignals: readonly string[];  // snarkjs order: outputs first, then public inputs as listed in main
+    artifacts?: ZKCircuitArtifacts;
+    /**
+     * Check the circuit's constraints before proving, to fail with SDK error codes instead of a witness assert
+     */
+    checkConstraints?(inputs: NormalizedCircuitInputs, logger: Logger): Promise<void>;
+    toSolidity?: SolidityFormatter;
+}
+
+/**
+ * Widest uint a circuit can compare: circomlib's LessThan needs 2^bits plus a value to fit the field
+ */
+export const MAX_UINT_BITS = 252;
+
+const NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Validate a circuit descriptor: signal names, uint widths and a public signal layout that
+ * names every public input exactly once
+ */
+export function defineCircuit<T extends ZKCircuit>(circuit: T): T {
+    const invalid = (message: string) => new VaultSDKError('INVALID_CONFIGURATION', `Circuit ${circuit?.name}: ${message}`);
+
+    if (typeof circuit?.name !== 'string' || !NAME.test(circuit.name)) {
+        throw invalid('name must be an identifier');
+    }
+    for (const [name, spec] of Object.entries(circuit.inputs ?? {})) {
+        if (!NAME.test(name) || !['field', 'uint', 'bit'].includes(spec?.type)) {
+            throw invalid(`input ${name} needs an identifier name and a field, uint or bit type`);
+        }
+        if (spec.type === 'uint' && (!Number.isInteger(spec.bits) || (spec.bits as number) < 1 || (spec.bits as number) > MAX_UINT_BITS)) {
+            throw invalid(`uint input ${name} needs a bit width between 1 and ${MAX_UINT_BITS}`);
+        }
+        if (spec.length !== undefined && (!Number.isInteger(spec.length) || spec.length < 1)) {
+            throw invalid(`input ${name} has an invalid array length`);
+        }
+    }
+
+    const layout = circuit.publicSignals;
+    if (!Array.isArray(layout) || layout.length === 0 || new Set(layout).size !== layout.length) {
+        throw invalid('public signal layout must list distinct names');
+    }
+    for (const [name, spec] of Object.entries(circuit.inputs)) {
+        if (spec.public && !layout.includes(name)) {
+            throw invalid(`public input ${name} is missing from the public signal layout`);
+        }
+        if (!spec.public && layout.includes(name)) {
+            throw invalid(`private input ${name} is in the public signal layout`);
+        }
+    }
+    return circuit;
+}
+
+/**
+ * Check inputs against the circuit's schema and convert them for snarkjs
+ * - missing, unknown or wrongly sized inputs: INVALID_CIRCUIT_INPUT
+ * - values outside the field: NON_CANONICAL_FIELD_ELEMENT
+ * - uint wider than its bits, or a bit that is not 0/1: CONSTRAINT_VIOLATION
+ */
+export function normalizeCircuitInputs(circuit: ZKCircuit, inputs: CircuitInputs): NormalizedCircuitInputs {
+    const unknown = Object.keys(inputs ?? {}).filter(name => !(name in circuit.inputs));
+    if (unknown.length > 0) {
+        throw new ZKProofError('INVALID_CIRCUIT_INPUT', `Circuit ${circuit.name} has no input ${unknown.join(', ')}`);
+    }
+
+    const normalized: NormalizedCircuitInputs = {};
+    for (const [name, spec] of Object.entries(circuit.inputs)) {
+        const value = inputs[name];
+        if (value === undefined || value === null) {
+            throw new ZKProofError('INVALID_CIRCUIT_INPUT', `Circuit ${circuit.name} needs input ${name}`);
+        }
+        if (spec.length === undefined) {
+            if (Array.isArray(value)) {
+                throw new ZKProofError('INVALID_CIRCUIT_INPUT', `Input ${name} of circuit ${circuit.name} is a single value`);
+            }
+            normalized[name] = signalValue(value, spec, name);
+            continue;
+        }
+        if (!Array.isArray(value) || value.length !== spec.length) {
+            throw new ZKProofError('INVALID_CIRCUIT_INPUT', `Input ${name} of circuit ${circuit.name} needs ${spec.length} values`);
+        }
+        normalized[name] = value.map((element, i) => signalValue(element, spec, `${name}[${i}]`));
+    }
+    return normalized;
+}
+
+/**
+ * Public signals by layout name; the count must match the layout exactly
+ */
+export function namePublicSignals(circuit: ZKCircuit, publicSignals: readonly string[]): Record<string, string> {
+    if (!Array.isArray(publicSignals) || publicSignals.length !== circuit.publicSignals.length) {
+        throw new ZKProofError(
+            'INVALID_PUBLIC_INPUTS',
+            `Circuit ${circuit.name} has ${circuit.publicSignals.length} public signals, got ${Array.isArray(publicSignals) ? publicSignals.length : 'none'}`
+        );
+    }
+    return Object.fromEntries(circuit.publicSignals.map((name, i) => [name, publicSignals[i]]));
+}
+
+/**
+ * Default Solidity formatter: `verifyProof(_pA, _pB, _pC, _pubSignals)` of `generateSolidityVerifier` contracts
+ */
+export function solidityCalldata(proof: SolidityGroth16Proof, publicSignals: string[]): unknown[] {
+    return [proof.a, proof.b, proof.c, publicSignals];
+}
+
+function signalValue(value: FieldInput, spec: CircuitInputSpec, name: string): string {
+    const element = toFieldElement(value, name);
+    if (spec.type === 'bit' && element > BigInt(1)) {
+        throw new ZKProofError('CONSTRAINT_VIOLATION', `${name} must be 0 or 1`);
+    }
+    if (spec.type === 'uint' && element >> BigInt(spec.bits as number) !== BigInt(0)) {
+        throw new ZKProofError('CONSTRAINT_VIOLATION', `${name} does not fit in ${spec.bits} bits`);
+    }
+    return element.toString();
+}
@@ -0,0 +1,165 @@
+import { bn254 } from '@noble/curves/bn254';
+import { ZKProofError } from '../errors';
+import { Groth16VerificationKey } from '../types';
+
+const ZKEY_MAGIC = 'zkey';
+const GROTH16_PROTOCOL = 1;
+const SECTION_HEADER = 1;
+const SECTION_GROTH16_HEADER = 2;
+const SECTION_IC = 3;
+
+/**
+ * Read the verification key embedded in a snarkjs Groth16 `.zkey`
+ * Same result as `snarkjs.zKey.exportVerificationKey`, without building the snarkjs curve (and its workers).
+ */
+export function readZkeyVerificationKey(zkey: Uint8Array): Groth16VerificationKey {
+    const sections = readSections(zkey);
+
+    const header = section(sections, SECTION_HEADER);
+    if (header.byteLength < 4 || header.getUint32(0, true) !== GROTH16_PROTOCOL) {
+        throw new ZKProofError('INVALID_PROOF_STRUCTURE', 'zkey is not a Groth16 proving key');
+    }
+
+    const groth16 = new Reader(section(sections, SECTION_GROTH16_HEADER));
+    const n8q = groth16.uint32();
+    const q = groth16.scalar(n8q);
+    const n8r = groth16.uint32();
+    groth16.scalar(n8r);
+    if (q !== bn254.fields.Fp.ORDER) {
+        throw new ZKProofError('INVALID_PROOF_STRUCTURE', 'zkey is not over the BN254 curve');
+    }
+    groth16.uint32(); // nVars
+    const nPublic = groth16.uint32();
+    groth16.uint32(); // domainSize
+
+    const field = new MontgomeryField(q, n8q);
+    const vk_alpha_1 = field.g1(groth16);
+    field.g1(groth16); // beta_1
+    const vk_beta_2 = field.g2(groth16);
+    const vk_gamma_2 = field.g2(groth16);
+    field.g1(groth16); // delta_1
+    const vk_delta_2 = field.g2(groth16);
+
+    const ic = new Reader(section(sections, SECTION_IC));
+    const IC = Array.from({ length: nPublic + 1 }, () => field.g1(ic));
+
+    return { protocol: 'groth16', curve: 'bn128', nPublic, vk_alpha_1, vk_beta_2, vk_gamma_2, vk_delta_2, IC };
+}
+
+/**
+ * Compare two verification keys by their points, ignoring number formatting
+ */
+export function sameVerificationKey(a: Groth16VerificationKey, b: Groth16VerificationKey): boolean {
+    const canonical = (key: Groth16VerificationKey) => JSON.stringify(
+        [key.vk_alpha_1, key.vk_beta_2, key.vk_gamma_2, key.vk_delta_2, ...key.IC],
+        (_, value) => (typeof value === 'string' ? BigInt(value).toString() : value)
+    );
+    return a.nPublic === b.nPublic && canonical(a) === canonical(b);
+}
+
+/**
+ * Binary container: "zkey", version, section count, then (type: u32, size: u64, data) sections
+ */
+function readSections(zkey: Uint8Array): Map<number, DataView> {
+    const reader = new Reader(new DataView(zkey.buffer, zkey.byteOffset, zkey.byteLength));
+    if (zkey.length < 12 || new TextDecoder().decode(zkey.subarray(0, 4)) !== ZKEY_MAGIC) {
+        throw new ZKProofError('INVALID_PROOF_STRUCTURE', 'Not a zkey file');
+    }
+    reader.skip(4);
+    reader.uint32(); // version
+    const count = reader.uint32();
+
+    const sections = new Map<number, DataView>();
+    for (let i = 0; i < count; i++) {
+        const type = reader.uint32();
+        const size = reader.uint64();
+        sections.set(type, reader.view(size));
+    }
+    return sections;
+}
+
+function section(sections: Map<number, DataView>, type: number): DataView {
+    const view = sections.get(type);
+    if (!view) {
+        throw new ZKProofError('INVALID_PROOF_STRUCTURE', `zkey is missing section ${type}`);
+    }
+    return view;
+}
+
+class Reader {
+    private offset = 0;
+
+    constructor(private data: DataView) {}
+
+    uint32(): number {
+        this.ensure(4);
+        const value = this.data.getUint32(this.offset, true);
+        this.offset += 4;
+        return value;
+    }
+
+    uint64(): number {
+        const low = this.uint32();
+        const high = this.uint32();
+        return high * 2 ** 32 + low;
+    }
+
+    /**
+     * Little-endian unsigned integer of `size` bytes
+     */
+    scalar(size: number): bigint {
+        this.ensure(size);
+        let value = BigInt(0);
+        for (let i = size - 1; i >= 0; i--) {
+            value = (value << BigInt(8)) + BigInt(this.data.getUint8(this.offset + i));
+        }
+        this.offset += size;
+        return value;
+    }
+
+    view(size: number): DataView {
+        this.ensure(size);
+        const view = new DataView(this.data.buffer, this.data.byteOffset + this.offset, size);
+        this.offset += size;
+        return view;
+    }
+
+    skip(size: number) {
+        this.ensure(size);
+        this.offset += size;
+    }
+
+    private ensure(size: number) {
+        if (this.offset + size > this.data.byteLength) {
+            throw new ZKProofError('INVALID_PROOF_STRUCTURE', 'zkey is truncated');
+        }
+    }
+}
+
+/**
+ * snarkjs stores coordinates in Montgomery form (x·R mod q, R = 2^(8·n8q)); points at infinity are all zero
+ */
+class MontgomeryField {
+    private rInverse: bigint;
+
+    constructor(private q: bigint, private n8: number) {
+        this.rInverse = bn254.fields.Fp.inv((BigInt(1) << BigInt(8 * n8)) % q);
+    }
+
+    g1(reader: Reader): string[] {
+        const [x, y] = [this.element(reader), this.element(reader)];
+        return x === BigInt(0) && y === BigInt(0) ? ['0', '1', '0'] : [x.toString(), y.toString(), '1'];
+    }
+
+    g2(reader: Reader): string[][] {
+        const [x0, x1, y0, y1] = [this.element(reader), this.element(reader), this.element(reader), this.element(reader)];
+        if ([x0, x1, y0, y1].every(value => value === BigInt(0))) {
+            return [['0', '0'], ['1', '0'], ['0', '0']];
+        }
+        return [[x0.toString(), x1.toString()], [y0.toString(), y1.toString()], ['1', '0']];
+    }
+
+    private element(reader: Reader): bigint {
+        return (reader.scalar(this.n8) * this.rInverse) % this.q;
+    }
+}
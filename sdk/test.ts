@@ -1,4 +1,115 @@
-import { AvaxCPoE, CryptoUtils } from './src/index';
+import assert from 'assert';
+import { ethers } from 'ethers';
+import fs from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { bn254 } from '@noble/curves/bn254';
+import {
+  appScope,
+  AvaxCPoE,
+  BatchProof,
+  BlockHeader,
+  buildBoundNoteProofInputs,
+  buildRangeProofInputs,
+  BN254_BASE_FIELD,
+  CircuitArtifacts,
+  CircuitProver,
+  CircuitRegistry,
+  computeNoteNullifier,
+  computeNullifier,
+  computeStakeLeaf,
+  createCommitment,
+  createStakeNote,
+  CURRENT_PROOF_VERSION,
+  ConsoleLogger,
+  CryptoUtils,
+  decodeProof,
+  defineCircuit,
+  epochAt,
+  epochScope,
+  encodeProof,
+  generateSolidityVerifier,
+  EventMatcher,
+  getPoseidon,
+  hkdf,
+  Groth16Verifier,
+  Groth16VerificationKey,
+  IncrementalPoseidonTree,
+  InMemoryValidatorSetProvider,
+  JsonLinesLogger,
+  MERKLE_PROOF_VERSION,
+  MerkleTree,
+  MerklePatriciaTrie,
+  namePublicSignals,
+  normalizeCircuitInputs,
+  PChainValidatorSetProvider,
+  PRIMARY_NETWORK_ID,
+  Proof,
+  parseBatchProof,
+  parseProof,
+  ProductionZKProofGenerator,
+  ProofCodec,
+  ProofVerificationError,
+  readZkeyVerificationKey,
+  RealZKProofGenerator,
+  recipientSignals,
+  reduceToField,
+  ReceiptTrie,
+  ReceiptTrieProof,
+  resolveArtifact,
+  RpcError,
+  SecretManager,
+  SNARK_SCALAR_FIELD,
+  StakeNote,
+  stakeProofCircuit,
+  stakeRangeProofCircuit,
+  STAKE_BOUND_PROOF_CIRCUIT,
+  STAKE_NOTE_PROOF_CIRCUIT,
+  STAKE_PROOF_CIRCUIT,
+  STAKE_RANGE_PROOF_BITS,
+  StaticValidatorSetProvider,
+  TransactionTrie,
+  validateProof,
+  VaultSDKError,
+  WarpMessage,
+  WarpSigner,
+  WarpVerifier,
+  ZKCircuit,
+  ZKProofError
+} from './src/index';
+
+/**
+ * Groth16 key and proof built from known scalars: with trapdoor access any (a, b) gives
+ * a valid proof once c = (a·b - alpha·beta - vk_x·gamma) / delta
+ */
+function groth16Fixture(publicSignals = ['5', '7']) {
+  const r: bigint = bn254.fields.Fr.ORDER;
+  const mod = (value: bigint) => ((value % r) + r) % r;
+  const g1 = (k: bigint) => { const { x, y } = bn254.G1.Point.BASE.multiply(k).toAffine(); return [x.toString(), y.toString(), '1']; };
+  const g2 = (k: bigint) => {
+    const { x, y } = bn254.G2.Point.BASE.multiply(k).toAffine();
+    return [[x.c0.toString(), x.c1.toString()], [y.c0.toString(), y.c1.toString()], ['1', '0']];
+  };
+
+  const [alpha, beta, gamma, delta, a, b] = [11, 13, 17, 19, 37, 41].map(BigInt);
+  const ic = [23, 29, 31, 43, 47, 53].slice(0, publicSignals.length + 1).map(BigInt);
+  const vkX = publicSignals.reduce((acc, signal, i) => acc + BigInt(signal) * ic[i + 1], ic[0]);
+  const c = mod((a * b - alpha * beta - vkX * gamma) * bn254.fields.Fr.inv(delta));
+
+  const verificationKey: Groth16VerificationKey = {
+    protocol: 'groth16',
+    curve: 'bn128',
+    nPublic: publicSignals.length,
+    vk_alpha_1: g1(alpha),
+    vk_beta_2: g2(beta),
+    vk_gamma_2: g2(gamma),
+    vk_delta_2: g2(delta),
+    IC: ic.map(g1)
+  };
+  return { verificationKey, proof: { pi_a: g1(a), pi_b: g2(b), pi_c: g1(c) }, publicSignals };
+}
 
 async function testAvaxCPoE() {
   console.log('🧪 Testing AVAX-CPoE SDK...\n');
@@ -36,24 +147,9 @@ async function testAvaxCPoE() {
     });
 
     // Verify the proof
-    const isValid = CryptoUtils.verifyMerkleProof(
-      merkleProof.leaf,
-      merkleProof.proof,
-      merkleProof.root,
-      merkleProof.index
-    );
+    const isValid = MerkleTree.verifyProof(merkleProof);
     console.log('✅ Merkle proof verification:', isValid ? 'VALID' : 'INVALID');
 
-    // Test block signature
-    const blockHash = '0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef';
-    const validatorSetHash = CryptoUtils.generateValidatorSetHash(12345);
-    const signature = CryptoUtils.createBlockSignature(blockHash, validatorSetHash);
-    
-    console.log('✅ Block signature created:', signature.substring(0, 20) + '...');
-    
-    const sigValid = CryptoUtils.verifyBlockSignature(blockHash, validatorSetHash, signature);
-    console.log('✅ Block signature verification:', sigValid ? 'VALID' : 'INVALID');
-
   } catch (error) {
     console.error('❌ Test failed:', error);
   }
@@ -65,5 +161,1676 @@ async function testAvaxCPoE() {
   console.log('   3. Integrate with your DeFi protocol');
 }
 
+async function testReceiptTrie() {
+  console.log('\n🌲 Testing Merkle-Patricia receipt trie...');
+
+  // Ethereum trie test vector ("dogs")
+  const utf8 = (value: string) => ethers.utils.hexlify(ethers.utils.toUtf8Bytes(value));
+  const dogs = MerklePatriciaTrie.fromEntries([
+    { key: utf8('doe'), value: utf8('reindeer') },
+    { key: utf8('dog'), value: utf8('puppy') },
+    { key: utf8('dogglesworth'), value: utf8('cat') }
+  ]);
+  assert.strictEqual(dogs.root, '0x8aad789dff2f538bca5d8ea56e8abe10f4c7ba3a5dea95fea4cd6e7c3a1168d3');
+  assert.strictEqual(MerklePatriciaTrie.fromEntries([]).root, '0x56e81f171bcc55a6ff8345e692c0f86e5b48e01b996cadc001622fb5e363b421');
+  console.log('✅ Trie root matches Ethereum test vector');
+
+  // Synthetic block with enough receipts to produce branch, extension and embedded nodes
+  const receipts = Array.from({ length: 150 }, (_, i) => ({
+    type: i % 3,
+    status: i % 7 === 0 ? 0 : 1,
+    cumulativeGasUsed: 21000 * (i + 1),
+    logsBloom: ethers.utils.hexZeroPad('0x', 256),
+    logs: Array.from({ length: i % 4 }, (_, j) => ({
+      address: ethers.utils.getAddress(ethers.utils.hexZeroPad(ethers.utils.hexlify(i + 1), 20)),
+      topics: [ethers.utils.id(`Event${j}`)],
+      data: ethers.utils.hexZeroPad(ethers.utils.hexlify(j + 1), 32)
+    }))
+  }));
+
+  const root = ReceiptTrie.build(receipts).root;
+  for (const index of [0, 1, 2, 15, 16, 127, 128, 149]) {
+    const receiptProof = ReceiptTrie.generateProof(receipts, index, 0);
+    assert.strictEqual(receiptProof.receiptsRoot, root);
+    assert.ok(ReceiptTrie.verifyProof(receiptProof, root), `receipt ${index} should verify`);
+
+    const decoded = ReceiptTrie.decodeReceipt(receiptProof.receipt);
+    assert.strictEqual(decoded.type, receipts[index].type);
+    assert.strictEqual(decoded.logs.length, receipts[index].logs.length);
+  }
+  console.log('✅ Receipt inclusion proofs verify against receipts root');
+
+  const tampered = ReceiptTrie.generateProof(receipts, 5, 0);
+  assert.ok(!ReceiptTrie.verifyProof({ ...tampered, transactionIndex: 6 }, root));
+  assert.ok(!ReceiptTrie.verifyProof(tampered, ethers.utils.id('not the root')));
+  assert.ok(!ReceiptTrie.verifyProof({ ...tampered, receipt: ReceiptTrie.encodeReceipt(receipts[6]) }, root));
+  console.log('✅ Tampered receipt proofs rejected');
+
+  // 0x7f is the highest EIP-2718 type byte; RLP lists start at 0xc0
+  const maxType = ReceiptTrie.encodeReceipt({ ...receipts[1], type: 0x7f });
+  assert.strictEqual(ReceiptTrie.decodeReceipt(maxType).type, 0x7f);
+  const nested = ethers.utils.RLP.encode(['0x2001', ['0x05']]);
+  assert.throws(
+    () => MerklePatriciaTrie.verifyProof(ethers.utils.keccak256(nested), '0x01', [nested]),
+    (error: any) => error instanceof ProofVerificationError && error.code === 'INVALID_MERKLE_PROOF'
+  );
+  console.log('✅ Type 0x7f receipts decode; list-valued trie leaves are rejected');
+
+  const signed = signedTransactions(150);
+  const transactions = signed.map(tx => TransactionTrie.encodeTransaction(tx));
+  const transactionsRoot = TransactionTrie.build(transactions).root;
+  const transactionProof = TransactionTrie.generateProof(transactions, [0, 16, 127, 149]);
+  for (const index of [0, 16, 127, 149]) {
+    assert.strictEqual(TransactionTrie.hash(transactions[index]), signed[index].hash);
+    assert.ok(TransactionTrie.verifyProof(transactionsRoot, index, transactions[index], transactionProof));
+  }
+  assert.ok(!TransactionTrie.verifyProof(transactionsRoot, 16, transactions[0], transactionProof));
+  // Mined EIP-1559 transactions carry the effective gasPrice, which is not part of the encoding
+  const mined = { ...signed[3], gasPrice: ethers.BigNumber.from(30e9) };
+  assert.strictEqual(TransactionTrie.encodeTransaction(mined), transactions[3]);
+  assert.throws(() => TransactionTrie.encodeTransaction({ ...signed[2], nonce: 99 }), /does not hash to/);
+  console.log('✅ Legacy, EIP-155, EIP-2930 and EIP-1559 transactions re-encode to their hash and verify');
+}
+
+/**
+ * Offline-signed transactions cycling through pre-EIP-155, EIP-155, EIP-2930 and EIP-1559
+ */
+function signedTransactions(count: number): ethers.Transaction[] {
+  const key = new ethers.utils.SigningKey(ethers.utils.id('test sender'));
+  const to = ethers.utils.getAddress('0x' + '55'.repeat(20));
+  return Array.from({ length: count }, (_, nonce) => {
+    const unsigned: ethers.UnsignedTransaction = [
+      { nonce, gasPrice: 25e9, gasLimit: 21000, to, value: nonce },
+      { nonce, gasPrice: 25e9, gasLimit: 21000, to, value: nonce, chainId: 43113 },
+      { type: 1, chainId: 43113, nonce, gasPrice: 25e9, gasLimit: 30000, to, accessList: [{ address: to, storageKeys: [ethers.constants.HashZero] }] },
+      { type: 2, chainId: 43113, nonce, maxFeePerGas: 30e9, maxPriorityFeePerGas: 1e9, gasLimit: 50000, data: '0x6000' }
+    ][nonce % 4];
+    const signature = key.signDigest(ethers.utils.keccak256(ethers.utils.serializeTransaction(unsigned)));
+    return ethers.utils.parseTransaction(ethers.utils.serializeTransaction(unsigned, signature));
+  });
+}
+
+/**
+ * Receipt proof bound to the transaction at the same index
+ */
+function boundReceiptProof(receipts: Parameters<typeof ReceiptTrie.build>[0], transactions: string[], index: number): ReceiptTrieProof {
+  return {
+    ...ReceiptTrie.generateProof(receipts, index, 0),
+    transaction: transactions[index],
+    transactionProofNodes: TransactionTrie.generateProof(transactions, [index])
+  };
+}
+
+async function testMerkleTree() {
+  console.log('\n🌳 Testing domain-separated Merkle trees...');
+
+  const data = Array.from({ length: 64 }, (_, i) => ethers.utils.hexZeroPad(ethers.utils.hexlify(i), 32));
+  for (let size = 1; size <= 64; size++) {
+    const tree = MerkleTree.fromData(data.slice(0, size));
+    if (size === 1) {
+      assert.strictEqual(tree.root, MerkleTree.hashLeaf(data[0]));
+    }
+
+    for (let index = 0; index < size; index++) {
+      const proof = tree.getProof(index);
+      assert.strictEqual(proof.version, MERKLE_PROOF_VERSION);
+      assert.strictEqual(proof.leafCount, size);
+      assert.ok(MerkleTree.verifyProof(proof), `size ${size} index ${index}`);
+
+      if (size > 1) {
+        assert.ok(!MerkleTree.verifyProof({ ...proof, index: (index + 1) % size }), `moved index ${size}/${index}`);
+        const tampered = [...proof.proof];
+        tampered[tampered.length - 1] = ethers.utils.id('tampered');
+        assert.ok(!MerkleTree.verifyProof({ ...proof, proof: tampered }));
+        assert.ok(!MerkleTree.verifyProof({ ...proof, proof: [...proof.proof, proof.root] }));
+        assert.ok(!MerkleTree.verifyProof({ ...proof, proof: proof.proof.slice(1) }));
+      }
+      assert.ok(!MerkleTree.verifyProof({ ...proof, index: size }));
+    }
+  }
+  console.log('✅ Every leaf of trees with 1 to 64 leaves proves; moved, tampered, extended and shortened proofs fail');
+
+  // Odd levels carry the last node up: with 3 leaves the third is paired only at the root
+  const three = MerkleTree.fromData(data.slice(0, 3));
+  const left = MerkleTree.hashNode(MerkleTree.hashLeaf(data[0]), MerkleTree.hashLeaf(data[1]));
+  assert.strictEqual(three.root, MerkleTree.hashNode(left, MerkleTree.hashLeaf(data[2])));
+  assert.deepStrictEqual(three.getProof(2).proof, [left]);
+  assert.notStrictEqual(three.root, MerkleTree.fromData([...data.slice(0, 3), data[2]]).root);
+  console.log('✅ Odd nodes are promoted, never duplicated');
+
+  // Second preimage: an inner node (64 bytes of children) is not accepted as a leaf
+  const four = MerkleTree.fromData(data.slice(0, 4));
+  const inner = MerkleTree.hashNode(MerkleTree.hashLeaf(data[0]), MerkleTree.hashLeaf(data[1]));
+  const right = MerkleTree.hashNode(MerkleTree.hashLeaf(data[2]), MerkleTree.hashLeaf(data[3]));
+  const forged = { version: MERKLE_PROOF_VERSION, leaf: inner, proof: [right], root: four.root, index: 0, leafCount: 2 };
+  assert.ok(MerkleTree.verifyProof(forged), 'inner node verifies only as a node');
+  const preimage = ethers.utils.concat([MerkleTree.hashLeaf(data[0]), MerkleTree.hashLeaf(data[1])]);
+  assert.notStrictEqual(MerkleTree.hashLeaf(preimage), inner);
+  assert.notStrictEqual(MerkleTree.fromData([preimage, ethers.utils.concat([MerkleTree.hashLeaf(data[2]), MerkleTree.hashLeaf(data[3])])]).root, four.root);
+  console.log('✅ Leaf and node prefixes keep a 64-byte node from posing as leaf data');
+
+  // Unversioned proofs use the original bare-keccak rule
+  const legacyLeaves = data.slice(0, 4).map(item => ethers.utils.keccak256(item));
+  const legacyPair = (a: string, b: string) => ethers.utils.keccak256(ethers.utils.concat([a, b]));
+  const legacyRight = legacyPair(legacyLeaves[2], legacyLeaves[3]);
+  const legacyRoot = legacyPair(legacyPair(legacyLeaves[0], legacyLeaves[1]), legacyRight);
+  const legacy = { leaf: legacyLeaves[1], proof: [legacyLeaves[0], legacyRight], root: legacyRoot, index: 1 };
+  assert.ok(MerkleTree.verifyProof(legacy));
+  assert.ok(MerkleTree.verifyProof({ ...legacy, version: 1 }));
+  assert.ok(!MerkleTree.verifyProof({ ...legacy, version: MERKLE_PROOF_VERSION, leafCount: 4 }));
+  assert.ok(!MerkleTree.verifyProof({ ...legacy, version: 3, leafCount: 4 }));
+  console.log('✅ Legacy proofs verify by their version flag');
+}
+
+async function testPoseidonTree() {
+  console.log('\n🌲 Testing incremental Poseidon tree...');
+
+  // Known answers from circomlib's poseidoncircuit.js test (t = 3)
+  const poseidon = await getPoseidon();
+  assert.strictEqual(poseidon([BigInt(1), BigInt(2)]).toString(), '7853200120776062878684798364095072458815029376092732009249414926327459813530');
+  assert.strictEqual(poseidon([BigInt(3), BigInt(4)]).toString(), '14763215145315200506921711489642608356394854266165572616578112107564877678998');
+  console.log('✅ Poseidon matches circomlib test vectors');
+
+  const empty = await IncrementalPoseidonTree.create();
+  assert.strictEqual(empty.levels, 10);
+  assert.deepStrictEqual([1, 2, 3, 4].map(level => empty.zero(level).toString()), [
+    '14744269619966411208579211824598458697587494354926760081771325075741142829156',
+    '7423237065226347324353380772367382631490014989348495481811164164159255474657',
+    '11286972368698509976183087595462810875513684078608517520839298933882497716792',
+    '3607627140608796879659380071776844901612302623152076817094415224584923813162'
+  ]);
+  assert.strictEqual(empty.root, empty.zero(10));
+  console.log('✅ Cached zero subtree roots match the published Poseidon(0, 0) chain');
+
+  const small = await IncrementalPoseidonTree.create({ levels: 2 });
+  [1, 2, 3, 4].forEach(leaf => small.insert(leaf));
+  assert.strictEqual(small.root, poseidon([poseidon([BigInt(1), BigInt(2)]), poseidon([BigInt(3), BigInt(4)])]));
+  const path = small.path(2);
+  assert.deepStrictEqual(path.pathIndices, [0, 1]);
+  assert.deepStrictEqual(path.pathElements, [BigInt(4), poseidon([BigInt(1), BigInt(2)])]);
+  assert.throws(() => small.insert(5), (error: any) => error.code === 'CONSTRAINT_VIOLATION');
+  console.log('✅ Root and path of a full depth-2 tree follow the MerkleTreeChecker layout');
+
+  const tree = await IncrementalPoseidonTree.create();
+  const amounts = Array.from({ length: 37 }, (_, i) => BigInt(1000 + i));
+  amounts.forEach(amount => tree.insert(amount));
+  for (const index of [0, 1, 17, 36]) {
+    const leafPath = tree.path(index);
+    assert.strictEqual(leafPath.pathElements.length, 10);
+    assert.ok(await IncrementalPoseidonTree.verifyPath(leafPath));
+    assert.strictEqual(leafPath.pathIndices.reduce((sum, bit, level) => sum + bit * 2 ** level, 0), index);
+  }
+
+  const before = tree.root;
+  tree.update(17, 5);
+  assert.notStrictEqual(tree.root, before);
+  assert.ok(!(await IncrementalPoseidonTree.verifyPath({ ...tree.path(16), root: before })));
+  assert.ok(await IncrementalPoseidonTree.verifyPath(tree.path(16)));
+  tree.update(17, amounts[17]);
+  assert.strictEqual(tree.root, before);
+  assert.throws(() => tree.insert(SNARK_SCALAR_FIELD), (error: any) => error.code === 'CONSTRAINT_VIOLATION');
+  assert.throws(() => tree.update(37, 1), (error: any) => error.code === 'LOG_INDEX_OUT_OF_BOUNDS');
+  console.log('✅ Insert, update and paths stay consistent; out-of-field leaves are rejected');
+
+  // Constraints are checked before proving; no compiled artifacts exist at these paths
+  const generator = new ProductionZKProofGenerator({ circuitWasm: './missing/stake_proof.wasm', circuitZkey: './missing/stake_proof.zkey' });
+  const stake = tree.path(tree.insert(await computeStakeLeaf(1005, 42)));
+  assert.strictEqual(stake.leaf, poseidon([BigInt(1005), BigInt(42)]));
+  const stakeInputs = { actualAmount: '1005', userSecret: '42', merkleProof: stake.pathElements.map(String), merkleIndices: stake.pathIndices };
+  await assert.rejects(
+    generator.generateProductionProof(
+      stakeInputs,
+      { minAmount: '1000', merkleRoot: tree.root.toString(), eventId: '0xevent', externalNullifier: appScope('lending') }
+    ),
+    (error: any) => error.code === 'CIRCUIT_NOT_INITIALIZED' && /wasm not found/.test(error.message)
+  );
+  await assert.rejects(
+    generator.generateProductionProof(
+      stakeInputs,
+      { minAmount: '1000', merkleRoot: (tree.root + BigInt(1)).toString(), eventId: '0xevent', externalNullifier: appScope('lending') }
+    ),
+    (error: any) => error.code === 'INVALID_MERKLE_PROOF'
+  );
+  console.log('✅ ZK generator accepts tree paths against the tree root and then needs the circuit artifacts');
+
+  // The leaf commits to the secret: another secret, and so another nullifier, is not a member
+  await assert.rejects(
+    generator.generateProductionProof(
+      { ...stakeInputs, userSecret: '43' },
+      { minAmount: '1000', merkleRoot: tree.root.toString(), eventId: '0xevent', externalNullifier: appScope('lending') }
+    ),
+    (error: any) => error.code === 'INVALID_MERKLE_PROOF'
+  );
+  console.log('✅ A stake leaf only proves membership with the secret it was committed with');
+}
+
+async function testNullifier() {
+  console.log('\n🔑 Testing nullifiers...');
+
+  const poseidon = await getPoseidon();
+  const expected = poseidon([BigInt(12345), BigInt(5000)]);
+  assert.strictEqual(await computeNullifier('12345', '5000'), expected);
+  assert.strictEqual(await computeNullifier(BigInt(12345), 5000), expected);
+  assert.strictEqual(await computeNullifier('0x3039', '0x1388'), expected);
+  assert.strictEqual(await computeNullifier(SNARK_SCALAR_FIELD - BigInt(1), 0), poseidon([SNARK_SCALAR_FIELD - BigInt(1), BigInt(0)]));
+  console.log('✅ Nullifier is Poseidon(secret, externalNullifier) for every input encoding');
+
+  // Poseidon alone would reduce these, giving the same note a second nullifier
+  const rejects = (secret: any, scope: any = '5000') =>
+    assert.rejects(computeNullifier(secret, scope), (error: any) => error.code === 'NON_CANONICAL_FIELD_ELEMENT');
+  await rejects((SNARK_SCALAR_FIELD + BigInt(12345)).toString());
+  await rejects('12345', SNARK_SCALAR_FIELD);
+  for (const malformed of ['-1', BigInt(-1), '012345', ' 12345', '1e5', '12345.0', '', 1.5, Number.MAX_SAFE_INTEGER + 1, undefined]) {
+    await rejects(malformed);
+  }
+  console.log('✅ Out-of-field, negative and non-canonical inputs are rejected');
+
+  const bytes = ethers.utils.arrayify(ethers.utils.hexZeroPad(ethers.utils.hexlify(SNARK_SCALAR_FIELD + BigInt(7)), 32));
+  assert.strictEqual(reduceToField(bytes), BigInt(7));
+  assert.strictEqual(reduceToField(BigInt(-1)), SNARK_SCALAR_FIELD - BigInt(1));
+  assert.strictEqual(reduceToField(new Uint8Array(32).fill(255)), (BigInt(2) ** BigInt(256) - BigInt(1)) % SNARK_SCALAR_FIELD);
+  console.log('✅ reduceToField maps bytes and integers into the field');
+
+  // Scopes match what a contract derives with keccak256 and always fit the field
+  const lending = appScope('lending');
+  assert.strictEqual(lending, BigInt(ethers.utils.id('lending')) >> BigInt(8));
+  const round = epochScope('governance', 7);
+  assert.strictEqual(round, BigInt(ethers.utils.keccak256(ethers.utils.defaultAbiCoder.encode(['string', 'uint256'], ['governance', 7]))) >> BigInt(8));
+  assert.strictEqual(epochScope('governance', BigInt(7)), round);
+  assert.notStrictEqual(epochScope('governance', 8), round);
+  assert.ok([lending, round].every((scope) => scope < SNARK_SCALAR_FIELD));
+  assert.strictEqual(epochAt(1700000000, 86400), BigInt(19675));
+  assert.strictEqual(epochScope('governance', epochAt(7 * 86400 + 1, 86400)), round);
+  for (const invalid of [() => appScope(''), () => epochScope('governance', -1), () => epochScope('governance', 1.5), () => epochAt(100, 0), () => epochAt(-1, 60)]) {
+    assert.throws(invalid, (error: any) => error.code === 'INVALID_CONFIGURATION');
+  }
+  console.log('✅ appScope and epochScope hash app IDs and epochs below the field');
+
+  // One secret gives unlinkable nullifiers across scopes and a stable one within a scope
+  assert.notStrictEqual(await computeNullifier('12345', lending), await computeNullifier('12345', appScope('governance')));
+  assert.notStrictEqual(await computeNullifier('12345', round), await computeNullifier('12345', epochScope('governance', 8)));
+  assert.strictEqual(await computeNullifier('12345', round), await computeNullifier(BigInt(12345), epochScope('governance', 7)));
+  console.log('✅ Nullifiers differ per app and per epoch for the same secret');
+
+  // Both generators check the nullifier with the module before they need artifacts
+  const tree = await IncrementalPoseidonTree.create();
+  const stake = tree.path(tree.insert(await computeStakeLeaf(5000, 12345)));
+  const rejected = (error: any) => error.code === 'CIRCUIT_NOT_INITIALIZED';
+  const missing = { circuitWasm: './missing/stake_proof.wasm', circuitZkey: './missing/stake_proof.zkey' };
+  const privateInputs = { actualAmount: '5000', userSecret: '12345', merkleProof: stake.pathElements.map(String), merkleIndices: stake.pathIndices };
+  const publicInputs = { minAmount: '1000', merkleRoot: stake.root.toString(), eventId: '0xevent', externalNullifier: appScope('lending') };
+  await assert.rejects(new ProductionZKProofGenerator(missing).generateProductionProof(privateInputs, publicInputs), rejected);
+  await assert.rejects(new RealZKProofGenerator(missing).generateRealZKProof(privateInputs, publicInputs), rejected);
+  await assert.rejects(
+    new ProductionZKProofGenerator(missing).generateProductionProof({ ...privateInputs, userSecret: (SNARK_SCALAR_FIELD + BigInt(12345)).toString() }, publicInputs),
+    (error: any) => error.code === 'NON_CANONICAL_FIELD_ELEMENT'
+  );
+  console.log('✅ Generators pass nullifier checks and reject out-of-field secrets before proving');
+}
+
+async function testStakeNotes() {
+  console.log('\n📒 Testing stake notes...');
+
+  const poseidon = await getPoseidon();
+  const owner = '0x8db97C7cEcE249c2b98bDC0226Cc4C2A57BF52FC';
+  const note = createStakeNote({ amount: 5000, owner, secret: 12345, nonce: 1 });
+  assert.deepStrictEqual(note, { amount: BigInt(5000), secret: BigInt(12345), nonce: BigInt(1), owner: BigInt(owner) });
+  assert.strictEqual(await createCommitment(note), poseidon([BigInt(5000), BigInt(12345), BigInt(1), BigInt(owner)]));
+  const scope = appScope('lending');
+  assert.strictEqual(await computeNoteNullifier(note, scope), poseidon([BigInt(12345), scope]));
+  console.log('✅ Leaf is Poseidon(amount, secret, nonce, owner); nullifier is Poseidon(secret, externalNullifier)');
+
+  // Equal stakes no longer share a leaf, and one user's notes spend independently
+  const [first, second] = [createStakeNote({ amount: 5000, owner }), createStakeNote({ amount: 5000, owner })];
+  assert.notStrictEqual(first.secret, second.secret);
+  assert.notStrictEqual(await createCommitment(first), await createCommitment(second));
+  assert.notStrictEqual(await computeNoteNullifier(first, scope), await computeNoteNullifier(second, scope));
+  const resized: StakeNote = { ...note, amount: BigInt(7000), nonce: BigInt(2) };
+  assert.strictEqual(await computeNoteNullifier(resized, scope), await computeNoteNullifier(note, scope));
+  console.log('✅ Random secrets and nonces give distinct leaves and nullifiers');
+
+  assert.throws(() => createStakeNote({ amount: BigInt(2) ** BigInt(64), owner }), (error: any) => error.code === 'CONSTRAINT_VIOLATION');
+  assert.throws(() => createStakeNote({ amount: -1, owner }), (error: any) => error.code === 'NON_CANONICAL_FIELD_ELEMENT');
+  await assert.rejects(createCommitment({ ...note, secret: SNARK_SCALAR_FIELD }), (error: any) => error.code === 'NON_CANONICAL_FIELD_ELEMENT');
+
+  // The tree holds commitments; a path to the raw amount no longer proves anything
+  const tree = await IncrementalPoseidonTree.create();
+  tree.insert(await createCommitment(first));
+  const notePath = tree.path(tree.insert(await createCommitment(note)));
+  const amountPath = tree.path(tree.insert(5000));
+  const missing = { artifacts: './missing/manifest.json' };
+  const publicInputs = { minAmount: 1000, eventId: '0xevent', externalNullifier: scope };
+  await assert.rejects(new ProductionZKProofGenerator(missing).generateNoteProof(note, notePath, publicInputs), (error: any) => error.code === 'CIRCUIT_NOT_INITIALIZED');
+  await assert.rejects(new RealZKProofGenerator(missing).generateNoteProof(note, amountPath, publicInputs), (error: any) => error.code === 'INVALID_MERKLE_PROOF');
+  await assert.rejects(
+    new ProductionZKProofGenerator(missing).generateNoteProof(note, notePath, { ...publicInputs, minAmount: 5001 }),
+    (error: any) => error.code === 'CONSTRAINT_VIOLATION'
+  );
+  console.log('✅ Note proofs check the commitment path before they need the circuit artifacts');
+
+  const binding = { recipient: owner, chainId: 43114 };
+  assert.deepStrictEqual(recipientSignals(binding), { recipient: BigInt(owner), chainId: BigInt(43114) });
+  const bound = await buildBoundNoteProofInputs(note, notePath, 1000, scope, binding);
+  assert.strictEqual(bound.recipient, BigInt(owner));
+  assert.strictEqual(bound.externalNullifier, scope);
+  assert.strictEqual(bound.nullifierHash, await computeNoteNullifier(note, scope));
+  assert.throws(() => recipientSignals({ recipient: '0x1234', chainId: 1 }), (error: any) => error.code === 'INVALID_CIRCUIT_INPUT');
+  assert.throws(() => recipientSignals({ recipient: owner, chainId: 0 }), (error: any) => error.code === 'INVALID_CIRCUIT_INPUT');
+  assert.throws(() => recipientSignals({ recipient: owner, chainId: '-1' }), (error: any) => error.code === 'NON_CANONICAL_FIELD_ELEMENT');
+  await assert.rejects(
+    new ProductionZKProofGenerator(missing).generateNoteProof(note, notePath, { ...publicInputs, recipient: 'alice' }),
+    (error: any) => error.code === 'INVALID_CIRCUIT_INPUT'
+  );
+  await assert.rejects(
+    new CircuitProver({ artifacts: missing.artifacts }).proveNote(note, notePath, { ...publicInputs, chainId: 43114 }),
+    (error: any) => error.code === 'INVALID_CIRCUIT_INPUT'
+  );
+  await assert.rejects(
+    new RealZKProofGenerator(missing).generateNoteProof(note, notePath, { ...publicInputs, ...binding }),
+    (error: any) => error.code === 'CIRCUIT_NOT_INITIALIZED'
+  );
+  console.log('✅ Bound proof inputs carry a checked recipient address and chain ID');
+}
+
+async function testSecretManager() {
+  console.log('\n🗝️  Testing secret derivation...');
+
+  // RFC 5869 test case 1
+  const okm = hkdf(new Uint8Array(22).fill(0x0b), '0x000102030405060708090a0b0c', '0xf0f1f2f3f4f5f6f7f8f9', 42);
+  assert.strictEqual(ethers.utils.hexlify(okm), '0x3cb25f25faacd57a90434f64d0362f2a2d2d0a90cf1a5a4c5db02d56ecc4c5bf34007208d5b887185865');
+  console.log('✅ HKDF-SHA256 matches the RFC 5869 vector');
+
+  const wallet = new ethers.Wallet('0x' + '42'.repeat(32));
+  const other = new ethers.Wallet('0x' + '43'.repeat(32));
+  const manager = await SecretManager.fromSigner(wallet);
+  const again = await SecretManager.fromSigner(wallet);
+  assert.strictEqual(manager.account, wallet.address);
+  assert.strictEqual(again.userSecret(), manager.userSecret());
+  assert.deepStrictEqual(again.noteSecrets(3), manager.noteSecrets(3));
+  assert.notStrictEqual((await SecretManager.fromSigner(other)).userSecret(), manager.userSecret());
+
+  const { domain, types, value } = SecretManager.derivationRequest(wallet.address.toLowerCase());
+  assert.strictEqual(value.account, wallet.address);
+  const signature = await wallet._signTypedData(domain, types, value);
+  assert.strictEqual(SecretManager.fromSignature(wallet.address, signature).userSecret(), manager.userSecret());
+  assert.throws(() => SecretManager.fromSignature(other.address, signature), (error: any) => error.code === 'INVALID_SIGNATURE');
+  assert.throws(() => SecretManager.fromSignature(wallet.address, '0x1234'), (error: any) => error.code === 'INVALID_SIGNATURE');
+  assert.throws(() => SecretManager.derivationRequest('alice'), (error: any) => error.code === 'INVALID_CONFIGURATION');
+  console.log('✅ The same wallet signature always gives the same seed; other accounts cannot stand in');
+
+  const [zero, one] = [manager.noteSecrets(0), manager.noteSecrets(1)];
+  assert.notStrictEqual(zero.secret, one.secret);
+  assert.notStrictEqual(zero.secret, zero.nonce);
+  assert.notStrictEqual(manager.userSecret(), zero.secret);
+  assert.ok([zero.secret, zero.nonce, one.secret, manager.userSecret()].every((key) => key < BigInt(2) ** BigInt(248)));
+  const note = manager.createNote(0, 5000);
+  assert.deepStrictEqual(note, { amount: BigInt(5000), owner: BigInt(wallet.address), ...zero });
+  assert.strictEqual(await createCommitment(again.createNote(0, 5000)), await createCommitment(note));
+  assert.strictEqual(await computeNoteNullifier(again.createNote(0, 5000), appScope('lending')), await computeNoteNullifier(note, appScope('lending')));
+  assert.throws(() => manager.noteSecrets(-1), (error: any) => error.code === 'INVALID_CONFIGURATION');
+  console.log('✅ Notes get independent HKDF secrets and can be recreated with their commitment');
+
+  // A low scrypt cost keeps the test fast; the default is ethers' 2^17
+  const keystore = await manager.exportKeystore('correct horse', { scryptN: 1024 });
+  assert.ok(!keystore.includes(ethers.utils.hexlify(zero.secret)));
+  const restored = await SecretManager.importKeystore(keystore, 'correct horse');
+  assert.strictEqual(restored.account, wallet.address);
+  assert.strictEqual(restored.userSecret(), manager.userSecret());
+  assert.deepStrictEqual(restored.noteSecrets(7), manager.noteSecrets(7));
+  const invalid = (error: any) => error.code === 'INVALID_KEYSTORE';
+  await assert.rejects(SecretManager.importKeystore(keystore, 'wrong horse'), invalid);
+  await assert.rejects(SecretManager.importKeystore('{', 'correct horse'), invalid);
+  await assert.rejects(SecretManager.importKeystore(JSON.stringify({ ...JSON.parse(keystore), version: 2 }), 'correct horse'), invalid);
+  await assert.rejects(manager.exportKeystore(''), (error: any) => error.code === 'INVALID_CONFIGURATION');
+  console.log('✅ Encrypted keystore round-trips the seed and rejects a wrong password');
+}
+
+async function testRangeProofs() {
+  console.log('\n📐 Testing stake range proofs...');
+
+  const circuit = stakeRangeProofCircuit(128);
+  assert.strictEqual(circuit.name, 'stake_range_proof_128');
+  assert.deepStrictEqual(circuit.publicSignals, ['valid', 'minAmount', 'maxAmount', 'merkleRoot', 'nullifierHash', 'externalNullifier']);
+  assert.deepStrictEqual([circuit.inputs.amount, circuit.inputs.maxAmount], [{ type: 'uint', bits: 128 }, { type: 'uint', bits: 128, public: true }]);
+  assert.deepStrictEqual(STAKE_RANGE_PROOF_BITS.map((bits) => new CircuitProver().registry.has(`stake_range_proof_${bits}`)), [true, true]);
+  for (const bits of [0, 253, 1.5]) {
+    assert.throws(() => stakeRangeProofCircuit(bits), (error: any) => error.code === 'INVALID_CONFIGURATION');
+  }
+  console.log('✅ Range circuits take 1 to 252 bit widths; 128 and 252 are registered by default');
+
+  // 20 AVAX in wei is past 2^64: the note needs a wider amount
+  const owner = '0x8db97C7cEcE249c2b98bDC0226Cc4C2A57BF52FC';
+  const amount = BigInt(20) * BigInt(10) ** BigInt(18);
+  assert.throws(() => createStakeNote({ amount, owner }), (error: any) => error.code === 'CONSTRAINT_VIOLATION');
+  assert.throws(() => createStakeNote({ amount, owner, amountBits: 253 }), (error: any) => error.code === 'INVALID_CONFIGURATION');
+  const note = createStakeNote({ amount, owner, amountBits: 128 });
+  const tree = await IncrementalPoseidonTree.create();
+  const notePath = tree.path(tree.insert(await createCommitment(note)));
+  const scope = appScope('lending');
+  const range = { minAmount: BigInt(10) ** BigInt(19), maxAmount: BigInt(10) ** BigInt(20) };
+
+  const inputs = await buildRangeProofInputs(note, notePath, range, scope, 128);
+  assert.deepStrictEqual([inputs.amount, inputs.minAmount, inputs.maxAmount], [amount, range.minAmount, range.maxAmount].map(String));
+  assert.strictEqual(inputs.nullifierHash, (await computeNoteNullifier(note, scope)).toString());
+  const rejects = (promise: Promise<unknown>, code: string) => assert.rejects(promise, (error: any) => error.code === code);
+  await rejects(buildRangeProofInputs(note, notePath, range, scope, 64), 'CONSTRAINT_VIOLATION');
+  await rejects(buildRangeProofInputs(note, notePath, { ...range, maxAmount: BigInt(2) ** BigInt(128) }, scope, 128), 'CONSTRAINT_VIOLATION');
+  await rejects(buildRangeProofInputs(note, notePath, { minAmount: range.maxAmount, maxAmount: range.minAmount }, scope, 128), 'INVALID_CIRCUIT_INPUT');
+  const widest = await buildRangeProofInputs(note, notePath, { ...range, maxAmount: BigInt(2) ** BigInt(252) - BigInt(1) }, scope, 252);
+  assert.strictEqual(widest.maxAmount, (BigInt(2) ** BigInt(252) - BigInt(1)).toString());
+  await rejects(buildRangeProofInputs(note, notePath, { ...range, maxAmount: BigInt(2) ** BigInt(252) }, scope, 252), 'CONSTRAINT_VIOLATION');
+  console.log('✅ Range inputs reject amounts and bounds wider than the circuit, and empty ranges');
+
+  const missing = { artifacts: './missing/manifest.json' };
+  const publicInputs = { ...range, eventId: '0xevent', externalNullifier: scope };
+  await rejects(new ProductionZKProofGenerator(missing).generateRangeProof(note, notePath, publicInputs), 'CIRCUIT_NOT_INITIALIZED');
+  await rejects(new RealZKProofGenerator(missing).generateRangeProof(note, notePath, { ...publicInputs, maxAmount: amount - BigInt(1) }), 'CONSTRAINT_VIOLATION');
+  await rejects(new ProductionZKProofGenerator(missing).generateRangeProof(note, notePath, { ...publicInputs, minAmount: amount + BigInt(1) }, 252), 'CONSTRAINT_VIOLATION');
+  await assert.rejects(
+    new ProductionZKProofGenerator(missing).generateRangeProof(note, notePath, publicInputs, 96),
+    (error: any) => error.code === 'CIRCUIT_NOT_INITIALIZED' && /not registered/.test(error.message)
+  );
+  console.log('✅ Range proofs check both bounds before they need the circuit artifacts');
+}
+
+async function testArtifactSources() {
+  console.log('\n📂 Testing circuit artifact sources...');
+
+  const bytes = new Uint8Array([0, 97, 115, 109]);
+  assert.strictEqual(await resolveArtifact(bytes), bytes);
+  assert.strictEqual(await resolveArtifact(__filename), __filename);
+  assert.strictEqual(await resolveArtifact(pathToFileURL(__filename)), __filename);
+  await assert.rejects(resolveArtifact('./missing.zkey', 'zkey'), (error: any) => error.code === 'CIRCUIT_NOT_INITIALIZED');
+  console.log('✅ Bytes pass through; file paths and file: URLs are checked');
+
+  const server = http.createServer((request, response) => {
+    if (request.url === '/stake_proof.wasm') {
+      response.end(Buffer.from(bytes));
+    } else {
+      response.statusCode = 404;
+      response.end();
+    }
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  try {
+    const { port } = server.address() as { port: number };
+    assert.deepStrictEqual(await resolveArtifact(new URL(`http://127.0.0.1:${port}/stake_proof.wasm`)), bytes);
+    await assert.rejects(
+      resolveArtifact(`http://127.0.0.1:${port}/missing.zkey`, 'zkey'),
+      (error: any) => error.code === 'CIRCUIT_NOT_INITIALIZED' && /HTTP 404/.test(error.message)
+    );
+  } finally {
+    server.close();
+  }
+  console.log('✅ URLs are fetched into memory');
+}
+
+async function testGroth16Verifier() {
+  console.log('\n🔏 Testing Groth16 verification...');
+
+  const { verificationKey, proof, publicSignals } = groth16Fixture();
+  const verifier = new Groth16Verifier(verificationKey);
+  assert.deepStrictEqual(verifier.verify(proof, publicSignals), { isValid: true });
+
+  const solidity = {
+    a: proof.pi_a.slice(0, 2),
+    b: [[proof.pi_b[0][1], proof.pi_b[0][0]], [proof.pi_b[1][1], proof.pi_b[1][0]]],
+    c: proof.pi_c.slice(0, 2)
+  };
+  assert.strictEqual(verifier.verify(solidity, publicSignals).isValid, true);
+  console.log('✅ Valid proof verifies in snarkjs and Solidity layouts');
+
+  const codeOf = (candidate: any, signals: any = publicSignals) => verifier.verify(candidate, signals).error?.code;
+  assert.strictEqual(codeOf(proof, ['5', '8']), 'PAIRING_FAILED');
+  assert.strictEqual(codeOf({ ...proof, pi_c: proof.pi_a }), 'PAIRING_FAILED');
+  assert.strictEqual(codeOf({ ...solidity, b: proof.pi_b.slice(0, 2) }), 'INVALID_CURVE_POINT');
+  assert.strictEqual(codeOf(proof, ['5', (SNARK_SCALAR_FIELD + BigInt(7)).toString()]), 'NON_CANONICAL_FIELD_ELEMENT');
+  const shifted = [(BigInt(proof.pi_a[0]) + BN254_BASE_FIELD).toString(), proof.pi_a[1], '1'];
+  assert.strictEqual(codeOf({ ...proof, pi_a: shifted }), 'NON_CANONICAL_FIELD_ELEMENT');
+  assert.strictEqual(codeOf({ ...proof, pi_a: ['1', '3', '1'] }), 'INVALID_CURVE_POINT');
+  assert.strictEqual(codeOf({ ...proof, pi_b: [['1', '0'], ['2', '0'], ['1', '0']] }), 'INVALID_CURVE_POINT');
+  assert.strictEqual(codeOf({ ...proof, pi_a: ['0', '0', '1'] }), 'INVALID_CURVE_POINT');
+  assert.strictEqual(codeOf({ ...proof, pi_b: [['0', '0'], ['0', '0'], ['1', '0']] }), 'INVALID_CURVE_POINT');
+  assert.strictEqual(codeOf({ ...proof, pi_a: ['1', '2', '0'] }), 'INVALID_PROOF_STRUCTURE');
+  assert.strictEqual(codeOf({ pi_a: proof.pi_a, pi_c: proof.pi_c }), 'INVALID_PROOF_STRUCTURE');
+  assert.strictEqual(codeOf({ ...proof, pi_a: ['-1', '2'] }), 'INVALID_PROOF_STRUCTURE');
+  assert.strictEqual(codeOf(undefined), 'INVALID_PROOF_STRUCTURE');
+  assert.strictEqual(codeOf(proof, ['5']), 'INVALID_PUBLIC_INPUTS');
+  assert.strictEqual(codeOf(proof, ['5', 'seven']), 'INVALID_PUBLIC_INPUTS');
+  console.log('✅ Rejections name the failed check');
+
+  assert.throws(() => new Groth16Verifier({ ...verificationKey, IC: verificationKey.IC.slice(1) }), (error: any) => error.code === 'INVALID_CONFIGURATION');
+  assert.throws(() => new Groth16Verifier({ ...verificationKey, vk_alpha_1: ['1', '3', '1'] }), (error: any) => error.code === 'INVALID_CONFIGURATION');
+
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'vkey-'));
+  try {
+    const file = path.join(dir, 'verification_key.json');
+    fs.writeFileSync(file, JSON.stringify(verificationKey));
+    assert.strictEqual((await Groth16Verifier.load(file)).verify(proof, publicSignals).isValid, true);
+    assert.strictEqual((await Groth16Verifier.load(fs.readFileSync(file))).nPublic, 2);
+    await assert.rejects(Groth16Verifier.load(path.join(dir, 'missing.json')), (error: any) => error.code === 'CIRCUIT_NOT_INITIALIZED');
+    await assert.rejects(Groth16Verifier.load(new TextEncoder().encode('{')), (error: any) => error.code === 'INVALID_CONFIGURATION');
+
+    // Generators check the key against the stake circuit's [valid, minAmount, merkleRoot, nullifierHash, externalNullifier] layout
+    const stake = groth16Fixture(['1', '4000', '5', '6', '7']);
+    const stakeFile = path.join(dir, 'stake_verification_key.json');
+    fs.writeFileSync(stakeFile, JSON.stringify(stake.verificationKey));
+    const zkGenerator = new ProductionZKProofGenerator({ verificationKey: stakeFile });
+    assert.strictEqual((await zkGenerator.verifyProductionProof({ proof: { ...stake.proof, publicSignals: stake.publicSignals } })).isValid, true);
+    const rejected = await zkGenerator.verifyProductionProof({ proof: { ...stake.proof, publicSignals: ['1', '4001', '5', '6', '7'] } });
+    assert.strictEqual(rejected.error?.code, 'PAIRING_FAILED');
+    await assert.rejects(
+      new ProductionZKProofGenerator({ verificationKey: file }).verifyProductionProof({ proof: { ...solidity, publicSignals } }),
+      (error: any) => error.code === 'INVALID_CONFIGURATION'
+    );
+    await assert.rejects(
+      new ProductionZKProofGenerator({ verificationKey: path.join(dir, 'missing.json') }).verifyProductionProof({ proof: solidity }),
+      (error: any) => error.code === 'CIRCUIT_NOT_INITIALIZED'
+    );
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+  console.log('✅ Verification keys load from files and bytes; generators return verdicts');
+}
+
+async function testSolidityVerifier() {
+  console.log('\n📜 Testing Solidity verifier generation...');
+
+  const { verificationKey } = groth16Fixture();
+  const source = generateSolidityVerifier(verificationKey, { contractName: 'StakeVerifier' });
+  assert.ok(source.includes('contract StakeVerifier {'));
+  assert.ok(source.includes('uint[2] memory _pubSignals'));
+  assert.ok(source.includes(`uint256 internal constant ALPHA_X = ${verificationKey.vk_alpha_1[0]};`));
+  assert.ok(source.includes(`uint256 internal constant BETA_X1 = ${verificationKey.vk_beta_2[0][1]};`));
+  assert.ok(source.includes(`uint256 internal constant BETA_Y0 = ${verificationKey.vk_beta_2[1][0]};`));
+  assert.ok(source.includes(`uint256 internal constant IC2_Y = ${verificationKey.IC[2][1]};`));
+  assert.ok(!source.includes('IC3_X'));
+  assert.ok(!/= 0x/.test(source));
+  console.log('✅ Key constants are decimal literals, G2 pairs in precompile order');
+
+  const threeSignals = generateSolidityVerifier(groth16Fixture(['1', '2', '3']).verificationKey);
+  assert.ok(threeSignals.includes('contract Groth16Verifier {'));
+  assert.ok(threeSignals.includes('uint[3] memory _pubSignals'));
+  assert.ok(threeSignals.includes('accumulate(vkX, IC3_X, IC3_Y, _pubSignals[2])'));
+  const hex = { ...verificationKey, IC: verificationKey.IC.map(point => point.map(value => '0x' + BigInt(value).toString(16))) };
+  assert.strictEqual(generateSolidityVerifier(hex, { contractName: 'StakeVerifier' }), source);
+  console.log('✅ Public input arity follows nPublic; hex keys give the same contract');
+
+  const invalid = (run: () => unknown) => assert.throws(run, (error: any) => error.code === 'INVALID_CONFIGURATION');
+  invalid(() => generateSolidityVerifier(verificationKey, { contractName: 'Stake Verifier' }));
+  invalid(() => generateSolidityVerifier({ ...verificationKey, vk_alpha_1: ['1', '3', '1'] }));
+  invalid(() => generateSolidityVerifier({ ...verificationKey, IC: verificationKey.IC.slice(1) }));
+  invalid(() => generateSolidityVerifier({ ...verificationKey, nPublic: 0, IC: verificationKey.IC.slice(0, 1) }));
+  console.log('✅ Invalid keys and contract names are rejected');
+}
+
+/**
+ * Minimal snarkjs Groth16 zkey holding `verificationKey`: header sections only,
+ * coordinates little-endian in Montgomery form
+ */
+function zkeyFixture(verificationKey: Groth16VerificationKey): Uint8Array {
+  const le = (value: bigint, size: number) => Uint8Array.from({ length: size }, (_, i) => Number((value >> BigInt(8 * i)) & BigInt(255)));
+  const u32 = (value: number) => le(BigInt(value), 4);
+  const mont = (value: string) => le((BigInt(value) << BigInt(256)) % BN254_BASE_FIELD, 32);
+  const g1 = (point: string[]) => [mont(point[0]), mont(point[1])];
+  const g2 = (point: string[][]) => [mont(point[0][0]), mont(point[0][1]), mont(point[1][0]), mont(point[1][1])];
+
+  const { nPublic, vk_alpha_1, vk_beta_2, vk_gamma_2, vk_delta_2, IC } = verificationKey;
+  const groth16 = ethers.utils.concat([
+    u32(32), le(BN254_BASE_FIELD, 32), u32(32), le(SNARK_SCALAR_FIELD, 32), u32(nPublic + 10), u32(nPublic), u32(16),
+    ...g1(vk_alpha_1), ...g1(vk_alpha_1), ...g2(vk_beta_2), ...g2(vk_gamma_2), ...g1(vk_alpha_1), ...g2(vk_delta_2)
+  ]);
+  const sections: [number, Uint8Array][] = [[1, u32(1)], [2, groth16], [3, ethers.utils.concat(IC.flatMap(g1))]];
+  return ethers.utils.concat([
+    ethers.utils.toUtf8Bytes('zkey'), u32(1), u32(sections.length),
+    ...sections.flatMap(([type, data]) => [u32(type), le(BigInt(data.length), 8), data])
+  ]);
+}
+
+async function testCircuitArtifacts() {
+  console.log('\n🗂️  Testing circuit artifact manifest...');
+
+  const { verificationKey, proof, publicSignals } = groth16Fixture(['1', '4000', '5', '6', '7']);
+  const zkey = zkeyFixture(verificationKey);
+  assert.deepStrictEqual(readZkeyVerificationKey(zkey), verificationKey);
+  assert.throws(() => readZkeyVerificationKey(zkey.subarray(0, 100)), (error: any) => error.code === 'INVALID_PROOF_STRUCTURE');
+  console.log('✅ Verification key read back from the zkey header');
+
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'circuits-'));
+  const write = (name: string, bytes: Uint8Array) => {
+    fs.mkdirSync(path.dirname(path.join(dir, name)), { recursive: true });
+    fs.writeFileSync(path.join(dir, name), bytes);
+    return CircuitArtifacts.fileEntry(name, bytes);
+  };
+  const writeManifest = (vkey: Groth16VerificationKey) => {
+    const entry = {
+      wasm: write('stake_proof_js/stake_proof.wasm', new Uint8Array([0, 97, 115, 109, 1, 0, 0, 0])),
+      zkey: write('stake_proof_final.zkey', zkey),
+      vkey: write('verification_key.json', ethers.utils.toUtf8Bytes(JSON.stringify(vkey)))
+    };
+    fs.writeFileSync(path.join(dir, 'manifest.json'), JSON.stringify({ version: 1, circuits: { stake_proof: entry } }));
+    return path.join(dir, 'manifest.json');
+  };
+
+  try {
+    const manifestPath = writeManifest(verificationKey);
+    const artifacts = await CircuitArtifacts.fromManifest(manifestPath, { cacheDir: path.join(dir, 'cache') });
+    assert.deepStrictEqual(artifacts.circuits, ['stake_proof']);
+    const circuit = await artifacts.load('stake_proof');
+    assert.strictEqual(await artifacts.load('stake_proof'), circuit);
+    assert.deepStrictEqual(circuit.zkey, zkey);
+    assert.strictEqual(circuit.verifier.verify(proof, publicSignals).isValid, true);
+    await assert.rejects(artifacts.load('range_proof'), (error: any) => error.code === 'CIRCUIT_NOT_INITIALIZED');
+
+    const zkGenerator = new ProductionZKProofGenerator({ artifacts });
+    assert.strictEqual((await zkGenerator.verifyProductionProof({ proof: { ...proof, publicSignals } })).isValid, true);
+    console.log('✅ Manifest artifacts load, verify proofs and are cached in memory');
+
+    // Verified bytes are served from the disk cache once the originals are gone
+    fs.rmSync(path.join(dir, 'stake_proof_final.zkey'));
+    const cached = await CircuitArtifacts.fromManifest(manifestPath, { cacheDir: path.join(dir, 'cache') });
+    assert.deepStrictEqual((await cached.load('stake_proof')).zkey, zkey);
+    await assert.rejects(
+      (await CircuitArtifacts.fromManifest(manifestPath)).load('stake_proof'),
+      (error: any) => error.code === 'CIRCUIT_NOT_INITIALIZED'
+    );
+    console.log('✅ Verified artifacts are cached on disk by content hash');
+
+    writeManifest(verificationKey);
+    fs.writeFileSync(path.join(dir, 'stake_proof_js/stake_proof.wasm'), new Uint8Array([0, 97, 115, 109, 2, 0, 0, 0]));
+    await assert.rejects(
+      (await CircuitArtifacts.fromManifest(manifestPath)).load('stake_proof'),
+      (error: any) => error.code === 'ARTIFACT_INTEGRITY_MISMATCH' && /stake_proof wasm/.test(error.message)
+    );
+
+    const [ic0, ic1, ...rest] = verificationKey.IC;
+    writeManifest({ ...verificationKey, IC: [ic1, ic0, ...rest] });
+    await assert.rejects(
+      (await CircuitArtifacts.fromManifest(manifestPath)).load('stake_proof'),
+      (error: any) => error.code === 'VERIFICATION_KEY_MISMATCH'
+    );
+    await assert.rejects(
+      new ProductionZKProofGenerator({ artifacts: manifestPath }).verifyProductionProof({ proof: { ...proof, publicSignals } }),
+      (error: any) => error.code === 'VERIFICATION_KEY_MISMATCH'
+    );
+    assert.throws(() => new CircuitArtifacts({ version: 1, circuits: { stake_proof: {} as any } }), (error: any) => error.code === 'INVALID_CONFIGURATION');
+    console.log('✅ Tampered files and mismatched vkey/zkey pairs fail loudly');
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+async function testCircuitRegistry() {
+  console.log('\n🗳️  Testing the circuit registry...');
+
+  const fixture = groth16Fixture(['5', '7']);
+  const vote: ZKCircuit = {
+    name: 'vote',
+    inputs: {
+      choice: { type: 'bit' },
+      weight: { type: 'uint', bits: 16 },
+      voterSecret: { type: 'field' },
+      proposalId: { type: 'field', public: true }
+    },
+    publicSignals: ['nullifierHash', 'proposalId'],
+    artifacts: { verificationKey: fixture.verificationKey }
+  };
+  const registry = new CircuitRegistry([stakeProofCircuit, vote]);
+  assert.deepStrictEqual(registry.names, ['stake_proof', 'vote']);
+  assert.throws(() => new CircuitRegistry([vote, vote]), (error: any) => error.code === 'INVALID_CONFIGURATION');
+  assert.throws(() => registry.get('ballot'), (error: any) => error.code === 'CIRCUIT_NOT_INITIALIZED');
+  assert.strictEqual(registry.with({ ...vote, publicSignals: ['proposalId'] }).get('vote').publicSignals.length, 1);
+  assert.strictEqual(registry.get('vote').publicSignals.length, 2);
+
+  const invalid = (circuit: ZKCircuit) => assert.throws(() => defineCircuit(circuit), (error: any) => error.code === 'INVALID_CONFIGURATION');
+  invalid({ ...vote, name: 'vote-v2' });
+  invalid({ ...vote, publicSignals: ['nullifierHash'] });
+  invalid({ ...vote, publicSignals: ['nullifierHash', 'proposalId', 'voterSecret'] });
+  invalid({ ...vote, inputs: { ...vote.inputs, weight: { type: 'uint', bits: 253 } } });
+  invalid({ ...vote, inputs: { ...vote.inputs, weight: { type: 'uint' } } });
+  console.log('✅ Circuits register by name; malformed descriptors are rejected');
+
+  const inputs = { choice: 1, weight: '0xffff', voterSecret: BigInt(42), proposalId: '9' };
+  assert.deepStrictEqual(normalizeCircuitInputs(vote, inputs), { choice: '1', weight: '65535', voterSecret: '42', proposalId: '9' });
+  const rejectsInput = (candidate: any, code: string) => assert.throws(() => normalizeCircuitInputs(vote, candidate), (error: any) => error.code === code);
+  rejectsInput({ ...inputs, ballot: 1 }, 'INVALID_CIRCUIT_INPUT');
+  rejectsInput({ ...inputs, proposalId: undefined }, 'INVALID_CIRCUIT_INPUT');
+  rejectsInput({ ...inputs, choice: [1] }, 'INVALID_CIRCUIT_INPUT');
+  rejectsInput({ ...inputs, choice: 2 }, 'CONSTRAINT_VIOLATION');
+  rejectsInput({ ...inputs, weight: 65536 }, 'CONSTRAINT_VIOLATION');
+  rejectsInput({ ...inputs, voterSecret: '-1' }, 'NON_CANONICAL_FIELD_ELEMENT');
+  assert.throws(
+    () => normalizeCircuitInputs(stakeProofCircuit, {
+      actualAmount: 1, userSecret: 1, minAmount: 1, merkleRoot: 1, nullifierHash: 1,
+      merklePathElements: ['0'], merklePathIndices: [0]
+    }),
+    (error: any) => error.code === 'INVALID_CIRCUIT_INPUT' && /merklePathElements/.test(error.message)
+  );
+  assert.deepStrictEqual(namePublicSignals(vote, ['5', '7']), { nullifierHash: '5', proposalId: '7' });
+  assert.throws(() => namePublicSignals(vote, ['5']), (error: any) => error.code === 'INVALID_PUBLIC_INPUTS');
+  console.log('✅ Inputs are checked against the schema: names, lengths, bits and field range');
+
+  const prover = new CircuitProver({ registry });
+  const proof = { proof: { ...fixture.proof, publicSignals: fixture.publicSignals } };
+  assert.deepStrictEqual(await prover.verify('vote', proof), { isValid: true });
+  assert.strictEqual((await prover.verify('vote', { proof: { ...fixture.proof, publicSignals: ['5', '8'] } })).error?.code, 'PAIRING_FAILED');
+  await assert.rejects(prover.verify('ballot', proof), (error: any) => error.code === 'CIRCUIT_NOT_INITIALIZED');
+  const mismatched = new CircuitProver({ registry: registry.with({ ...vote, artifacts: { verificationKey: groth16Fixture(['1', '2', '3']).verificationKey } }) });
+  await assert.rejects(mismatched.verify('vote', proof), (error: any) => error.code === 'INVALID_CONFIGURATION');
+
+  const zkGenerator = new ProductionZKProofGenerator({ registry });
+  assert.deepStrictEqual(await zkGenerator.verifyCircuitProof('vote', proof), { isValid: true });
+  await assert.rejects(zkGenerator.proveCircuit('vote', { ...inputs, choice: 2 }), (error: any) => error.code === 'CONSTRAINT_VIOLATION');
+  await assert.rejects(new RealZKProofGenerator({ registry }).proveCircuit('ballot', inputs), (error: any) => error.code === 'CIRCUIT_NOT_INITIALIZED');
+  console.log('✅ One prover verifies any registered circuit; key and layout must agree');
+}
+
+/**
+ * End-to-end against the committed artifacts of `npm run build:circuits`
+ */
+async function testBuiltCircuit() {
+  console.log('\n🧪 Testing the built stake circuit...');
+
+  const manifestPath = path.resolve(__dirname, '../circuits/manifest.json');
+  const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+  const committed = [STAKE_PROOF_CIRCUIT, STAKE_NOTE_PROOF_CIRCUIT, STAKE_BOUND_PROOF_CIRCUIT, ...STAKE_RANGE_PROOF_BITS.map(bits => stakeRangeProofCircuit(bits).name)];
+  assert.deepStrictEqual(committed.filter(name => !manifest.circuits[name]), []);
+
+  // The contract verifiers are generated from the committed keys, so a checkout proves against them
+  for (const [name, contractName] of [[STAKE_PROOF_CIRCUIT, 'RealZKVerifier'], [STAKE_BOUND_PROOF_CIRCUIT, 'StakeBoundProofVerifier']]) {
+    const verificationKey = JSON.parse(fs.readFileSync(path.resolve(path.dirname(manifestPath), manifest.circuits[name].vkey.path), 'utf8'));
+    const contract = fs.readFileSync(path.resolve(__dirname, `../contracts/contracts/${contractName}.sol`), 'utf8');
+    assert.strictEqual(contract, generateSolidityVerifier(verificationKey, { contractName }), `${contractName}.sol does not match the committed ${name} key`);
+  }
+  console.log('✅ Every circuit has committed artifacts, and the contract verifiers match their keys');
+
+  const tree = await IncrementalPoseidonTree.create();
+  tree.insert(await computeStakeLeaf(1000, 777));
+  const merklePath = tree.path(tree.insert(await computeStakeLeaf(5000, 12345)));
+  const zkGenerator = new ProductionZKProofGenerator({ artifacts: manifestPath });
+  const scope = appScope('lending');
+  const proof = await zkGenerator.generateProductionProof(
+    { actualAmount: '5000', userSecret: '12345', merkleProof: merklePath.pathElements.map(String), merkleIndices: merklePath.pathIndices },
+    { minAmount: '4000', merkleRoot: merklePath.root.toString(), eventId: '0xevent', externalNullifier: scope }
+  );
+  assert.deepStrictEqual(proof.proof.publicSignals.slice(0, 3), ['1', '4000', merklePath.root.toString()]);
+  assert.deepStrictEqual(proof.proof.publicSignals.slice(3), [proof.nullifierHash, scope.toString()]);
+  assert.deepStrictEqual(await zkGenerator.verifyProductionProof(proof), { isValid: true });
+
+  const raised = { ...proof, proof: { ...proof.proof, publicSignals: ['1', '4001', ...proof.proof.publicSignals.slice(2)] } };
+  assert.strictEqual((await zkGenerator.verifyProductionProof(raised)).error?.code, 'PAIRING_FAILED');
+
+  const named = await zkGenerator.proveCircuit('stake_proof', {
+    actualAmount: 5000, userSecret: 12345, minAmount: 4000, merkleRoot: merklePath.root,
+    merklePathElements: merklePath.pathElements, merklePathIndices: merklePath.pathIndices, nullifierHash: proof.nullifierHash,
+    externalNullifier: scope
+  });
+  assert.deepStrictEqual(named.signals, {
+    valid: '1', minAmount: '4000', merkleRoot: merklePath.root.toString(), nullifierHash: proof.nullifierHash, externalNullifier: scope.toString()
+  });
+  assert.deepStrictEqual(named.calldata, [named.proof.a, named.proof.b, named.proof.c, named.proof.publicSignals]);
+  assert.deepStrictEqual(await zkGenerator.verifyCircuitProof('stake_proof', named), { isValid: true });
+  console.log('✅ snarkjs proof from the built artifacts verifies; changed public signals do not');
+
+  // Without the 64-bit range checks, 2^64 >= 2^64 - 1 passes GreaterEqThan(64) by overflowing into bit 64
+  const wideTree = await IncrementalPoseidonTree.create();
+  const widePath = wideTree.path(wideTree.insert(await computeStakeLeaf(BigInt(2) ** BigInt(64), 12345)));
+  await assert.rejects(zkGenerator.proveCircuit('stake_proof', {
+    actualAmount: BigInt(2) ** BigInt(64), userSecret: 12345, minAmount: BigInt(2) ** BigInt(64) - BigInt(1), merkleRoot: widePath.root,
+    merklePathElements: widePath.pathElements, merklePathIndices: widePath.pathIndices, nullifierHash: proof.nullifierHash,
+    externalNullifier: scope
+  }), (error: any) => error.code === 'CONSTRAINT_VIOLATION');
+  console.log('✅ Amounts outside 64 bits are rejected by the stake circuit');
+
+  const noteTree = await IncrementalPoseidonTree.create();
+  const notes = [createStakeNote({ amount: 5000, owner: 1 }), createStakeNote({ amount: 5000, owner: 1 })];
+  const noteIndex = [noteTree.insert(await createCommitment(notes[0])), noteTree.insert(await createCommitment(notes[1]))];
+  const proofs = [
+    await zkGenerator.generateNoteProof(notes[0], noteTree.path(noteIndex[0]), { minAmount: 4000, eventId: '0xevent', externalNullifier: scope }),
+    await zkGenerator.generateNoteProof(notes[1], noteTree.path(noteIndex[1]), { minAmount: 4000, eventId: '0xevent', externalNullifier: scope })
+  ];
+  assert.deepStrictEqual(proofs[0].proof.publicSignals.slice(0, 3), ['1', '4000', noteTree.root.toString()]);
+  assert.notStrictEqual(proofs[0].nullifierHash, proofs[1].nullifierHash);
+  assert.deepStrictEqual(await zkGenerator.verifyCircuitProof('stake_note_proof', proofs[1]), { isValid: true });
+  assert.strictEqual((await zkGenerator.verifyCircuitProof('stake_proof', proofs[1])).error?.code, 'PAIRING_FAILED');
+  console.log('✅ Equal stakes prove as distinct notes with distinct nullifiers');
+
+  const recipient = '0x8db97C7cEcE249c2b98bDC0226Cc4C2A57BF52FC';
+  const bound = await zkGenerator.generateNoteProof(notes[0], noteTree.path(noteIndex[0]), {
+    minAmount: 4000, eventId: '0xevent', externalNullifier: scope, recipient, chainId: 43114
+  });
+  assert.strictEqual(bound.circuit, 'stake_bound_proof');
+  assert.deepStrictEqual(bound.proof.publicSignals.slice(4), [BigInt(recipient).toString(), '43114', scope.toString()]);
+  assert.deepStrictEqual(await zkGenerator.verifyCircuitProof('stake_bound_proof', bound), { isValid: true });
+
+  const signals = bound.proof.publicSignals;
+  for (const [i, value] of [[4, BigInt('0x' + '11'.repeat(20)).toString()], [5, '43113'], [6, appScope('governance').toString()]] as [number, string][]) {
+    const rebound = { proof: { ...bound.proof, publicSignals: signals.map((signal: string, j: number) => (j === i ? value : signal)) } };
+    assert.strictEqual((await zkGenerator.verifyCircuitProof('stake_bound_proof', rebound)).error?.code, 'PAIRING_FAILED');
+  }
+  console.log('✅ Bound proofs verify only for the recipient and chain they were generated for');
+
+  for (const bits of STAKE_RANGE_PROOF_BITS) {
+    const name = stakeRangeProofCircuit(bits).name;
+    // Near the top of the width, far above the 64-bit note circuit's 2^64 wei (about 18.4 AVAX)
+    const amount = BigInt(2) ** BigInt(bits - 1) + BigInt(5);
+    const rangeTree = await IncrementalPoseidonTree.create();
+    const wide = createStakeNote({ amount, owner: 1, amountBits: bits });
+    const widePath = rangeTree.path(rangeTree.insert(await createCommitment(wide)));
+    const range = { minAmount: amount - BigInt(5), maxAmount: amount + BigInt(5) };
+    const proof = await zkGenerator.generateRangeProof(wide, widePath, { ...range, eventId: '0xevent', externalNullifier: scope }, bits);
+    assert.strictEqual(proof.circuit, name);
+    assert.deepStrictEqual(proof.proof.publicSignals.slice(0, 4), ['1', range.minAmount.toString(), range.maxAmount.toString(), rangeTree.root.toString()]);
+    assert.deepStrictEqual(await zkGenerator.verifyCircuitProof(name, proof), { isValid: true });
+
+    const narrowed = { proof: { ...proof.proof, publicSignals: proof.proof.publicSignals.map((signal: string, i: number) => (i === 2 ? (amount - BigInt(1)).toString() : signal)) } };
+    assert.strictEqual((await zkGenerator.verifyCircuitProof(name, narrowed)).error?.code, 'PAIRING_FAILED');
+    await assert.rejects(
+      zkGenerator.generateRangeProof(wide, widePath, { ...range, maxAmount: amount - BigInt(1), eventId: '0xevent', externalNullifier: scope }, bits),
+      (error: any) => error.code === 'CONSTRAINT_VIOLATION'
+    );
+    console.log(`✅ ${bits}-bit range proof verifies for min <= amount <= max; a narrowed range does not`);
+  }
+}
+
+async function testBlockHeader() {
+  console.log('\n📦 Testing block header reconstruction...');
+
+  // Ethereum mainnet genesis: the shared go-ethereum fields with no optional extensions
+  const genesis = {
+    parentHash: ethers.constants.HashZero,
+    sha3Uncles: '0x1dcc4de8dec75d7aab85b567b6ccd41ad312451b948a7413f0a142fd40d49347',
+    miner: ethers.constants.AddressZero,
+    stateRoot: '0xd7f8974fb5ac78d9ac099b9ad5018bedc2ce0a72dad1827a1709da30580f0544',
+    transactionsRoot: MerklePatriciaTrie.EMPTY_ROOT,
+    receiptsRoot: MerklePatriciaTrie.EMPTY_ROOT,
+    logsBloom: ethers.utils.hexZeroPad('0x', 256),
+    difficulty: '0x400000000',
+    number: '0x0',
+    gasLimit: '0x1388',
+    gasUsed: '0x0',
+    timestamp: '0x0',
+    extraData: '0x11bbe8db4e347b4e8c937c1c8370e4b5ed33adb3db69cbdb7a38e1e50b1b82fa',
+    mixHash: ethers.constants.HashZero,
+    nonce: '0x0000000000000042'
+  };
+  const genesisHeader = BlockHeader.fromRpc(genesis);
+  assert.strictEqual(genesisHeader.format, 'subnet-evm');
+  assert.strictEqual(BlockHeader.hash(genesisHeader), '0xd4e56740f876aef8c010b86a40d5f56745a118d0906a34e69aec8c0db1cb8fa3');
+  console.log('✅ Header hash matches mainnet genesis');
+
+  // C-Chain header with Avalanche-specific fields
+  const cChainBlock = {
+    ...genesis,
+    number: '0x2a',
+    timestamp: '0x66000000',
+    extDataHash: MerklePatriciaTrie.EMPTY_ROOT,
+    baseFeePerGas: '0x5d21dba00',
+    extDataGasUsed: '0x0',
+    blockGasCost: '0x186a0'
+  };
+  const cChainHeader = BlockHeader.fromRpc(cChainBlock);
+  assert.strictEqual(cChainHeader.format, 'c-chain');
+
+  const decoded = BlockHeader.verify(cChainHeader, BlockHeader.hash(cChainHeader));
+  assert.ok(decoded);
+  assert.strictEqual(decoded!.number, 42);
+  assert.strictEqual(decoded!.extDataHash, MerklePatriciaTrie.EMPTY_ROOT);
+  assert.ok(decoded!.blockGasCost!.eq(100000));
+  assert.strictEqual(decoded!.receiptsRoot, MerklePatriciaTrie.EMPTY_ROOT);
+  assert.strictEqual(BlockHeader.verify(cChainHeader, genesisHeader.rlp.slice(0, 66)), null);
+  assert.throws(() => BlockHeader.fromRpc({ ...cChainBlock, extDataGasUsed: undefined }));
+  console.log('✅ C-Chain header round-trips with extDataHash and blockGasCost');
+}
+
+async function testWarpSignatures() {
+  console.log('\n✍️ Testing Warp BLS signatures...');
+
+  // Locally generated validator set: weights 10, 20, 30, 40 plus one validator without a BLS key
+  const secretKeys = [1, 2, 3, 4].map(i => ethers.utils.keccak256(ethers.utils.toUtf8Bytes(`validator-${i}`)));
+  const validators = secretKeys.map((secretKey, i) => ({
+    nodeId: `NodeID-${i}`,
+    publicKey: WarpSigner.publicKey(secretKey),
+    weight: BigInt(10 * (i + 1))
+  }));
+  const validatorSet = {
+    validators: [...validators, { nodeId: 'NodeID-legacy', weight: BigInt(0) }],
+    totalWeight: BigInt(100)
+  };
+
+  const signer = new WarpSigner(5, 'yH8D7ThNJkxmtkuv2jgBa4P1Rn3Qpr4pPr7QYNfcdoS6k6HWp');
+  const blockHash = ethers.utils.id('block');
+  const message = signer.blockHashMessage(blockHash);
+  assert.deepStrictEqual(WarpMessage.decodeUnsigned(WarpMessage.encodeUnsigned(message)), message);
+
+  const signWith = (indices: number[]) => WarpSigner.aggregate(
+    message,
+    validatorSet,
+    indices.map(i => ({ publicKey: validators[i].publicKey, signature: WarpSigner.sign(message, secretKeys[i]) }))
+  );
+
+  const verifier = new WarpVerifier();
+  const quorumMessage = WarpMessage.encodeSigned(signWith([1, 2, 3]));
+  const quorumResult = verifier.verify(quorumMessage, validatorSet);
+  assert.ok(quorumResult.isValid, quorumResult.error);
+  assert.strictEqual(quorumResult.signedWeight, BigInt(90));
+  assert.deepStrictEqual(WarpMessage.decodeSigned(quorumMessage).unsignedMessage, message);
+  console.log('✅ 90% signed weight verifies at 67% quorum');
+
+  assert.ok(!verifier.verify(signWith([0, 3]), validatorSet).isValid);
+  assert.ok(new WarpVerifier({ numerator: 1, denominator: 2 }).verify(signWith([0, 3]), validatorSet).isValid);
+  console.log('✅ Quorum threshold enforced (50% fails at 67%, passes at 50%)');
+
+  const forged = { ...signWith([1, 2, 3]), unsignedMessage: signer.blockHashMessage(ethers.utils.id('other block')) };
+  assert.ok(!verifier.verify(forged, validatorSet).isValid);
+  const wrongSigners = { ...signWith([1, 2, 3]), signers: WarpMessage.encodeBitSet([0, 2, 3]) };
+  assert.ok(!verifier.verify(wrongSigners, validatorSet).isValid);
+  const paddedBitSet = { ...signWith([1, 2, 3]), signers: ethers.utils.hexConcat(['0x00', signWith([1, 2, 3]).signers]) };
+  assert.ok(!verifier.verify(paddedBitSet, validatorSet).isValid);
+  console.log('✅ Forged message, wrong signer bitset and non-minimal bitset rejected');
+
+  const eventMessage = signer.eventMessage({ address: ethers.constants.AddressZero, topics: [blockHash], data: '0x' });
+  assert.strictEqual(WarpMessage.decodePayload(eventMessage.payload).type, 1);
+  console.log('✅ Event AddressedCall payload encoded');
+
+  await testValidatorSetProviders(validatorSet);
+}
+
+async function testValidatorSetProviders(validatorSet: { validators: any[]; totalWeight: bigint }) {
+  console.log('\n🧾 Testing validator set providers...');
+
+  const inMemory = new InMemoryValidatorSetProvider().set(PRIMARY_NETWORK_ID, 1200, validatorSet);
+  assert.strictEqual(await inMemory.getCurrentHeight(), 1200);
+  assert.strictEqual(await inMemory.getValidatorSet(PRIMARY_NETWORK_ID, 1200), validatorSet);
+  await assert.rejects(inMemory.getValidatorSet(PRIMARY_NETWORK_ID, 1199));
+
+  const snapshot = new StaticValidatorSetProvider({
+    subnetId: PRIMARY_NETWORK_ID,
+    pChainHeight: 1200,
+    validators: validatorSet.validators.map(v => ({ nodeId: v.nodeId, publicKey: v.publicKey, weight: v.weight.toString() }))
+  });
+  const fromSnapshot = await snapshot.getValidatorSet(PRIMARY_NETWORK_ID, 1200);
+  assert.strictEqual(fromSnapshot.totalWeight, validatorSet.totalWeight);
+  assert.strictEqual(CryptoUtils.hashValidatorSet(fromSnapshot), CryptoUtils.hashValidatorSet(validatorSet));
+  console.log('✅ Static snapshot and in-memory fixture agree on validator set hash');
+
+  const reordered = { ...validatorSet, validators: [...validatorSet.validators].reverse() };
+  assert.strictEqual(CryptoUtils.hashValidatorSet(reordered), CryptoUtils.hashValidatorSet(validatorSet));
+  const reweighted = { ...validatorSet, totalWeight: validatorSet.totalWeight + BigInt(1) };
+  assert.notStrictEqual(CryptoUtils.hashValidatorSet(reweighted), CryptoUtils.hashValidatorSet(validatorSet));
+  console.log('✅ Validator set hash is order-independent and weight-sensitive');
+
+  assert.ok(PChainValidatorSetProvider.fromChainRpcUrl('https://api.avax-test.network/ext/bc/C/rpc'));
+  assert.strictEqual(PChainValidatorSetProvider.fromChainRpcUrl('http://localhost:8545'), null);
+  console.log('✅ P-Chain endpoint derived from C-Chain RPC URL');
+
+  // P-Chain node stub answering platform.getValidatorsAt and platform.getHeight as avalanchego does
+  const keyed = validatorSet.validators[0];
+  const requests: any[] = [];
+  const server = http.createServer((request, response) => {
+    let body = '';
+    request.on('data', chunk => { body += chunk; });
+    request.on('end', () => {
+      const { id, method, params } = JSON.parse(body);
+      requests.push({ method, params });
+      const result = method === 'platform.getHeight'
+        ? { height: '1234' }
+        : params.height === 1200
+          ? {
+            validators: {
+              'NodeID-Keyed': { publicKey: keyed.publicKey, weight: '2000' },
+              'NodeID-Unkeyed': { publicKey: null, weight: '3000' },
+              'NodeID-Legacy': '500'
+            }
+          }
+          : undefined;
+      response.setHeader('content-type', 'application/json');
+      response.end(JSON.stringify(result
+        ? { jsonrpc: '2.0', id, result }
+        : { jsonrpc: '2.0', id, error: { code: -32000, message: 'height not found' } }));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  try {
+    const { port } = server.address() as { port: number };
+    const pChain = new PChainValidatorSetProvider(`http://127.0.0.1:${port}/ext/bc/P`);
+
+    assert.strictEqual(await pChain.getCurrentHeight(), 1234);
+    const fetched = await pChain.getValidatorSet(PRIMARY_NETWORK_ID, 1200);
+    assert.deepStrictEqual(fetched.validators, [
+      { nodeId: 'NodeID-Keyed', publicKey: keyed.publicKey, weight: BigInt(2000) },
+      { nodeId: 'NodeID-Unkeyed', publicKey: undefined, weight: BigInt(3000) },
+      { nodeId: 'NodeID-Legacy', weight: BigInt(500) }
+    ]);
+    assert.strictEqual(fetched.totalWeight, BigInt(5500));
+    assert.deepStrictEqual(requests[1], { method: 'platform.getValidatorsAt', params: { height: 1200, subnetID: PRIMARY_NETWORK_ID } });
+
+    await assert.rejects(
+      pChain.getValidatorSet(PRIMARY_NETWORK_ID, 1199),
+      (error: any) => error.code === 'VALIDATOR_SET_UNAVAILABLE' && /height not found/.test(error.message)
+    );
+  } finally {
+    server.close();
+  }
+  await assert.rejects(
+    new PChainValidatorSetProvider('http://127.0.0.1:1/ext/bc/P').getCurrentHeight(),
+    (error: any) => error.code === 'RPC_CONNECTION_FAILED'
+  );
+  console.log('✅ P-Chain provider parses weights, BLS keys and key-less validators');
+}
+
+const FUJI_C_CHAIN_ID = 'yH8D7ThNJkxmtkuv2jgBa4P1Rn3Qpr4pPr7QYNfcdoS6k6HWp';
+
+/**
+ * Block header at height 100 committing to `receiptsRoot` and `transactionsRoot`, Warp-signed by a local validator set
+ * that an offline AvaxCPoE instance resolves at P-Chain height 1200
+ */
+function signedTestBlock(receiptsRoot: string, transactionsRoot = ethers.constants.HashZero, signer = new WarpSigner(5, FUJI_C_CHAIN_ID)) {
+  const secretKeys = [1, 2, 3].map(i => ethers.utils.keccak256(ethers.utils.toUtf8Bytes(`batch-validator-${i}`)));
+  const validatorSet = {
+    validators: secretKeys.map(secretKey => ({ publicKey: WarpSigner.publicKey(secretKey), weight: BigInt(1) })),
+    totalWeight: BigInt(3)
+  };
+  const rawHeader = {
+    parentHash: ethers.constants.HashZero,
+    sha3Uncles: ethers.constants.HashZero,
+    miner: ethers.constants.AddressZero,
+    stateRoot: ethers.constants.HashZero,
+    transactionsRoot,
+    receiptsRoot,
+    logsBloom: ethers.utils.hexZeroPad('0x', 256),
+    difficulty: '0x1',
+    number: '0x64',
+    gasLimit: '0x7a1200',
+    gasUsed: '0x0',
+    timestamp: '0x66000000',
+    extraData: '0x',
+    mixHash: ethers.constants.HashZero,
+    nonce: '0x0000000000000000',
+    baseFeePerGas: '0x5d21dba00'
+  };
+  const blockHeader = BlockHeader.fromRpc(rawHeader);
+  const blockHash = BlockHeader.hash(blockHeader);
+  const message = signer.blockHashMessage(blockHash);
+  const warpMessage = WarpMessage.encodeSigned(WarpSigner.aggregate(
+    message,
+    validatorSet,
+    secretKeys.map(secretKey => ({ publicKey: WarpSigner.publicKey(secretKey), signature: WarpSigner.sign(message, secretKey) }))
+  ));
+
+  const validatorSetProvider = new InMemoryValidatorSetProvider().set(PRIMARY_NETWORK_ID, 1200, validatorSet);
+  const cpoe = new AvaxCPoE('http://localhost:9650/ext/bc/C/rpc', 'avalanche-fuji', { validatorSetProvider });
+  return {
+    validatorSetProvider,
+    rawHeader,
+    blockHeader,
+    blockHash,
+    signatures: { warpMessage, validatorSetHash: CryptoUtils.hashValidatorSet(validatorSet), pChainHeight: 1200 },
+    cpoe
+  };
+}
+
+async function testBatchProof() {
+  console.log('\n📦 Testing batch multiproofs...');
+
+  const receipts = Array.from({ length: 40 }, (_, i) => ({
+    type: 2,
+    status: 1,
+    cumulativeGasUsed: 50000 * (i + 1),
+    logsBloom: ethers.utils.hexZeroPad('0x', 256),
+    logs: Array.from({ length: 2 }, (_, j) => ({
+      address: ethers.utils.getAddress(ethers.utils.hexZeroPad(ethers.utils.hexlify(i + 1), 20)),
+      topics: [ethers.utils.id(`Event${j}`)],
+      data: ethers.utils.hexZeroPad(ethers.utils.hexlify(i * 10 + j), 32)
+    }))
+  }));
+  const root = ReceiptTrie.build(receipts).root;
+
+  const multiProof = ReceiptTrie.generateMultiProof(receipts, [17, 3, 17, 18]);
+  assert.deepStrictEqual(multiProof.receipts.map(r => r.transactionIndex), [3, 17, 18]);
+  const separateNodes = [3, 17, 18].reduce((sum, i) => sum + ReceiptTrie.generateProof(receipts, i, 0).proofNodes.length, 0);
+  assert.ok(multiProof.proofNodes.length < separateNodes, 'shared nodes appear once');
+  assert.ok(ReceiptTrie.verifyMultiProof(multiProof, root));
+  assert.ok(!ReceiptTrie.verifyMultiProof({ ...multiProof, proofNodes: multiProof.proofNodes.slice(1) }, root));
+  assert.ok(!ReceiptTrie.verifyMultiProof({ ...multiProof, receipts: [{ transactionIndex: 4, receipt: multiProof.receipts[0].receipt }] }, root));
+  console.log(`✅ Multiproof shares nodes (${multiProof.proofNodes.length} vs ${separateNodes}) and verifies`);
+
+  // Offline batch: locally signed header committing to the receipts and transactions roots
+  const transactions = signedTransactions(40).map(tx => TransactionTrie.encodeTransaction(tx));
+  const transactionsRoot = TransactionTrie.build(transactions).root;
+  const { blockHeader, blockHash, signatures, cpoe } = signedTestBlock(root, transactionsRoot);
+  const boundMultiProof = {
+    ...multiProof,
+    receipts: multiProof.receipts.map(entry => ({ ...entry, transaction: transactions[entry.transactionIndex] })),
+    transactionProofNodes: TransactionTrie.generateProof(transactions, [3, 17, 18])
+  };
+
+  const eventAt = (transactionIndex: number, logPosition: number) => ({
+    block: 0,
+    transactionIndex,
+    logPosition,
+    eventData: { ...receipts[transactionIndex].logs[logPosition], transactionHash: TransactionTrie.hash(transactions[transactionIndex]), logIndex: logPosition }
+  });
+  const batchProof: BatchProof = {
+    version: CURRENT_PROOF_VERSION,
+    type: 'receipt-trie-batch',
+    sourceSubnet: 'avalanche-fuji',
+    blocks: [{
+      blockHeight: 100,
+      blockHash,
+      blockHeader,
+      receiptProof: boundMultiProof,
+      signatures
+    }],
+    events: [eventAt(3, 0), eventAt(3, 1), eventAt(17, 1)],
+    timestamp: Date.now()
+  };
+
+  const verified = await cpoe.verifyBatchProof(batchProof);
+  assert.ok(verified.isValid, verified.errors?.map(e => e.message).join('; '));
+  assert.deepStrictEqual(verified.events, [true, true, true]);
+  console.log('✅ Batch of three logs verifies with one header and one signature');
+
+  const swapped = { ...batchProof, events: [eventAt(3, 0), { ...eventAt(17, 1), logPosition: 0 }] };
+  const swappedResult = await cpoe.verifyBatchProof(swapped);
+  assert.ok(!swappedResult.isValid);
+  assert.deepStrictEqual(swappedResult.events, [true, false]);
+  assert.strictEqual(swappedResult.errors![0].code, 'EVENT_DATA_MISMATCH');
+
+  const unsigned = { ...batchProof, blocks: [{ ...batchProof.blocks[0], blockHeight: 101 }] };
+  const unsignedResult = await cpoe.verifyBatchProof(unsigned);
+  assert.deepStrictEqual(unsignedResult.events, [false, false, false]);
+  assert.strictEqual(unsignedResult.errors![0].code, 'BLOCK_VALIDATION_FAILED');
+  console.log('✅ Mismatched event and block rejected per entry');
+
+  const otherTransaction = { ...eventAt(3, 0), eventData: { ...eventAt(3, 0).eventData, transactionHash: TransactionTrie.hash(transactions[17]) } };
+  const misattributed = await cpoe.verifyBatchProof({ ...batchProof, events: [otherTransaction] });
+  assert.strictEqual(misattributed.errors![0].code, 'EVENT_DATA_MISMATCH');
+  const unbound = await cpoe.verifyBatchProof({ ...batchProof, blocks: [{ ...batchProof.blocks[0], receiptProof: multiProof }] });
+  assert.strictEqual(unbound.errors![0].code, 'INVALID_MERKLE_PROOF');
+  console.log('✅ Events claiming another transaction hash or without a transaction proof rejected');
+
+  const legacy = await cpoe.verifyBatchProof({ ...batchProof, version: '1.0.0' });
+  assert.ok(legacy.isValid, legacy.errors?.map(e => e.message).join('; '));
+  assert.deepStrictEqual(parseBatchProof({ ...batchProof, version: '1.0.0' }), { ok: true, proof: batchProof, format: '1.0.0', upgraded: true });
+  assert.strictEqual((await cpoe.verifyBatchProof({ ...batchProof, version: '3.0.0' })).errors![0].code, 'UNSUPPORTED_PROOF_VERSION');
+  const malformed = await cpoe.verifyBatchProof({ ...batchProof, blocks: [{ ...batchProof.blocks[0], blockHash: '0x1234' }] });
+  assert.strictEqual(malformed.errors![0].code, 'INVALID_PROOF_STRUCTURE');
+  assert.ok(malformed.errors![0].message.includes('blocks[0].blockHash'));
+  console.log('✅ Batch proofs go through the versioned schema; 1.0.0 batches are upgraded');
+
+  // The same block hash signed for another network or chain does not attest to the Fuji C-Chain
+  const resignedWith = (signer: WarpSigner) => {
+    const resigned = signedTestBlock(root, transactionsRoot, signer);
+    return { ...batchProof, blocks: [{ ...batchProof.blocks[0], signatures: resigned.signatures }] };
+  };
+  const otherChain = WarpMessage.toCB58(ethers.utils.id('other chain'));
+  for (const signer of [new WarpSigner(1, FUJI_C_CHAIN_ID), new WarpSigner(5, otherChain)]) {
+    const foreign = await cpoe.verifyBatchProof(resignedWith(signer));
+    assert.strictEqual(foreign.errors![0].code, 'WARP_SOURCE_MISMATCH');
+  }
+  const { validatorSetProvider } = signedTestBlock(root);
+  const subnet = new AvaxCPoE('http://localhost:9650/ext/bc/C/rpc', 'my-subnet', { validatorSetProvider, networkId: 5, blockchainId: otherChain });
+  const subnetResult = await subnet.verifyBatchProof(resignedWith(new WarpSigner(5, otherChain)));
+  assert.ok(subnetResult.isValid, subnetResult.errors?.map(e => e.message).join('; '));
+  const unconfigured = new AvaxCPoE('http://localhost:9650/ext/bc/C/rpc', 'my-subnet', { validatorSetProvider });
+  assert.strictEqual((await unconfigured.verifyBatchProof(batchProof)).errors![0].code, 'INVALID_CONFIGURATION');
+  console.log('✅ Warp messages from another network or source chain are rejected');
+}
+
+/**
+ * The only transaction of the stub chain's block, an EIP-1559 stake, and its receipt
+ */
+function stubTransaction() {
+  const transaction = signedTransactions(4)[3];
+  const receipt = {
+    type: 2,
+    status: 1,
+    cumulativeGasUsed: 50000,
+    logsBloom: ethers.utils.hexZeroPad('0x', 256),
+    logs: [{
+      address: '0x1234567890123456789012345678901234567890',
+      topics: [ethers.utils.id('Staked(address,uint256)')],
+      data: ethers.utils.hexZeroPad('0x0de0b6b3a7640000', 32),
+      logIndex: 0,
+      transactionHash: transaction.hash!
+    }]
+  };
+  return { transaction, receipt };
+}
+
+/**
+ * Provider serving `stubTransaction` in the signed test block at height 100
+ * Tests move `head` (latest height), `finalized` (last accepted height) and `canonical`
+ * (hash of the canonical block at height 100, to simulate a reorg).
+ */
+function stubChain(block: ReturnType<typeof signedTestBlock>) {
+  const { transaction, receipt } = stubTransaction();
+  const txHash = transaction.hash!;
+  const chain = { head: 100, finalized: 99, canonical: block.blockHash, calls: [] as string[] };
+  const blockAt = (height: number) => ({
+    number: height,
+    hash: height === 100 ? chain.canonical : ethers.utils.id(`block-${height}`),
+    transactions: height === 100 ? [txHash] : []
+  });
+
+  const provider = {
+    pollingInterval: 10,
+    getTransactionReceipt: async () => ({ ...receipt, blockHash: block.blockHash, blockNumber: 100, transactionIndex: 0 }),
+    // Mined EIP-1559 transactions report their effective gasPrice
+    getBlockWithTransactions: async () => ({ transactions: [{ ...transaction, gasPrice: ethers.BigNumber.from(26e9) }] }),
+    getBlock: async (tag: number | string) => typeof tag === 'number'
+      ? (tag <= chain.head ? blockAt(tag) : null)
+      : { number: 100, hash: block.blockHash, transactions: [txHash] },
+    getBlockNumber: async () => chain.head,
+    send: async (method: string) => {
+      chain.calls.push(method);
+      switch (method) {
+        case 'eth_getBlockByHash': return block.rawHeader;
+        case 'eth_getBlockByNumber': {
+          const finalized = blockAt(chain.finalized);
+          return { number: ethers.utils.hexValue(finalized.number), hash: finalized.hash };
+        }
+        case 'warp_getBlockAggregateSignature': return block.signatures.warpMessage;
+        default: throw new Error(`unexpected RPC ${method}`);
+      }
+    }
+  };
+  (block.cpoe as any).provider = provider;
+  return { chain, txHash };
+}
+
+async function testFinality() {
+  console.log('\n⏳ Testing confirmation depth and acceptance...');
+
+  const block = signedTestBlock(ethers.constants.HashZero);
+  const { chain, txHash } = stubChain(block);
+  const { cpoe } = block;
+  const rejectsWith = (code: string) => (error: any) => error.code === code;
+
+  const proof = await cpoe.generateProof(txHash);
+  assert.deepStrictEqual(proof.finality, { confirmations: 1, accepted: undefined });
+  assert.ok(!chain.calls.includes('eth_getBlockByNumber'), 'acceptance is not queried unless required');
+  console.log('✅ Default proof skips the acceptance query');
+
+  await assert.rejects(cpoe.generateProof(txHash, { minConfirmations: 3 }), rejectsWith('INSUFFICIENT_CONFIRMATIONS'));
+  await assert.rejects(cpoe.generateProof(txHash, { requireAccepted: true }), rejectsWith('INSUFFICIENT_CONFIRMATIONS'));
+  chain.finalized = 100;
+  const accepted = await cpoe.generateProof(txHash, { requireAccepted: true });
+  assert.deepStrictEqual(accepted.finality, { confirmations: 1, accepted: true });
+  assert.ok(chain.calls.includes('eth_getBlockByNumber'));
+  console.log('✅ minConfirmations and requireAccepted reject shallow and unaccepted blocks');
+
+  const waiting = cpoe.generateProof(txHash, { minConfirmations: 3, waitForConfirmations: true, confirmationTimeoutMs: 5000 });
+  setTimeout(() => { chain.head = 102; }, 30);
+  assert.strictEqual((await waiting).finality!.confirmations, 3);
+  await assert.rejects(
+    cpoe.generateProof(txHash, { minConfirmations: 10, waitForConfirmations: true, confirmationTimeoutMs: 50 }),
+    rejectsWith('INSUFFICIENT_CONFIRMATIONS')
+  );
+  console.log('✅ waitForConfirmations waits for depth and gives up after confirmationTimeoutMs');
+
+  const verified = await cpoe.verifyProof(proof, { minConfirmations: 3 });
+  assert.ok(verified.isValid, verified.errors?.map(e => e.message).join('; '));
+  assert.strictEqual(verified.confirmations, 3);
+  const shallow = await cpoe.verifyProof(proof, { minConfirmations: 4 });
+  assert.strictEqual(shallow.errors![0].code, 'INSUFFICIENT_CONFIRMATIONS');
+  console.log('✅ Verifier enforces its own confirmation depth');
+
+  // Nodes may report block hashes in another case than the stored proof
+  chain.canonical = '0x' + block.blockHash.slice(2).toUpperCase();
+  const mixedCase = await cpoe.generateProof(txHash, { minConfirmations: 3, requireAccepted: true });
+  assert.deepStrictEqual(mixedCase.finality, { confirmations: 3, accepted: true });
+  assert.strictEqual((await cpoe.verifyProof(proof, { minConfirmations: 3 })).confirmations, 3);
+  console.log('✅ Block hashes are compared case-insensitively');
+
+  chain.canonical = ethers.utils.id('reorged');
+  await assert.rejects(cpoe.generateProof(txHash, { minConfirmations: 1 }), rejectsWith('INSUFFICIENT_CONFIRMATIONS'));
+  const reorged = await cpoe.verifyProof(proof, { minConfirmations: 1 });
+  assert.strictEqual(reorged.confirmations, 0);
+  assert.strictEqual(reorged.errors![0].code, 'INSUFFICIENT_CONFIRMATIONS');
+  console.log('✅ Blocks reorged out of the canonical chain have no confirmations');
+
+  const { transaction, receipt } = stubTransaction();
+  const transactionsRoot = TransactionTrie.build([TransactionTrie.encodeTransaction(transaction)]).root;
+  const trieBlock = signedTestBlock(ReceiptTrie.build([receipt]).root, transactionsRoot);
+  stubChain(trieBlock);
+  const trieProof = await trieBlock.cpoe.generateProof(txHash, { mode: 'receipt-trie' });
+  assert.strictEqual(TransactionTrie.hash(trieProof.receiptProof!.transaction!), txHash);
+  const trieVerified = await trieBlock.cpoe.verifyProof(trieProof);
+  assert.ok(trieVerified.isValid, trieVerified.errors?.map(e => e.message).join('; '));
+  const wrongRoot = signedTestBlock(ReceiptTrie.build([receipt]).root);
+  stubChain(wrongRoot);
+  await assert.rejects(wrongRoot.cpoe.generateProof(txHash, { mode: 'receipt-trie' }), rejectsWith('BLOCK_HEADER_MISMATCH'));
+  console.log('✅ Receipt-trie proofs carry the transaction proven against transactionsRoot');
+}
+
+async function testProofSchema() {
+  console.log('\n🗂️ Testing proof schema validation and upgrades...');
+
+  const receipts = Array.from({ length: 5 }, (_, i) => ({
+    type: 2,
+    status: 1,
+    cumulativeGasUsed: 21000 * (i + 1),
+    logsBloom: ethers.utils.hexZeroPad('0x', 256),
+    logs: [{ address: ethers.utils.getAddress('0x' + '33'.repeat(20)), topics: [ethers.utils.id('Staked')], data: ethers.utils.hexZeroPad(ethers.utils.hexlify(i), 32) }]
+  }));
+  const transactions = signedTransactions(5).map(tx => TransactionTrie.encodeTransaction(tx));
+  const receiptProof = boundReceiptProof(receipts, transactions, 2);
+  const { blockHeader, blockHash, signatures, cpoe } = signedTestBlock(receiptProof.receiptsRoot, TransactionTrie.build(transactions).root);
+  const txHash = TransactionTrie.hash(transactions[2]);
+
+  const proof: Proof = {
+    version: CURRENT_PROOF_VERSION,
+    type: 'receipt-trie',
+    eventId: txHash,
+    sourceSubnet: 'avalanche-fuji',
+    blockHeight: 100,
+    blockHash,
+    blockHeader,
+    receiptProof,
+    eventData: { ...receipts[2].logs[0], transactionHash: txHash, logIndex: 2 },
+    signatures,
+    timestamp: 1700000000000
+  };
+
+  const parsed = parseProof(JSON.parse(JSON.stringify(proof)));
+  assert.ok(parsed.ok && !parsed.upgraded && parsed.format === '2.0.0');
+  const verified = await cpoe.verifyProof(proof);
+  assert.ok(verified.isValid, verified.errors?.map(e => e.message).join('; '));
+  console.log('✅ Current proof parses and verifies offline');
+
+  const otherTxHash = TransactionTrie.hash(transactions[3]);
+  const misattributed = await cpoe.verifyProof({ ...proof, eventId: otherTxHash, eventData: { ...proof.eventData, transactionHash: otherTxHash } });
+  assert.strictEqual(misattributed.errors![0].code, 'EVENT_DATA_MISMATCH');
+  const renamed = await cpoe.verifyProof({ ...proof, eventId: otherTxHash });
+  assert.strictEqual(renamed.errors![0].code, 'EVENT_DATA_MISMATCH');
+  const swappedTransaction = await cpoe.verifyProof({ ...proof, receiptProof: { ...receiptProof, transaction: transactions[3] } });
+  assert.strictEqual(swappedTransaction.errors![0].code, 'INVALID_MERKLE_PROOF');
+  const unbound = await cpoe.verifyProof({ ...proof, receiptProof: ReceiptTrie.generateProof(receipts, 2, 0) });
+  assert.strictEqual(unbound.errors![0].code, 'INVALID_PROOF_STRUCTURE');
+  console.log('✅ Receipt proofs are bound to the proven transaction hash');
+
+  const stored = await cpoe.verifyProof({ ...proof, version: '1.0.0' });
+  assert.ok(stored.isValid, stored.errors?.map(e => e.message).join('; '));
+  console.log('✅ Stored 1.0.0 Warp proof upgraded and verified');
+
+  const simulated = parseProof({ ...proof, version: '1.0.0', signatures: { blockSignature: '0x1234', validatorSetHash: signatures.validatorSetHash } });
+  assert.ok(simulated.ok && simulated.upgraded);
+  if (simulated.ok) {
+    assert.strictEqual(simulated.proof.signatures.warpMessage, '0x');
+    assert.deepStrictEqual(simulated.proof.legacy, { format: '1.0.0', fields: { blockSignature: '0x1234' } });
+    const result = await cpoe.verifyProof(simulated.proof);
+    assert.ok(!result.isValid && result.details.merkleValid);
+    assert.strictEqual(result.errors![0].code, 'INVALID_SIGNATURE');
+  }
+  console.log('✅ Simulated-signature proof upgraded; verification reports the missing Warp signature');
+
+  const frontend = parseProof({
+    version: '1.0.0',
+    type: 'merkle',
+    eventId: txHash,
+    blockHeight: 100,
+    blockHash,
+    proofHash: ethers.utils.id('proof'),
+    eventData: { user: '0x' + '44'.repeat(20), amount: '1000000000000000000', timestamp: 1700000000000 },
+    generated: '2023-11-14T22:13:20.000Z'
+  });
+  assert.ok(frontend.ok && frontend.format === 'frontend');
+  if (frontend.ok) {
+    assert.strictEqual(frontend.proof.version, CURRENT_PROOF_VERSION);
+    assert.strictEqual(frontend.proof.blockHash, blockHash);
+    assert.strictEqual((frontend.proof.legacy!.fields.eventData as any).amount, '1000000000000000000');
+    const result = await cpoe.verifyProof(frontend.proof);
+    assert.strictEqual(result.errors![0].code, 'INVALID_PROOF_STRUCTURE');
+  }
+  console.log('✅ Frontend VaultSDK proof upgraded with its fields preserved');
+
+  const broken = parseProof({ ...proof, blockHeight: -1, eventData: { ...proof.eventData, topics: ['0x12'] } });
+  assert.ok(!broken.ok);
+  if (!broken.ok) {
+    assert.strictEqual(broken.error.code, 'INVALID_PROOF_STRUCTURE');
+    assert.deepStrictEqual(broken.issues.map(issue => issue.path), ['blockHeight', 'eventData.topics[0]']);
+  }
+  assert.deepStrictEqual(validateProof({ ...proof, signatures: {} }).map(issue => issue.path), [
+    'signatures.warpMessage',
+    'signatures.validatorSetHash',
+    'signatures.pChainHeight'
+  ]);
+  const unknown = parseProof({ ...proof, version: '9.9.9' });
+  assert.ok(!unknown.ok && unknown.error.code === 'UNSUPPORTED_PROOF_VERSION');
+  console.log('✅ Invalid proofs report every failing path');
+}
+
+async function testProofCodec() {
+  console.log('\n📦 Testing binary and ABI proof codecs...');
+
+  const receipts = Array.from({ length: 3 }, (_, i) => ({
+    type: 2,
+    status: 1,
+    cumulativeGasUsed: 21000 * (i + 1),
+    logsBloom: ethers.utils.hexZeroPad('0x', 256),
+    logs: [{ address: ethers.utils.getAddress('0x' + '33'.repeat(20)), topics: [ethers.utils.id('Staked(address,uint256)'), ethers.utils.hexZeroPad('0x44', 32)], data: ethers.utils.hexZeroPad(ethers.utils.hexlify(i), 32) }]
+  }));
+  const staked = EventMatcher.toFragment('event Staked(address indexed user, uint256 amount)');
+  const transactions = signedTransactions(3).map(tx => TransactionTrie.encodeTransaction(tx));
+  const receiptProof = boundReceiptProof(receipts, transactions, 1);
+  const { blockHeader, blockHash, signatures, cpoe } = signedTestBlock(receiptProof.receiptsRoot, TransactionTrie.build(transactions).root);
+  const txHash = TransactionTrie.hash(transactions[1]);
+
+  const receiptTrieProof: Proof = {
+    version: CURRENT_PROOF_VERSION,
+    type: 'receipt-trie',
+    eventId: txHash,
+    sourceSubnet: 'avalanche-fuji',
+    blockHeight: 100,
+    blockHash,
+    blockHeader,
+    finality: { confirmations: 12, accepted: true },
+    receiptProof,
+    eventData: { ...receipts[1].logs[0], transactionHash: txHash, logIndex: 1 },
+    decodedEvent: EventMatcher.decode(staked, receipts[1].logs[0])!,
+    signatures,
+    timestamp: 1700000000000
+  };
+  const merkleProof: Proof = {
+    ...receiptTrieProof,
+    type: 'merkle',
+    blockHeader: undefined,
+    finality: undefined,
+    receiptProof: undefined,
+    decodedEvent: undefined,
+    merkleProof: { leaf: ethers.utils.id('leaf'), proof: [ethers.utils.id('a'), ethers.utils.id('b')], root: ethers.utils.id('root'), index: 2 },
+    legacy: { format: '1.0.0', fields: { blockSignature: '0x1234' } }
+  };
+
+  const versionedMerkleProof: Proof = { ...merkleProof, merkleProof: MerkleTree.fromData(receipts.map(r => r.logs[0].data)).getProof(1) };
+
+  for (const proof of [receiptTrieProof, merkleProof, versionedMerkleProof]) {
+    const expected = JSON.parse(JSON.stringify(proof));
+    for (const encoding of ['binary', 'abi'] as const) {
+      const encoded = encodeProof(proof, encoding);
+      const decoded = decodeProof(encoded, encoding);
+      assert.deepStrictEqual(decoded, expected);
+      assert.strictEqual(encodeProof(decoded, encoding), encoded);
+      assert.deepStrictEqual(decodeProof(ethers.utils.arrayify(encoded), encoding), expected);
+    }
+  }
+  const verified = await cpoe.verifyProof(decodeProof(encodeProof(receiptTrieProof)));
+  assert.ok(verified.isValid, verified.errors?.map(e => e.message).join('; '));
+  console.log('✅ Binary and ABI encodings round-trip exactly and still verify');
+
+  const sizes = ProofCodec.sizes(receiptTrieProof);
+  assert.ok(sizes.binary < sizes.abi && sizes.binary < sizes.json, JSON.stringify(sizes));
+  console.log(`✅ Size report: json ${sizes.json} B, abi ${sizes.abi} B, binary ${sizes.binary} B`);
+
+  const encoded = encodeProof(receiptTrieProof);
+  const expectCode = (fn: () => unknown, code: string) => assert.throws(fn, (error: any) => error instanceof ProofVerificationError && error.code === code);
+  expectCode(() => decodeProof(encoded.slice(0, -2)), 'INVALID_PROOF_STRUCTURE');
+  expectCode(() => decodeProof(encoded + '00'), 'INVALID_PROOF_STRUCTURE');
+  expectCode(() => decodeProof('0x0000' + encoded.slice(6)), 'INVALID_PROOF_STRUCTURE');
+  expectCode(() => decodeProof(encoded, 'abi'), 'INVALID_PROOF_STRUCTURE');
+  expectCode(() => encodeProof({ ...receiptTrieProof, blockHash: '0x12' }), 'INVALID_PROOF_STRUCTURE');
+  console.log('✅ Truncated, padded and foreign encodings are rejected');
+}
+
+async function testEventMatcher() {
+  console.log('\n🎯 Testing event selection by signature and arguments...');
+
+  const token = '0x' + '11'.repeat(20);
+  const alice = '0x' + 'aa'.repeat(20);
+  const bob = '0x' + 'bb'.repeat(20);
+  const erc20 = new ethers.utils.Interface([
+    'event Transfer(address indexed from, address indexed to, uint256 value)',
+    'event Approval(address indexed owner, address indexed spender, uint256 value)'
+  ]);
+  const log = (name: string, args: any[], address = token) => ({ address, ...erc20.encodeEventLog(erc20.getEvent(name), args) });
+  const logs = [
+    log('Approval', [alice, bob, 5]),
+    log('Transfer', [alice, bob, 100]),
+    log('Transfer', [bob, alice, 40]),
+    log('Transfer', [alice, bob, 7], '0x' + '22'.repeat(20))
+  ];
+
+  const transfer = 'event Transfer(address indexed from, address indexed to, uint256 value)';
+  const selected = new EventMatcher({ address: token, abi: transfer, argFilter: { to: alice.toUpperCase().replace('0X', '0x') } }).select(logs);
+  assert.strictEqual(selected.logIndex, 2);
+  assert.deepStrictEqual(selected.decodedEvent!.args, { from: ethers.utils.getAddress(bob), to: ethers.utils.getAddress(alice), value: '40' });
+  assert.strictEqual(selected.decodedEvent!.fragment, transfer);
+
+  assert.strictEqual(new EventMatcher({ abi: transfer, argFilter: { value: BigInt(7) } }).select(logs).logIndex, 3);
+  assert.strictEqual(new EventMatcher({ abi: transfer, argFilter: { value: (v: string) => Number(v) > 50 } }).select(logs).logIndex, 1);
+  assert.strictEqual(new EventMatcher({ eventSignature: 'Approval(address,address,uint256)' }).select(logs).logIndex, 0);
+  console.log('✅ Log selected by emitter, topic0 and decoded arguments');
+
+  assert.throws(
+    () => new EventMatcher({ address: token, eventSignature: 'Transfer(address,address,uint256)' }).select(logs),
+    (error: any) => error.code === 'AMBIGUOUS_EVENT_MATCH' && /positions 1, 2/.test(error.message)
+  );
+  assert.throws(
+    () => new EventMatcher({ abi: transfer, argFilter: { value: 1 } }).select(logs),
+    (error: any) => error.code === 'EVENT_NOT_FOUND'
+  );
+  assert.throws(
+    () => new EventMatcher({ eventSignature: 'Transfer(address,address,uint256)', argFilter: { value: 1 } }),
+    (error: any) => error.code === 'INVALID_CONFIGURATION'
+  );
+  console.log('✅ Zero, several and undecodable matches rejected with clear codes');
+
+  const fragment = EventMatcher.toFragment(selected.decodedEvent!.fragment);
+  assert.deepStrictEqual(EventMatcher.decode(fragment, logs[2]), selected.decodedEvent);
+  assert.strictEqual(EventMatcher.decode(fragment, logs[0]), null);
+  console.log('✅ Decoded arguments reproducible from the proof fragment');
+}
+
+async function testErrors() {
+  console.log('\n🚨 Testing SDK error codes...');
+
+  assert.throws(
+    () => CryptoUtils.generateMerkleProof([], 0),
+    (error: any) => error instanceof VaultSDKError && error.code === 'LOG_INDEX_OUT_OF_BOUNDS'
+  );
+  assert.throws(
+    () => WarpMessage.decodeSigned('0x0000'),
+    (error: any) => error instanceof ProofVerificationError && error.code === 'MALFORMED_WARP_MESSAGE'
+  );
+  console.log('✅ Thrown errors carry stable codes');
+
+  const cause = new Error('socket hang up');
+  const wrapped = VaultSDKError.from(cause, 'PROOF_GENERATION_FAILED', 'Proof generation failed');
+  assert.strictEqual(wrapped.code, 'PROOF_GENERATION_FAILED');
+  assert.strictEqual(wrapped.cause, cause);
+  assert.strictEqual(wrapped.message, 'Proof generation failed: socket hang up');
+  assert.deepStrictEqual(JSON.parse(JSON.stringify(wrapped)), {
+    name: 'VaultSDKError',
+    code: 'PROOF_GENERATION_FAILED',
+    message: 'Proof generation failed: socket hang up'
+  });
+
+  const networkError = Object.assign(new Error('could not detect network'), { code: 'NETWORK_ERROR' });
+  const rpcError = VaultSDKError.from(networkError, 'PROOF_GENERATION_FAILED');
+  assert.ok(rpcError instanceof RpcError);
+  assert.strictEqual(rpcError.code, 'RPC_CONNECTION_FAILED');
+
+  const zkError = new ZKProofError('CONSTRAINT_VIOLATION', 'actualAmount < minAmount');
+  assert.strictEqual(VaultSDKError.from(zkError, 'VERIFICATION_FAILED'), zkError);
+  assert.strictEqual(zkError.name, 'ZKProofError');
+  console.log('✅ Wrapped errors keep their cause; SDK errors pass through unchanged');
+}
+
+async function testLogging() {
+  console.log('\n📝 Testing structured logging...');
+
+  const lines: string[] = [];
+  const logger = new JsonLinesLogger({ level: 'info', write: line => lines.push(line), fields: { service: 'lending' } });
+  logger.debug('hidden', { txHash: '0x01' });
+  logger.info('Proof generated', { txHash: '0x02', blockHeight: 7, durationMs: 12, weight: BigInt(5) });
+  assert.strictEqual(lines.length, 1);
+  assert.ok(lines[0].endsWith('\n'));
+  const entry = JSON.parse(lines[0]);
+  assert.strictEqual(entry.level, 'info');
+  assert.strictEqual(entry.msg, 'Proof generated');
+  assert.strictEqual(entry.service, 'lending');
+  assert.strictEqual(entry.blockHeight, 7);
+  assert.strictEqual(entry.weight, '5');
+  console.log('✅ JSON-lines logger filters by level and serializes fields');
+
+  const calls: any[][] = [];
+  const originalWarn = console.warn;
+  console.warn = (...args: any[]) => { calls.push(args); };
+  try {
+    const consoleLogger = new ConsoleLogger({ level: 'warn' });
+    consoleLogger.info('hidden');
+    consoleLogger.warn('Pairing verification failed', { durationMs: 3 });
+  } finally {
+    console.warn = originalWarn;
+  }
+  assert.deepStrictEqual(calls, [['[avax-cpoe] Pairing verification failed', { durationMs: 3 }]]);
+  console.log('✅ Console logger routes levels to matching console methods');
+
+  const zkLines: string[] = [];
+  const zkGenerator = new ProductionZKProofGenerator({
+    logger: new JsonLinesLogger({ level: 'debug', write: line => zkLines.push(line) }),
+    verificationKey: groth16Fixture(['1', '2', '3', '4', '5']).verificationKey
+  });
+  const proof = {
+    eventId: '0xevent',
+    proof: { a: ['1', '2'], b: [['1', '2'], ['3', '4']], c: ['1', '2'], publicSignals: ['1', '2', '3', '4', '5'] }
+  };
+  const verdict = await zkGenerator.verifyProductionProof(proof);
+  assert.strictEqual(verdict.isValid, false);
+  const messages = zkLines.map(line => JSON.parse(line).msg);
+  assert.ok(messages.includes('Verifying production ZK proof'));
+  assert.ok(messages.includes('Production ZK proof rejected'));
+  assert.ok(zkLines.every(line => typeof JSON.parse(line).time === 'string'));
+  console.log('✅ ZK generator writes to the injected logger');
+}
+
 // Run the test
-testAvaxCPoE().catch(console.error);
+testAvaxCPoE()
+  .then(testReceiptTrie)
+  .then(testMerkleTree)
+  .then(testPoseidonTree)
+  .then(testNullifier)
+  .then(testStakeNotes)
+  .then(testSecretManager)
+  .then(testRangeProofs)
+  .then(testArtifactSources)
+  .then(testGroth16Verifier)
+  .then(testSolidityVerifier)
+  .then(testCircuitArtifacts)
+  .then(testCircuitRegistry)
+  .then(testBuiltCircuit)
+  .then(testBlockHeader)
+  .then(testWarpSignatures)
+  .then(testBatchProof)
+  .then(testFinality)
+  .then(testProofSchema)
+  .then(testProofCodec)
+  .then(testEventMatcher)
+  .then(testErrors)
+  .then(testLogging)
+  .catch(error => {
+    console.error('❌ Test failed:', error);
+    process.exit(1);
+  });
@@ -7,8 +7,8 @@ const FUJI_RPC = "https://api.avax-test.network/ext/bc/C/rpc";
 
 // Real ZK Verifier ABI (essential functions)
 const ZK_VERIFIER_ABI = [
-    "function verifyTx(uint[2] memory _pA, uint[2][2] memory _pB, uint[2] memory _pC, uint[3] memory input) public returns (bool)",
-    "function borrowWithRealZKProof(uint[2] memory _pA, uint[2][2] memory _pB, uint[2] memory _pC, uint[3] memory publicInputs, address user) external",
+    "function verifyTx(uint[2] memory _pA, uint[2][2] memory _pB, uint[2] memory _pC, uint[7] memory input) public returns (bool)",
+    "function borrowWithRealZKProof(uint[2] memory _pA, uint[2][2] memory _pB, uint[2] memory _pC, uint[7] memory publicInputs) external",
     "function isNullifierUsed(bytes32 nullifierHash) external view returns (bool)",
     "function getZKStats() external view returns (uint256, uint256, uint256, uint256)",
     "event ZKProofVerified(address indexed user, bool success, uint256 minAmountProven, bytes32 nullifierHash)",
@@ -59,9 +59,13 @@ async function testContractZKIntegration() {
                 "66666666666666666666666666666666666666666666666666666666666666666666666666666666"
             ],
             publicInputs: [
+                "1", // Circuit output: valid
                 "1000000000000000000", // 1 AVAX minimum
                 "123456789012345678901234567890", // Merkle root
-                "987654321098765432109876543210" // Nullifier hash
+                "987654321098765432109876543210", // Nullifier hash
+                "0", // Recipient: the only account that can use the proof
+                "43113", // Chain ID: Avalanche Fuji
+                "0" // External nullifier: the contract's EXTERNAL_NULLIFIER
             ]
         };
 
@@ -73,7 +77,7 @@ async function testContractZKIntegration() {
 
         // Test 2: Check if nullifier is already used
         console.log('\n🔍 Checking nullifier status...');
-        const nullifierHash = ethers.utils.keccak256(ethers.utils.defaultAbiCoder.encode(['uint256'], [mockProof.publicInputs[2]]));
+        const nullifierHash = ethers.utils.keccak256(ethers.utils.defaultAbiCoder.encode(['uint256'], [mockProof.publicInputs[3]]));
 
         try {
             const isUsed = await contract.isNullifierUsed(nullifierHash);
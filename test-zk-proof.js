@@ -64,9 +64,9 @@ async function testRealZKProof() {
 
         // Verify the proof
         console.log('🔍 Verifying REAL ZK proof...');
-        const isValid = await zkGenerator.verifyProductionProof(proof);
+        const { isValid, error } = await zkGenerator.verifyProductionProof(proof);
         
-        console.log(`✅ Proof Verification: ${isValid ? 'VALID' : 'INVALID'}\n`);
+        console.log(`✅ Proof Verification: ${isValid ? 'VALID' : `INVALID (${error.code})`}\n`);
 
         // Display proof structure
         console.log('🔧 Proof Structure:');